@@ -1,49 +1,204 @@
-import React, { useState, useEffect, useCallback, useRef } from 'react';
+import React, { useState, useEffect, useCallback, useRef, useMemo } from 'react';
 import { ProjectionCanvas } from './components/ProjectionCanvas';
 import { ShapeEditor } from './components/ShapeEditor';
 import { MappingList } from './components/MappingList';
-import { Shape, Point, ActiveNotesMap, AppMode, MidiMessage, MIDIAccess, MIDIInput, MIDIMessageEvent } from './types';
-import { parseMidiMessage, getNoteKey } from './utils/midiUtils';
+import { MidiInputPicker } from './components/MidiInputPicker';
+import { ProjectLibrary } from './components/ProjectLibrary';
+import { ImportReport } from './components/ImportReport';
+import { MappingCheckPanel } from './components/MappingCheckPanel';
+import { HistoryPanel } from './components/HistoryPanel';
+import { ScenesDialog } from './components/ScenesDialog';
+import { OutputPreview } from './components/OutputPreview';
+import { TempoDisplay } from './components/TempoDisplay';
+import { VirtualKeyboard } from './components/VirtualKeyboard';
+import { TakesPanel } from './components/TakesPanel';
+import { ExportDialog } from './components/ExportDialog';
+import { ReferencePanel } from './components/ReferencePanel';
+import { SelectionToolbar } from './components/SelectionToolbar';
+import { useHistory } from './hooks/useHistory';
+import { SceneTransition, findSceneForNote, findSceneForProgram } from './utils/scenes';
+import { Shape, ShapeGroup, ActiveNotesMap, ControllerValuesMap, ModulationSource, LearnTarget, Project, ProjectSettings, Scene, MediaAsset, AppMode, MidiMessage, MidiMessageType, ChannelMidiMessage, Take, TakeEvent, MIDIAccess, MIDIInput, MIDIMessageEvent } from './types';
+import { MidiParser, createMidiParser } from './utils/midiParser';
+import { DEFAULT_ENVELOPE } from './utils/envelope';
+import { DEFAULT_FILL } from './utils/fills';
+import { DEFAULT_EFFECT, DEFAULT_TEMPO } from './utils/effects';
+import { DEFAULT_OUTPUT_WARP } from './utils/homography';
+import { ShapeOutline } from './utils/geometry';
+import { ALIGN_EDGES, AlignEdge, alignOutlines, distributeOutlines } from './utils/arrange';
+import { LAYER_MOVE_LABELS, LayerMove, moveLayers, moveShapesTo } from './utils/layers';
+import { applyMappingCsv, mappingsToCsv } from './utils/mappingTable';
+import { findMappingIssues, getCoverageKey } from './utils/mappingCheck';
+import { cloneShapes, createGroup, getActiveGroups, setGroupMidi, syncGroupMidi } from './utils/groups';
+import { MAX_TEMPO, MIN_TEMPO, checkClockTimeout, handleClockMessage, registerTap, setInternalTempo } from './utils/clock';
+import { applyChannelMessage, createLiveState, markLiveStateChanged, preciseNow, LIVE_UI_SYNC_INTERVAL_MS } from './utils/liveState';
+import { DEFAULT_VIRTUAL_INPUT, VirtualInputSettings, getAuditionTarget } from './utils/virtualInput';
+import { TakePlayer, createTakePlayer } from './utils/takePlayer';
+import { createTake, trimLeadingSilence } from './utils/takes';
+import { parseMidiFile } from './utils/midiFile';
+import {
+  DEFAULT_VIDEO_EXPORT,
+  LiveVideoRecording,
+  VideoExportSettings,
+  downloadBlob,
+  getExportFileName,
+  getWebmMimeType,
+  renderTakeVideo,
+  shapesToSvg,
+  snapshotPng,
+  startLiveVideoRecording,
+} from './utils/outputExport';
+import { OutputMessage, OutputProjectState, openOutputChannel, postOutputMessage, getOutputWindowUrl } from './utils/outputSync';
+import {
+  createProject,
+  loadStoredProject,
+  putProject,
+  loadSetting,
+  storeSetting,
+  SETTING_LAST_PROJECT_ID,
+  SETTING_ENABLED_INPUT_NAMES,
+} from './utils/projectStorage';
+import { projectToFile, parseProjectText, ValidationIssue } from './utils/projectFormat';
+import { LEARN_TIMEOUT_MS, applyNoteLearn, applyControllerLearn, describeLearnTarget, learnFieldAcceptsRange } from './utils/midiLearn';
+import { getInputKey } from './utils/midiUtils';
+import { isTypingTarget } from './utils/keyboard';
 import { 
   Settings, 
   Maximize, 
   Download, 
   Upload, 
-  Cable, 
   Play, 
   Square,
   List,
   EyeOff,
-  Plus
+  Plus,
+  Radio,
+  X,
+  FolderOpen,
+  History,
+  Undo2,
+  Redo2,
+  Clapperboard,
+  Crosshair,
+  MonitorUp,
+  PictureInPicture2,
+  Gauge,
+  Keyboard,
+  Disc3,
+  Film,
+  ImageIcon,
+  ShieldCheck
 } from 'lucide-react';
 
+// How long edits settle before they are written to IndexedDB
+const AUTOSAVE_DELAY_MS = 400;
+
+const NO_ASSETS: MediaAsset[] = [];
+const NO_TAKES: Take[] = [];
+const NO_GROUPS: ShapeGroup[] = [];
+
+// Pastes and duplicates land this far (percent) from their originals, so they never hide them
+const PASTE_OFFSET = 2;
+
+// Everything about the open project except its (undoable) shapes
+type ProjectInfo = Omit<Project, 'shapes' | 'updatedAt'>;
+
 const App: React.FC = () => {
   // --- State ---
-  const [shapes, setShapes] = useState<Shape[]>([]);
-  const [selectedShapeId, setSelectedShapeId] = useState<string | null>(null);
+  // Every shape edit goes through the undo history
+  const history = useHistory<Shape[]>([], 'Open Project');
+  const shapes = history.value;
+  const commitShapes = history.commit;
+  const resetHistory = history.reset;
+  const [selectedShapeIds, setSelectedShapeIds] = useState<string[]>([]);
+  // The shape editor and point editing need exactly one selected shape
+  const selectedShapeId = selectedShapeIds.length === 1 ? selectedShapeIds[0] : null;
+  // Vertex of the selected shape picked on the canvas or in the editor, for nudging and deleting
+  const [selectedVertex, setSelectedVertex] = useState<number | null>(null);
+  useEffect(() => setSelectedVertex(null), [selectedShapeId]);
+  // Throttled copies of the live MIDI state for the UI; rendering reads liveStateRef directly
   const [activeNotes, setActiveNotes] = useState<ActiveNotesMap>(new Map());
+  const [controllerValues, setControllerValues] = useState<ControllerValuesMap>(new Map());
+  const [showStats, setShowStats] = useState(false);
   const [mode, setMode] = useState<AppMode>(AppMode.EDIT);
   const [showMatrix, setShowMatrix] = useState(false);
+  const [showHistory, setShowHistory] = useState(false);
+  const [showKeyboard, setShowKeyboard] = useState(false);
+  const [virtualInput, setVirtualInput] = useState<VirtualInputSettings>(DEFAULT_VIRTUAL_INPUT);
+  const [showTakes, setShowTakes] = useState(false);
+  const [selectedTakeId, setSelectedTakeId] = useState<string | null>(null);
+  const [recordingSince, setRecordingSince] = useState<number | null>(null);
+  const [takeImportError, setTakeImportError] = useState<string | null>(null);
+  const [calibrating, setCalibrating] = useState(false);
+  const [showReference, setShowReference] = useState(false);
+  const [showCheck, setShowCheck] = useState(false);
+  // Every channel/note played since the coverage map was last cleared, logged per message
+  // because a drum hit can start and end between two throttled activeNotes snapshots
+  const playedNotesRef = useRef<Set<string>>(new Set());
+  // ...and its throttled copy for the coverage map, synced with activeNotes
+  const [playedNotes, setPlayedNotes] = useState<Set<string>>(new Set());
   const [midiAccess, setMidiAccess] = useState<MIDIAccess | null>(null);
   const [midiInputs, setMidiInputs] = useState<MIDIInput[]>([]);
-  const [selectedInputId, setSelectedInputId] = useState<string>('');
+  // Enabled inputs are tracked by device name so they survive unplug/replug and new port ids
+  const [enabledInputNames, setEnabledInputNames] = useState<string[]>([]);
+  const [learnTarget, setLearnTarget] = useState<LearnTarget | null>(null);
+  const [projectInfo, setProjectInfo] = useState<ProjectInfo | null>(null);
+  const [showLibrary, setShowLibrary] = useState(false);
+  const [saveStatus, setSaveStatus] = useState<'saved' | 'saving' | 'error'>('saved');
+  const [importIssues, setImportIssues] = useState<{ fileName: string; issues: ValidationIssue[]; title?: string; outcome?: string } | null>(null);
+  const [showScenes, setShowScenes] = useState(false);
+  const [sceneTransition, setSceneTransition] = useState<SceneTransition | null>(null);
+  const [showPreview, setShowPreview] = useState(false);
+  const [outputConnected, setOutputConnected] = useState(false);
+  // Bumped when an output window asks for a snapshot, so both sync effects re-send
+  const [outputSnapshotRequest, setOutputSnapshotRequest] = useState(0);
+  const [showExport, setShowExport] = useState(false);
+  const [exportSettings, setExportSettings] = useState<VideoExportSettings>(DEFAULT_VIDEO_EXPORT);
+  const [videoRecordingSince, setVideoRecordingSince] = useState<number | null>(null);
+  const [renderProgress, setRenderProgress] = useState<number | null>(null);
+  const [exportError, setExportError] = useState<string | null>(null);
   
-  // Use a ref for active notes to update visually without always re-rendering entire React tree if we optimize later.
-  // For now, we sync ref to state for React rendering.
-  const activeNotesRef = useRef<ActiveNotesMap>(new Map());
+  // Written in place by the MIDI handler; the canvas renderers read it every frame
+  const liveStateRef = useRef(createLiveState());
+  const inputActivityRef = useRef<Map<string, number>>(new Map());
+  // One parser per input, so running status never carries over between devices
+  const midiParsersRef = useRef<Map<string, MidiParser>>(new Map());
+  // Messages captured since Record was pressed, timed against the precise clock
+  const recordingRef = useRef<{ startedAt: number; events: TakeEvent[] } | null>(null);
+  // Exports outlive the dialog, so a live recording carries on in Performance mode
+  const videoRecordingRef = useRef<LiveVideoRecording | null>(null);
+  const renderAbortRef = useRef<AbortController | null>(null);
+  // Copied shapes (with their groups) and how many times they were pasted, for the paste offset
+  const clipboardRef = useRef<{ shapes: Shape[]; groups: ShapeGroup[]; pastes: number } | null>(null);
+
+  // MIDI Learn: the armed target plus the keys collected so far (for two-key ranges)
+  const learnTargetRef = useRef<LearnTarget | null>(null);
+  learnTargetRef.current = learnTarget;
+  const learnSessionRef = useRef<{ inputId: string; channel: number; notes: Set<number>; held: Set<number> } | null>(null);
+
+  // Scene recall from MIDI reads the latest project without re-binding the handler
+  const projectInfoRef = useRef<ProjectInfo | null>(projectInfo);
+  projectInfoRef.current = projectInfo;
+
+  // Autosave bookkeeping: what was last written, and whether device choices were restored yet
+  const lastSavedRef = useRef<{ info: ProjectInfo | null; shapes: Shape[] }>({ info: projectInfo, shapes });
+  const inputNamesRestoredRef = useRef(false);
+  const outputChannelRef = useRef<BroadcastChannel | null>(null);
 
   // --- MIDI Setup ---
   useEffect(() => {
+    let savedInputNames: string[] | undefined;
+
     const onMIDISuccess = (access: MIDIAccess) => {
       setMidiAccess(access);
       const inputs = Array.from(access.inputs.values());
       setMidiInputs(inputs);
-      if (inputs.length > 0) {
-        setSelectedInputId(inputs[0].id);
-      }
+      // Restore the remembered devices by name, or start with every connected device enabled
+      setEnabledInputNames(savedInputNames ?? Array.from(new Set(inputs.map(input => input.name))));
+      inputNamesRestoredRef.current = true;
       
-      access.onstatechange = (e) => {
-        setMidiInputs(Array.from(access.inputs.values()));
+      // Hot-plug: refreshing the list re-runs the binding effect, which re-attaches enabled devices by name
+      access.onstatechange = () => {
+        setMidiInputs(Array.from(access.inputs.values()).filter(input => input.state !== 'disconnected'));
       };
     };
 
@@ -51,11 +206,130 @@ const App: React.FC = () => {
       console.error('Could not access your MIDI devices.');
     };
 
-    if ((navigator as any).requestMIDIAccess) {
-      (navigator as any).requestMIDIAccess().then(onMIDISuccess, onMIDIFailure);
-    }
+    loadSetting<string[]>(SETTING_ENABLED_INPUT_NAMES)
+      .then(names => { savedInputNames = names; })
+      .catch(err => console.error('Could not restore MIDI device selection.', err))
+      .finally(() => {
+        if ((navigator as any).requestMIDIAccess) {
+          (navigator as any).requestMIDIAccess().then(onMIDISuccess, onMIDIFailure);
+        }
+      });
+  }, []);
+
+  // Remember enabled devices by name once the initial selection is in place
+  useEffect(() => {
+    if (!inputNamesRestoredRef.current) return;
+    storeSetting(SETTING_ENABLED_INPUT_NAMES, enabledInputNames)
+      .catch(err => console.error('Could not save MIDI device selection.', err));
+  }, [enabledInputNames]);
+
+  // --- Projector Output Sync ---
+  useEffect(() => {
+    const channel = openOutputChannel();
+    if (!channel) return;
+    outputChannelRef.current = channel;
+    // Several output windows may be open; the output counts as connected until the last one closes
+    const openOutputIds = new Set<string>();
+
+    channel.onmessage = (event: MessageEvent<OutputMessage>) => {
+      if (event.data.type === 'hello') {
+        openOutputIds.add(event.data.outputId);
+        setOutputConnected(true);
+        setOutputSnapshotRequest(n => n + 1);
+      } else if (event.data.type === 'goodbye') {
+        openOutputIds.delete(event.data.outputId);
+        setOutputConnected(openOutputIds.size > 0);
+      }
+    };
+    return () => {
+      outputChannelRef.current = null;
+      channel.close();
+    };
+  }, []);
+
+  const outputProject = useMemo<OutputProjectState>(() => ({
+    shapes,
+    scenes: projectInfo?.scenes ?? [],
+    activeSceneId: projectInfo?.activeSceneId ?? null,
+    sceneTransition,
+    outputWarp: projectInfo?.settings.outputWarp ?? DEFAULT_OUTPUT_WARP,
+  }), [shapes, projectInfo, sceneTransition]);
+
+  const assets = projectInfo?.assets ?? NO_ASSETS;
+
+  // Edits and live MIDI state travel separately so note traffic never re-sends the whole project
+  useEffect(() => {
+    if (outputChannelRef.current) postOutputMessage(outputChannelRef.current, { type: 'project', state: outputProject });
+  }, [outputProject, outputSnapshotRequest]);
+
+  // Media can be large, so it is only sent when the asset list changes
+  useEffect(() => {
+    if (outputChannelRef.current) postOutputMessage(outputChannelRef.current, { type: 'assets', assets });
+  }, [assets, outputSnapshotRequest]);
+
+  // A live video recording follows edits and scene changes like the output window does
+  useEffect(() => {
+    videoRecordingRef.current?.setProject(outputProject, assets);
+  }, [outputProject, assets]);
+
+  // Live state goes out from wherever it changes, coalesced so several messages from one MIDI
+  // packet make one post. Not tied to requestAnimationFrame or a timer: browsers pause frames and
+  // throttle timers in a hidden or minimized editor window, which is normal while projecting.
+  const liveSentRef = useRef({ version: -1, clockRevision: -1, pending: false });
+  const postLiveState = useCallback(() => {
+    const sent = liveSentRef.current;
+    if (sent.pending) return;
+    sent.pending = true;
+    queueMicrotask(() => {
+      sent.pending = false;
+      const live = liveStateRef.current;
+      const channel = outputChannelRef.current;
+      if (!channel || (live.version === sent.version && live.clock.revision === sent.clockRevision)) return;
+      sent.version = live.version;
+      sent.clockRevision = live.clock.revision;
+      postOutputMessage(channel, {
+        type: 'live',
+        state: { activeNotes: live.activeNotes, controllerValues: live.controllerValues, clock: live.clock, messageAt: live.lastMessageAt },
+      });
+    });
   }, []);
 
+  // A newly opened output gets the current live state straight away
+  useEffect(() => {
+    liveSentRef.current.version = -1;
+    postLiveState();
+  }, [outputSnapshotRequest, postLiveState]);
+
+  // The header indicator and editor readouts only need to catch up a few times a second
+  useEffect(() => {
+    let syncedVersion = liveStateRef.current.version;
+    const interval = setInterval(() => {
+      const live = liveStateRef.current;
+      // Piggybacks here so a vanished MIDI clock hands over to the project tempo
+      checkClockTimeout(live.clock, projectInfoRef.current?.settings.tempo ?? DEFAULT_TEMPO, preciseNow());
+      postLiveState();
+      if (live.version === syncedVersion) return;
+      syncedVersion = live.version;
+      setActiveNotes(new Map(live.activeNotes));
+      setControllerValues(new Map(live.controllerValues));
+      // The log only grows between clears, so an unchanged size means nothing new was played
+      setPlayedNotes(prev => prev.size === playedNotesRef.current.size ? prev : new Set(playedNotesRef.current));
+    }, LIVE_UI_SYNC_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [postLiveState]);
+
+  // The project tempo runs the internal clock whenever no MIDI clock is being received
+  const projectTempo = projectInfo?.settings.tempo ?? DEFAULT_TEMPO;
+  useEffect(() => {
+    setInternalTempo(liveStateRef.current.clock, projectTempo, preciseNow());
+    postLiveState();
+  }, [projectTempo, postLiveState]);
+
+  const openOutputWindow = () => {
+    const output = window.open(getOutputWindowUrl(), 'lumamap-output', 'popup,width=960,height=540');
+    if (!output) alert('The output window was blocked. Allow pop-ups for this page and try again.');
+  };
+
   // --- Keyboard Shortcuts ---
   useEffect(() => {
     const handleGlobalKeyDown = (e: KeyboardEvent) => {
@@ -63,105 +337,701 @@ const App: React.FC = () => {
       if (e.key === 'Escape' && mode === AppMode.PERFORMANCE) {
         setMode(AppMode.EDIT);
       }
+      if (e.key === 'Escape') {
+        setLearnTarget(null);
+      }
+
+      // Undo / redo, leaving text fields to their native undo
+      const target = e.target as HTMLElement;
+      const isTextField = target.tagName === 'TEXTAREA'
+        || (target.tagName === 'INPUT' && ['text', 'number', 'search'].includes((target as HTMLInputElement).type));
+      if (mode === AppMode.EDIT && (e.ctrlKey || e.metaKey) && !isTextField) {
+        const key = e.key.toLowerCase();
+        if (key === 'z' && !e.shiftKey) {
+          e.preventDefault();
+          history.undo();
+        } else if ((key === 'z' && e.shiftKey) || key === 'y') {
+          e.preventDefault();
+          history.redo();
+        }
+      }
+
+      // Selection shortcuts; the canvas handles Delete itself while a point is selected
+      if (mode !== AppMode.EDIT || calibrating || isTypingTarget(target)) return;
+      if (e.ctrlKey || e.metaKey) {
+        const key = e.key.toLowerCase();
+        const action = {
+          a: () => setSelectedShapeIds(shapes.map(s => s.id)),
+          c: copySelection,
+          v: pasteClipboard,
+          d: duplicateSelection,
+          g: e.shiftKey ? ungroupSelection : groupSelection,
+          // Shift turns ] and [ into } and { on most layouts
+          ']': () => moveSelectionLayers(e.shiftKey ? 'front' : 'forward'),
+          '[': () => moveSelectionLayers(e.shiftKey ? 'back' : 'backward'),
+          '}': () => moveSelectionLayers('front'),
+          '{': () => moveSelectionLayers('back'),
+        }[key];
+        if (action) {
+          e.preventDefault();
+          action();
+        }
+      } else if ((e.key === 'Delete' || e.key === 'Backspace') && selectedVertex === null && selectedShapeIds.length > 0) {
+        e.preventDefault();
+        deleteShapes(selectedShapeIds);
+      }
     };
 
     window.addEventListener('keydown', handleGlobalKeyDown);
     return () => window.removeEventListener('keydown', handleGlobalKeyDown);
-  }, [mode]);
+  }, [mode, calibrating, history.undo, history.redo, shapes, selectedShapeIds, selectedVertex, projectInfo]);
 
   // --- MIDI Message Handling ---
-  const handleMidiMessage = useCallback((event: MIDIMessageEvent) => {
-    const { command, channel, note, velocity } = parseMidiMessage(event.data);
-    const key = getNoteKey(channel, note);
-    const newMap = new Map(activeNotesRef.current);
-
-    // Note On (usually 9, but sometimes 9 with vel 0 is note off)
-    if (command === 9 && velocity > 0) {
-      newMap.set(key, { velocity, timestamp: Date.now() });
-    } 
-    // Note Off (8) or Note On with 0 velocity
-    else if (command === 8 || (command === 9 && velocity === 0)) {
-      newMap.delete(key);
+  // Feeds an incoming message to an armed MIDI Learn. The message is still processed normally afterwards.
+  const handleLearnMessage = useCallback((inputId: string, message: ChannelMidiMessage) => {
+    const target = learnTargetRef.current;
+    if (!target) return;
+
+    const finish = (update: (shape: Shape) => Shape) => {
+      commitShapes(
+        prev => syncGroupMidi(prev.map(s => s.id === target.shapeId ? update(s) : s), projectInfoRef.current?.groups ?? [], target.shapeId),
+        'MIDI Learn'
+      );
+      learnSessionRef.current = null;
+      learnTargetRef.current = null;
+      setLearnTarget(null);
+    };
+
+    const { channel } = message;
+    if (target.kind === 'modulation') {
+      const sources: Partial<Record<MidiMessageType, ModulationSource>> = {
+        controlChange: 'cc', pitchBend: 'pitchBend', channelAftertouch: 'channelPressure', polyAftertouch: 'polyPressure',
+      };
+      const source = sources[message.type];
+      if (!source) return;
+      const controller = message.type === 'controlChange' ? message.controller : message.type === 'polyAftertouch' ? message.note : 0;
+      finish(shape => applyControllerLearn(shape, target.modulationId, source, channel, controller));
+      return;
+    }
+
+    if (message.type === 'noteOn') {
+      if (!learnSessionRef.current) {
+        learnSessionRef.current = { inputId, channel, notes: new Set(), held: new Set() };
+      }
+      const session = learnSessionRef.current;
+      session.notes.add(message.note);
+      session.held.add(message.note);
+      if (!learnFieldAcceptsRange(target.field)) {
+        finish(shape => applyNoteLearn(shape, target.field, session.inputId, session.channel, Array.from(session.notes)));
+      }
+    } else if (message.type === 'noteOff' && learnSessionRef.current) {
+      // A range is complete once every key played while armed has been let go
+      const session = learnSessionRef.current;
+      session.held.delete(message.note);
+      if (session.held.size === 0) {
+        finish(shape => applyNoteLearn(shape, target.field, session.inputId, session.channel, Array.from(session.notes)));
+      }
     }
-    
-    // We update the Ref immediately for logic
-    activeNotesRef.current = newMap;
-    // We update state to trigger render
-    setActiveNotes(newMap);
   }, []);
 
-  // Attach listener to selected input
+  // --- Scenes ---
+  // Switch the live scene, crossfading over the incoming scene's fade time
+  const activateScene = useCallback((sceneId: string | null) => {
+    const info = projectInfoRef.current;
+    if (!info || info.activeSceneId === sceneId) return;
+    const scene = info.scenes.find(s => s.id === sceneId);
+    setSceneTransition({
+      fromSceneId: info.activeSceneId,
+      toSceneId: sceneId,
+      startedAt: preciseNow(),
+      duration: scene?.crossfade ?? 0,
+    });
+    setProjectInfo(prev => prev && { ...prev, activeSceneId: sceneId });
+  }, []);
+
+  const activeScene = projectInfo?.scenes.find(s => s.id === projectInfo.activeSceneId);
+
+  const updateScene = (scene: Scene) => {
+    updateScenes(projectInfo!.scenes.map(s => s.id === scene.id ? scene : s));
+  };
+
+  const updateScenes = (scenes: Scene[]) => {
+    if (!projectInfo) return;
+    const activeSceneId = scenes.some(s => s.id === projectInfo.activeSceneId) ? projectInfo.activeSceneId : null;
+    setProjectInfo({ ...projectInfo, scenes, activeSceneId });
+  };
+
+  // Media is embedded in the project; assets are kept even when no shape uses them any more,
+  // so undoing a fill change never points at a missing asset
+  const addAsset = (asset: MediaAsset) => {
+    setProjectInfo(prev => prev && { ...prev, assets: [...prev.assets, asset] });
+  };
+
+  // Settings (warp, tempo) are per project and autosave with it, but are not part of the shape history
+  const updateSettings = (changes: Partial<ProjectSettings>) => {
+    setProjectInfo(prev => prev && { ...prev, settings: { ...prev.settings, ...changes } });
+  };
+
+  // Tapping sets the phase on every tap and the project tempo from the second tap on
+  const tapTempo = () => {
+    const tapped = registerTap(liveStateRef.current.clock, preciseNow());
+    if (tapped !== null) updateSettings({ tempo: Math.round(Math.max(MIN_TEMPO, Math.min(MAX_TEMPO, tapped)) * 10) / 10 });
+    postLiveState();
+  };
+
+  // Applies one decoded message to the live state, scenes and MIDI Learn
+  const applyMidiMessage = useCallback((message: MidiMessage, inputId: string, messageAt: number | undefined) => {
+    const live = liveStateRef.current;
+
+    // Clock and transport have no channel; they only drive the beat clock
+    if (handleClockMessage(live.clock, message, messageAt ?? preciseNow())) {
+      postLiveState();
+      return;
+    }
+    if (!('channel' in message)) return;
+
+    const { channel } = message;
+    inputActivityRef.current.set(inputId, Date.now());
+    handleLearnMessage(inputId, message);
+
+    const recording = recordingRef.current;
+    if (recording) recording.events.push({ time: (messageAt ?? preciseNow()) - recording.startedAt, inputId, message });
+
+    // Scene recalls by Program Change or trigger note; trigger notes still reach the shapes
+    if (message.type === 'programChange') {
+      const scene = findSceneForProgram(projectInfoRef.current?.scenes ?? [], channel, message.program);
+      if (scene) activateScene(scene.id);
+      return;
+    }
+    if (message.type === 'noteOn') {
+      playedNotesRef.current.add(getCoverageKey(channel, message.note));
+      const scene = findSceneForNote(projectInfoRef.current?.scenes ?? [], channel, message.note);
+      if (scene) activateScene(scene.id);
+    }
+    applyChannelMessage(live, inputId, message, preciseNow());
+    markLiveStateChanged(live, messageAt);
+    postLiveState();
+  }, [handleLearnMessage, activateScene, postLiveState]);
+
+  // Each port keeps its own parser for running status; messages are tagged with the device name
+  const handleMidiMessage = useCallback((event: MIDIMessageEvent, input: MIDIInput) => {
+    let parser = midiParsersRef.current.get(input.id);
+    if (!parser) midiParsersRef.current.set(input.id, parser = createMidiParser());
+    const { messages, errors } = parser.parse(event.data);
+    if (errors.length > 0) console.warn(`Skipped malformed MIDI from input ${input.name}`, errors);
+    const inputId = getInputKey(input);
+
+    // The event's own timestamp makes the latency readout include time spent queued before this handler
+    const messageAt = event.timeStamp !== undefined ? performance.timeOrigin + event.timeStamp : undefined;
+    for (const message of messages) applyMidiMessage(message, inputId, messageAt);
+  }, [applyMidiMessage]);
+
+  // On-screen keyboard, computer keys and auditions enter the pipeline after parsing, like any input
+  const sendVirtualMessage = useCallback((inputId: string, message: MidiMessage) => {
+    applyMidiMessage(message, inputId, preciseNow());
+  }, [applyMidiMessage]);
+
+  // --- Takes ---
+  // Playback feeds the same pipeline as live input; the player is created once and sends through a ref
+  const sendVirtualMessageRef = useRef(sendVirtualMessage);
+  sendVirtualMessageRef.current = sendVirtualMessage;
+  const takePlayerRef = useRef<TakePlayer | null>(null);
+  if (!takePlayerRef.current) {
+    takePlayerRef.current = createTakePlayer((inputId, message) => sendVirtualMessageRef.current(inputId, message));
+  }
+  const takePlayer = takePlayerRef.current;
+  useEffect(() => () => takePlayer.destroy(), [takePlayer]);
+
+  const takes = projectInfo?.takes ?? NO_TAKES;
+
+  // Load the chosen take into the player; a take deleted or left behind by a project switch unloads
+  useEffect(() => {
+    const take = takes.find(t => t.id === selectedTakeId) ?? null;
+    if (take?.id !== takePlayer.getStatus().takeId) takePlayer.load(take);
+    if (!take && selectedTakeId) setSelectedTakeId(null);
+  }, [takes, selectedTakeId, takePlayer]);
+
+  // Takes belong to the project (like assets), not to the shape undo history
+  const addTake = (take: Take) => {
+    setProjectInfo(prev => prev && { ...prev, takes: [...prev.takes, take] });
+    setSelectedTakeId(take.id);
+  };
+
+  const deleteTake = (id: string) => {
+    setProjectInfo(prev => prev && { ...prev, takes: prev.takes.filter(t => t.id !== id) });
+  };
+
+  const startRecording = () => {
+    takePlayer.pause();
+    recordingRef.current = { startedAt: preciseNow(), events: [] };
+    setRecordingSince(Date.now());
+  };
+
+  const stopRecording = () => {
+    const recording = recordingRef.current;
+    recordingRef.current = null;
+    setRecordingSince(null);
+    if (!recording || recording.events.length === 0) return;
+    addTake(createTake(`Take ${takes.length + 1}`, trimLeadingSilence(recording.events)));
+  };
+
+  const importMidiFile = async (file: File) => {
+    try {
+      const contents = parseMidiFile(await file.arrayBuffer());
+      if (contents.events.length === 0) throw new Error('The MIDI file has no notes or controllers to play.');
+      setTakeImportError(null);
+      addTake(createTake(contents.name ?? file.name.replace(/\.midi?$/i, ''), contents.events, contents.duration));
+    } catch (err) {
+      setTakeImportError((err as Error).message);
+    }
+  };
+
+  // Shapes being auditioned from the mapping list, with where their notes were sent
+  const auditionsRef = useRef<Map<string, ReturnType<typeof getAuditionTarget>>>(new Map());
+
+  const auditionShape = (shapeId: string, on: boolean) => {
+    const playing = auditionsRef.current.get(shapeId);
+    if (!on) {
+      if (!playing) return;
+      auditionsRef.current.delete(shapeId);
+      for (const note of playing.notes) {
+        sendVirtualMessage(playing.inputId, { type: 'noteOff', channel: playing.channel, note, velocity: 0 });
+      }
+      return;
+    }
+    const shape = shapes.find(s => s.id === shapeId);
+    if (!shape || playing) return;
+    const target = getAuditionTarget(shape, virtualInput);
+    auditionsRef.current.set(shapeId, target);
+    for (const note of target.notes) {
+      sendVirtualMessage(target.inputId, { type: 'noteOn', channel: target.channel, note, velocity: virtualInput.velocity });
+    }
+  };
+
+  // Arming a new target always starts a fresh learn session; disarm after a timeout
   useEffect(() => {
-    if (!midiAccess || !selectedInputId) return;
+    learnSessionRef.current = null;
+    if (!learnTarget) return;
+    const timeout = setTimeout(() => setLearnTarget(null), LEARN_TIMEOUT_MS);
+    return () => clearTimeout(timeout);
+  }, [learnTarget]);
 
-    const input = midiAccess.inputs.get(selectedInputId);
-    if (!input) return;
+  // Attach listeners to every enabled input
+  useEffect(() => {
+    if (!midiAccess) return;
 
-    input.onmidimessage = handleMidiMessage;
+    const boundInputs = midiInputs.filter(input => enabledInputNames.includes(input.name));
+    for (const input of boundInputs) {
+      input.onmidimessage = (event) => handleMidiMessage(event, input);
+    }
 
     return () => {
-      input.onmidimessage = null;
+      for (const input of boundInputs) {
+        input.onmidimessage = null;
+      }
     };
-  }, [midiAccess, selectedInputId, handleMidiMessage]);
+  }, [midiAccess, midiInputs, enabledInputNames, handleMidiMessage]);
+
+  // Projects saved before inputs were matched by name hold port ids; swap in the names of the
+  // devices connected now. It runs per project, not per edit, so undoing it sticks.
+  useEffect(() => {
+    const keys = new Map(midiInputs.filter(input => getInputKey(input) !== input.id).map(input => [input.id, getInputKey(input)]));
+    if (keys.size === 0) return;
+    commitShapes(
+      prev => prev.some(s => keys.has(s.inputId)) ? prev.map(s => keys.has(s.inputId) ? { ...s, inputId: keys.get(s.inputId)! } : s) : prev,
+      'Match Inputs by Name'
+    );
+  }, [midiInputs, projectInfo?.id, commitShapes]);
+
+  const toggleInput = (name: string) => {
+    setEnabledInputNames(prev => prev.includes(name) ? prev.filter(n => n !== name) : [...prev, name]);
+  };
 
   // --- Shape Management ---
-  const handleNewShape = (points: Point[]) => {
+  const handleNewShape = (outline: ShapeOutline) => {
     const newShape: Shape = {
       id: crypto.randomUUID(),
       name: `Shape ${shapes.length + 1}`,
-      points,
+      ...outline,
+      inputId: '', // Any input
       channel: 0, // Omni
       noteStart: 60, // Middle C
       noteEnd: 60,
       color: '#00ffcc',
       velocitySensitive: false,
       baseOpacity: 1.0,
+      fill: { ...DEFAULT_FILL },
+      effect: { ...DEFAULT_EFFECT },
+      distribution: 'whole',
+      envelope: { ...DEFAULT_ENVELOPE },
+      modulations: [],
+      groupId: null,
+      blendMode: 'normal',
+      mask: 'none',
+    };
+    addShapes([newShape], 'Draw Shape');
+  };
+
+  // Adds and selects new shapes (plus any groups made for them) as one undo step
+  const addShapes = (newShapes: Shape[], label: string, newGroups: ShapeGroup[] = []) => {
+    commitShapes(prev => [...prev, ...newShapes], label);
+    setSelectedShapeIds(newShapes.map(s => s.id));
+    if (!projectInfo) return;
+
+    // Shapes added while a scene is live join that scene so they don't vanish
+    const scenes = activeScene
+      ? projectInfo.scenes.map(s => s.id === activeScene.id
+        ? { ...s, members: { ...s.members, ...Object.fromEntries(newShapes.map(shape => [shape.id, {}])) } }
+        : s)
+      : projectInfo.scenes;
+    setProjectInfo({ ...projectInfo, scenes, groups: [...projectInfo.groups, ...newGroups] });
+  };
+
+  // `mergeKey` folds continuous edits (drags, slider scrubs, typing) into one undo step
+  // Group members that share MIDI follow any input or channel change
+  const updateShape = useCallback((updated: Shape, label: string = 'Edit Shape', mergeKey?: string) => {
+    commitShapes(
+      prev => syncGroupMidi(prev.map(s => s.id === updated.id ? updated : s), projectInfoRef.current?.groups ?? [], updated.id),
+      label,
+      mergeKey
+    );
+  }, [commitShapes]);
+
+  // Whole-shape edits (move, scale, rotate, align, bulk mapping edits) on several shapes at once
+  const updateShapes = useCallback((updated: Shape[], label: string, mergeKey?: string) => {
+    const byId = new Map(updated.map(s => [s.id, s]));
+    const groups = projectInfoRef.current?.groups ?? [];
+    commitShapes(
+      prev => updated.reduce((next, shape) => syncGroupMidi(next, groups, shape.id), prev.map(s => byId.get(s.id) ?? s)),
+      label,
+      mergeKey
+    );
+  }, [commitShapes]);
+
+  const deleteShapes = (ids: string[]) => {
+    commitShapes(prev => prev.filter(s => !ids.includes(s.id)), ids.length > 1 ? 'Delete Shapes' : 'Delete Shape');
+    setSelectedShapeIds(prev => prev.filter(id => !ids.includes(id)));
+    if (learnTarget && ids.includes(learnTarget.shapeId)) setLearnTarget(null);
+  };
+
+  const deleteShape = (id: string) => deleteShapes([id]);
+
+  // --- Selection ---
+  const groups = projectInfo?.groups ?? NO_GROUPS;
+  const selectedShapes = shapes.filter(s => selectedShapeIds.includes(s.id));
+
+  const copySelection = () => {
+    if (selectedShapes.length === 0) return;
+    const copiedGroups = groups.filter(g => selectedShapes.some(s => s.groupId === g.id));
+    clipboardRef.current = { shapes: selectedShapes, groups: copiedGroups, pastes: 0 };
+  };
+
+  // Each paste of the same copy steps further away, so repeated pastes fan out
+  const pasteClipboard = () => {
+    const clipboard = clipboardRef.current;
+    if (!clipboard) return;
+    const offset = PASTE_OFFSET * (clipboard.pastes + 1);
+    const copy = cloneShapes(clipboard.shapes, clipboard.groups, offset, offset);
+    addShapes(copy.shapes, copy.shapes.length > 1 ? 'Paste Shapes' : 'Paste Shape', copy.groups);
+    clipboardRef.current = { ...clipboard, pastes: clipboard.pastes + 1 };
+  };
+
+  const duplicateSelection = () => {
+    if (selectedShapes.length === 0) return;
+    const copy = cloneShapes(selectedShapes, groups, PASTE_OFFSET, PASTE_OFFSET);
+    addShapes(copy.shapes, selectedShapes.length > 1 ? 'Duplicate Shapes' : 'Duplicate Shape', copy.groups);
+  };
+
+  const alignSelection = (edge: AlignEdge) => {
+    const label = ALIGN_EDGES.find(a => a.value === edge)?.label ?? 'Align';
+    updateShapes(alignOutlines(selectedShapes, edge), label);
+  };
+
+  const distributeSelection = (axis: 'x' | 'y') => {
+    updateShapes(distributeOutlines(selectedShapes, axis), axis === 'x' ? 'Distribute Horizontally' : 'Distribute Vertically');
+  };
+
+  // --- Layers ---
+  // The shapes array is the paint order: later shapes are drawn on top
+  const moveSelectionLayers = (move: LayerMove) => {
+    if (selectedShapeIds.length === 0) return;
+    commitShapes(prev => moveLayers(prev, selectedShapeIds, move), LAYER_MOVE_LABELS[move]);
+  };
+
+  const reorderShapes = (ids: string[], index: number) => {
+    commitShapes(prev => moveShapesTo(prev, ids, index), 'Reorder Shapes');
+  };
+
+  // --- Groups ---
+  // Group records live with the project like scenes; membership is on the shapes, so it undoes
+  const groupSelection = () => {
+    if (selectedShapes.length < 2 || !projectInfo) return;
+    const group = createGroup(`Group ${getActiveGroups(shapes, groups).length + 1}`);
+    setProjectInfo({ ...projectInfo, groups: [...projectInfo.groups, group] });
+    commitShapes(prev => prev.map(s => selectedShapeIds.includes(s.id) ? { ...s, groupId: group.id } : s), 'Group Shapes');
+  };
+
+  const ungroupShapes = (ids: string[]) => {
+    commitShapes(prev => prev.map(s => ids.includes(s.id) ? { ...s, groupId: null } : s), 'Ungroup Shapes');
+  };
+
+  const ungroupSelection = () => {
+    if (selectedShapes.some(s => s.groupId)) ungroupShapes(selectedShapeIds);
+  };
+
+  // Turning on shared MIDI brings every member in line with the group's first shape
+  const updateGroup = (group: ShapeGroup) => {
+    if (!projectInfo) return;
+    const nextGroups = projectInfo.groups.map(g => g.id === group.id ? group : g);
+    setProjectInfo({ ...projectInfo, groups: nextGroups });
+    const first = shapes.find(s => s.groupId === group.id);
+    if (group.shareMidi && first) {
+      commitShapes(prev => syncGroupMidi(prev, nextGroups, first.id), 'Share Group MIDI');
+    }
+  };
+
+  const setGroupChannel = (groupId: string, channel: number) => {
+    commitShapes(prev => setGroupMidi(prev, groupId, { channel }), 'Change Group Channel', `group-${groupId}-channel`);
+  };
+
+  // --- Project Library ---
+  const openProject = useCallback((project: Project) => {
+    const info: ProjectInfo = {
+      id: project.id,
+      name: project.name,
+      createdAt: project.createdAt,
+      // Groups emptied by earlier edits are dropped; the undo history starts over, so nothing refers to them
+      groups: project.groups.filter(g => project.shapes.some(s => s.groupId === g.id)),
+      scenes: project.scenes,
+      activeSceneId: project.activeSceneId,
+      assets: project.assets,
+      takes: project.takes,
+      settings: project.settings,
     };
-    setShapes([...shapes, newShape]);
-    setSelectedShapeId(newShape.id);
+    lastSavedRef.current = { info, shapes: project.shapes };
+    setProjectInfo(info);
+    setSceneTransition(null);
+    resetHistory(project.shapes, 'Open Project');
+    setSelectedShapeIds([]);
+    setLearnTarget(null);
+    setSaveStatus('saved');
+    storeSetting(SETTING_LAST_PROJECT_ID, project.id)
+      .catch(err => console.error('Could not remember the open project.', err));
+  }, [resetHistory]);
+
+  // Open a stored project; fields repaired on the way are reported, and saved so they are only reported once
+  const openStoredProject = useCallback((project: Project, repairs: ValidationIssue[] = []) => {
+    openProject(project);
+    if (repairs.length === 0) return;
+    setImportIssues({
+      fileName: project.name,
+      issues: repairs,
+      title: 'Repaired project',
+      outcome: 'These fields were reset or brought into range, and shapes that could never be drawn were removed, so it could open. Check them before performing.',
+    });
+    putProject(project).catch(err => console.error('Could not save the repaired project.', err));
+  }, [openProject]);
+
+  // Restore the last open project on startup, or start a fresh one
+  useEffect(() => {
+    const restore = async () => {
+      try {
+        const lastId = await loadSetting<string>(SETTING_LAST_PROJECT_ID);
+        const loaded = lastId ? await loadStoredProject(lastId) : undefined;
+        if (loaded?.project) {
+          openStoredProject(loaded.project, loaded.issues);
+          return;
+        }
+        // Never replace the last project without saying why
+        if (loaded) {
+          setImportIssues({
+            fileName: loaded.name,
+            issues: loaded.issues,
+            title: 'Could not reopen the last project',
+            outcome: 'It is still in the project library, unchanged.',
+          });
+        }
+      } catch (err) {
+        console.error('Could not restore the last project.', err);
+      }
+      const project = createProject('Untitled Project');
+      openProject(project);
+      putProject(project).catch(err => console.error('Could not create a project.', err));
+    };
+    restore();
+  }, [openProject, openStoredProject]);
+
+  const writeProject = useCallback(async (info: ProjectInfo, projectShapes: Shape[]) => {
+    setSaveStatus('saving');
+    try {
+      await putProject({ ...info, shapes: projectShapes, updatedAt: Date.now() });
+      lastSavedRef.current = { info, shapes: projectShapes };
+      setSaveStatus('saved');
+    } catch (err) {
+      console.error('Autosave failed.', err);
+      setSaveStatus('error');
+    }
+  }, []);
+
+  const isDirty = () =>
+    !!projectInfo && (shapes !== lastSavedRef.current.shapes || projectInfo !== lastSavedRef.current.info);
+
+  // Autosave shape, scene and settings edits once they settle
+  useEffect(() => {
+    if (!isDirty()) return;
+    const timeout = setTimeout(() => writeProject(projectInfo, shapes), AUTOSAVE_DELAY_MS);
+    return () => clearTimeout(timeout);
+  }, [shapes, projectInfo, writeProject]);
+
+  // Write pending edits before leaving the current project
+  const flushAutosave = async () => {
+    if (isDirty()) {
+      await writeProject(projectInfo!, shapes);
+    }
+  };
+
+  const switchProject = async (project: Project, repairs?: ValidationIssue[]) => {
+    await flushAutosave();
+    openStoredProject(project, repairs);
+    setShowLibrary(false);
   };
 
-  const updateShape = (updated: Shape) => {
-    setShapes(shapes.map(s => s.id === updated.id ? updated : s));
+  const handleProjectRenamed = (id: string, name: string) => {
+    if (projectInfo?.id === id) setProjectInfo({ ...projectInfo, name });
   };
 
-  const deleteShape = (id: string) => {
-    setShapes(shapes.filter(s => s.id !== id));
-    if (selectedShapeId === id) setSelectedShapeId(null);
+  // Deleting the open project moves on to a fresh one
+  const handleProjectDeleted = (id: string) => {
+    if (projectInfo?.id !== id) return;
+    const project = createProject('Untitled Project');
+    openProject(project);
+    putProject(project).catch(err => console.error('Could not create a project.', err));
   };
 
-  // --- Data Persistence ---
+  // --- File Import / Export ---
   const saveProject = () => {
-    const data = JSON.stringify(shapes, null, 2);
-    const blob = new Blob([data], { type: 'application/json' });
-    const url = URL.createObjectURL(blob);
-    const a = document.createElement('a');
-    a.href = url;
-    a.download = `lumamap-project-${new Date().toISOString().slice(0, 10)}.json`;
-    a.click();
-    URL.revokeObjectURL(url);
+    if (!projectInfo) return;
+    const file = projectToFile({ ...projectInfo, shapes, updatedAt: Date.now() });
+    const data = JSON.stringify(file, null, 2);
+    downloadBlob(new Blob([data], { type: 'application/json' }), `lumamap-project-${new Date().toISOString().slice(0, 10)}.json`);
   };
 
+  // --- Output Export ---
+  const exportName = projectInfo?.name ?? 'lumamap';
+
+  const exportSnapshot = async () => {
+    try {
+      setExportError(null);
+      downloadBlob(await snapshotPng(outputProject, assets, liveStateRef.current, exportSettings), getExportFileName(exportName, 'png'));
+    } catch (err) {
+      setExportError((err as Error).message);
+    }
+  };
+
+  const exportLayout = () => {
+    const svg = shapesToSvg(outputProject.shapes, exportSettings);
+    downloadBlob(new Blob([svg], { type: 'image/svg+xml' }), getExportFileName(exportName, 'svg'));
+  };
+
+  const startVideoRecording = () => {
+    try {
+      setExportError(null);
+      videoRecordingRef.current = startLiveVideoRecording(outputProject, assets, liveStateRef.current, exportSettings);
+      setVideoRecordingSince(Date.now());
+    } catch (err) {
+      setExportError((err as Error).message);
+    }
+  };
+
+  const stopVideoRecording = async () => {
+    const recording = videoRecordingRef.current;
+    videoRecordingRef.current = null;
+    setVideoRecordingSince(null);
+    if (recording) downloadBlob(await recording.stop(), getExportFileName(exportName, 'webm'));
+  };
+
+  const renderTake = async (takeId: string) => {
+    const take = takes.find(t => t.id === takeId);
+    if (!take || renderAbortRef.current) return;
+    const controller = new AbortController();
+    renderAbortRef.current = controller;
+    setExportError(null);
+    setRenderProgress(0);
+    try {
+      const blob = await renderTakeVideo(
+        outputProject,
+        assets,
+        take,
+        projectInfo?.settings.tempo ?? DEFAULT_TEMPO,
+        exportSettings,
+        setRenderProgress,
+        controller.signal
+      );
+      downloadBlob(blob, getExportFileName(`${exportName} ${take.name}`, 'webm'));
+    } catch (err) {
+      if ((err as Error).name !== 'AbortError') setExportError((err as Error).message);
+    } finally {
+      renderAbortRef.current = null;
+      setRenderProgress(null);
+    }
+  };
+
+  // Imported files are migrated and validated, then open as a new project in the library
   const loadProject = (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
     if (!file) return;
     const reader = new FileReader();
-    reader.onload = (event) => {
+    reader.onload = async (event) => {
+      const result = parseProjectText(event.target?.result as string);
+      if (!result.file) {
+        setImportIssues({ fileName: file.name, issues: result.issues });
+        return;
+      }
       try {
-        const parsed = JSON.parse(event.target?.result as string);
-        if (Array.isArray(parsed)) {
-          setShapes(parsed);
-          alert('Project loaded successfully!');
-        }
+        const name = result.file.metadata.name || file.name.replace(/\.json$/i, '');
+        const project = createProject(
+          name,
+          result.file.shapes,
+          result.file.settings,
+          result.file.scenes,
+          result.file.activeSceneId,
+          result.file.assets,
+          result.file.takes,
+          result.file.groups
+        );
+        await putProject(project);
+        await switchProject(project);
       } catch (err) {
         console.error(err);
-        alert('Failed to load project file.');
+        setImportIssues({ fileName: file.name, issues: [{ path: '', message: 'The project could not be saved to the library.' }] });
       }
     };
     reader.readAsText(file);
+    e.target.value = '';
+  };
+
+  // The mapping table round-trips through spreadsheets; imports only edit existing shapes
+  const exportMappingCsv = () => {
+    downloadBlob(new Blob([mappingsToCsv(shapes)], { type: 'text/csv' }), getExportFileName(`${exportName} mappings`, 'csv'));
+  };
+
+  const importMappingCsv = async (file: File) => {
+    const result = applyMappingCsv(shapes, await file.text());
+    if (result.issues.length > 0) {
+      setImportIssues({ fileName: file.name, issues: result.issues, title: 'Could not import mappings' });
+      return;
+    }
+    updateShapes(result.shapes.filter(s => result.updatedIds.includes(s.id)), 'Import Mappings');
   };
 
   const selectedShape = shapes.find(s => s.id === selectedShapeId);
+  const mappingIssues = useMemo(() => findMappingIssues(shapes), [shapes]);
+  const mappingErrorCount = mappingIssues.filter(i => i.severity === 'error').length;
+
+  const clearPlayedNotes = () => {
+    playedNotesRef.current.clear();
+    setPlayedNotes(new Set());
+  };
 
   return (
     <div className="flex flex-col w-full h-screen bg-black text-white overflow-hidden">
@@ -174,22 +1044,65 @@ const App: React.FC = () => {
               LumaMap
             </h1>
             
+            <button
+              onClick={() => {
+                flushAutosave();
+                setShowLibrary(true);
+              }}
+              className="flex items-center gap-2 text-sm text-gray-300 hover:text-white transition-colors max-w-[220px]"
+              title="Project Library"
+            >
+              <FolderOpen size={16} className="shrink-0" />
+              <span className="truncate">{projectInfo?.name ?? 'Loading…'}</span>
+            </button>
+            <span className={`text-xs ${saveStatus === 'error' ? 'text-red-400' : 'text-gray-500'}`}>
+              {saveStatus === 'saving' ? 'Saving…' : saveStatus === 'error' ? 'Not saved' : 'Saved'}
+            </span>
+
             <div className="h-6 w-px bg-gray-700 mx-2"></div>
             
+            <MidiInputPicker
+              inputs={midiInputs}
+              enabledNames={enabledInputNames}
+              activityRef={inputActivityRef}
+              onToggle={toggleInput}
+            />
+            
             <div className="flex items-center gap-2 text-sm text-gray-400">
-              <Cable size={16} />
-              <select 
-                value={selectedInputId}
-                onChange={(e) => setSelectedInputId(e.target.value)}
-                className="bg-gray-800 border border-gray-700 rounded px-2 py-1 text-white outline-none focus:ring-1 focus:ring-cyan-500 max-w-[200px]"
+              <Clapperboard size={16} />
+              <select
+                value={projectInfo?.activeSceneId ?? ''}
+                onChange={(e) => activateScene(e.target.value || null)}
+                className="bg-gray-800 border border-gray-700 rounded px-2 py-1 text-white outline-none focus:ring-1 focus:ring-cyan-500 max-w-[160px]"
+                title="Live Scene"
               >
-                {midiInputs.length === 0 && <option value="">No MIDI Devices</option>}
-                {midiInputs.map(input => (
-                  <option key={input.id} value={input.id}>{input.name}</option>
+                <option value="">All Shapes</option>
+                {projectInfo?.scenes.map(scene => (
+                  <option key={scene.id} value={scene.id}>{scene.name}</option>
                 ))}
               </select>
+              <button onClick={() => setShowScenes(true)} className="p-1 hover:text-cyan-400 transition-colors" title="Edit Scenes">
+                <Settings size={16} />
+              </button>
             </div>
-            
+
+            <TempoDisplay
+              clock={liveStateRef.current.clock}
+              tempo={projectInfo?.settings.tempo ?? DEFAULT_TEMPO}
+              onTempoChange={(tempo) => updateSettings({ tempo })}
+              onTap={tapTempo}
+            />
+
+            {learnTarget && (
+              <span className="flex items-center gap-2 text-xs text-amber-400 bg-amber-500/10 border border-amber-400/40 rounded-full px-3 py-1">
+                <Radio size={12} className="animate-pulse" />
+                <span className="max-w-[320px] truncate">Learn: {describeLearnTarget(learnTarget, shapes)}</span>
+                <button onClick={() => setLearnTarget(null)} className="hover:text-white" title="Cancel MIDI Learn (Esc)">
+                  <X size={12} />
+                </button>
+              </span>
+            )}
+
             {activeNotes.size > 0 && (
                <span className="flex items-center gap-1 text-xs text-green-400 animate-pulse">
                  <span className="w-2 h-2 rounded-full bg-green-400 block"></span>
@@ -206,18 +1119,104 @@ const App: React.FC = () => {
                <List size={16} /> Matrix
              </button>
 
+             <button
+               onClick={() => setShowKeyboard(!showKeyboard)}
+               className={`flex items-center gap-2 px-3 py-1.5 rounded text-sm transition-colors ${showKeyboard ? 'bg-gray-800 text-white' : 'text-gray-400 hover:text-white'}`}
+               title="On-screen keyboard and pads (play from the computer keyboard too)"
+             >
+               <Keyboard size={16} /> Keys
+             </button>
+
+             <button
+               onClick={() => setShowTakes(!showTakes)}
+               className={`relative flex items-center gap-2 px-3 py-1.5 rounded text-sm transition-colors ${showTakes ? 'bg-gray-800 text-white' : 'text-gray-400 hover:text-white'}`}
+               title="Record, import and play back MIDI takes"
+             >
+               <Disc3 size={16} /> Takes
+               {recordingSince !== null && <span className="absolute top-1 right-1 w-1.5 h-1.5 rounded-full bg-red-500 animate-pulse" />}
+             </button>
+
+             <button
+               onClick={() => setShowCheck(!showCheck)}
+               className={`relative flex items-center gap-2 px-3 py-1.5 rounded text-sm transition-colors ${showCheck ? 'bg-gray-800 text-white' : 'text-gray-400 hover:text-white'}`}
+               title="Check mappings for conflicts and see which notes are covered"
+             >
+               <ShieldCheck size={16} /> Check
+               {mappingIssues.length > 0 && (
+                 <span className={`absolute top-1 right-1 w-1.5 h-1.5 rounded-full ${mappingErrorCount > 0 ? 'bg-red-500' : 'bg-amber-400'}`} />
+               )}
+             </button>
+
+             <button
+               onClick={() => setShowReference(!showReference)}
+               className={`flex items-center gap-2 px-3 py-1.5 rounded text-sm transition-colors ${showReference ? 'bg-gray-800 text-white' : 'text-gray-400 hover:text-white'}`}
+               title="Trace over a photo or webcam view of the real surface"
+             >
+               <ImageIcon size={16} /> Reference
+             </button>
+
+             <button 
+               onClick={() => setCalibrating(!calibrating)}
+               className={`flex items-center gap-2 px-3 py-1.5 rounded text-sm transition-colors ${calibrating ? 'bg-amber-500/20 text-amber-300' : 'text-gray-400 hover:text-white'}`}
+               title="Corner-pin the output to the projection surface"
+             >
+               <Crosshair size={16} /> Calibrate
+             </button>
+
+             <button 
+               onClick={() => setShowHistory(!showHistory)}
+               className={`flex items-center gap-2 px-3 py-1.5 rounded text-sm transition-colors ${showHistory ? 'bg-gray-800 text-white' : 'text-gray-400 hover:text-white'}`}
+             >
+               <History size={16} /> History
+             </button>
+             <button onClick={history.undo} disabled={!history.canUndo} className="p-2 text-gray-400 hover:text-cyan-400 transition-colors disabled:opacity-30 disabled:hover:text-gray-400" title="Undo (Ctrl+Z)">
+                <Undo2 size={18} />
+             </button>
+             <button onClick={history.redo} disabled={!history.canRedo} className="p-2 text-gray-400 hover:text-cyan-400 transition-colors disabled:opacity-30 disabled:hover:text-gray-400" title="Redo (Ctrl+Shift+Z)">
+                <Redo2 size={18} />
+             </button>
+
              <div className="h-6 w-px bg-gray-700 mx-1"></div>
 
-             <button onClick={saveProject} className="p-2 text-gray-400 hover:text-cyan-400 transition-colors" title="Save Project">
+             <button
+               onClick={() => setShowExport(true)}
+               className="relative p-2 text-gray-400 hover:text-cyan-400 transition-colors"
+               title="Export Video, Snapshot or Layout"
+             >
+                <Film size={18} />
+                {(videoRecordingSince !== null || renderProgress !== null) && <span className="absolute top-1 right-1 w-1.5 h-1.5 rounded-full bg-red-500 animate-pulse" />}
+             </button>
+             <button onClick={saveProject} className="p-2 text-gray-400 hover:text-cyan-400 transition-colors" title="Export Project File">
                 <Download size={18} />
              </button>
-             <label className="p-2 text-gray-400 hover:text-cyan-400 transition-colors cursor-pointer" title="Load Project">
+             <label className="p-2 text-gray-400 hover:text-cyan-400 transition-colors cursor-pointer" title="Import Project File">
                 <Upload size={18} />
                 <input type="file" accept=".json" onChange={loadProject} className="hidden" />
              </label>
 
              <div className="h-6 w-px bg-gray-700 mx-1"></div>
 
+             <button
+               onClick={() => setShowStats(!showStats)}
+               className={`p-2 transition-colors ${showStats ? 'text-cyan-400' : 'text-gray-400 hover:text-cyan-400'}`}
+               title="Render Stats (FPS / latency)"
+             >
+                <Gauge size={18} />
+             </button>
+             <button onClick={openOutputWindow} className="relative p-2 text-gray-400 hover:text-cyan-400 transition-colors" title="Open Projector Output Window">
+                <MonitorUp size={18} />
+                {outputConnected && <span className="absolute top-1 right-1 w-1.5 h-1.5 rounded-full bg-green-400" />}
+             </button>
+             <button
+               onClick={() => setShowPreview(!showPreview)}
+               className={`p-2 transition-colors ${showPreview ? 'text-cyan-400' : 'text-gray-400 hover:text-cyan-400'}`}
+               title="Output Preview"
+             >
+                <PictureInPicture2 size={18} />
+             </button>
+
+             <div className="h-6 w-px bg-gray-700 mx-1"></div>
+
              <button
                onClick={() => setMode(AppMode.PERFORMANCE)}
                className="flex items-center gap-2 bg-gradient-to-r from-cyan-600 to-blue-600 hover:from-cyan-500 hover:to-blue-500 text-white px-4 py-1.5 rounded-full font-medium text-sm transition-all shadow-lg shadow-cyan-900/20"
@@ -235,18 +1234,88 @@ const App: React.FC = () => {
         <div className="flex-1 relative z-10">
           <ProjectionCanvas 
             shapes={shapes}
-            activeNotes={activeNotes}
+            assets={assets}
+            live={liveStateRef.current}
+            scenes={projectInfo?.scenes ?? []}
+            activeSceneId={projectInfo?.activeSceneId ?? null}
+            sceneTransition={sceneTransition}
+            outputWarp={projectInfo?.settings.outputWarp ?? DEFAULT_OUTPUT_WARP}
+            reference={projectInfo?.settings.reference}
+            calibrating={calibrating}
+            onWarpChange={(outputWarp) => updateSettings({ outputWarp })}
+            onCalibrationDone={() => setCalibrating(false)}
+            showStats={showStats}
             mode={mode}
-            selectedShapeId={selectedShapeId}
-            onShapeSelect={setSelectedShapeId}
+            selectedShapeIds={selectedShapeIds}
+            onSelectionChange={setSelectedShapeIds}
             onShapeUpdate={updateShape}
-            onNewShapePoints={handleNewShape}
+            onShapesUpdate={updateShapes}
+            onNewShape={handleNewShape}
+            selectedVertexIndex={selectedVertex}
+            onVertexSelect={setSelectedVertex}
           />
+          {mode === AppMode.EDIT && !calibrating && selectedShapes.length > 0 && (
+            <SelectionToolbar
+              count={selectedShapes.length}
+              canUngroup={selectedShapes.some(s => s.groupId)}
+              onAlign={alignSelection}
+              onDistribute={distributeSelection}
+              onLayerMove={moveSelectionLayers}
+              onDuplicate={duplicateSelection}
+              onGroup={groupSelection}
+              onUngroup={ungroupSelection}
+              onDelete={() => deleteShapes(selectedShapeIds)}
+            />
+          )}
+          {mode === AppMode.EDIT && showCheck && (
+            <MappingCheckPanel
+              shapes={shapes}
+              issues={mappingIssues}
+              activeNotes={activeNotes}
+              playedNotes={playedNotes}
+              onClearPlayed={clearPlayedNotes}
+              onSelect={setSelectedShapeIds}
+              onClose={() => setShowCheck(false)}
+            />
+          )}
+          {mode === AppMode.EDIT && showReference && projectInfo && (
+            <ReferencePanel
+              reference={projectInfo.settings.reference}
+              assets={assets}
+              onChange={(reference) => updateSettings({ reference })}
+              onAddAsset={addAsset}
+              onClose={() => setShowReference(false)}
+            />
+          )}
+          {mode === AppMode.EDIT && showTakes && (
+            <TakesPanel
+              takes={takes}
+              selectedTakeId={selectedTakeId}
+              player={takePlayer}
+              recordingSince={recordingSince}
+              importError={takeImportError}
+              onSelect={setSelectedTakeId}
+              onRecord={startRecording}
+              onStopRecording={stopRecording}
+              onImport={importMidiFile}
+              onDelete={deleteTake}
+              onClose={() => setShowTakes(false)}
+            />
+          )}
+          {mode === AppMode.EDIT && showPreview && (
+            <OutputPreview
+              project={outputProject}
+              assets={assets}
+              live={liveStateRef.current}
+              outputConnected={outputConnected}
+              onClose={() => setShowPreview(false)}
+            />
+          )}
         </div>
 
         {/* Matrix View Overlay (only in Edit mode) */}
         {mode === AppMode.EDIT && showMatrix && (
-          <div className="absolute top-0 left-0 bottom-0 w-96 bg-gray-900/95 backdrop-blur-sm border-r border-gray-700 z-30 flex flex-col transform transition-transform duration-300">
+          <div className="absolute top-0 left-0 bottom-0 w-[44rem] max-w-full bg-gray-900/95 backdrop-blur-sm border-r border-gray-700 z-30 flex flex-col transform transition-transform duration-300">
              <div className="p-4 border-b border-gray-800 flex justify-between items-center">
                 <h2 className="font-bold text-gray-200">Mappings Matrix</h2>
                 <button onClick={() => setShowMatrix(false)} className="text-gray-400 hover:text-white"><EyeOff size={16} /></button>
@@ -254,25 +1323,130 @@ const App: React.FC = () => {
              <div className="flex-1 overflow-y-auto custom-scrollbar">
                 <MappingList 
                   shapes={shapes}
-                  selectedId={selectedShapeId}
-                  onSelect={setSelectedShapeId}
+                  groups={groups}
+                  scenes={projectInfo?.scenes ?? []}
+                  activeSceneId={projectInfo?.activeSceneId ?? null}
+                  selectedIds={selectedShapeIds}
+                  learnTarget={learnTarget}
+                  onLearn={setLearnTarget}
+                  onSelect={setSelectedShapeIds}
                   onDelete={deleteShape}
+                  onAudition={auditionShape}
+                  onUpdateGroup={updateGroup}
+                  onGroupChannelChange={setGroupChannel}
+                  onUngroup={(groupId) => ungroupShapes(shapes.filter(s => s.groupId === groupId).map(s => s.id))}
+                  onReorder={reorderShapes}
+                  onUpdateShape={updateShape}
+                  onUpdateShapes={updateShapes}
+                  onExportCsv={exportMappingCsv}
+                  onImportCsv={importMappingCsv}
                 />
              </div>
           </div>
         )}
 
+        {/* Virtual Keyboard / Pads */}
+        {mode === AppMode.EDIT && showKeyboard && (
+          <VirtualKeyboard
+            settings={virtualInput}
+            inputs={midiInputs}
+            onSettingsChange={setVirtualInput}
+            onMessage={sendVirtualMessage}
+            onClose={() => setShowKeyboard(false)}
+          />
+        )}
+
+        {/* Undo History Panel */}
+        {mode === AppMode.EDIT && showHistory && (
+          <HistoryPanel
+            entries={history.entries}
+            index={history.index}
+            onJump={history.jumpTo}
+            onClose={() => setShowHistory(false)}
+          />
+        )}
+
         {/* Sidebar Editor (only in Edit mode when shape selected) */}
         {mode === AppMode.EDIT && selectedShape && (
           <ShapeEditor 
             shape={selectedShape}
+            controllerValues={controllerValues}
+            midiInputs={midiInputs}
+            activeScene={activeScene}
+            onUpdateScene={updateScene}
+            assets={assets}
+            onAddAsset={addAsset}
+            learnTarget={learnTarget}
+            onLearn={setLearnTarget}
             onUpdate={updateShape}
             onDelete={deleteShape}
-            onClose={() => setSelectedShapeId(null)}
+            group={groups.find(g => g.id === selectedShape.groupId)}
+            onClose={() => setSelectedShapeIds([])}
+            selectedVertexIndex={selectedVertex}
+            onVertexSelect={setSelectedVertex}
           />
         )}
       </div>
 
+      {/* Project Library Dialog */}
+      {mode === AppMode.EDIT && showLibrary && (
+        <ProjectLibrary
+          currentProjectId={projectInfo?.id ?? null}
+          onOpen={switchProject}
+          onRenamed={handleProjectRenamed}
+          onDeleted={handleProjectDeleted}
+          onClose={() => setShowLibrary(false)}
+        />
+      )}
+
+      {/* Scenes Dialog */}
+      {mode === AppMode.EDIT && showScenes && projectInfo && (
+        <ScenesDialog
+          scenes={projectInfo.scenes}
+          shapes={shapes}
+          activeSceneId={projectInfo.activeSceneId}
+          onChange={updateScenes}
+          onActivate={activateScene}
+          onClose={() => setShowScenes(false)}
+        />
+      )}
+
+      {/* Export Dialog */}
+      {mode === AppMode.EDIT && showExport && (
+        <ExportDialog
+          settings={exportSettings}
+          takes={takes}
+          videoSupported={getWebmMimeType() !== null}
+          recordingSince={videoRecordingSince}
+          renderProgress={renderProgress}
+          error={exportError}
+          onSettingsChange={setExportSettings}
+          onSnapshot={exportSnapshot}
+          onExportLayout={exportLayout}
+          onStartRecording={startVideoRecording}
+          onStopRecording={stopVideoRecording}
+          onRenderTake={renderTake}
+          onCancelRender={() => renderAbortRef.current?.abort()}
+          onClose={() => setShowExport(false)}
+        />
+      )}
+
+      {/* Import Problems Dialog */}
+      {importIssues && (
+        <ImportReport
+          fileName={importIssues.fileName}
+          issues={importIssues.issues}
+          title={importIssues.title}
+          outcome={importIssues.outcome}
+          onClose={() => setImportIssues(null)}
+        />
+      )}
+
+      {/* Video recording indicator; the recording renders separately, so this is not in the clip */}
+      {mode === AppMode.PERFORMANCE && videoRecordingSince !== null && (
+        <span className="absolute top-4 left-4 z-50 w-2 h-2 rounded-full bg-red-500/70 animate-pulse pointer-events-none" title="Recording video" />
+      )}
+
       {/* Performance Mode Exit Button (Floating) - Visual fallback */}
       {mode === AppMode.PERFORMANCE && (
         <button
@@ -0,0 +1,96 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { OutputWarp, Point } from '../types';
+import { DEFAULT_OUTPUT_WARP } from '../utils/homography';
+import { RotateCcw, Check } from 'lucide-react';
+
+interface CalibrationOverlayProps {
+  warp: OutputWarp;
+  onChange: (warp: OutputWarp) => void;
+  onDone: () => void;
+}
+
+const CORNER_LABELS = ['TL', 'TR', 'BR', 'BL'];
+
+// Unwarped overlay with draggable output corners, shown above the warped canvas while calibrating
+export const CalibrationOverlay: React.FC<CalibrationOverlayProps> = ({ warp, onChange, onDone }) => {
+  const overlayRef = useRef<HTMLDivElement>(null);
+  const [draggedCorner, setDraggedCorner] = useState<number | null>(null);
+
+  // Latest warp for the window listeners
+  const warpRef = useRef(warp);
+  warpRef.current = warp;
+
+  useEffect(() => {
+    if (draggedCorner === null) return;
+
+    const handleMouseMove = (e: MouseEvent) => {
+      if (!overlayRef.current) return;
+      const rect = overlayRef.current.getBoundingClientRect();
+      const point: Point = {
+        x: Math.max(-50, Math.min(150, ((e.clientX - rect.left) / rect.width) * 100)),
+        y: Math.max(-50, Math.min(150, ((e.clientY - rect.top) / rect.height) * 100)),
+      };
+      const corners = [...warpRef.current.corners];
+      corners[draggedCorner] = point;
+      onChange({ ...warpRef.current, enabled: true, corners });
+    };
+    const handleMouseUp = () => setDraggedCorner(null);
+
+    window.addEventListener('mousemove', handleMouseMove);
+    window.addEventListener('mouseup', handleMouseUp);
+    return () => {
+      window.removeEventListener('mousemove', handleMouseMove);
+      window.removeEventListener('mouseup', handleMouseUp);
+    };
+  }, [draggedCorner, onChange]);
+
+  return (
+    <div ref={overlayRef} className="absolute inset-0 z-20 pointer-events-none">
+      <svg className="w-full h-full absolute inset-0" viewBox="0 0 100 100" preserveAspectRatio="none">
+        <polygon
+          points={warp.corners.map(c => `${c.x},${c.y}`).join(' ')}
+          fill="none"
+          stroke="#f59e0b"
+          strokeWidth="1"
+          strokeDasharray="2 2"
+          vectorEffect="non-scaling-stroke"
+        />
+      </svg>
+
+      {warp.corners.map((corner, i) => (
+        <div
+          key={i}
+          className="absolute w-6 h-6 -ml-3 -mt-3 rounded-full border-2 border-amber-400 bg-amber-400/30 cursor-move pointer-events-auto flex items-center justify-center text-[8px] font-bold text-amber-200 hover:bg-amber-400/60"
+          style={{ left: `${corner.x}%`, top: `${corner.y}%` }}
+          onMouseDown={(e) => {
+            e.preventDefault();
+            e.stopPropagation();
+            setDraggedCorner(i);
+          }}
+        >
+          {CORNER_LABELS[i]}
+        </div>
+      ))}
+
+      <div className="absolute bottom-10 left-1/2 -translate-x-1/2 flex items-center gap-3 bg-black/80 text-white px-4 py-2 rounded-full text-sm backdrop-blur border border-amber-400/30 pointer-events-auto">
+        <span className="text-amber-400 font-semibold">Output Calibration</span>
+        <span className="text-gray-400">Drag the corners onto the surface</span>
+        <label className="flex items-center gap-1 text-gray-300">
+          <input
+            type="checkbox"
+            checked={warp.enabled}
+            onChange={(e) => onChange({ ...warp, enabled: e.target.checked })}
+            className="w-4 h-4 text-amber-500 rounded bg-gray-700 border-gray-600"
+          />
+          Warp on
+        </label>
+        <button onClick={() => onChange(DEFAULT_OUTPUT_WARP)} className="flex items-center gap-1 text-gray-300 hover:text-white" title="Reset Corners">
+          <RotateCcw size={14} /> Reset
+        </button>
+        <button onClick={onDone} className="flex items-center gap-1 text-amber-400 hover:text-amber-300">
+          <Check size={14} /> Done
+        </button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,68 @@
+import React from 'react';
+import { DRAW_TOOLS, DrawTool, MAX_POLYGON_SIDES, MIN_POLYGON_SIDES } from '../utils/drawingTools';
+import { SnapSettings } from '../utils/snapping';
+import { Circle, Grid3x3, Hexagon, Magnet, PenTool, Spline, Square } from 'lucide-react';
+
+interface DrawingToolbarProps {
+  tool: DrawTool;
+  sides: number;
+  snap: SnapSettings;
+  onToolChange: (tool: DrawTool) => void;
+  onSidesChange: (sides: number) => void;
+  onSnapChange: (snap: SnapSettings) => void;
+}
+
+const TOOL_ICONS: Record<DrawTool, React.ReactNode> = {
+  polygon: <PenTool size={16} />,
+  rectangle: <Square size={16} />,
+  ellipse: <Circle size={16} />,
+  regularPolygon: <Hexagon size={16} />,
+};
+
+const SNAP_TOGGLES: { key: keyof SnapSettings; label: string; icon: React.ReactNode }[] = [
+  { key: 'grid', label: 'Snap to the 5% grid', icon: <Grid3x3 size={16} /> },
+  { key: 'vertices', label: "Snap to other shapes' vertices", icon: <Magnet size={16} /> },
+  { key: 'edges', label: "Snap to other shapes' edges", icon: <Spline size={16} /> },
+];
+
+const buttonClass = (active: boolean) =>
+  `p-1.5 rounded transition-colors ${active ? 'bg-cyan-500/20 text-cyan-300' : 'text-gray-400 hover:text-white hover:bg-gray-800'}`;
+
+// Shape tools and snapping for the edit canvas; hold Alt while dragging to place freely
+export const DrawingToolbar: React.FC<DrawingToolbarProps> = ({ tool, sides, snap, onToolChange, onSidesChange, onSnapChange }) => (
+  <div
+    className="absolute top-4 left-1/2 -translate-x-1/2 z-20 flex items-center gap-1 bg-gray-900/90 backdrop-blur-sm border border-gray-700 rounded-lg px-2 py-1 shadow-xl"
+    onClick={(e) => e.stopPropagation()}
+  >
+    {DRAW_TOOLS.map(({ value, label }) => (
+      <button key={value} onClick={() => onToolChange(value)} className={buttonClass(tool === value)} title={label}>
+        {TOOL_ICONS[value]}
+      </button>
+    ))}
+    {tool === 'regularPolygon' && (
+      <input
+        type="number"
+        min={MIN_POLYGON_SIDES}
+        max={MAX_POLYGON_SIDES}
+        value={sides}
+        onChange={(e) => {
+          const value = parseInt(e.target.value);
+          if (!Number.isNaN(value)) onSidesChange(Math.max(MIN_POLYGON_SIDES, Math.min(MAX_POLYGON_SIDES, value)));
+        }}
+        className="w-12 bg-gray-800 border border-gray-700 rounded px-1 py-0.5 text-xs text-white outline-none focus:ring-1 focus:ring-cyan-500"
+        title="Sides"
+      />
+    )}
+    <div className="h-5 w-px bg-gray-700 mx-1" />
+    {SNAP_TOGGLES.map(({ key, label, icon }) => (
+      <button
+        key={key}
+        onClick={() => onSnapChange({ ...snap, [key]: !snap[key] })}
+        className={buttonClass(snap[key])}
+        title={`${label} (hold Alt to ignore)`}
+      >
+        {icon}
+      </button>
+    ))}
+  </div>
+);
@@ -0,0 +1,144 @@
+import React from 'react';
+import { EffectType, ShapeEffect, WipeDirection } from '../types';
+import { EFFECT_TYPES, MAX_CHASE_STEPS, STROBE_RATES, WIPE_DIRECTIONS } from '../utils/effects';
+
+interface EffectEditorProps {
+  effect: ShapeEffect;
+  segmentCount: number; // distributed shapes chase through their segments
+  onChange: (effect: ShapeEffect) => void;
+}
+
+const inputClass = 'w-full bg-gray-800 border border-gray-700 rounded px-2 py-1 text-xs focus:ring-2 focus:ring-cyan-500 outline-none';
+
+export const EffectEditor: React.FC<EffectEditorProps> = ({ effect, segmentCount, onChange }) => {
+  const update = (changes: Partial<ShapeEffect>) => onChange({ ...effect, ...changes });
+
+  const hasDuration = effect.type === 'flash' || effect.type === 'wipe' || effect.type === 'pulse';
+
+  return (
+    <div className="space-y-3">
+      <select
+        value={effect.type}
+        onChange={(e) => update({ type: e.target.value as EffectType })}
+        className={inputClass}
+      >
+        {EFFECT_TYPES.map(type => (
+          <option key={type.value} value={type.value}>{type.label}</option>
+        ))}
+      </select>
+
+      {hasDuration && (
+        <div>
+          <label className="block text-xs text-gray-400 mb-1">Duration: {effect.duration} ms</label>
+          <input
+            type="range"
+            min="20"
+            max="2000"
+            step="10"
+            value={effect.duration}
+            onChange={(e) => update({ duration: parseInt(e.target.value) })}
+            className="w-full accent-cyan-500 h-2 bg-gray-700 rounded-lg appearance-none cursor-pointer"
+          />
+        </div>
+      )}
+
+      {(effect.type === 'strobe' || effect.type === 'chase') && (
+        <div>
+          <label className="block text-xs text-gray-400 mb-1">{effect.type === 'chase' ? 'Step Length' : 'Rate'} (follows MIDI clock or project tempo)</label>
+          <select
+            value={effect.rate}
+            onChange={(e) => update({ rate: parseFloat(e.target.value) })}
+            className={inputClass}
+          >
+            {STROBE_RATES.map(rate => (
+              <option key={rate.value} value={rate.value}>{rate.label}</option>
+            ))}
+          </select>
+        </div>
+      )}
+
+      {effect.type === 'chase' && (segmentCount > 1 ? (
+        <div>
+          <label className="block text-xs text-gray-400 mb-1">Start Segment: {effect.step + 1}</label>
+          <input
+            type="range"
+            min="0"
+            max={segmentCount - 1}
+            value={Math.min(effect.step, segmentCount - 1)}
+            onChange={(e) => update({ step: parseInt(e.target.value), steps: Math.max(effect.steps, parseInt(e.target.value) + 1) })}
+            className="w-full accent-cyan-500 h-2 bg-gray-700 rounded-lg appearance-none cursor-pointer"
+          />
+          <p className="text-[11px] text-gray-500 mt-1">Steps through the {segmentCount} segments of this shape's note range.</p>
+        </div>
+      ) : (
+        <div className="grid grid-cols-2 gap-2">
+          <div>
+            <label className="block text-xs text-gray-400 mb-1">Steps</label>
+            <input
+              type="number"
+              min="1"
+              max={MAX_CHASE_STEPS}
+              value={effect.steps}
+              onChange={(e) => {
+                const steps = Math.max(1, Math.min(MAX_CHASE_STEPS, parseInt(e.target.value) || 1));
+                update({ steps, step: Math.min(effect.step, steps - 1) });
+              }}
+              className={inputClass}
+            />
+          </div>
+          <div>
+            <label className="block text-xs text-gray-400 mb-1">Lights on Step</label>
+            <input
+              type="number"
+              min="1"
+              max={effect.steps}
+              value={effect.step + 1}
+              onChange={(e) => update({ step: Math.max(0, Math.min(effect.steps - 1, (parseInt(e.target.value) || 1) - 1)) })}
+              className={inputClass}
+            />
+          </div>
+          <p className="col-span-2 text-[11px] text-gray-500">Give neighbouring shapes consecutive steps to chase across them.</p>
+        </div>
+      ))}
+
+      {effect.type === 'wipe' && (
+        <select
+          value={effect.direction}
+          onChange={(e) => update({ direction: e.target.value as WipeDirection })}
+          className={inputClass}
+        >
+          {WIPE_DIRECTIONS.map(direction => (
+            <option key={direction.value} value={direction.value}>{direction.label}</option>
+          ))}
+        </select>
+      )}
+
+      {effect.type === 'pulse' && (
+        <div>
+          <label className="block text-xs text-gray-400 mb-1">Amount: +{Math.round(effect.amount * 100)}%</label>
+          <input
+            type="range"
+            min="0.05"
+            max="1"
+            step="0.05"
+            value={effect.amount}
+            onChange={(e) => update({ amount: parseFloat(e.target.value) })}
+            className="w-full accent-cyan-500 h-2 bg-gray-700 rounded-lg appearance-none cursor-pointer"
+          />
+        </div>
+      )}
+
+      {effect.type !== 'none' && effect.type !== 'chase' && (
+        <label className="flex items-center gap-2 text-xs text-gray-300">
+          <input
+            type="checkbox"
+            checked={effect.velocityIntensity}
+            onChange={(e) => update({ velocityIntensity: e.target.checked })}
+            className="w-3.5 h-3.5 text-cyan-500 rounded focus:ring-cyan-500 bg-gray-700 border-gray-600"
+          />
+          Velocity scales intensity
+        </label>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,161 @@
+import React, { useState, useEffect } from 'react';
+import { Take } from '../types';
+import { EXPORT_FRAME_RATES, EXPORT_SIZES, VideoExportSettings } from '../utils/outputExport';
+import { formatTakeTime } from '../utils/takes';
+import { Camera, Circle, Film, PenTool, Square, X } from 'lucide-react';
+
+interface ExportDialogProps {
+  settings: VideoExportSettings;
+  takes: Take[];
+  videoSupported: boolean;
+  recordingSince: number | null;   // Date.now() when the live recording started, or null
+  renderProgress: number | null;   // 0-1 while a take is rendering, or null
+  error: string | null;
+  onSettingsChange: (settings: VideoExportSettings) => void;
+  onSnapshot: () => void;
+  onExportLayout: () => void;
+  onStartRecording: () => void;
+  onStopRecording: () => void;
+  onRenderTake: (takeId: string) => void;
+  onCancelRender: () => void;
+  onClose: () => void;
+}
+
+const inputClass = 'bg-gray-800 border border-gray-700 rounded px-2 py-1 text-sm text-white outline-none focus:ring-1 focus:ring-cyan-500';
+const actionClass = 'flex items-center gap-2 px-3 py-1.5 rounded text-sm transition-colors disabled:opacity-30';
+
+export const ExportDialog: React.FC<ExportDialogProps> = ({
+  settings, takes, videoSupported, recordingSince, renderProgress, error,
+  onSettingsChange, onSnapshot, onExportLayout, onStartRecording, onStopRecording, onRenderTake, onCancelRender, onClose,
+}) => {
+  const [takeId, setTakeId] = useState(takes[0]?.id ?? '');
+  const [, setTick] = useState(0);
+
+  const recording = recordingSince !== null;
+  const rendering = renderProgress !== null;
+  const take = takes.find(t => t.id === takeId);
+
+  // Keeps the recording time readout moving
+  useEffect(() => {
+    if (!recording) return;
+    const interval = setInterval(() => setTick(t => t + 1), 500);
+    return () => clearInterval(interval);
+  }, [recording]);
+
+  const sizeKey = `${settings.width}x${settings.height}`;
+
+  return (
+    <div className="absolute inset-0 z-50 bg-black/60 backdrop-blur-sm flex items-center justify-center" onClick={onClose}>
+      <div
+        className="w-[480px] flex flex-col bg-gray-900 border border-gray-700 rounded-xl shadow-2xl"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="p-4 border-b border-gray-800 flex justify-between items-center">
+          <div>
+            <h2 className="font-bold text-gray-200">Export Output</h2>
+            <p className="text-xs text-gray-500">Renders what the projector shows, unwarped, on black.</p>
+          </div>
+          <button onClick={onClose} className="text-gray-400 hover:text-white"><X size={18} /></button>
+        </div>
+
+        <div className="p-4 space-y-5">
+          <div className="flex items-center gap-3 text-sm text-gray-400">
+            <label className="flex items-center gap-2">
+              Size
+              <select
+                value={sizeKey}
+                disabled={recording || rendering}
+                onChange={(e) => {
+                  const size = EXPORT_SIZES.find(s => `${s.width}x${s.height}` === e.target.value);
+                  if (size) onSettingsChange({ ...settings, width: size.width, height: size.height });
+                }}
+                className={inputClass}
+              >
+                {EXPORT_SIZES.map(size => (
+                  <option key={size.label} value={`${size.width}x${size.height}`}>{size.label}</option>
+                ))}
+              </select>
+            </label>
+            <label className="flex items-center gap-2">
+              Frame rate
+              <select
+                value={settings.fps}
+                disabled={recording || rendering}
+                onChange={(e) => onSettingsChange({ ...settings, fps: parseInt(e.target.value) })}
+                className={inputClass}
+              >
+                {EXPORT_FRAME_RATES.map(fps => <option key={fps} value={fps}>{fps} fps</option>)}
+              </select>
+            </label>
+          </div>
+
+          <section className="space-y-2">
+            <h3 className="text-xs font-semibold text-gray-400 uppercase tracking-wider">Images</h3>
+            <div className="flex gap-2">
+              <button onClick={onSnapshot} className={`${actionClass} bg-gray-800 hover:bg-gray-700 text-gray-200`} title="The current frame as PNG">
+                <Camera size={14} /> PNG Snapshot
+              </button>
+              <button onClick={onExportLayout} className={`${actionClass} bg-gray-800 hover:bg-gray-700 text-gray-200`} title="Shape outlines and colors as SVG">
+                <PenTool size={14} /> SVG Layout
+              </button>
+            </div>
+          </section>
+
+          <section className="space-y-2">
+            <h3 className="text-xs font-semibold text-gray-400 uppercase tracking-wider">WebM Video</h3>
+            {!videoSupported && <p className="text-xs text-amber-400">This browser cannot record WebM video.</p>}
+
+            <div className="flex items-center gap-2">
+              <button
+                onClick={recording ? onStopRecording : onStartRecording}
+                disabled={!videoSupported || rendering}
+                className={`${actionClass} ${recording ? 'bg-red-500/20 text-red-400' : 'bg-gray-800 hover:bg-gray-700 text-gray-200'}`}
+              >
+                {recording ? <Square size={14} fill="currentColor" /> : <Circle size={14} className="text-red-400" />}
+                {recording ? 'Stop and Save' : 'Record Live'}
+              </button>
+              <span className="text-xs text-gray-500">
+                {recording
+                  ? <span className="font-mono text-red-400">REC {formatTakeTime(Date.now() - recordingSince)}</span>
+                  : 'Keeps recording in Performance mode.'}
+              </span>
+            </div>
+
+            <div className="flex items-center gap-2">
+              <select
+                value={takeId}
+                disabled={recording || rendering}
+                onChange={(e) => setTakeId(e.target.value)}
+                className={`${inputClass} flex-1 min-w-0`}
+              >
+                {takes.length === 0 && <option value="">No takes to render</option>}
+                {takes.map(t => <option key={t.id} value={t.id}>{t.name} ({formatTakeTime(t.duration)})</option>)}
+              </select>
+              {rendering ? (
+                <button onClick={onCancelRender} className={`${actionClass} bg-gray-800 hover:bg-gray-700 text-gray-200`}>
+                  <X size={14} /> Cancel
+                </button>
+              ) : (
+                <button
+                  onClick={() => take && onRenderTake(take.id)}
+                  disabled={!videoSupported || recording || !take}
+                  className={`${actionClass} bg-cyan-600 hover:bg-cyan-500 text-white`}
+                  title="Render the take frame by frame; takes as long as the take plays"
+                >
+                  <Film size={14} /> Render Take
+                </button>
+              )}
+            </div>
+            {rendering && (
+              <div className="h-1.5 bg-gray-800 rounded overflow-hidden">
+                <div className="h-full bg-cyan-500" style={{ width: `${Math.round((renderProgress ?? 0) * 100)}%` }} />
+              </div>
+            )}
+          </section>
+
+          {error && <p className="text-xs text-red-400">{error}</p>}
+        </div>
+      </div>
+    </div>
+  );
+};
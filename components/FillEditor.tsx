@@ -0,0 +1,139 @@
+import React, { useState } from 'react';
+import { FillType, MediaAsset, PatternKind, ShapeFill } from '../types';
+import { FILL_TYPES, PATTERN_KINDS, isMediaFill } from '../utils/fills';
+import { isVideoAsset, readFileAsAsset } from '../utils/assets';
+import { Upload } from 'lucide-react';
+
+interface FillEditorProps {
+  fill: ShapeFill;
+  assets: MediaAsset[];
+  onChange: (fill: ShapeFill) => void;
+  onAddAsset: (asset: MediaAsset) => void;
+}
+
+const inputClass = 'w-full bg-gray-800 border border-gray-700 rounded px-2 py-1 text-xs focus:ring-2 focus:ring-cyan-500 outline-none';
+
+export const FillEditor: React.FC<FillEditorProps> = ({ fill, assets, onChange, onAddAsset }) => {
+  const [uploadError, setUploadError] = useState<string | null>(null);
+
+  const update = (changes: Partial<ShapeFill>) => onChange({ ...fill, ...changes });
+
+  const wantsVideo = fill.type === 'video';
+  const matchingAssets = assets.filter(asset => isVideoAsset(asset) === wantsVideo);
+  const usesSecondary = fill.type === 'linearGradient' || fill.type === 'radialGradient' || fill.type === 'pattern';
+  const usesAngle = fill.type === 'linearGradient' || (fill.type === 'pattern' && fill.pattern !== 'noise');
+
+  const handleUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      const asset = await readFileAsAsset(file);
+      setUploadError(null);
+      onAddAsset(asset);
+      update({ type: isVideoAsset(asset) ? 'video' : 'image', assetId: asset.id });
+    } catch (err) {
+      setUploadError((err as Error).message);
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      <select
+        value={fill.type}
+        onChange={(e) => update({ type: e.target.value as FillType })}
+        className={inputClass}
+      >
+        {FILL_TYPES.map(type => (
+          <option key={type.value} value={type.value}>{type.label}</option>
+        ))}
+      </select>
+
+      {fill.type === 'pattern' && (
+        <select
+          value={fill.pattern}
+          onChange={(e) => update({ pattern: e.target.value as PatternKind })}
+          className={inputClass}
+        >
+          {PATTERN_KINDS.map(kind => (
+            <option key={kind.value} value={kind.value}>{kind.label}</option>
+          ))}
+        </select>
+      )}
+
+      {usesSecondary && (
+        <div className="flex items-center gap-2">
+          <label className="text-xs text-gray-400 w-24 shrink-0">{fill.type === 'pattern' ? 'Background' : 'End Color'}</label>
+          <input
+            type="color"
+            value={fill.secondaryColor}
+            onChange={(e) => update({ secondaryColor: e.target.value })}
+            className="h-6 flex-1 bg-transparent cursor-pointer rounded overflow-hidden"
+          />
+        </div>
+      )}
+
+      {usesAngle && (
+        <div>
+          <label className="block text-xs text-gray-400 mb-1">Angle: {fill.angle}°</label>
+          <input
+            type="range"
+            min="0"
+            max="360"
+            step="5"
+            value={fill.angle}
+            onChange={(e) => update({ angle: parseInt(e.target.value) })}
+            className="w-full accent-cyan-500 h-2 bg-gray-700 rounded-lg appearance-none cursor-pointer"
+          />
+        </div>
+      )}
+
+      {fill.type === 'pattern' && (
+        <>
+          <div>
+            <label className="block text-xs text-gray-400 mb-1">Speed: {fill.speed.toFixed(1)} cycles/s</label>
+            <input
+              type="range"
+              min="0"
+              max="8"
+              step="0.1"
+              value={fill.speed}
+              onChange={(e) => update({ speed: parseFloat(e.target.value) })}
+              className="w-full accent-cyan-500 h-2 bg-gray-700 rounded-lg appearance-none cursor-pointer"
+            />
+          </div>
+          <label className="flex items-center gap-2 text-xs text-gray-300">
+            <input
+              type="checkbox"
+              checked={fill.velocitySpeed}
+              onChange={(e) => update({ velocitySpeed: e.target.checked })}
+              className="w-3.5 h-3.5 text-cyan-500 rounded focus:ring-cyan-500 bg-gray-700 border-gray-600"
+            />
+            Speed follows velocity
+          </label>
+        </>
+      )}
+
+      {isMediaFill(fill) && (
+        <div className="space-y-2">
+          <select
+            value={fill.assetId ?? ''}
+            onChange={(e) => update({ assetId: e.target.value || null })}
+            className={inputClass}
+          >
+            <option value="">No {wantsVideo ? 'video' : 'image'} selected</option>
+            {matchingAssets.map(asset => (
+              <option key={asset.id} value={asset.id}>{asset.name}</option>
+            ))}
+          </select>
+          <label className="flex items-center justify-center gap-2 w-full border border-dashed border-gray-600 hover:border-cyan-500 text-gray-400 hover:text-cyan-400 rounded py-1.5 text-xs cursor-pointer transition-colors">
+            <Upload size={12} /> Upload {wantsVideo ? 'video' : 'image'}
+            <input type="file" accept={wantsVideo ? 'video/*' : 'image/*'} onChange={handleUpload} className="hidden" />
+          </label>
+          {uploadError && <p className="text-xs text-red-400">{uploadError}</p>}
+          <p className="text-[11px] text-gray-500">Media is embedded in the project, so exported files are self-contained.</p>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,50 @@
+import React, { useEffect, useRef } from 'react';
+import { HistoryEntry } from '../utils/history';
+import { X } from 'lucide-react';
+
+interface HistoryPanelProps {
+  entries: HistoryEntry<unknown>[];
+  index: number;
+  onJump: (index: number) => void;
+  onClose: () => void;
+}
+
+const formatTime = (timestamp: number) =>
+  new Date(timestamp).toLocaleTimeString(undefined, { hour: '2-digit', minute: '2-digit', second: '2-digit' });
+
+export const HistoryPanel: React.FC<HistoryPanelProps> = ({ entries, index, onJump, onClose }) => {
+  const currentRef = useRef<HTMLButtonElement>(null);
+
+  // Keep the current step in view as new edits arrive
+  useEffect(() => {
+    currentRef.current?.scrollIntoView({ block: 'nearest' });
+  }, [index, entries.length]);
+
+  return (
+    <div className="absolute bottom-4 left-4 w-64 max-h-[50vh] flex flex-col bg-gray-900/95 backdrop-blur-sm border border-gray-700 rounded-xl shadow-2xl z-40">
+      <div className="px-4 py-3 border-b border-gray-800 flex justify-between items-center">
+        <h2 className="font-bold text-sm text-gray-200">History</h2>
+        <button onClick={onClose} className="text-gray-400 hover:text-white"><X size={16} /></button>
+      </div>
+      <div className="flex-1 overflow-y-auto py-1">
+        {entries.map((entry, i) => (
+          <button
+            key={i}
+            ref={i === index ? currentRef : undefined}
+            onClick={() => onJump(i)}
+            className={`w-full flex justify-between items-center px-4 py-1.5 text-left text-sm transition-colors ${
+              i === index
+                ? 'bg-cyan-500/20 text-white'
+                : i > index
+                  ? 'text-gray-600 hover:bg-gray-800'
+                  : 'text-gray-300 hover:bg-gray-800'
+            }`}
+          >
+            <span className="truncate">{entry.label}</span>
+            <span className="text-xs text-gray-500 shrink-0 ml-2">{formatTime(entry.timestamp)}</span>
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,52 @@
+import React from 'react';
+import { ValidationIssue } from '../utils/projectFormat';
+import { AlertTriangle, X } from 'lucide-react';
+
+interface ImportReportProps {
+  fileName: string;
+  issues: ValidationIssue[];
+  title?: string;
+  outcome?: string; // what happened to the project because of these issues
+  onClose: () => void;
+}
+
+// Keep the dialog readable for badly broken files
+const MAX_LISTED_ISSUES = 50;
+
+export const ImportReport: React.FC<ImportReportProps> = ({ fileName, issues, title = 'Could not import project', outcome = 'Nothing was changed.', onClose }) => {
+  const listed = issues.slice(0, MAX_LISTED_ISSUES);
+
+  return (
+    <div className="absolute inset-0 z-50 bg-black/60 backdrop-blur-sm flex items-center justify-center" onClick={onClose}>
+      <div
+        className="w-[560px] max-h-[80vh] flex flex-col bg-gray-900 border border-red-500/30 rounded-xl shadow-2xl"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="p-4 border-b border-gray-800 flex justify-between items-start gap-4">
+          <div className="flex gap-3">
+            <AlertTriangle size={20} className="text-red-400 shrink-0 mt-0.5" />
+            <div>
+              <h2 className="font-bold text-gray-200">{title}</h2>
+              <p className="text-sm text-gray-400 break-all">
+                {fileName} has {issues.length} problem{issues.length === 1 ? '' : 's'}. {outcome}
+              </p>
+            </div>
+          </div>
+          <button onClick={onClose} className="text-gray-400 hover:text-white"><X size={18} /></button>
+        </div>
+
+        <ul className="flex-1 overflow-y-auto p-4 space-y-1 text-sm">
+          {listed.map((issue, i) => (
+            <li key={i} className="flex gap-2">
+              {issue.path && <code className="text-cyan-400 shrink-0">{issue.path}</code>}
+              <span className="text-gray-300">{issue.message}</span>
+            </li>
+          ))}
+          {issues.length > listed.length && (
+            <li className="text-gray-500">…and {issues.length - listed.length} more</li>
+          )}
+        </ul>
+      </div>
+    </div>
+  );
+};
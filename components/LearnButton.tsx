@@ -0,0 +1,28 @@
+import React from 'react';
+import { Radio } from 'lucide-react';
+
+interface LearnButtonProps {
+  armed: boolean;
+  onToggle: () => void;
+  label?: string;
+}
+
+// Small toggle used wherever a value can be learned from incoming MIDI
+export const LearnButton: React.FC<LearnButtonProps> = ({ armed, onToggle, label }) => (
+  <button
+    type="button"
+    onClick={(e) => {
+      e.stopPropagation();
+      onToggle();
+    }}
+    className={`inline-flex items-center gap-1 px-1.5 py-0.5 rounded text-[10px] font-semibold uppercase tracking-wider transition-colors ${
+      armed
+        ? 'bg-amber-500/20 text-amber-400 border border-amber-400/50 animate-pulse'
+        : 'text-gray-400 hover:text-cyan-400 border border-transparent'
+    }`}
+    title={armed ? 'Cancel MIDI Learn' : 'MIDI Learn'}
+  >
+    <Radio size={12} />
+    {label}
+  </button>
+);
@@ -0,0 +1,151 @@
+import React, { useState } from 'react';
+import { ActiveNotesMap, Shape } from '../types';
+import { midiNoteToName } from '../utils/midiUtils';
+import { MappingIssue, getCoverageKey, getNoteCoverage } from '../utils/mappingCheck';
+import { AlertCircle, AlertTriangle, CheckCircle2, RotateCcw, X } from 'lucide-react';
+
+interface MappingCheckPanelProps {
+  shapes: Shape[];
+  issues: MappingIssue[];
+  activeNotes: ActiveNotesMap;
+  playedNotes: Set<string>; // coverage keys of every note played since the last clear
+  onClearPlayed: () => void;
+  onSelect: (ids: string[]) => void;
+  onClose: () => void;
+}
+
+// Keep the list readable when a whole kit overlaps
+const MAX_LISTED_ISSUES = 50;
+
+const CHANNELS = Array.from({ length: 16 }, (_, i) => i + 1);
+const NOTES = Array.from({ length: 128 }, (_, i) => i);
+const OCTAVE_STARTS = NOTES.filter(note => note % 12 === 0);
+
+const getCellClass = (count: number, played: boolean, held: boolean) => {
+  if (held) return count === 0 ? 'bg-red-300' : 'bg-white';
+  if (count === 0) return played ? 'bg-red-500' : 'bg-gray-800';
+  if (count === 1) return played ? 'bg-cyan-300' : 'bg-cyan-700';
+  return played ? 'bg-amber-300' : 'bg-amber-600';
+};
+
+const LEGEND: { className: string; label: string }[] = [
+  { className: 'bg-cyan-700', label: 'Mapped' },
+  { className: 'bg-amber-600', label: 'Several shapes' },
+  { className: 'bg-cyan-300', label: 'Played' },
+  { className: 'bg-red-500', label: 'Played, not mapped' },
+  { className: 'bg-white', label: 'Held now' },
+];
+
+/**
+ * Mapping problems plus a note x channel heatmap of what is mapped and what has been played.
+ * Clicking an issue selects the shapes involved; hovering a cell names the shapes on it.
+ */
+export const MappingCheckPanel: React.FC<MappingCheckPanelProps> = ({ shapes, issues, activeNotes, playedNotes, onClearPlayed, onSelect, onClose }) => {
+  const [hovered, setHovered] = useState<{ channel: number; note: number } | null>(null);
+
+  const coverage = getNoteCoverage(shapes);
+  const held = new Set<string>();
+  for (const { channel, note } of activeNotes.values()) held.add(getCoverageKey(channel, note));
+  const errorCount = issues.filter(i => i.severity === 'error').length;
+  const warningCount = issues.length - errorCount;
+  const listed = issues.slice(0, MAX_LISTED_ISSUES);
+
+  const describeHovered = () => {
+    if (!hovered) return 'Hover a cell to see which shapes listen to it.';
+    const { channel, note } = hovered;
+    // Like the heatmap, any input counts
+    const names = shapes
+      .filter(s => s.mask === 'none' && (s.channel === 0 || s.channel === channel) && note >= s.noteStart && note <= s.noteEnd)
+      .map(s => s.name);
+    const played = playedNotes.has(getCoverageKey(channel, note)) ? ' · played' : '';
+    return `${midiNoteToName(note)} (${note}), channel ${channel}: ${names.length > 0 ? names.join(', ') : 'not mapped'}${played}`;
+  };
+
+  return (
+    <div
+      className="absolute bottom-4 left-1/2 -translate-x-1/2 z-20 w-[720px] max-w-[calc(100%-2rem)] max-h-[75vh] flex flex-col bg-gray-900/95 backdrop-blur-sm border border-gray-700 rounded-xl shadow-2xl"
+      onClick={(e) => e.stopPropagation()}
+    >
+      <div className="flex items-center justify-between px-4 py-3 border-b border-gray-800">
+        <div className="flex items-center gap-3">
+          <h2 className="font-bold text-gray-200 text-sm">Mapping Check</h2>
+          {issues.length === 0 ? (
+            <span className="flex items-center gap-1 text-xs text-green-400"><CheckCircle2 size={12} /> No problems found</span>
+          ) : (
+            <span className="text-xs text-gray-400">
+              {errorCount > 0 && <span className="text-red-400">{errorCount} error{errorCount === 1 ? '' : 's'}</span>}
+              {errorCount > 0 && warningCount > 0 && ', '}
+              {warningCount > 0 && <span className="text-amber-400">{warningCount} warning{warningCount === 1 ? '' : 's'}</span>}
+            </span>
+          )}
+        </div>
+        <button onClick={onClose} className="text-gray-400 hover:text-white"><X size={16} /></button>
+      </div>
+
+      {/* Issues */}
+      {issues.length > 0 && (
+        <ul className="max-h-48 overflow-y-auto custom-scrollbar px-2 py-2 border-b border-gray-800 text-xs">
+          {listed.map((issue, i) => (
+            <li key={i}>
+              <button
+                onClick={() => onSelect(issue.shapeIds)}
+                className="w-full flex items-start gap-2 px-2 py-1 rounded text-left text-gray-300 hover:bg-gray-800"
+                title={issue.shapeIds.length > 1 ? 'Select these shapes' : 'Select this shape'}
+              >
+                {issue.severity === 'error'
+                  ? <AlertCircle size={12} className="text-red-400 shrink-0 mt-0.5" />
+                  : <AlertTriangle size={12} className="text-amber-400 shrink-0 mt-0.5" />}
+                <span>{issue.message}</span>
+              </button>
+            </li>
+          ))}
+          {issues.length > listed.length && (
+            <li className="px-2 py-1 text-gray-500">…and {issues.length - listed.length} more</li>
+          )}
+        </ul>
+      )}
+
+      {/* Coverage Heatmap */}
+      <div className="px-4 py-3 overflow-x-auto">
+        <div className="flex items-center justify-between mb-2">
+          <h3 className="text-xs font-semibold text-gray-400 uppercase tracking-wider">Coverage</h3>
+          <button onClick={onClearPlayed} className="flex items-center gap-1 text-xs text-gray-400 hover:text-white" title="Forget which notes have been played">
+            <RotateCcw size={12} /> Clear Played
+          </button>
+        </div>
+        <div className="inline-block" onMouseLeave={() => setHovered(null)}>
+          <div className="flex ml-7">
+            {OCTAVE_STARTS.map(note => (
+              <span key={note} className="text-[9px] text-gray-500" style={{ width: `${Math.min(12, 128 - note) * 5}px` }}>
+                {midiNoteToName(note)}
+              </span>
+            ))}
+          </div>
+          {CHANNELS.map(channel => (
+            <div key={channel} className="flex items-center">
+              <span className="w-7 text-[9px] text-gray-500 text-right pr-1">{channel}</span>
+              {NOTES.map(note => {
+                const key = getCoverageKey(channel, note);
+                return (
+                  <div
+                    key={note}
+                    onMouseEnter={() => setHovered({ channel, note })}
+                    className={`w-[5px] h-2 ${note % 12 === 0 ? 'border-l border-gray-950' : ''} ${getCellClass(coverage[channel - 1][note], playedNotes.has(key), held.has(key))}`}
+                  />
+                );
+              })}
+            </div>
+          ))}
+        </div>
+        <p className="mt-2 text-[11px] text-gray-400 min-h-[1rem]">{describeHovered()}</p>
+        <div className="flex flex-wrap gap-3 mt-2">
+          {LEGEND.map(({ className, label }) => (
+            <span key={label} className="flex items-center gap-1 text-[11px] text-gray-500">
+              <span className={`w-2 h-2 rounded-sm ${className}`} /> {label}
+            </span>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -1,16 +1,408 @@
-import React from 'react';
-import { Shape } from '../types';
+import React, { useState } from 'react';
+import { Shape, ShapeGroup, Scene, LearnTarget } from '../types';
 import { midiNoteToName } from '../utils/midiUtils';
-import { Edit2, Trash2 } from 'lucide-react';
+import { isSameLearnTarget } from '../utils/midiLearn';
+import { DISTRIBUTION_MODES, describeDistribution } from '../utils/distribution';
+import { BLEND_MODES, MASK_MODES } from '../utils/layers';
+import {
+  COLOR_PALETTES,
+  EMPTY_MAPPING_FILTER,
+  MappingFilter,
+  MappingSort,
+  MappingSortKey,
+  assignAscendingNotes,
+  filterMappings,
+  isMappingFilterActive,
+  sortMappings,
+  spreadColors,
+} from '../utils/mappingTable';
+import { LearnButton } from './LearnButton';
+import { ArrowDown, ArrowUp, ChevronDown, ChevronRight, Download, Edit2, GripVertical, Link2, ListOrdered, Search, Trash2, Ungroup, Unlink2, Upload, Volume2 } from 'lucide-react';
 
 interface MappingListProps {
   shapes: Shape[];
-  onSelect: (id: string) => void;
+  groups: ShapeGroup[];
+  scenes: Scene[];
+  activeSceneId: string | null;
+  onSelect: (ids: string[]) => void;
   onDelete: (id: string) => void;
-  selectedId: string | null;
+  selectedIds: string[];
+  learnTarget: LearnTarget | null;
+  onLearn: (target: LearnTarget | null) => void;
+  onAudition: (id: string, on: boolean) => void;
+  onUpdateGroup: (group: ShapeGroup) => void;
+  onGroupChannelChange: (groupId: string, channel: number) => void;
+  onUngroup: (groupId: string) => void;
+  onReorder: (ids: string[], index: number) => void;
+  onUpdateShape: (shape: Shape, label: string, mergeKey?: string) => void;
+  onUpdateShapes: (shapes: Shape[], label: string) => void;
+  onExportCsv: () => void;
+  onImportCsv: (file: File) => void;
 }
 
-export const MappingList: React.FC<MappingListProps> = ({ shapes, onSelect, onDelete, selectedId }) => {
+const describeNotes = (start: number, end: number) =>
+  start === end ? `${start} (${midiNoteToName(start)})` : `${midiNoteToName(start)} - ${midiNoteToName(end)}`;
+
+const CHANNELS = Array.from({ length: 16 }, (_, i) => i + 1);
+
+const SORT_COLUMNS: { key: MappingSortKey; label: string }[] = [
+  { key: 'name', label: 'Name' },
+  { key: 'color', label: 'Color' },
+  { key: 'channel', label: 'CH' },
+  { key: 'note', label: 'Trigger' },
+  { key: 'velocity', label: 'Vel' },
+];
+
+const cellInput = 'bg-transparent border border-transparent rounded px-1 py-0.5 hover:border-gray-600 focus:border-cyan-500 focus:bg-gray-800 outline-none';
+const toolbarSelect = 'bg-gray-800 border border-gray-700 rounded px-2 py-1 text-xs text-white outline-none focus:ring-1 focus:ring-cyan-500';
+const iconButton = 'p-1.5 rounded text-gray-400 hover:text-white hover:bg-gray-800 transition-colors';
+
+/**
+ * The mapping table: every trigger field edits in place, and bulk actions work on the
+ * selected rows in the order they are listed, leaving out any the filter hides. In paint order with no filter, groups show
+ * as one row that expands into their members and rows can be dragged to restack them;
+ * sorting or filtering lists every shape on its own row.
+ */
+export const MappingList: React.FC<MappingListProps> = ({ shapes, groups, scenes, activeSceneId, onSelect, onDelete, selectedIds, learnTarget, onLearn, onAudition, onUpdateGroup, onGroupChannelChange, onUngroup, onReorder, onUpdateShape, onUpdateShapes, onExportCsv, onImportCsv }) => {
+  const [expandedGroupIds, setExpandedGroupIds] = useState<string[]>([]);
+  const [dragIds, setDragIds] = useState<string[] | null>(null);
+  const [dropTarget, setDropTarget] = useState<{ rowId: string; after: boolean } | null>(null);
+  const [sort, setSort] = useState<MappingSort | null>(null);
+  const [filter, setFilter] = useState<MappingFilter>(EMPTY_MAPPING_FILTER);
+  const [firstNote, setFirstNote] = useState(36);
+  // Note cells being typed in, by `${shapeId}-${field}`; committed on blur/Enter
+  const [noteDrafts, setNoteDrafts] = useState<Record<string, string>>({});
+
+  const grouped = !sort && !isMappingFilterActive(filter);
+  const visible = sortMappings(filterMappings(shapes, groups, filter), sort);
+  const selectedInOrder = visible.filter(s => selectedIds.includes(s.id));
+  const hiddenSelectedCount = shapes.filter(s => selectedIds.includes(s.id)).length - selectedInOrder.length;
+  const allVisibleSelected = visible.length > 0 && visible.every(s => selectedIds.includes(s.id));
+  // The header's checkbox, sortable, Scenes (only with scenes) and Actions columns
+  const columnCount = 1 + SORT_COLUMNS.length + (scenes.length > 0 ? 1 : 0) + 1;
+
+  const toggleExpanded = (groupId: string) => {
+    setExpandedGroupIds(prev => prev.includes(groupId) ? prev.filter(id => id !== groupId) : [...prev, groupId]);
+  };
+
+  // Ascending, then descending, then back to paint order
+  const toggleSort = (key: MappingSortKey) => {
+    setSort(prev => prev?.key !== key ? { key, descending: false } : prev.descending ? null : { key, descending: true });
+  };
+
+  const toggleSelected = (ids: string[]) => {
+    const selected = ids.every(id => selectedIds.includes(id));
+    onSelect(selected ? selectedIds.filter(id => !ids.includes(id)) : [...selectedIds, ...ids.filter(id => !selectedIds.includes(id))]);
+  };
+
+  const handleCsvFile = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (file) onImportCsv(file);
+  };
+
+  // Rows are dragged by their grip; a group row carries all of its members
+  const startDrag = (e: React.DragEvent, ids: string[]) => {
+    e.dataTransfer.effectAllowed = 'move';
+    e.dataTransfer.setData('text/plain', ids.join(','));
+    const row = (e.currentTarget as HTMLElement).closest('tr');
+    if (row) e.dataTransfer.setDragImage(row, 0, 0);
+    setDragIds(ids);
+  };
+
+  const endDrag = () => {
+    setDragIds(null);
+    setDropTarget(null);
+  };
+
+  // Drop targets: the upper half of a row drops before it, the lower half after it
+  const getDropProps = (rowId: string, ids: string[]) => ({
+    onDragOver: (e: React.DragEvent) => {
+      if (!dragIds || ids.some(id => dragIds.includes(id))) return;
+      e.preventDefault();
+      const rect = (e.currentTarget as HTMLElement).getBoundingClientRect();
+      const after = e.clientY > rect.top + rect.height / 2;
+      if (dropTarget?.rowId !== rowId || dropTarget.after !== after) setDropTarget({ rowId, after });
+    },
+    onDrop: (e: React.DragEvent) => {
+      e.preventDefault();
+      if (dragIds && dropTarget?.rowId === rowId) {
+        const indices = ids.map(id => shapes.findIndex(s => s.id === id));
+        onReorder(dragIds, dropTarget.after ? Math.max(...indices) + 1 : Math.min(...indices));
+      }
+      endDrag();
+    },
+  });
+
+  const dropClass = (rowId: string) =>
+    dropTarget?.rowId !== rowId ? '' : dropTarget.after ? 'border-b-2 border-b-cyan-400' : 'border-t-2 border-t-cyan-400';
+
+  const renderGrip = (ids: string[]) => grouped && (
+    <span
+      draggable
+      onDragStart={(e) => startDrag(e, ids)}
+      onDragEnd={endDrag}
+      className="cursor-grab text-gray-600 hover:text-gray-300"
+      title="Drag to change the drawing order"
+    >
+      <GripVertical size={14} />
+    </span>
+  );
+
+  const renderCheckbox = (ids: string[]) => (
+    <input
+      type="checkbox"
+      checked={ids.every(id => selectedIds.includes(id))}
+      onChange={() => toggleSelected(ids)}
+      className="w-3.5 h-3.5 accent-cyan-500 cursor-pointer"
+    />
+  );
+
+  const renderGroupRow = (group: ShapeGroup, members: Shape[]) => {
+    const expanded = expandedGroupIds.includes(group.id);
+    const memberIds = members.map(m => m.id);
+    const selected = memberIds.every(id => selectedIds.includes(id));
+    const channels = Array.from(new Set(members.map(m => m.channel)));
+    const noteStart = Math.min(...members.map(m => m.noteStart));
+    const noteEnd = Math.max(...members.map(m => m.noteEnd));
+    return (
+      <tr
+        key={group.id}
+        {...getDropProps(group.id, memberIds)}
+        className={`border-b border-gray-800 bg-gray-800/30 hover:bg-gray-800/50 transition-colors ${selected ? 'ring-1 ring-cyan-500/50' : ''} ${dropClass(group.id)}`}
+      >
+        <td className="pl-3 py-2">{renderCheckbox(memberIds)}</td>
+        <td className="p-2 font-medium text-white">
+          <div className="flex items-center gap-1">
+            {renderGrip(memberIds)}
+            <button
+              onClick={() => toggleExpanded(group.id)}
+              className="text-gray-400 hover:text-white"
+              title={expanded ? 'Collapse' : 'Expand'}
+            >
+              {expanded ? <ChevronDown size={14} /> : <ChevronRight size={14} />}
+            </button>
+            <input
+              value={group.name}
+              onChange={(e) => onUpdateGroup({ ...group, name: e.target.value })}
+              className="w-24 bg-transparent border-b border-transparent hover:border-gray-600 focus:border-cyan-500 outline-none"
+            />
+            <span className="text-xs text-gray-500">({members.length})</span>
+          </div>
+        </td>
+        <td className="p-2">
+          <div className="flex -space-x-1">
+            {members.slice(0, 3).map(member => (
+              <div
+                key={member.id}
+                className="w-4 h-4 rounded-full border border-white/20"
+                style={{ backgroundColor: member.color }}
+              />
+            ))}
+          </div>
+        </td>
+        <td className="p-2 text-gray-300">
+          {group.shareMidi ? (
+            <select
+              value={members[0].channel}
+              onChange={(e) => onGroupChannelChange(group.id, parseInt(e.target.value))}
+              className="bg-gray-800 border border-gray-700 rounded px-1 py-0.5 text-xs text-white outline-none"
+              title="Channel for every shape in the group"
+            >
+              <option value={0}>All</option>
+              {CHANNELS.map(ch => <option key={ch} value={ch}>{ch}</option>)}
+            </select>
+          ) : channels.length === 1 ? (channels[0] === 0 ? 'All' : channels[0]) : 'Mixed'}
+        </td>
+        <td className="p-2 text-gray-300">{describeNotes(noteStart, noteEnd)}</td>
+        <td className="p-2 text-gray-300">-</td>
+        {scenes.length > 0 && <td className="p-2" />}
+        <td className="p-2 text-right">
+          <div className="flex justify-end gap-2">
+            <button
+              onClick={() => onUpdateGroup({ ...group, shareMidi: !group.shareMidi })}
+              className={`p-1 transition-colors ${group.shareMidi ? 'text-cyan-400 hover:text-cyan-300' : 'text-gray-400 hover:text-cyan-400'}`}
+              title={group.shareMidi ? 'Members share input and channel (click to unlink)' : 'Share input and channel across members'}
+            >
+              {group.shareMidi ? <Link2 size={14} /> : <Unlink2 size={14} />}
+            </button>
+            <button
+              onClick={() => onSelect(memberIds)}
+              className="p-1 hover:text-cyan-400 text-gray-400 transition-colors"
+              title="Select Group"
+            >
+              <Edit2 size={14} />
+            </button>
+            <button
+              onClick={() => onUngroup(group.id)}
+              className="p-1 hover:text-red-400 text-gray-400 transition-colors"
+              title="Ungroup"
+            >
+              <Ungroup size={14} />
+            </button>
+          </div>
+        </td>
+      </tr>
+    );
+  };
+
+  const renderShapeRow = (shape: Shape, inGroup: boolean) => {
+    const triggerTarget: LearnTarget = { kind: 'note', shapeId: shape.id, field: 'trigger' };
+    const isLearning = isSameLearnTarget(learnTarget, triggerTarget);
+    const mask = MASK_MODES.find(m => m.value === shape.mask);
+    const blend = BLEND_MODES.find(b => b.value === shape.blendMode);
+    // Same labels and merge keys as the shape editor, so typing here undoes the same way
+    const edit = <K extends keyof Shape>(field: K, value: Shape[K], label: string) => onUpdateShape({ ...shape, [field]: value }, label, `${shape.id}-${field}`);
+    // A draft that is empty or out of range is dropped and the cell shows the stored note again
+    const renderNoteInput = (field: 'noteStart' | 'noteEnd', label: string) => {
+      const key = `${shape.id}-${field}`;
+      const draft = noteDrafts[key];
+      const commit = () => {
+        if (draft === undefined) return;
+        const note = Number(draft);
+        if (draft.trim() !== '' && Number.isInteger(note) && note >= 0 && note <= 127 && note !== shape[field]) edit(field, note, label);
+        setNoteDrafts(({ [key]: _committed, ...others }) => others);
+      };
+      return (
+        <input
+          type="number"
+          min="0"
+          max="127"
+          value={draft ?? shape[field]}
+          onChange={(e) => setNoteDrafts(prev => ({ ...prev, [key]: e.target.value }))}
+          onBlur={commit}
+          onKeyDown={(e) => { if (e.key === 'Enter') e.currentTarget.blur(); }}
+          className={`${cellInput} w-12`}
+          title={midiNoteToName(shape[field])}
+        />
+      );
+    };
+    return (
+      <tr
+        key={shape.id}
+        {...getDropProps(shape.id, [shape.id])}
+        className={`border-b border-gray-800 hover:bg-gray-800/50 transition-colors ${selectedIds.includes(shape.id) ? 'bg-gray-800 ring-1 ring-cyan-500/50' : ''} ${isLearning ? 'ring-1 ring-amber-400/60' : ''} ${dropClass(shape.id)}`}
+      >
+        <td className="pl-3 py-2">{renderCheckbox([shape.id])}</td>
+        <td className={`p-2 font-medium text-white ${inGroup ? 'pl-8' : ''}`}>
+          <div className="flex items-center gap-1">
+            {renderGrip([shape.id])}
+            <input
+              value={shape.name}
+              onChange={(e) => edit('name', e.target.value, 'Rename Shape')}
+              className={`${cellInput} w-28 min-w-0`}
+            />
+            {shape.mask !== 'none' ? (
+              <span className="text-pink-400 text-xs px-1 border border-pink-400/30 rounded" title={mask?.label}>{mask?.short}</span>
+            ) : shape.blendMode !== 'normal' && (
+              <span className="text-violet-400 text-xs px-1 border border-violet-400/30 rounded" title={blend?.label}>{blend?.short}</span>
+            )}
+          </div>
+        </td>
+        <td className="p-2">
+          <input
+            type="color"
+            value={shape.color}
+            onChange={(e) => edit('color', e.target.value, 'Change Color')}
+            className="w-5 h-5 bg-transparent rounded-full cursor-pointer overflow-hidden"
+          />
+        </td>
+        <td className="p-2 text-gray-300">
+          <select
+            value={shape.channel}
+            onChange={(e) => edit('channel', parseInt(e.target.value), 'Change Channel')}
+            className={`${cellInput} text-gray-300`}
+          >
+            <option value={0}>All</option>
+            {CHANNELS.map(ch => <option key={ch} value={ch}>{ch}</option>)}
+          </select>
+        </td>
+        <td className="p-2 text-gray-300 whitespace-nowrap">
+          {renderNoteInput('noteStart', 'Change Note Start')}
+          <span className="text-gray-600">-</span>
+          {renderNoteInput('noteEnd', 'Change Note End')}
+          <span className="text-xs text-gray-500">
+            {shape.noteStart === shape.noteEnd ? midiNoteToName(shape.noteStart) : `${midiNoteToName(shape.noteStart)}-${midiNoteToName(shape.noteEnd)}`}
+          </span>
+          {shape.distribution !== 'whole' && (
+            <span className="ml-1 text-cyan-400 text-xs px-1 border border-cyan-400/30 rounded" title={describeDistribution(shape) ?? undefined}>
+              {DISTRIBUTION_MODES.find(m => m.value === shape.distribution)?.short}
+            </span>
+          )}
+        </td>
+        <td className="p-2">
+          <input
+            type="checkbox"
+            checked={shape.velocitySensitive}
+            onChange={(e) => edit('velocitySensitive', e.target.checked, 'Toggle Velocity')}
+            className="w-3.5 h-3.5 accent-green-500 cursor-pointer"
+            title="Velocity sensitive opacity"
+          />
+        </td>
+        {scenes.length > 0 && (
+          <td className="p-2">
+            <div className="flex flex-wrap gap-1">
+              {scenes.map((scene, i) => shape.id in scene.members && (
+                <span
+                  key={scene.id}
+                  className={`text-xs px-1 rounded border ${scene.id === activeSceneId ? 'text-cyan-400 border-cyan-400/50' : 'text-gray-400 border-gray-600'}`}
+                  title={scene.name}
+                >
+                  {i + 1}
+                </span>
+              ))}
+            </div>
+          </td>
+        )}
+        <td className="p-2 text-right">
+          <div className="flex justify-end gap-2">
+            <button
+              onPointerDown={(e) => {
+                e.preventDefault();
+                onAudition(shape.id, true);
+              }}
+              onPointerUp={() => onAudition(shape.id, false)}
+              onPointerLeave={() => onAudition(shape.id, false)}
+              className="p-1 hover:text-cyan-400 active:text-cyan-300 text-gray-400 transition-colors"
+              title="Audition (hold to play this shape's notes)"
+            >
+              <Volume2 size={14} />
+            </button>
+            <LearnButton armed={isLearning} onToggle={() => onLearn(isLearning ? null : triggerTarget)} />
+            <button
+              onClick={() => onSelect([shape.id])}
+              className="p-1 hover:text-cyan-400 text-gray-400 transition-colors"
+              title="Edit"
+            >
+              <Edit2 size={14} />
+            </button>
+            <button
+              onClick={() => onDelete(shape.id)}
+              className="p-1 hover:text-red-400 text-gray-400 transition-colors"
+              title="Delete"
+            >
+              <Trash2 size={14} />
+            </button>
+          </div>
+        </td>
+      </tr>
+    );
+  };
+
+  const renderGroupedRows = () => shapes.map(shape => {
+    const group = shape.groupId ? groups.find(g => g.id === shape.groupId) : undefined;
+    if (!group) return renderShapeRow(shape, false);
+    // A group is listed where its first member would be
+    if (shapes.find(s => s.groupId === group.id) !== shape) return null;
+    const members = shapes.filter(s => s.groupId === group.id);
+    return (
+      <React.Fragment key={group.id}>
+        {renderGroupRow(group, members)}
+        {expandedGroupIds.includes(group.id) && members.map(member => renderShapeRow(member, true))}
+      </React.Fragment>
+    );
+  });
+
   if (shapes.length === 0) {
     return (
       <div className="text-center py-10 text-gray-500">
@@ -22,60 +414,120 @@ export const MappingList: React.FC<MappingListProps> = ({ shapes, onSelect, onDe
 
   return (
     <div className="overflow-x-auto">
+      {/* Filter & CSV */}
+      <div className="flex items-center gap-2 px-3 pt-3">
+        <div className="relative flex-1">
+          <Search size={12} className="absolute left-2 top-1/2 -translate-y-1/2 text-gray-500" />
+          <input
+            type="search"
+            value={filter.text}
+            onChange={(e) => setFilter({ ...filter, text: e.target.value })}
+            placeholder="Filter by name, group or note (C3)"
+            className="w-full bg-gray-800 border border-gray-700 rounded pl-7 pr-2 py-1 text-xs text-white outline-none focus:ring-1 focus:ring-cyan-500"
+          />
+        </div>
+        <select
+          value={filter.channel ?? ''}
+          onChange={(e) => setFilter({ ...filter, channel: e.target.value === '' ? null : parseInt(e.target.value) })}
+          className={toolbarSelect}
+          title="Show only one channel"
+        >
+          <option value="">Any Channel</option>
+          <option value={0}>All (Omni)</option>
+          {CHANNELS.map(ch => <option key={ch} value={ch}>Channel {ch}</option>)}
+        </select>
+        <button onClick={onExportCsv} className={iconButton} title="Export the mapping table as CSV">
+          <Download size={14} />
+        </button>
+        <label className={`${iconButton} cursor-pointer`} title="Import a mapping table from CSV (matches rows by id or name)">
+          <Upload size={14} />
+          <input type="file" accept=".csv,text/csv" onChange={handleCsvFile} className="hidden" />
+        </label>
+      </div>
+
+      {/* Bulk Actions */}
+      {selectedInOrder.length > 0 && (
+        <div className="flex flex-wrap items-center gap-2 mx-3 mt-2 px-2 py-1.5 bg-cyan-950/40 border border-cyan-800/50 rounded text-xs">
+          <span className="text-cyan-300" title={hiddenSelectedCount > 0 ? 'Selected shapes hidden by the filter are left as they are' : undefined}>
+            {selectedInOrder.length} selected{hiddenSelectedCount > 0 && ` (${hiddenSelectedCount} hidden)`}
+          </span>
+          <select
+            value=""
+            onChange={(e) => e.target.value !== '' && onUpdateShapes(selectedInOrder.map(s => ({ ...s, channel: parseInt(e.target.value) })), 'Set Channel')}
+            className={toolbarSelect}
+          >
+            <option value="">Set Channel…</option>
+            <option value={0}>All (Omni)</option>
+            {CHANNELS.map(ch => <option key={ch} value={ch}>Channel {ch}</option>)}
+          </select>
+          <div className="flex items-center gap-1">
+            <input
+              type="number"
+              min="0"
+              max="127"
+              value={firstNote}
+              onChange={(e) => setFirstNote(Math.max(0, Math.min(127, parseInt(e.target.value) || 0)))}
+              className={`${toolbarSelect} w-14`}
+              title={`First note: ${midiNoteToName(firstNote)}`}
+            />
+            <button
+              onClick={() => onUpdateShapes(assignAscendingNotes(selectedInOrder, firstNote), 'Assign Notes')}
+              className="flex items-center gap-1 px-2 py-1 rounded bg-gray-800 border border-gray-700 text-gray-300 hover:text-white"
+              title="Give the selected rows ascending notes from this one, in list order"
+            >
+              <ListOrdered size={12} /> Assign Notes
+            </button>
+          </div>
+          <select
+            value=""
+            onChange={(e) => {
+              const palette = COLOR_PALETTES.find(p => p.id === e.target.value);
+              if (palette) onUpdateShapes(spreadColors(selectedInOrder, palette), 'Spread Colors');
+            }}
+            className={toolbarSelect}
+          >
+            <option value="">Spread Colors…</option>
+            {COLOR_PALETTES.map(palette => <option key={palette.id} value={palette.id}>{palette.label}</option>)}
+          </select>
+        </div>
+      )}
+
+      <p className="px-3 pt-2 text-[11px] text-gray-500">
+        {grouped
+          ? "Shapes lower in the list are drawn on top. Drag a row's grip to reorder."
+          : 'Sorted or filtered: clear both to see groups and drag rows into drawing order.'}
+      </p>
       <table className="w-full text-left border-collapse">
         <thead>
           <tr className="text-xs font-semibold text-gray-400 border-b border-gray-700 uppercase tracking-wider">
-            <th className="p-3">Name</th>
-            <th className="p-3">Color</th>
-            <th className="p-3">CH</th>
-            <th className="p-3">Trigger</th>
-            <th className="p-3">Dyn</th>
-            <th className="p-3 text-right">Actions</th>
+            <th className="pl-3 py-2 w-6">
+              <input
+                type="checkbox"
+                checked={allVisibleSelected}
+                onChange={() => toggleSelected(visible.map(s => s.id))}
+                className="w-3.5 h-3.5 accent-cyan-500 cursor-pointer"
+                title={allVisibleSelected ? 'Deselect listed shapes' : 'Select listed shapes'}
+              />
+            </th>
+            {SORT_COLUMNS.map(({ key, label }) => (
+              <th key={key} className="p-2">
+                <button onClick={() => toggleSort(key)} className="flex items-center gap-0.5 uppercase hover:text-white" title={`Sort by ${label}`}>
+                  {label}
+                  {sort?.key === key && (sort.descending ? <ArrowDown size={10} /> : <ArrowUp size={10} />)}
+                </button>
+              </th>
+            ))}
+            {scenes.length > 0 && <th className="p-2">Scenes</th>}
+            <th className="p-2 text-right">Actions</th>
           </tr>
         </thead>
         <tbody className="text-sm">
-          {shapes.map(shape => (
-            <tr 
-              key={shape.id} 
-              className={`border-b border-gray-800 hover:bg-gray-800/50 transition-colors ${selectedId === shape.id ? 'bg-gray-800 ring-1 ring-cyan-500/50' : ''}`}
-            >
-              <td className="p-3 font-medium text-white">{shape.name}</td>
-              <td className="p-3">
-                <div 
-                  className="w-4 h-4 rounded-full border border-white/20" 
-                  style={{ backgroundColor: shape.color }}
-                />
-              </td>
-              <td className="p-3 text-gray-300">{shape.channel === 0 ? 'All' : shape.channel}</td>
-              <td className="p-3 text-gray-300">
-                {shape.noteStart === shape.noteEnd 
-                  ? `${shape.noteStart} (${midiNoteToName(shape.noteStart)})`
-                  : `${midiNoteToName(shape.noteStart)} - ${midiNoteToName(shape.noteEnd)}`
-                }
-              </td>
-              <td className="p-3 text-gray-300">
-                {shape.velocitySensitive ? <span className="text-green-400 text-xs px-1 border border-green-400/30 rounded">VEL</span> : '-'}
-              </td>
-              <td className="p-3 text-right">
-                <div className="flex justify-end gap-2">
-                  <button 
-                    onClick={() => onSelect(shape.id)} 
-                    className="p-1 hover:text-cyan-400 text-gray-400 transition-colors"
-                    title="Edit"
-                  >
-                    <Edit2 size={14} />
-                  </button>
-                  <button 
-                    onClick={() => onDelete(shape.id)} 
-                    className="p-1 hover:text-red-400 text-gray-400 transition-colors"
-                    title="Delete"
-                  >
-                    <Trash2 size={14} />
-                  </button>
-                </div>
-              </td>
+          {grouped ? renderGroupedRows() : visible.map(shape => renderShapeRow(shape, false))}
+          {visible.length === 0 && (
+            <tr>
+              <td colSpan={columnCount} className="p-6 text-center text-gray-500">No shapes match the filter.</td>
             </tr>
-          ))}
+          )}
         </tbody>
       </table>
     </div>
@@ -0,0 +1,90 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { MIDIInput } from '../types';
+import { getInputKey } from '../utils/midiUtils';
+import { Cable, ChevronDown } from 'lucide-react';
+
+interface MidiInputPickerProps {
+  inputs: MIDIInput[];
+  enabledNames: string[];
+  // Last message time per input key, written by the MIDI handler without re-rendering
+  activityRef: React.MutableRefObject<Map<string, number>>;
+  onToggle: (name: string) => void;
+}
+
+// How long an activity LED stays lit after a message
+const LED_HOLD_MS = 120;
+
+const ActivityLed: React.FC<{ lit: boolean }> = ({ lit }) => (
+  <span className={`w-2 h-2 rounded-full block shrink-0 transition-colors ${lit ? 'bg-green-400 shadow-[0_0_6px_#4ade80]' : 'bg-gray-700'}`} />
+);
+
+export const MidiInputPicker: React.FC<MidiInputPickerProps> = ({ inputs, enabledNames, activityRef, onToggle }) => {
+  const [open, setOpen] = useState(false);
+  const [, setTick] = useState(0);
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  // Poll the activity ref so LEDs flicker without routing every message through React state
+  useEffect(() => {
+    const interval = setInterval(() => setTick(t => t + 1), 60);
+    return () => clearInterval(interval);
+  }, []);
+
+  useEffect(() => {
+    if (!open) return;
+    const handleClickOutside = (e: MouseEvent) => {
+      if (containerRef.current && !containerRef.current.contains(e.target as Node)) setOpen(false);
+    };
+    window.addEventListener('mousedown', handleClickOutside);
+    return () => window.removeEventListener('mousedown', handleClickOutside);
+  }, [open]);
+
+  const now = Date.now();
+  const isLit = (key: string) => now - (activityRef.current.get(key) ?? 0) < LED_HOLD_MS;
+  const enabledInputs = inputs.filter(input => enabledNames.includes(input.name));
+
+  let summary = 'No MIDI Devices';
+  if (inputs.length > 0) {
+    summary = enabledInputs.length === 1
+      ? enabledInputs[0].name
+      : `${enabledInputs.length} of ${inputs.length} inputs`;
+  }
+
+  return (
+    <div ref={containerRef} className="relative flex items-center gap-2 text-sm text-gray-400">
+      <Cable size={16} />
+      <button
+        onClick={() => setOpen(!open)}
+        disabled={inputs.length === 0}
+        className="flex items-center gap-2 bg-gray-800 border border-gray-700 rounded px-2 py-1 text-white outline-none focus:ring-1 focus:ring-cyan-500 max-w-[220px] disabled:text-gray-500"
+      >
+        {enabledInputs.length > 0 && (
+          <span className="flex gap-0.5">
+            {enabledInputs.map(input => <ActivityLed key={input.id} lit={isLit(getInputKey(input))} />)}
+          </span>
+        )}
+        <span className="truncate">{summary}</span>
+        <ChevronDown size={14} className="shrink-0 text-gray-400" />
+      </button>
+
+      {open && (
+        <div className="absolute top-full left-6 mt-2 w-64 bg-gray-900 border border-gray-700 rounded-lg shadow-2xl py-1 z-50">
+          {inputs.map(input => (
+            <label
+              key={input.id}
+              className="flex items-center gap-3 px-3 py-2 hover:bg-gray-800 cursor-pointer text-gray-200"
+            >
+              <input
+                type="checkbox"
+                checked={enabledNames.includes(input.name)}
+                onChange={() => onToggle(input.name)}
+                className="w-4 h-4 text-cyan-500 rounded focus:ring-cyan-500 bg-gray-700 border-gray-600"
+              />
+              <span className="flex-1 truncate">{input.name}</span>
+              <ActivityLed lit={isLit(getInputKey(input))} />
+            </label>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,160 @@
+import React from 'react';
+import { Modulation, ModulationSource, ModulationTarget, ModulationCurve, ControllerValuesMap, LearnTarget } from '../types';
+import {
+  MODULATION_SOURCES,
+  MODULATION_TARGETS,
+  MODULATION_CURVES,
+  createModulation,
+  sourceUsesController,
+  getModulationValue,
+} from '../utils/modulation';
+import { LearnButton } from './LearnButton';
+import { Plus, Trash2 } from 'lucide-react';
+
+interface ModulationEditorProps {
+  modulations: Modulation[];
+  controllerValues: ControllerValuesMap;
+  inputId: string;
+  learnTarget: LearnTarget | null;
+  onLearn: (modulationId: string) => void;
+  onChange: (modulations: Modulation[]) => void;
+}
+
+const selectClass = 'w-full bg-gray-800 border border-gray-700 rounded px-2 py-1 text-xs focus:ring-2 focus:ring-cyan-500 outline-none';
+const inputClass = 'w-full bg-gray-800 border border-gray-700 rounded px-2 py-1 text-xs focus:ring-2 focus:ring-cyan-500 outline-none';
+
+export const ModulationEditor: React.FC<ModulationEditorProps> = ({ modulations, controllerValues, inputId, learnTarget, onLearn, onChange }) => {
+  const updateModulation = (id: string, changes: Partial<Modulation>) => {
+    onChange(modulations.map(m => m.id === id ? { ...m, ...changes } : m));
+  };
+
+  // A cleared field would store NaN; keep the last value instead, and controllers in MIDI range
+  const updateController = (id: string, value: string) => {
+    const controller = parseInt(value);
+    if (!Number.isNaN(controller)) updateModulation(id, { controller: Math.max(0, Math.min(127, controller)) });
+  };
+
+  const updateRange = (id: string, field: 'min' | 'max', value: string) => {
+    const bound = parseFloat(value);
+    if (Number.isFinite(bound)) updateModulation(id, { [field]: bound });
+  };
+
+  const changeTarget = (modulation: Modulation, target: ModulationTarget) => {
+    // Switching target resets the range to that target's sensible default
+    const targetInfo = MODULATION_TARGETS.find(t => t.value === target)!;
+    updateModulation(modulation.id, { target, min: targetInfo.min, max: targetInfo.max });
+  };
+
+  const removeModulation = (id: string) => {
+    onChange(modulations.filter(m => m.id !== id));
+  };
+
+  return (
+    <div className="space-y-3">
+      {modulations.length === 0 && (
+        <p className="text-xs text-gray-500">No modulation. Map a knob, fader, pitch bend or aftertouch to a shape property.</p>
+      )}
+
+      {modulations.map(modulation => {
+        const value = getModulationValue(modulation, controllerValues, inputId);
+        const unit = MODULATION_TARGETS.find(t => t.value === modulation.target)?.unit;
+
+        return (
+          <div key={modulation.id} className="bg-gray-800/50 p-3 rounded space-y-2">
+            <div className="grid grid-cols-2 gap-2">
+              <select
+                value={modulation.source}
+                onChange={(e) => updateModulation(modulation.id, { source: e.target.value as ModulationSource })}
+                className={selectClass}
+              >
+                {MODULATION_SOURCES.map(s => <option key={s.value} value={s.value}>{s.label}</option>)}
+              </select>
+              <select
+                value={modulation.channel}
+                onChange={(e) => updateModulation(modulation.id, { channel: parseInt(e.target.value) })}
+                className={selectClass}
+              >
+                <option value={0}>Omni</option>
+                {Array.from({ length: 16 }, (_, i) => i + 1).map(ch => (
+                  <option key={ch} value={ch}>Ch {ch}</option>
+                ))}
+              </select>
+            </div>
+
+            <div className="grid grid-cols-2 gap-2">
+              {sourceUsesController(modulation.source) ? (
+                <input
+                  type="number"
+                  min="0"
+                  max="127"
+                  value={modulation.controller}
+                  onChange={(e) => updateController(modulation.id, e.target.value)}
+                  className={inputClass}
+                  title={modulation.source === 'cc' ? 'CC number' : 'Note number'}
+                />
+              ) : <div />}
+              <select
+                value={modulation.target}
+                onChange={(e) => changeTarget(modulation, e.target.value as ModulationTarget)}
+                className={selectClass}
+              >
+                {MODULATION_TARGETS.map(t => <option key={t.value} value={t.value}>{t.label}</option>)}
+              </select>
+            </div>
+
+            <div className="grid grid-cols-3 gap-2 items-center">
+              <input
+                type="number"
+                step="any"
+                value={modulation.min}
+                onChange={(e) => updateRange(modulation.id, 'min', e.target.value)}
+                className={inputClass}
+                title={`Minimum (${unit})`}
+              />
+              <input
+                type="number"
+                step="any"
+                value={modulation.max}
+                onChange={(e) => updateRange(modulation.id, 'max', e.target.value)}
+                className={inputClass}
+                title={`Maximum (${unit})`}
+              />
+              <select
+                value={modulation.curve}
+                onChange={(e) => updateModulation(modulation.id, { curve: e.target.value as ModulationCurve })}
+                className={selectClass}
+              >
+                {MODULATION_CURVES.map(c => <option key={c.value} value={c.value}>{c.label}</option>)}
+              </select>
+            </div>
+
+            <div className="flex items-center gap-2">
+              {/* Live input meter */}
+              <div className="flex-1 h-1.5 bg-gray-700 rounded overflow-hidden">
+                <div className="h-full bg-cyan-500" style={{ width: `${(value ?? 0) * 100}%` }} />
+              </div>
+              <LearnButton
+                armed={learnTarget?.kind === 'modulation' && learnTarget.modulationId === modulation.id}
+                onToggle={() => onLearn(modulation.id)}
+              />
+              <button
+                onClick={() => removeModulation(modulation.id)}
+                className="p-1 hover:text-red-400 text-gray-400 transition-colors"
+                title="Remove"
+              >
+                <Trash2 size={14} />
+              </button>
+            </div>
+          </div>
+        );
+      })}
+
+      <button
+        onClick={() => onChange([...modulations, createModulation()])}
+        className="w-full flex items-center justify-center gap-2 bg-gray-800 hover:bg-gray-700 text-gray-300 px-3 py-1.5 rounded transition-colors text-xs"
+      >
+        <Plus size={14} /> Add Modulation
+      </button>
+    </div>
+  );
+};
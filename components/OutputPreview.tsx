@@ -0,0 +1,52 @@
+import React from 'react';
+import { AppMode, MediaAsset } from '../types';
+import { ProjectionCanvas } from './ProjectionCanvas';
+import { OutputProjectState } from '../utils/outputSync';
+import { LiveState } from '../utils/liveState';
+import { X } from 'lucide-react';
+
+interface OutputPreviewProps {
+  project: OutputProjectState;
+  assets: MediaAsset[];
+  live: LiveState;
+  outputConnected: boolean;
+  onClose: () => void;
+}
+
+const noop = () => {};
+const NO_SELECTION: string[] = [];
+
+// Small read-only render of what the projector output shows, including the warp
+export const OutputPreview: React.FC<OutputPreviewProps> = ({ project, assets, live, outputConnected, onClose }) => (
+  <div className="absolute bottom-4 right-4 w-80 z-20 bg-gray-900/95 border border-gray-700 rounded-xl shadow-2xl overflow-hidden">
+    <div className="px-3 py-2 border-b border-gray-800 flex justify-between items-center">
+      <span className="flex items-center gap-2 text-xs font-semibold text-gray-300 uppercase tracking-wider">
+        <span className={`w-2 h-2 rounded-full ${outputConnected ? 'bg-green-400' : 'bg-gray-600'}`} />
+        Output {outputConnected ? '' : '(not open)'}
+      </span>
+      <button onClick={onClose} className="text-gray-400 hover:text-white"><X size={14} /></button>
+    </div>
+    <div className="aspect-video bg-black pointer-events-none">
+      <ProjectionCanvas
+        shapes={project.shapes}
+        assets={assets}
+        live={live}
+        scenes={project.scenes}
+        activeSceneId={project.activeSceneId}
+        sceneTransition={project.sceneTransition}
+        outputWarp={project.outputWarp}
+        calibrating={false}
+        onWarpChange={noop}
+        onCalibrationDone={noop}
+        mode={AppMode.PERFORMANCE}
+        selectedShapeIds={NO_SELECTION}
+        onSelectionChange={noop}
+        onShapeUpdate={noop}
+        onShapesUpdate={noop}
+        onNewShape={noop}
+        selectedVertexIndex={null}
+        onVertexSelect={noop}
+      />
+    </div>
+  </div>
+);
@@ -0,0 +1,91 @@
+import React, { useEffect, useState, useRef } from 'react';
+import { AppMode, MediaAsset } from '../types';
+import { ProjectionCanvas } from './ProjectionCanvas';
+import { OutputMessage, OutputProjectState, openOutputChannel, postOutputMessage } from '../utils/outputSync';
+import { createLiveState, replaceLiveState } from '../utils/liveState';
+
+const noop = () => {};
+const NO_SELECTION: string[] = [];
+
+// Bare projector output, driven entirely by the editor window over BroadcastChannel
+export const OutputWindow: React.FC = () => {
+  const [project, setProject] = useState<OutputProjectState | null>(null);
+  const [assets, setAssets] = useState<MediaAsset[]>([]);
+  // Live notes go straight to the renderer, without a React render per message
+  const liveRef = useRef(createLiveState());
+  const [showStats, setShowStats] = useState(false);
+  const [supported] = useState(() => typeof BroadcastChannel !== 'undefined');
+
+  useEffect(() => {
+    const channel = openOutputChannel();
+    if (!channel) return;
+
+    channel.onmessage = (event: MessageEvent<OutputMessage>) => {
+      const message = event.data;
+      if (message.type === 'project') setProject(message.state);
+      else if (message.type === 'assets') setAssets(message.assets);
+      else if (message.type === 'live') {
+        const { activeNotes, controllerValues, clock, messageAt } = message.state;
+        replaceLiveState(liveRef.current, activeNotes, controllerValues, clock, messageAt);
+      }
+    };
+    const outputId = crypto.randomUUID();
+    postOutputMessage(channel, { type: 'hello', outputId });
+
+    const sayGoodbye = () => postOutputMessage(channel, { type: 'goodbye', outputId });
+    window.addEventListener('beforeunload', sayGoodbye);
+    return () => {
+      window.removeEventListener('beforeunload', sayGoodbye);
+      sayGoodbye();
+      channel.close();
+    };
+  }, []);
+
+  useEffect(() => {
+    document.title = 'LumaMap Output';
+    // "S" toggles the FPS/latency overlay on the projector itself
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 's' || e.key === 'S') setShowStats(prev => !prev);
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, []);
+
+  const toggleFullscreen = () => {
+    if (document.fullscreenElement) document.exitFullscreen();
+    else document.documentElement.requestFullscreen().catch(err => console.warn('Fullscreen refused', err));
+  };
+
+  return (
+    <div className="w-screen h-screen bg-black" onDoubleClick={toggleFullscreen}>
+      {project ? (
+        <ProjectionCanvas
+          shapes={project.shapes}
+          assets={assets}
+          live={liveRef.current}
+          scenes={project.scenes}
+          activeSceneId={project.activeSceneId}
+          sceneTransition={project.sceneTransition}
+          outputWarp={project.outputWarp}
+          calibrating={false}
+          onWarpChange={noop}
+          onCalibrationDone={noop}
+          showStats={showStats}
+          mode={AppMode.PERFORMANCE}
+          selectedShapeIds={NO_SELECTION}
+          onSelectionChange={noop}
+          onShapeUpdate={noop}
+          onShapesUpdate={noop}
+          onNewShape={noop}
+          selectedVertexIndex={null}
+          onVertexSelect={noop}
+        />
+      ) : (
+        <div className="w-full h-full flex flex-col items-center justify-center gap-2 text-gray-500 text-sm select-none">
+          <p>{supported ? 'Waiting for the editor…' : 'This browser cannot sync windows (no BroadcastChannel).'}</p>
+          <p className="text-gray-600">Move this window to the projector and double-click for fullscreen. Press S for render stats.</p>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,189 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { Project, ProjectSummary } from '../types';
+import { ValidationIssue } from '../utils/projectFormat';
+import {
+  listProjects,
+  loadStoredProject,
+  putProject,
+  createProject,
+  renameProject,
+  duplicateProject,
+  deleteProject,
+} from '../utils/projectStorage';
+import { X, Plus, Copy, Trash2, Edit2, FolderOpen, Check } from 'lucide-react';
+
+interface ProjectLibraryProps {
+  currentProjectId: string | null;
+  onOpen: (project: Project, repairs?: ValidationIssue[]) => void; // repairs: fields fixed so it could open
+  onRenamed: (id: string, name: string) => void;
+  onDeleted: (id: string) => void;
+  onClose: () => void;
+}
+
+const formatDate = (timestamp: number) =>
+  new Date(timestamp).toLocaleString(undefined, { dateStyle: 'medium', timeStyle: 'short' });
+
+export const ProjectLibrary: React.FC<ProjectLibraryProps> = ({ currentProjectId, onOpen, onRenamed, onDeleted, onClose }) => {
+  const [projects, setProjects] = useState<ProjectSummary[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editingName, setEditingName] = useState('');
+
+  const refresh = useCallback(async () => {
+    try {
+      setProjects(await listProjects());
+      setError(null);
+    } catch (err) {
+      console.error(err);
+      setError('The project library is unavailable in this browser.');
+    }
+  }, []);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  // Wrap library actions so storage failures show up in the dialog instead of escaping
+  const run = async (action: () => Promise<void>) => {
+    try {
+      await action();
+    } catch (err) {
+      console.error(err);
+      setError('That action could not be completed.');
+    }
+  };
+
+  const handleCreate = () => run(async () => {
+    const project = createProject(`Project ${projects.length + 1}`);
+    await putProject(project);
+    onOpen(project);
+  });
+
+  const handleOpen = (id: string) => run(async () => {
+    const loaded = await loadStoredProject(id);
+    if (!loaded) return;
+    if (loaded.project) {
+      onOpen(loaded.project, loaded.issues);
+      return;
+    }
+    const first = loaded.issues[0];
+    setError(`"${loaded.name}" is damaged and could not be opened: ${first.path} ${first.message}`);
+  });
+
+  const commitRename = () => run(async () => {
+    const id = editingId;
+    const name = editingName.trim();
+    setEditingId(null);
+    if (!id || !name) return;
+    await renameProject(id, name);
+    onRenamed(id, name);
+    await refresh();
+  });
+
+  const handleDuplicate = (id: string) => run(async () => {
+    await duplicateProject(id);
+    await refresh();
+  });
+
+  const handleDelete = (project: ProjectSummary) => run(async () => {
+    if (!confirm(`Delete "${project.name}"? This cannot be undone.`)) return;
+    await deleteProject(project.id);
+    onDeleted(project.id);
+    await refresh();
+  });
+
+  return (
+    <div className="absolute inset-0 z-50 bg-black/60 backdrop-blur-sm flex items-center justify-center" onClick={onClose}>
+      <div
+        className="w-[560px] max-h-[80vh] flex flex-col bg-gray-900 border border-gray-700 rounded-xl shadow-2xl"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="p-4 border-b border-gray-800 flex justify-between items-center">
+          <h2 className="font-bold text-gray-200">Project Library</h2>
+          <div className="flex items-center gap-2">
+            <button
+              onClick={handleCreate}
+              className="flex items-center gap-1 bg-cyan-600 hover:bg-cyan-500 text-white px-3 py-1.5 rounded text-sm transition-colors"
+            >
+              <Plus size={14} /> New Project
+            </button>
+            <button onClick={onClose} className="text-gray-400 hover:text-white"><X size={18} /></button>
+          </div>
+        </div>
+
+        {error && <div className="px-4 py-2 text-sm text-red-400 bg-red-500/10 border-b border-red-500/20">{error}</div>}
+
+        <div className="flex-1 overflow-y-auto">
+          {projects.length === 0 && !error && (
+            <p className="text-center py-10 text-gray-500 text-sm">No saved projects yet.</p>
+          )}
+          {projects.map(project => (
+            <div
+              key={project.id}
+              className={`flex items-center gap-3 px-4 py-3 border-b border-gray-800 hover:bg-gray-800/50 ${project.id === currentProjectId ? 'bg-gray-800/70' : ''}`}
+            >
+              <div className="flex-1 min-w-0">
+                {editingId === project.id ? (
+                  <input
+                    autoFocus
+                    value={editingName}
+                    onChange={(e) => setEditingName(e.target.value)}
+                    onBlur={commitRename}
+                    onKeyDown={(e) => {
+                      if (e.key === 'Enter') commitRename();
+                      if (e.key === 'Escape') {
+                        e.stopPropagation();
+                        setEditingId(null);
+                      }
+                    }}
+                    className="w-full bg-gray-800 border border-gray-700 rounded px-2 py-1 text-sm focus:ring-2 focus:ring-cyan-500 outline-none"
+                  />
+                ) : (
+                  <p className="text-sm font-medium text-white truncate">
+                    {project.name}
+                    {project.id === currentProjectId && <span className="ml-2 text-xs text-cyan-400">(open)</span>}
+                  </p>
+                )}
+                <p className="text-xs text-gray-500">
+                  {project.shapeCount} shape{project.shapeCount === 1 ? '' : 's'} • Edited {formatDate(project.updatedAt)}
+                </p>
+              </div>
+              <div className="flex gap-1 text-gray-400">
+                {editingId === project.id ? (
+                  <button onMouseDown={(e) => e.preventDefault()} onClick={commitRename} className="p-1 hover:text-cyan-400" title="Save Name">
+                    <Check size={14} />
+                  </button>
+                ) : (
+                  <button
+                    onClick={() => {
+                      setEditingId(project.id);
+                      setEditingName(project.name);
+                    }}
+                    className="p-1 hover:text-cyan-400"
+                    title="Rename"
+                  >
+                    <Edit2 size={14} />
+                  </button>
+                )}
+                <button onClick={() => handleDuplicate(project.id)} className="p-1 hover:text-cyan-400" title="Duplicate">
+                  <Copy size={14} />
+                </button>
+                <button onClick={() => handleDelete(project)} className="p-1 hover:text-red-400" title="Delete">
+                  <Trash2 size={14} />
+                </button>
+                <button
+                  onClick={() => handleOpen(project.id)}
+                  disabled={project.id === currentProjectId}
+                  className="p-1 hover:text-cyan-400 disabled:opacity-30 disabled:hover:text-gray-400"
+                  title="Open"
+                >
+                  <FolderOpen size={14} />
+                </button>
+              </div>
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+};
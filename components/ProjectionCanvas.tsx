@@ -1,77 +1,267 @@
 import React, { useRef, useState, useEffect } from 'react';
-import { Shape, Point, ActiveNotesMap, AppMode } from '../types';
-import { getNoteKey } from '../utils/midiUtils';
+import { Shape, Point, Scene, OutputWarp, MediaAsset, AppMode, ReferenceLayer } from '../types';
+import { SceneTransition } from '../utils/scenes';
+import { LiveState } from '../utils/liveState';
+import { ShapeRenderer, createShapeRenderer } from '../utils/shapeRenderer';
+import { getWarpHomography, invertHomography, applyHomography, homographyToCss } from '../utils/homography';
+import { useElementSize } from '../hooks/useElementSize';
+import { CalibrationOverlay } from './CalibrationOverlay';
+import { RenderStatsOverlay } from './RenderStatsOverlay';
+import { ReferenceBackground } from './ReferenceBackground';
+import { DrawingToolbar } from './DrawingToolbar';
+import {
+  ShapeOutline,
+  createPolygonOutline,
+  getEdgePoint,
+  getOutlinePathData,
+  insertVertex,
+  moveVertex,
+  removeVertex,
+} from '../utils/geometry';
+import { DEFAULT_POLYGON_SIDES, DrawTool, getToolOutline } from '../utils/drawingTools';
+import { DEFAULT_SNAP_SETTINGS, SnapSettings, getSnapTolerance, snapPoint } from '../utils/snapping';
+import { Bounds, clampMove, getBounds, getBoundsCenter, moveOutlines, rotateOutlines, scaleOutlines } from '../utils/arrange';
+import { expandToGroups } from '../utils/groups';
+import { isTypingTarget } from '../utils/keyboard';
 
 interface ProjectionCanvasProps {
   shapes: Shape[];
-  activeNotes: ActiveNotesMap;
+  assets: MediaAsset[];
+  // Read by the canvas renderer every frame; note traffic never re-renders this component
+  live: LiveState;
+  scenes: Scene[];
+  activeSceneId: string | null;
+  sceneTransition: SceneTransition | null;
+  outputWarp: OutputWarp;
+  // Edit-mode tracing background; output windows leave it out
+  reference?: ReferenceLayer;
+  calibrating: boolean;
+  onWarpChange: (warp: OutputWarp) => void;
+  onCalibrationDone: () => void;
+  showStats?: boolean;
   mode: AppMode;
-  selectedShapeId: string | null;
-  onShapeSelect: (id: string | null) => void;
-  onShapeUpdate: (shape: Shape) => void;
-  onNewShapePoints: (points: Point[]) => void;
+  selectedShapeIds: string[];
+  onSelectionChange: (ids: string[]) => void;
+  onShapeUpdate: (shape: Shape, label?: string, mergeKey?: string) => void;
+  onShapesUpdate: (shapes: Shape[], label: string, mergeKey?: string) => void;
+  onNewShape: (outline: ShapeOutline) => void;
+  selectedVertexIndex: number | null;
+  onVertexSelect: (index: number | null) => void;
 }
 
+// What a pointer drag is changing: a point of the one selected shape, or the whole selection.
+// Whole-selection drags keep the shapes as they were when the drag began and transform those.
+type DragTarget =
+  | { kind: 'vertex'; index: number }
+  | { kind: 'control'; edge: number; handle: 'c1' | 'c2' }
+  | { kind: 'move'; start: Point; originals: Shape[] }
+  | { kind: 'scale'; corner: number; originals: Shape[]; bounds: Bounds }
+  | { kind: 'rotate'; start: Point; originals: Shape[]; center: Point };
+
+// Selection box corners clockwise from top-left, with the resize cursor for each
+const BOX_CORNERS = [
+  { x: 'minX', y: 'minY', cursor: 'cursor-nwse-resize' },
+  { x: 'maxX', y: 'minY', cursor: 'cursor-nesw-resize' },
+  { x: 'maxX', y: 'maxY', cursor: 'cursor-nwse-resize' },
+  { x: 'minX', y: 'maxY', cursor: 'cursor-nesw-resize' },
+] as const;
+
+// Percent; keeps the selection box clear of vertex handles on the shapes' own corners
+const BOX_PADDING = 1.5;
+const ROTATE_HANDLE_OFFSET = 4;
+// Shift snaps rotation to these steps
+const ROTATE_SNAP = Math.PI / 12;
+// Scaling stops short of zero so a shape can't collapse into a line
+const MIN_SCALE = 0.01;
+// Pointer travel (pixels) before a press on empty canvas becomes a marquee
+const MARQUEE_THRESHOLD_PX = 4;
+
+// Arrow keys nudge by a tenth of a percent, or a whole percent with Shift
+const NUDGE_STEP = 0.1;
+const NUDGE_STEP_LARGE = 1;
+
+const ARROW_KEYS: Record<string, { x: number; y: number }> = {
+  ArrowLeft: { x: -1, y: 0 },
+  ArrowRight: { x: 1, y: 0 },
+  ArrowUp: { x: 0, y: -1 },
+  ArrowDown: { x: 0, y: 1 },
+};
+
+const clampPercent = (p: Point): Point => ({ x: Math.max(0, Math.min(100, p.x)), y: Math.max(0, Math.min(100, p.y)) });
+
 export const ProjectionCanvas: React.FC<ProjectionCanvasProps> = ({
   shapes,
-  activeNotes,
+  assets,
+  live,
+  scenes,
+  activeSceneId,
+  sceneTransition,
+  outputWarp,
+  reference,
+  calibrating,
+  onWarpChange,
+  onCalibrationDone,
+  showStats = false,
   mode,
-  selectedShapeId,
-  onShapeSelect,
+  selectedShapeIds,
+  onSelectionChange,
   onShapeUpdate,
-  onNewShapePoints
+  onShapesUpdate,
+  onNewShape,
+  selectedVertexIndex,
+  onVertexSelect
 }) => {
   const svgRef = useRef<SVGSVGElement>(null);
+  const containerRef = useRef<HTMLDivElement>(null);
+  const containerSize = useElementSize(containerRef);
   const [drawingPoints, setDrawingPoints] = useState<Point[]>([]);
   const [isDrawing, setIsDrawing] = useState(false);
-  const [draggedPointIndex, setDraggedPointIndex] = useState<number | null>(null);
+  const [drag, setDrag] = useState<DragTarget | null>(null);
+  // Identifies the current drag so all of its moves become a single undo step
+  const dragGestureRef = useRef('');
+  const [tool, setTool] = useState<DrawTool>('polygon');
+  const [polygonSides, setPolygonSides] = useState(DEFAULT_POLYGON_SIDES);
+  const [snap, setSnap] = useState<SnapSettings>(DEFAULT_SNAP_SETTINGS);
+  // Shape tool drag in progress: where it started and where the pointer is now
+  const [creating, setCreating] = useState<{ start: Point; end: Point; constrain: boolean } | null>(null);
+  const [snapMarker, setSnapMarker] = useState<Point | null>(null);
+  // Rubber-band selection on empty canvas; Shift adds to the current selection
+  const [marquee, setMarquee] = useState<{ start: Point; end: Point; additive: boolean } | null>(null);
+  // The click that ends a shape tool drag must not also start a polygon or deselect
+  const suppressClickRef = useRef(false);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const rendererRef = useRef<ShapeRenderer | null>(null);
 
   // Refs to hold latest state for event handlers without triggering re-binds
   const shapesRef = useRef(shapes);
   shapesRef.current = shapes;
+  // Point editing needs exactly one selected shape
+  const selectedShapeId = selectedShapeIds.length === 1 ? selectedShapeIds[0] : null;
   const selectedShapeIdRef = useRef(selectedShapeId);
   selectedShapeIdRef.current = selectedShapeId;
+  const selectionRef = useRef(selectedShapeIds);
+  selectionRef.current = selectedShapeIds;
+  const snapRef = useRef(snap);
+  snapRef.current = snap;
+  const sizeRef = useRef(containerSize);
+  sizeRef.current = containerSize;
+
+  // Output warp: the whole drawing layer is corner-pinned, shape coordinates stay unwarped
+  const warpHomography = getWarpHomography(outputWarp, containerSize.width, containerSize.height);
+  const inverseWarp = warpHomography ? invertHomography(warpHomography) : null;
 
-  // Helper to convert Client Coordinates to Percentage (0-100)
+  // Helper to convert Client Coordinates to Percentage (0-100) in unwarped shape space
   const getCoords = (clientX: number, clientY: number): Point => {
-    if (!svgRef.current) return { x: 0, y: 0 };
-    const rect = svgRef.current.getBoundingClientRect();
+    if (!containerRef.current) return { x: 0, y: 0 };
+    const rect = containerRef.current.getBoundingClientRect();
+    let local = { x: clientX - rect.left, y: clientY - rect.top };
+    if (inverseWarp) local = applyHomography(inverseWarp, local);
     return {
-      x: ((clientX - rect.left) / rect.width) * 100,
-      y: ((clientY - rect.top) / rect.height) * 100
+      x: (local.x / rect.width) * 100,
+      y: (local.y / rect.height) * 100
     };
   };
 
+  // Snaps to the grid and to other shapes unless Alt is held, and marks where it snapped
+  const snapCoords = (point: Point, free: boolean, excludeId: string | null): Point => {
+    if (free) {
+      setSnapMarker(null);
+      return point;
+    }
+    const tolerance = getSnapTolerance(sizeRef.current.width, sizeRef.current.height);
+    const result = snapPoint(point, shapesRef.current, snapRef.current, tolerance, excludeId);
+    setSnapMarker(result.kind ? result.point : null);
+    return result.point;
+  };
+
   const handleSvgClick = (e: React.MouseEvent) => {
-    if (mode === AppMode.PERFORMANCE) return;
+    if (mode === AppMode.PERFORMANCE || calibrating) return;
+    if (suppressClickRef.current) {
+      suppressClickRef.current = false;
+      return;
+    }
     
     // If clicking on background while selecting, deselect
     // We check if target is the SVG itself to avoid deselecting when clicking a shape
-    if (selectedShapeId && !isDrawing && (e.target as Element).tagName === 'svg') {
-      onShapeSelect(null);
+    if (selectedShapeIds.length > 0 && !isDrawing && (e.target as Element).tagName === 'svg') {
+      onSelectionChange([]);
       return;
     }
+    if (tool !== 'polygon') return;
 
-    if (!isDrawing && !selectedShapeId) {
+    const point = clampPercent(snapCoords(getCoords(e.clientX, e.clientY), e.altKey, null));
+    if (!isDrawing && selectedShapeIds.length === 0) {
        // Start drawing if nothing selected
        setIsDrawing(true);
-       setDrawingPoints([getCoords(e.clientX, e.clientY)]);
+       setDrawingPoints([point]);
     } else if (isDrawing) {
        // Add point
-       setDrawingPoints(prev => [...prev, getCoords(e.clientX, e.clientY)]);
+       setDrawingPoints(prev => [...prev, point]);
+    }
+  };
+
+  // On empty canvas, shape tools draw with a drag; the polygon tool drags a selection marquee
+  const handleSvgMouseDown = (e: React.MouseEvent) => {
+    if (mode !== AppMode.EDIT || calibrating || isDrawing) return;
+    if ((e.target as Element).tagName !== 'svg' || e.button !== 0) return;
+    // A drag that ended outside the canvas never got its click
+    suppressClickRef.current = false;
+    if (tool === 'polygon') {
+      const start = getCoords(e.clientX, e.clientY);
+      setMarquee({ start, end: start, additive: e.shiftKey });
+      return;
+    }
+    e.preventDefault();
+    const start = clampPercent(snapCoords(getCoords(e.clientX, e.clientY), e.altKey, null));
+    setCreating({ start, end: start, constrain: e.shiftKey });
+  };
+
+  // Picking a shape picks its whole group; Shift toggles it in or out of the selection.
+  // Pressing on a selected shape starts moving everything selected.
+  const handleShapeMouseDown = (e: React.MouseEvent, shape: Shape) => {
+    if (e.button !== 0 || isDrawing) return;
+    e.stopPropagation();
+    e.preventDefault();
+    const picked = expandToGroups(shapes, [shape.id]);
+    if (e.shiftKey) {
+      const allSelected = picked.every(id => selectedShapeIds.includes(id));
+      onSelectionChange(allSelected
+        ? selectedShapeIds.filter(id => !picked.includes(id))
+        : [...selectedShapeIds, ...picked.filter(id => !selectedShapeIds.includes(id))]);
+      return;
     }
+    const selection = selectedShapeIds.includes(shape.id) ? selectedShapeIds : picked;
+    if (selection !== selectedShapeIds) onSelectionChange(selection);
+    dragGestureRef.current = `move-${Date.now()}`;
+    setDrag({ kind: 'move', start: getCoords(e.clientX, e.clientY), originals: shapes.filter(s => selection.includes(s.id)) });
+  };
+
+  const startTransform = (e: React.MouseEvent, kind: 'scale' | 'rotate', corner = 0) => {
+    const originals = shapes.filter(s => selectedShapeIds.includes(s.id));
+    const bounds = getBounds(originals);
+    if (!bounds) return;
+    e.stopPropagation();
+    e.preventDefault();
+    dragGestureRef.current = `${kind}-${Date.now()}`;
+    setDrag(kind === 'scale'
+      ? { kind, corner, originals, bounds }
+      : { kind, start: getCoords(e.clientX, e.clientY), originals, center: getBoundsCenter(bounds) });
   };
 
   const finishDrawing = () => {
     if (drawingPoints.length >= 3) {
-      onNewShapePoints(drawingPoints);
+      onNewShape(createPolygonOutline(drawingPoints));
     }
     setDrawingPoints([]);
     setIsDrawing(false);
+    setSnapMarker(null);
   };
 
+  const selectedShape = shapes.find(s => s.id === selectedShapeId);
+  const selectedShapes = shapes.filter(s => selectedShapeIds.includes(s.id));
+
   const handleKeyDown = (e: KeyboardEvent) => {
-    if (mode === AppMode.PERFORMANCE) return;
+    if (mode === AppMode.PERFORMANCE || isTypingTarget(e.target)) return;
 
     if (e.key === 'Enter' && isDrawing) {
       finishDrawing();
@@ -80,8 +270,42 @@ export const ProjectionCanvas: React.FC<ProjectionCanvasProps> = ({
       if (isDrawing) {
         setDrawingPoints([]);
         setIsDrawing(false);
+        setSnapMarker(null);
+      } else if (selectedVertexIndex !== null) {
+        onVertexSelect(null);
+      } else {
+        onSelectionChange([]);
+      }
+    }
+    if (selectedShapes.length === 0 || isDrawing || calibrating) return;
+
+    if ((e.key === 'Delete' || e.key === 'Backspace') && selectedShape && selectedVertexIndex !== null) {
+      e.preventDefault();
+      if (selectedShape.points.length <= 3) return;
+      onShapeUpdate({ ...selectedShape, ...removeVertex(selectedShape, selectedVertexIndex) }, 'Delete Vertex');
+      onVertexSelect(null);
+      return;
+    }
+
+    const arrow = ARROW_KEYS[e.key];
+    if (arrow) {
+      e.preventDefault();
+      const step = e.shiftKey ? NUDGE_STEP_LARGE : NUDGE_STEP;
+      const vertex = selectedShape && selectedVertexIndex !== null ? selectedShape.points[selectedVertexIndex] : undefined;
+      if (vertex) {
+        const to = clampPercent({ x: vertex.x + arrow.x * step, y: vertex.y + arrow.y * step });
+        onShapeUpdate(
+          { ...selectedShape, ...moveVertex(selectedShape, selectedVertexIndex!, to) },
+          'Nudge Vertex',
+          `nudge-${selectedShape.id}-${selectedVertexIndex}`
+        );
       } else {
-        onShapeSelect(null);
+        const { dx, dy } = clampMove(getBounds(selectedShapes)!, arrow.x * step, arrow.y * step);
+        onShapesUpdate(
+          moveOutlines(selectedShapes, dx, dy),
+          selectedShapes.length > 1 ? 'Nudge Shapes' : 'Nudge Shape',
+          `nudge-${selectedShapeIds.join(',')}`
+        );
       }
     }
   };
@@ -89,13 +313,54 @@ export const ProjectionCanvas: React.FC<ProjectionCanvasProps> = ({
   useEffect(() => {
     window.addEventListener('keydown', handleKeyDown);
     return () => window.removeEventListener('keydown', handleKeyDown);
-  }, [isDrawing, drawingPoints, mode]);
+  }, [isDrawing, drawingPoints, mode, calibrating, shapes, selectedShapeIds, selectedVertexIndex, onShapeUpdate, onShapesUpdate]);
+
+  const transformSelection = (drag: Extract<DragTarget, { originals: Shape[] }>, point: Point, shift: boolean) => {
+    const { originals } = drag;
+    const plural = originals.length > 1 ? 'Shapes' : 'Shape';
+    if (drag.kind === 'move') {
+      const { dx, dy } = clampMove(getBounds(originals)!, point.x - drag.start.x, point.y - drag.start.y);
+      if (dx === 0 && dy === 0) return;
+      onShapesUpdate(moveOutlines(originals, dx, dy), `Move ${plural}`, dragGestureRef.current);
+    } else if (drag.kind === 'scale') {
+      // Scale about the opposite corner; Shift keeps the proportions
+      const handle = BOX_CORNERS[drag.corner];
+      const anchor = BOX_CORNERS[(drag.corner + 2) % 4];
+      const from = { x: drag.bounds[handle.x], y: drag.bounds[handle.y] };
+      const origin = { x: drag.bounds[anchor.x], y: drag.bounds[anchor.y] };
+      const factor = (to: number, start: number, fixed: number) => {
+        if (start === fixed) return 1;
+        const f = (to - fixed) / (start - fixed);
+        return Math.abs(f) < MIN_SCALE ? Math.sign(f || 1) * MIN_SCALE : f;
+      };
+      let sx = factor(point.x, from.x, origin.x);
+      let sy = factor(point.y, from.y, origin.y);
+      if (shift) {
+        const uniform = Math.max(Math.abs(sx), Math.abs(sy));
+        sx = Math.sign(sx) * uniform;
+        sy = Math.sign(sy) * uniform;
+      }
+      onShapesUpdate(scaleOutlines(originals, origin, sx, sy), `Scale ${plural}`, dragGestureRef.current);
+    } else {
+      const { width, height } = sizeRef.current;
+      const aspect = height > 0 ? width / height : 1;
+      const angleTo = (p: Point) => Math.atan2(p.y - drag.center.y, (p.x - drag.center.x) * aspect);
+      let angle = angleTo(point) - angleTo(drag.start);
+      if (shift) angle = Math.round(angle / ROTATE_SNAP) * ROTATE_SNAP;
+      onShapesUpdate(rotateOutlines(originals, drag.center, angle, aspect), `Rotate ${plural}`, dragGestureRef.current);
+    }
+  };
 
   // Robust Point Dragging Logic using Refs
   useEffect(() => {
-    if (draggedPointIndex === null) return;
+    if (drag === null) return;
 
     const handleWindowMouseMove = (e: MouseEvent) => {
+      if (drag.kind === 'move' || drag.kind === 'scale' || drag.kind === 'rotate') {
+        transformSelection(drag, getCoords(e.clientX, e.clientY), e.shiftKey);
+        return;
+      }
+
       // Access latest state via refs
       const currentShapes = shapesRef.current;
       const currentId = selectedShapeIdRef.current;
@@ -104,19 +369,20 @@ export const ProjectionCanvas: React.FC<ProjectionCanvasProps> = ({
       const shape = currentShapes.find(s => s.id === currentId);
       if (!shape) return;
 
-      const point = getCoords(e.clientX, e.clientY);
-      // Clamp to 0-100 to keep inside canvas
-      point.x = Math.max(0, Math.min(100, point.x));
-      point.y = Math.max(0, Math.min(100, point.y));
-      
-      const newPoints = [...shape.points];
-      newPoints[draggedPointIndex] = point;
-      
-      onShapeUpdate({ ...shape, points: newPoints });
+      const point = snapCoords(getCoords(e.clientX, e.clientY), e.altKey, shape.id);
+      if (drag.kind === 'vertex') {
+        // Clamp to 0-100 to keep inside canvas
+        onShapeUpdate({ ...shape, ...moveVertex(shape, drag.index, clampPercent(point)) }, 'Move Vertex', dragGestureRef.current);
+      } else {
+        // Control points may sit outside the canvas; only the curve has to stay on it
+        const curves = shape.curves.map((curve, i) => i === drag.edge && curve ? { ...curve, [drag.handle]: point } : curve);
+        onShapeUpdate({ ...shape, curves }, 'Bend Edge', dragGestureRef.current);
+      }
     };
 
     const handleWindowMouseUp = () => {
-      setDraggedPointIndex(null);
+      setDrag(null);
+      setSnapMarker(null);
     };
 
     window.addEventListener('mousemove', handleWindowMouseMove);
@@ -126,39 +392,136 @@ export const ProjectionCanvas: React.FC<ProjectionCanvasProps> = ({
       window.removeEventListener('mousemove', handleWindowMouseMove);
       window.removeEventListener('mouseup', handleWindowMouseUp);
     };
-  }, [draggedPointIndex, onShapeUpdate]); // Dependencies minimal to prevent re-binding
-
-  // Logic to determine if a shape is active based on MIDI
-  const isShapeActive = (shape: Shape): { active: boolean; velocity: number } => {
-    let maxVelocity = 0;
-    let isActive = false;
-
-    for (let note = shape.noteStart; note <= shape.noteEnd; note++) {
-      if (shape.channel === 0) {
-        for (let ch = 1; ch <= 16; ch++) {
-           const key = getNoteKey(ch, note);
-           if (activeNotes.has(key)) {
-             isActive = true;
-             maxVelocity = Math.max(maxVelocity, activeNotes.get(key)!.velocity);
-           }
-        }
-      } else {
-        const key = getNoteKey(shape.channel, note);
-        if (activeNotes.has(key)) {
-          isActive = true;
-          maxVelocity = Math.max(maxVelocity, activeNotes.get(key)!.velocity);
-        }
+  }, [drag, onShapeUpdate, onShapesUpdate]); // Dependencies minimal to prevent re-binding
+
+  // Marquee: select every shape entirely inside the box, whole groups at a time
+  useEffect(() => {
+    if (!marquee) return;
+
+    const handleWindowMouseMove = (e: MouseEvent) => {
+      const end = getCoords(e.clientX, e.clientY);
+      setMarquee(prev => prev && { ...prev, end });
+    };
+
+    const handleWindowMouseUp = (e: MouseEvent) => {
+      setMarquee(null);
+      const end = getCoords(e.clientX, e.clientY);
+      const { width, height } = sizeRef.current;
+      const travel = Math.hypot(((end.x - marquee.start.x) / 100) * width, ((end.y - marquee.start.y) / 100) * height);
+      // A press without a drag is a plain click, handled by the click handler
+      if (travel < MARQUEE_THRESHOLD_PX) return;
+      suppressClickRef.current = true;
+
+      const box = {
+        minX: Math.min(marquee.start.x, end.x),
+        minY: Math.min(marquee.start.y, end.y),
+        maxX: Math.max(marquee.start.x, end.x),
+        maxY: Math.max(marquee.start.y, end.y),
+      };
+      const currentShapes = shapesRef.current;
+      const inside = currentShapes.filter(shape => {
+        const bounds = getBounds([shape]);
+        return !!bounds && bounds.minX >= box.minX && bounds.maxX <= box.maxX && bounds.minY >= box.minY && bounds.maxY <= box.maxY;
+      });
+      const picked = expandToGroups(currentShapes, inside.map(shape => shape.id));
+      const current = marquee.additive ? selectionRef.current : [];
+      onSelectionChange([...current, ...picked.filter(id => !current.includes(id))]);
+    };
+
+    window.addEventListener('mousemove', handleWindowMouseMove);
+    window.addEventListener('mouseup', handleWindowMouseUp);
+
+    return () => {
+      window.removeEventListener('mousemove', handleWindowMouseMove);
+      window.removeEventListener('mouseup', handleWindowMouseUp);
+    };
+  }, [marquee?.start, marquee?.additive, onSelectionChange]);
+
+  // Shape tool drag: follow the pointer, then add the shape on release
+  useEffect(() => {
+    if (!creating) return;
+
+    const handleWindowMouseMove = (e: MouseEvent) => {
+      const end = clampPercent(snapCoords(getCoords(e.clientX, e.clientY), e.altKey, null));
+      setCreating(prev => prev && { ...prev, end, constrain: e.shiftKey });
+    };
+
+    const handleWindowMouseUp = (e: MouseEvent) => {
+      const end = clampPercent(snapCoords(getCoords(e.clientX, e.clientY), e.altKey, null));
+      const { width, height } = sizeRef.current;
+      const outline = getToolOutline(tool, creating.start, end, e.shiftKey, polygonSides, width, height);
+      if (outline) {
+        suppressClickRef.current = true;
+        onNewShape(outline);
       }
-    }
-    return { active: isActive, velocity: maxVelocity };
+      setCreating(null);
+      setSnapMarker(null);
+    };
+
+    window.addEventListener('mousemove', handleWindowMouseMove);
+    window.addEventListener('mouseup', handleWindowMouseUp);
+
+    return () => {
+      window.removeEventListener('mousemove', handleWindowMouseMove);
+      window.removeEventListener('mouseup', handleWindowMouseUp);
+    };
+  }, [creating?.start, tool, polygonSides, onNewShape]);
+
+  // Fills are drawn by the canvas renderer outside React; SVG only carries editing overlays
+  useEffect(() => {
+    if (!canvasRef.current) return;
+    const renderer = createShapeRenderer(canvasRef.current, live);
+    rendererRef.current = renderer;
+    return () => {
+      renderer.destroy();
+      rendererRef.current = null;
+    };
+  }, [live]);
+
+  useEffect(() => {
+    rendererRef.current?.setScene({ shapes, scenes, activeSceneId, sceneTransition, mode, selectedShapeIds });
+  }, [live, shapes, scenes, activeSceneId, sceneTransition, mode, selectedShapeIds]);
+
+  useEffect(() => {
+    rendererRef.current?.setAssets(assets);
+  }, [live, assets]);
+
+  useEffect(() => {
+    rendererRef.current?.setSize(containerSize.width, containerSize.height);
+  }, [live, containerSize.width, containerSize.height]);
+
+  const creatingOutline = creating
+    ? getToolOutline(tool, creating.start, creating.end, creating.constrain, polygonSides, containerSize.width, containerSize.height)
+    : null;
+  const isEditing = mode === AppMode.EDIT && !calibrating;
+  const isPointDrag = drag?.kind === 'vertex' || drag?.kind === 'control';
+  const selectionBounds = isEditing && !isDrawing && !isPointDrag ? getBounds(selectedShapes) : null;
+  const box = selectionBounds && {
+    minX: selectionBounds.minX - BOX_PADDING,
+    minY: selectionBounds.minY - BOX_PADDING,
+    maxX: selectionBounds.maxX + BOX_PADDING,
+    maxY: selectionBounds.maxY + BOX_PADDING,
   };
 
-  const selectedShape = shapes.find(s => s.id === selectedShapeId);
+  const startDrag = (e: React.MouseEvent, target: DragTarget, gesture: string) => {
+    e.stopPropagation();
+    e.preventDefault(); // Prevent text selection
+    dragGestureRef.current = `${gesture}-${Date.now()}`;
+    setDrag(target);
+  };
 
   return (
-    <div className={`w-full h-full relative overflow-hidden ${mode === AppMode.PERFORMANCE ? 'cursor-none bg-black' : 'bg-gray-900 cursor-crosshair'}`}>
+    <div ref={containerRef} className={`w-full h-full relative overflow-hidden ${mode === AppMode.PERFORMANCE ? 'cursor-none bg-black' : 'bg-gray-900 cursor-crosshair'}`}>
+      {/* Reference photo or camera of the real surface, in projector space under the warped shapes */}
+      {mode === AppMode.EDIT && reference && <ReferenceBackground reference={reference} assets={assets} />}
+
+      {/* Warped output layer */}
+      <div
+        className="absolute inset-0"
+        style={warpHomography ? { transform: homographyToCss(warpHomography), transformOrigin: '0 0' } : undefined}
+      >
       {/* Grid for editing reference */}
-      {mode === AppMode.EDIT && (
+      {mode === AppMode.EDIT && !calibrating && (
         <div className="absolute inset-0 pointer-events-none opacity-20" 
              style={{ 
                backgroundImage: 'linear-gradient(#444 1px, transparent 1px), linear-gradient(90deg, #444 1px, transparent 1px)', 
@@ -167,69 +530,103 @@ export const ProjectionCanvas: React.FC<ProjectionCanvasProps> = ({
         />
       )}
 
+      <canvas ref={canvasRef} className="w-full h-full absolute inset-0 block pointer-events-none" />
+
       {/* SVG Container with viewBox */}
       <svg 
         ref={svgRef}
         className="w-full h-full absolute inset-0 block"
         onClick={handleSvgClick}
+        onMouseDown={handleSvgMouseDown}
         viewBox="0 0 100 100"
         preserveAspectRatio="none"
       >
-        {/* Render Existing Shapes */}
-        {shapes.map(shape => {
-          const { active, velocity } = isShapeActive(shape);
-          const isSelected = shape.id === selectedShapeId;
-          
-          let opacity = 0;
-          if (active) {
-            opacity = shape.velocitySensitive 
-              ? (velocity / 127) * shape.baseOpacity 
-              : shape.baseOpacity;
-          } else if (mode === AppMode.EDIT) {
-             opacity = 0.2; 
-          }
-
-          const pointsStr = shape.points.map(p => `${p.x},${p.y}`).join(' ');
-
-          return (
-            <g key={shape.id} onClick={(e) => {
-              if (mode === AppMode.EDIT) {
-                e.stopPropagation();
-                onShapeSelect(shape.id);
-              }
-            }}>
-              <polygon
-                points={pointsStr}
-                fill={shape.color}
-                fillOpacity={opacity}
-                stroke={mode === AppMode.EDIT ? (isSelected ? '#22d3ee' : 'rgba(255,255,255,0.3)') : 'none'}
-                strokeWidth={mode === AppMode.EDIT ? (isSelected ? 1.5 : 0.5) : 0}
+        {/* Invisible hit areas for selecting shapes */}
+        {isEditing && shapes.map(shape => (
+          <path
+            key={shape.id}
+            d={getOutlinePathData(shape)}
+            fill="transparent"
+            className={selectedShapeIds.includes(shape.id) ? 'cursor-move' : 'cursor-pointer'}
+            onMouseDown={(e) => handleShapeMouseDown(e, shape)}
+            // While drawing, clicks pass through so points can be placed over other shapes
+            onClick={(e) => {
+              if (!isDrawing) e.stopPropagation();
+            }}
+            // Double-click picks one shape out of its group
+            onDoubleClick={(e) => {
+              e.stopPropagation();
+              onSelectionChange([shape.id]);
+            }}
+          />
+        ))}
+
+        {/* Selection box: corners scale, the handle above rotates */}
+        {box && (
+          <g>
+            <rect
+              x={box.minX}
+              y={box.minY}
+              width={box.maxX - box.minX}
+              height={box.maxY - box.minY}
+              fill="none"
+              stroke="#a78bfa"
+              strokeWidth="1"
+              strokeDasharray="3 2"
+              vectorEffect="non-scaling-stroke"
+              className="pointer-events-none"
+            />
+            <line
+              x1={(box.minX + box.maxX) / 2}
+              y1={box.minY}
+              x2={(box.minX + box.maxX) / 2}
+              y2={box.minY - ROTATE_HANDLE_OFFSET}
+              stroke="#a78bfa"
+              strokeWidth="1"
+              vectorEffect="non-scaling-stroke"
+              className="pointer-events-none"
+            />
+            <circle
+              cx={(box.minX + box.maxX) / 2}
+              cy={box.minY - ROTATE_HANDLE_OFFSET}
+              r="1.2"
+              fill="#a78bfa"
+              stroke="black"
+              strokeWidth="0.5"
+              vectorEffect="non-scaling-stroke"
+              className="cursor-grab hover:fill-white transition-colors"
+              onClick={(e) => e.stopPropagation()}
+              onMouseDown={(e) => startTransform(e, 'rotate')}
+            >
+              <title>Rotate (Shift snaps to 15°)</title>
+            </circle>
+            {BOX_CORNERS.map((corner, i) => (
+              <rect
+                key={i}
+                x={box[corner.x] - 1}
+                y={box[corner.y] - 1}
+                width="2"
+                height="2"
+                fill="#a78bfa"
+                stroke="black"
+                strokeWidth="0.5"
                 vectorEffect="non-scaling-stroke"
-                className="transition-all duration-75 ease-out"
-              />
-              {mode === AppMode.EDIT && (
-                <text 
-                  x={shape.points[0].x} 
-                  y={shape.points[0].y} 
-                  fill="white" 
-                  fontSize="2"
-                  dy="-1"
-                  className="pointer-events-none select-none drop-shadow-md"
-                  style={{ textShadow: '0 1px 2px black' }}
-                >
-                  {shape.name}
-                </text>
-              )}
-            </g>
-          );
-        })}
+                className={`${corner.cursor} hover:fill-white transition-colors`}
+                onClick={(e) => e.stopPropagation()}
+                onMouseDown={(e) => startTransform(e, 'scale', i)}
+              >
+                <title>Scale (Shift keeps proportions)</title>
+              </rect>
+            ))}
+          </g>
+        )}
 
         {/* Selected Shape Edit Handles */}
-        {mode === AppMode.EDIT && selectedShape && !isDrawing && (
+        {isEditing && selectedShape && !isDrawing && (
            <g>
              {/* Dashed outline connecting the dots */}
-             <polygon
-                points={selectedShape.points.map(p => `${p.x},${p.y}`).join(' ')}
+             <path
+                d={getOutlinePathData(selectedShape)}
                 fill="none"
                 stroke="#22d3ee"
                 strokeWidth="0.5"
@@ -237,28 +634,94 @@ export const ProjectionCanvas: React.FC<ProjectionCanvasProps> = ({
                 vectorEffect="non-scaling-stroke"
                 className="pointer-events-none"
              />
+             {/* Bézier control handles of curved edges */}
+             {selectedShape.curves.map((curve, edge) => {
+               if (!curve) return null;
+               const start = selectedShape.points[edge];
+               const end = selectedShape.points[(edge + 1) % selectedShape.points.length];
+               return (
+                 <g key={`curve-${edge}`}>
+                   <line x1={start.x} y1={start.y} x2={curve.c1.x} y2={curve.c1.y} stroke="#f472b6" strokeWidth="1" strokeOpacity="0.6" vectorEffect="non-scaling-stroke" className="pointer-events-none" />
+                   <line x1={end.x} y1={end.y} x2={curve.c2.x} y2={curve.c2.y} stroke="#f472b6" strokeWidth="1" strokeOpacity="0.6" vectorEffect="non-scaling-stroke" className="pointer-events-none" />
+                   {(['c1', 'c2'] as const).map(handle => (
+                     <circle
+                       key={handle}
+                       cx={curve[handle].x}
+                       cy={curve[handle].y}
+                       r="1"
+                       fill="#f472b6"
+                       stroke="black"
+                       strokeWidth="0.5"
+                       vectorEffect="non-scaling-stroke"
+                       className="cursor-move hover:fill-white transition-colors"
+                       onClick={(e) => e.stopPropagation()}
+                       onMouseDown={(e) => startDrag(e, { kind: 'control', edge, handle }, `curve-${selectedShape.id}-${edge}-${handle}`)}
+                     />
+                   ))}
+                 </g>
+               );
+             })}
+             {/* Edge midpoints: click to insert a vertex there */}
+             {selectedShape.points.map((_, edge) => {
+               const mid = getEdgePoint(selectedShape, edge, 0.5);
+               return (
+                 <circle
+                   key={`insert-${edge}`}
+                   cx={mid.x}
+                   cy={mid.y}
+                   r="0.9"
+                   fill="black"
+                   stroke="#22d3ee"
+                   strokeWidth="1"
+                   vectorEffect="non-scaling-stroke"
+                   className="cursor-copy opacity-60 hover:opacity-100 transition-opacity"
+                   onMouseDown={(e) => e.stopPropagation()}
+                   onClick={(e) => {
+                     e.stopPropagation();
+                     onShapeUpdate({ ...selectedShape, ...insertVertex(selectedShape, edge) }, 'Insert Vertex');
+                     onVertexSelect(edge + 1);
+                   }}
+                 >
+                   <title>Insert vertex</title>
+                 </circle>
+               );
+             })}
              {/* Draggable Handles */}
              {selectedShape.points.map((p, i) => (
                <circle
                  key={i}
                  cx={p.x}
                  cy={p.y}
-                 r="1.5" 
-                 fill="#22d3ee"
+                 r={selectedVertexIndex === i ? 2 : 1.5}
+                 fill={selectedVertexIndex === i ? 'white' : '#22d3ee'}
                  stroke="black"
                  strokeWidth="0.5"
                  vectorEffect="non-scaling-stroke"
                  className="cursor-move hover:fill-white transition-colors"
+                 onClick={(e) => e.stopPropagation()}
                  onMouseDown={(e) => {
-                   e.stopPropagation();
-                   e.preventDefault(); // Prevent text selection
-                   setDraggedPointIndex(i);
+                   onVertexSelect(i);
+                   startDrag(e, { kind: 'vertex', index: i }, `vertex-${selectedShape.id}-${i}`);
                  }}
                />
              ))}
            </g>
         )}
 
+        {/* Shape tool preview while dragging */}
+        {creatingOutline && (
+          <path
+            d={getOutlinePathData(creatingOutline)}
+            fill="#22d3ee"
+            fillOpacity="0.1"
+            stroke="#22d3ee"
+            strokeWidth="1"
+            strokeDasharray="1 1"
+            vectorEffect="non-scaling-stroke"
+            className="pointer-events-none"
+          />
+        )}
+
         {/* Render Shape Currently Being Drawn */}
         {isDrawing && (
           <g className="pointer-events-none">
@@ -282,7 +745,65 @@ export const ProjectionCanvas: React.FC<ProjectionCanvasProps> = ({
             ))}
           </g>
         )}
+        {/* Selection marquee */}
+        {marquee && (
+          <rect
+            x={Math.min(marquee.start.x, marquee.end.x)}
+            y={Math.min(marquee.start.y, marquee.end.y)}
+            width={Math.abs(marquee.end.x - marquee.start.x)}
+            height={Math.abs(marquee.end.y - marquee.start.y)}
+            fill="#a78bfa"
+            fillOpacity="0.1"
+            stroke="#a78bfa"
+            strokeWidth="1"
+            vectorEffect="non-scaling-stroke"
+            className="pointer-events-none"
+          />
+        )}
+        {/* Where the pointer snapped to */}
+        {isEditing && snapMarker && (
+          <g className="pointer-events-none">
+            <line x1={snapMarker.x - 1.5} y1={snapMarker.y} x2={snapMarker.x + 1.5} y2={snapMarker.y} stroke="#facc15" strokeWidth="1" vectorEffect="non-scaling-stroke" />
+            <line x1={snapMarker.x} y1={snapMarker.y - 1.5} x2={snapMarker.x} y2={snapMarker.y + 1.5} stroke="#facc15" strokeWidth="1" vectorEffect="non-scaling-stroke" />
+          </g>
+        )}
+        {/* Calibration test pattern, drawn in shape space so it shows the warp */}
+        {mode === AppMode.EDIT && calibrating && (
+          <g className="pointer-events-none">
+            <rect x="0" y="0" width="100" height="100" fill="none" stroke="white" strokeWidth="2" vectorEffect="non-scaling-stroke" />
+            {Array.from({ length: 9 }, (_, i) => (i + 1) * 10).map(v => (
+              <g key={v}>
+                <line x1={v} y1="0" x2={v} y2="100" stroke="white" strokeOpacity={v === 50 ? 0.9 : 0.4} strokeWidth="1" vectorEffect="non-scaling-stroke" />
+                <line x1="0" y1={v} x2="100" y2={v} stroke="white" strokeOpacity={v === 50 ? 0.9 : 0.4} strokeWidth="1" vectorEffect="non-scaling-stroke" />
+              </g>
+            ))}
+            <line x1="0" y1="0" x2="100" y2="100" stroke="#f59e0b" strokeOpacity="0.6" strokeWidth="1" vectorEffect="non-scaling-stroke" />
+            <line x1="100" y1="0" x2="0" y2="100" stroke="#f59e0b" strokeOpacity="0.6" strokeWidth="1" vectorEffect="non-scaling-stroke" />
+          </g>
+        )}
       </svg>
+      </div>
+
+      {showStats && <RenderStatsOverlay getStats={() => rendererRef.current?.getStats() ?? null} />}
+
+      {isEditing && (
+        <DrawingToolbar
+          tool={tool}
+          sides={polygonSides}
+          snap={snap}
+          onToolChange={(next) => {
+            setTool(next);
+            setIsDrawing(false);
+            setDrawingPoints([]);
+          }}
+          onSidesChange={setPolygonSides}
+          onSnapChange={setSnap}
+        />
+      )}
+
+      {mode === AppMode.EDIT && calibrating && (
+        <CalibrationOverlay warp={outputWarp} onChange={onWarpChange} onDone={onCalibrationDone} />
+      )}
       
       {/* Drawing Instructions Overlay */}
       {mode === AppMode.EDIT && isDrawing && (
@@ -290,6 +811,16 @@ export const ProjectionCanvas: React.FC<ProjectionCanvasProps> = ({
           Click to add points • Press <span className="font-bold text-cyan-400">Enter</span> to finish • <span className="font-bold text-red-400">Esc</span> to cancel
         </div>
       )}
+      {isEditing && !isDrawing && selectedShape && (
+        <div className="absolute bottom-10 left-1/2 transform -translate-x-1/2 bg-black/70 text-white px-4 py-2 rounded-full text-sm backdrop-blur border border-white/10 pointer-events-none">
+          Drag points • Click a midpoint to add one • <span className="font-bold text-cyan-400">Arrows</span> nudge • <span className="font-bold text-red-400">Del</span> removes the selected point
+        </div>
+      )}
+      {isEditing && !isDrawing && selectedShapes.length > 1 && (
+        <div className="absolute bottom-10 left-1/2 transform -translate-x-1/2 bg-black/70 text-white px-4 py-2 rounded-full text-sm backdrop-blur border border-white/10 pointer-events-none">
+          Drag to move • Corners scale • Top handle rotates • <span className="font-bold text-cyan-400">Shift</span>-click adds or removes • Double-click picks one shape
+        </div>
+      )}
     </div>
   );
 };
@@ -0,0 +1,68 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { MediaAsset, ReferenceLayer } from '../types';
+import { isVideoAsset } from '../utils/assets';
+import { getReferenceTransform, openReferenceCamera } from '../utils/reference';
+
+interface ReferenceBackgroundProps {
+  reference: ReferenceLayer;
+  assets: MediaAsset[];
+}
+
+const mediaClass = 'absolute inset-0 w-full h-full object-contain';
+
+// Live camera feed; the camera is released as soon as the layer goes away or switches device
+const WebcamFeed: React.FC<{ deviceId: string | null }> = ({ deviceId }) => {
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let stream: MediaStream | null = null;
+    let cancelled = false;
+    openReferenceCamera(deviceId)
+      .then(opened => {
+        if (cancelled) {
+          opened.getTracks().forEach(track => track.stop());
+          return;
+        }
+        stream = opened;
+        setError(null);
+        if (videoRef.current) videoRef.current.srcObject = opened;
+      })
+      .catch(err => {
+        if (!cancelled) setError((err as Error).message || 'The camera could not be opened.');
+      });
+    return () => {
+      cancelled = true;
+      stream?.getTracks().forEach(track => track.stop());
+    };
+  }, [deviceId]);
+
+  return (
+    <>
+      <video ref={videoRef} autoPlay muted playsInline className={mediaClass} />
+      {error && (
+        <p className="absolute top-2 left-1/2 -translate-x-1/2 text-xs text-red-400 bg-black/70 px-2 py-1 rounded">
+          Webcam: {error}
+        </p>
+      )}
+    </>
+  );
+};
+
+// Tracing background behind the shapes; ProjectionCanvas only shows it in EDIT mode
+export const ReferenceBackground: React.FC<ReferenceBackgroundProps> = ({ reference, assets }) => {
+  if (!reference.visible || reference.source === 'none') return null;
+  const asset = reference.source === 'asset' ? assets.find(a => a.id === reference.assetId) : undefined;
+  if (reference.source === 'asset' && !asset) return null;
+
+  return (
+    <div className="absolute inset-0 pointer-events-none overflow-hidden" style={{ opacity: reference.opacity }}>
+      <div className="absolute inset-0" style={{ transform: getReferenceTransform(reference) }}>
+        {reference.source === 'webcam' && <WebcamFeed deviceId={reference.deviceId} />}
+        {asset && (isVideoAsset(asset)
+          ? <video src={asset.dataUrl} autoPlay loop muted playsInline className={mediaClass} />
+          : <img src={asset.dataUrl} alt="" className={mediaClass} />)}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,187 @@
+import React, { useState, useEffect } from 'react';
+import { MediaAsset, ReferenceLayer, ReferenceSource } from '../types';
+import { readFileAsAsset } from '../utils/assets';
+import {
+  DEFAULT_REFERENCE_LAYER,
+  MAX_REFERENCE_OFFSET,
+  MAX_REFERENCE_SCALE,
+  MIN_REFERENCE_SCALE,
+  REFERENCE_SOURCES,
+  listCameras,
+} from '../utils/reference';
+import { Eye, EyeOff, RotateCcw, Upload, X } from 'lucide-react';
+
+interface ReferencePanelProps {
+  reference: ReferenceLayer;
+  assets: MediaAsset[];
+  onChange: (reference: ReferenceLayer) => void;
+  onAddAsset: (asset: MediaAsset) => void;
+  onClose: () => void;
+}
+
+const inputClass = 'w-full bg-gray-800 border border-gray-700 rounded px-2 py-1 text-xs text-white outline-none focus:ring-1 focus:ring-cyan-500';
+const sliderClass = 'w-full accent-cyan-500 h-2 bg-gray-700 rounded-lg appearance-none cursor-pointer';
+
+export const ReferencePanel: React.FC<ReferencePanelProps> = ({ reference, assets, onChange, onAddAsset, onClose }) => {
+  const [uploadError, setUploadError] = useState<string | null>(null);
+  const [cameras, setCameras] = useState<MediaDeviceInfo[]>([]);
+
+  const update = (changes: Partial<ReferenceLayer>) => onChange({ ...reference, ...changes });
+
+  // Re-listed whenever the webcam is picked, since names only appear after permission is granted
+  useEffect(() => {
+    if (reference.source !== 'webcam') return;
+    let cancelled = false;
+    const refresh = () => listCameras().then(found => {
+      if (!cancelled) setCameras(found);
+    });
+    refresh();
+    navigator.mediaDevices?.addEventListener('devicechange', refresh);
+    return () => {
+      cancelled = true;
+      navigator.mediaDevices?.removeEventListener('devicechange', refresh);
+    };
+  }, [reference.source, reference.deviceId]);
+
+  const handleUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      const asset = await readFileAsAsset(file);
+      setUploadError(null);
+      onAddAsset(asset);
+      update({ source: 'asset', assetId: asset.id, visible: true });
+    } catch (err) {
+      setUploadError((err as Error).message);
+    }
+  };
+
+  const active = reference.source !== 'none';
+
+  return (
+    <div className="absolute top-4 left-4 w-72 z-20 bg-gray-900/95 backdrop-blur-sm border border-gray-700 rounded-xl shadow-2xl">
+      <div className="px-4 py-3 border-b border-gray-800 flex justify-between items-center">
+        <h2 className="font-bold text-sm text-gray-200">Reference Background</h2>
+        <div className="flex items-center gap-2">
+          <button
+            onClick={() => update({ visible: !reference.visible })}
+            disabled={!active}
+            className="text-gray-400 hover:text-white disabled:opacity-30"
+            title={reference.visible ? 'Hide Reference' : 'Show Reference'}
+          >
+            {reference.visible ? <Eye size={16} /> : <EyeOff size={16} />}
+          </button>
+          <button onClick={onClose} className="text-gray-400 hover:text-white"><X size={16} /></button>
+        </div>
+      </div>
+
+      <div className="p-4 space-y-3">
+        <p className="text-[11px] text-gray-500">
+          A photo taken from the projector's position, or a live camera, to trace over. Only shown while editing.
+        </p>
+
+        <select
+          value={reference.source}
+          onChange={(e) => update({ source: e.target.value as ReferenceSource, visible: true })}
+          className={inputClass}
+        >
+          {REFERENCE_SOURCES.map(source => (
+            <option key={source.value} value={source.value}>{source.label}</option>
+          ))}
+        </select>
+
+        {reference.source === 'asset' && (
+          <div className="space-y-2">
+            <div className="flex items-center gap-2">
+              <select
+                value={reference.assetId ?? ''}
+                onChange={(e) => update({ assetId: e.target.value || null })}
+                className={`${inputClass} flex-1 min-w-0`}
+              >
+                <option value="">{assets.length === 0 ? 'No media yet' : 'Choose media…'}</option>
+                {assets.map(asset => (
+                  <option key={asset.id} value={asset.id}>{asset.name}</option>
+                ))}
+              </select>
+              <label className="p-1.5 rounded text-gray-300 hover:text-cyan-400 hover:bg-gray-800 transition-colors cursor-pointer" title="Upload a photo or video">
+                <Upload size={14} />
+                <input type="file" accept="image/*,video/*" onChange={handleUpload} className="hidden" />
+              </label>
+            </div>
+            {uploadError && <p className="text-xs text-red-400">{uploadError}</p>}
+          </div>
+        )}
+
+        {reference.source === 'webcam' && (
+          <select
+            value={reference.deviceId ?? ''}
+            onChange={(e) => update({ deviceId: e.target.value || null })}
+            className={inputClass}
+          >
+            <option value="">Default Camera</option>
+            {cameras.filter(camera => camera.deviceId).map((camera, i) => (
+              <option key={camera.deviceId} value={camera.deviceId}>{camera.label || `Camera ${i + 1}`}</option>
+            ))}
+          </select>
+        )}
+
+        {active && (
+          <>
+            <div>
+              <label className="block text-xs text-gray-400 mb-1">Opacity: {Math.round(reference.opacity * 100)}%</label>
+              <input
+                type="range"
+                min="0"
+                max="1"
+                step="0.05"
+                value={reference.opacity}
+                onChange={(e) => update({ opacity: parseFloat(e.target.value) })}
+                className={sliderClass}
+              />
+            </div>
+            <div>
+              <label className="block text-xs text-gray-400 mb-1">Scale: {reference.scale.toFixed(2)}×</label>
+              <input
+                type="range"
+                min={MIN_REFERENCE_SCALE}
+                max={MAX_REFERENCE_SCALE}
+                step="0.01"
+                value={reference.scale}
+                onChange={(e) => update({ scale: parseFloat(e.target.value) })}
+                className={sliderClass}
+              />
+            </div>
+            <div className="grid grid-cols-2 gap-3">
+              {(['offsetX', 'offsetY'] as const).map(field => (
+                <div key={field}>
+                  <label className="block text-xs text-gray-400 mb-1">{field === 'offsetX' ? 'X' : 'Y'}: {reference[field].toFixed(1)}%</label>
+                  <input
+                    type="range"
+                    min={-MAX_REFERENCE_OFFSET}
+                    max={MAX_REFERENCE_OFFSET}
+                    step="0.1"
+                    value={reference[field]}
+                    onChange={(e) => update({ [field]: parseFloat(e.target.value) })}
+                    className={sliderClass}
+                  />
+                </div>
+              ))}
+            </div>
+            <button
+              onClick={() => update({
+                opacity: DEFAULT_REFERENCE_LAYER.opacity,
+                scale: DEFAULT_REFERENCE_LAYER.scale,
+                offsetX: DEFAULT_REFERENCE_LAYER.offsetX,
+                offsetY: DEFAULT_REFERENCE_LAYER.offsetY,
+              })}
+              className="flex items-center gap-1 text-xs text-gray-400 hover:text-cyan-400 transition-colors"
+            >
+              <RotateCcw size={12} /> Reset Placement
+            </button>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
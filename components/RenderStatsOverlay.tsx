@@ -0,0 +1,31 @@
+import React, { useState, useEffect } from 'react';
+import { RenderStats } from '../utils/shapeRenderer';
+
+interface RenderStatsOverlayProps {
+  getStats: () => RenderStats | null;
+}
+
+// How often the readout refreshes; the renderer itself averages over one second
+const STATS_POLL_MS = 250;
+
+export const RenderStatsOverlay: React.FC<RenderStatsOverlayProps> = ({ getStats }) => {
+  const [, setTick] = useState(0);
+
+  // Poll instead of pushing from the render loop, so measuring never adds React work per frame
+  useEffect(() => {
+    const interval = setInterval(() => setTick(t => t + 1), STATS_POLL_MS);
+    return () => clearInterval(interval);
+  }, []);
+
+  const stats = getStats();
+  if (!stats) return null;
+
+  return (
+    <div className="absolute top-2 left-2 z-20 pointer-events-none bg-black/70 border border-white/10 rounded px-2 py-1 font-mono text-[11px] leading-tight text-green-400">
+      <div>{stats.fps.toFixed(0)} fps</div>
+      <div>{stats.frameMs.toFixed(2)} ms/frame</div>
+      <div>{stats.latencyMs.toFixed(1)} ms latency</div>
+      <div className="text-gray-400">{stats.shapeCount} shapes</div>
+    </div>
+  );
+};
@@ -0,0 +1,154 @@
+import React from 'react';
+import { Scene, Shape } from '../types';
+import { createScene } from '../utils/scenes';
+import { midiNoteToName } from '../utils/midiUtils';
+import { X, Plus, Trash2, Play } from 'lucide-react';
+
+interface ScenesDialogProps {
+  scenes: Scene[];
+  shapes: Shape[];
+  activeSceneId: string | null;
+  onChange: (scenes: Scene[]) => void;
+  onActivate: (sceneId: string | null) => void;
+  onClose: () => void;
+}
+
+const inputClass = 'w-full bg-gray-800 border border-gray-700 rounded px-2 py-1 text-sm focus:ring-2 focus:ring-cyan-500 outline-none';
+
+// Empty number fields mean "no trigger"
+const parseOptionalNumber = (value: string): number | null => {
+  if (value.trim() === '') return null;
+  const parsed = parseInt(value);
+  return Number.isNaN(parsed) ? null : Math.max(0, Math.min(127, parsed));
+};
+
+export const ScenesDialog: React.FC<ScenesDialogProps> = ({ scenes, shapes, activeSceneId, onChange, onActivate, onClose }) => {
+  const updateScene = (id: string, changes: Partial<Scene>) => {
+    onChange(scenes.map(s => s.id === id ? { ...s, ...changes } : s));
+  };
+
+  const memberCount = (scene: Scene) => shapes.filter(shape => shape.id in scene.members).length;
+
+  return (
+    <div className="absolute inset-0 z-50 bg-black/60 backdrop-blur-sm flex items-center justify-center" onClick={onClose}>
+      <div
+        className="w-[720px] max-h-[80vh] flex flex-col bg-gray-900 border border-gray-700 rounded-xl shadow-2xl"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="p-4 border-b border-gray-800 flex justify-between items-center">
+          <div>
+            <h2 className="font-bold text-gray-200">Scenes</h2>
+            <p className="text-xs text-gray-500">Recall from here, by Program Change, or by a trigger note. Membership is edited per shape.</p>
+          </div>
+          <div className="flex items-center gap-2">
+            <button
+              onClick={() => onChange([...scenes, createScene(`Scene ${scenes.length + 1}`, shapes)])}
+              className="flex items-center gap-1 bg-cyan-600 hover:bg-cyan-500 text-white px-3 py-1.5 rounded text-sm transition-colors"
+            >
+              <Plus size={14} /> New Scene
+            </button>
+            <button onClick={onClose} className="text-gray-400 hover:text-white"><X size={18} /></button>
+          </div>
+        </div>
+
+        <div className="flex-1 overflow-y-auto">
+          {scenes.length === 0 && (
+            <p className="text-center py-10 text-gray-500 text-sm">No scenes yet. Every shape is live.</p>
+          )}
+          {scenes.length > 0 && (
+            <table className="w-full text-left border-collapse">
+              <thead>
+                <tr className="text-xs font-semibold text-gray-400 border-b border-gray-700 uppercase tracking-wider">
+                  <th className="p-3">Name</th>
+                  <th className="p-3 w-20">Program</th>
+                  <th className="p-3 w-24">Note</th>
+                  <th className="p-3 w-24">CH</th>
+                  <th className="p-3 w-24">Fade ms</th>
+                  <th className="p-3 w-16">Shapes</th>
+                  <th className="p-3 text-right">Actions</th>
+                </tr>
+              </thead>
+              <tbody className="text-sm">
+                {scenes.map(scene => (
+                  <tr key={scene.id} className={`border-b border-gray-800 ${scene.id === activeSceneId ? 'bg-cyan-500/10' : ''}`}>
+                    <td className="p-2">
+                      <input
+                        value={scene.name}
+                        onChange={(e) => updateScene(scene.id, { name: e.target.value })}
+                        className={inputClass}
+                      />
+                    </td>
+                    <td className="p-2">
+                      <input
+                        type="number"
+                        min="0"
+                        max="127"
+                        value={scene.programNumber ?? ''}
+                        placeholder="-"
+                        onChange={(e) => updateScene(scene.id, { programNumber: parseOptionalNumber(e.target.value) })}
+                        className={inputClass}
+                      />
+                    </td>
+                    <td className="p-2">
+                      <input
+                        type="number"
+                        min="0"
+                        max="127"
+                        value={scene.triggerNote ?? ''}
+                        placeholder="-"
+                        onChange={(e) => updateScene(scene.id, { triggerNote: parseOptionalNumber(e.target.value) })}
+                        className={inputClass}
+                        title={scene.triggerNote !== null ? midiNoteToName(scene.triggerNote) : 'No trigger note'}
+                      />
+                    </td>
+                    <td className="p-2">
+                      <select
+                        value={scene.triggerChannel}
+                        onChange={(e) => updateScene(scene.id, { triggerChannel: parseInt(e.target.value) })}
+                        className={inputClass}
+                      >
+                        <option value={0}>All</option>
+                        {Array.from({ length: 16 }, (_, i) => i + 1).map(ch => (
+                          <option key={ch} value={ch}>{ch}</option>
+                        ))}
+                      </select>
+                    </td>
+                    <td className="p-2">
+                      <input
+                        type="number"
+                        min="0"
+                        step="50"
+                        value={scene.crossfade}
+                        onChange={(e) => updateScene(scene.id, { crossfade: Math.max(0, parseInt(e.target.value) || 0) })}
+                        className={inputClass}
+                      />
+                    </td>
+                    <td className="p-2 text-gray-300">{memberCount(scene)}/{shapes.length}</td>
+                    <td className="p-2 text-right">
+                      <div className="flex justify-end gap-2">
+                        <button
+                          onClick={() => onActivate(scene.id === activeSceneId ? null : scene.id)}
+                          className={`p-1 transition-colors ${scene.id === activeSceneId ? 'text-cyan-400' : 'text-gray-400 hover:text-cyan-400'}`}
+                          title={scene.id === activeSceneId ? 'Deactivate' : 'Recall'}
+                        >
+                          <Play size={14} fill={scene.id === activeSceneId ? 'currentColor' : 'none'} />
+                        </button>
+                        <button
+                          onClick={() => onChange(scenes.filter(s => s.id !== scene.id))}
+                          className="p-1 hover:text-red-400 text-gray-400 transition-colors"
+                          title="Delete"
+                        >
+                          <Trash2 size={14} />
+                        </button>
+                      </div>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,92 @@
+import React from 'react';
+import { ALIGN_EDGES, AlignEdge } from '../utils/arrange';
+import { LAYER_MOVE_LABELS, LayerMove } from '../utils/layers';
+import {
+  AlignCenterHorizontal,
+  AlignCenterVertical,
+  AlignEndHorizontal,
+  AlignEndVertical,
+  AlignHorizontalDistributeCenter,
+  AlignStartHorizontal,
+  AlignStartVertical,
+  AlignVerticalDistributeCenter,
+  ArrowDown,
+  ArrowDownToLine,
+  ArrowUp,
+  ArrowUpToLine,
+  Copy,
+  Group,
+  Trash2,
+  Ungroup,
+} from 'lucide-react';
+
+interface SelectionToolbarProps {
+  count: number;
+  canUngroup: boolean;
+  onAlign: (edge: AlignEdge) => void;
+  onDistribute: (axis: 'x' | 'y') => void;
+  onLayerMove: (move: LayerMove) => void;
+  onDuplicate: () => void;
+  onGroup: () => void;
+  onUngroup: () => void;
+  onDelete: () => void;
+}
+
+const ALIGN_ICONS: Record<AlignEdge, React.ReactNode> = {
+  left: <AlignStartVertical size={16} />,
+  centerX: <AlignCenterVertical size={16} />,
+  right: <AlignEndVertical size={16} />,
+  top: <AlignStartHorizontal size={16} />,
+  centerY: <AlignCenterHorizontal size={16} />,
+  bottom: <AlignEndHorizontal size={16} />,
+};
+
+const LAYER_MOVES: { move: LayerMove; shortcut: string; icon: React.ReactNode }[] = [
+  { move: 'front', shortcut: 'Ctrl+Shift+]', icon: <ArrowUpToLine size={16} /> },
+  { move: 'forward', shortcut: 'Ctrl+]', icon: <ArrowUp size={16} /> },
+  { move: 'backward', shortcut: 'Ctrl+[', icon: <ArrowDown size={16} /> },
+  { move: 'back', shortcut: 'Ctrl+Shift+[', icon: <ArrowDownToLine size={16} /> },
+];
+
+const buttonClass = 'p-1.5 rounded text-gray-400 hover:text-white hover:bg-gray-800 disabled:opacity-30 disabled:hover:bg-transparent disabled:hover:text-gray-400 transition-colors';
+
+// Actions on the selected shapes; aligning needs two of them and distributing three
+export const SelectionToolbar: React.FC<SelectionToolbarProps> = ({ count, canUngroup, onAlign, onDistribute, onLayerMove, onDuplicate, onGroup, onUngroup, onDelete }) => (
+  <div
+    className="absolute top-16 left-1/2 -translate-x-1/2 z-20 flex items-center gap-1 bg-gray-900/90 backdrop-blur-sm border border-gray-700 rounded-lg px-2 py-1 shadow-xl"
+    onClick={(e) => e.stopPropagation()}
+  >
+    <span className="text-xs text-gray-400 px-1">{count} selected</span>
+    <div className="h-5 w-px bg-gray-700 mx-1" />
+    {ALIGN_EDGES.map(({ value, label }) => (
+      <button key={value} onClick={() => onAlign(value)} disabled={count < 2} className={buttonClass} title={label}>
+        {ALIGN_ICONS[value]}
+      </button>
+    ))}
+    <button onClick={() => onDistribute('x')} disabled={count < 3} className={buttonClass} title="Distribute Horizontally">
+      <AlignHorizontalDistributeCenter size={16} />
+    </button>
+    <button onClick={() => onDistribute('y')} disabled={count < 3} className={buttonClass} title="Distribute Vertically">
+      <AlignVerticalDistributeCenter size={16} />
+    </button>
+    <div className="h-5 w-px bg-gray-700 mx-1" />
+    {LAYER_MOVES.map(({ move, shortcut, icon }) => (
+      <button key={move} onClick={() => onLayerMove(move)} className={buttonClass} title={`${LAYER_MOVE_LABELS[move]} (${shortcut})`}>
+        {icon}
+      </button>
+    ))}
+    <div className="h-5 w-px bg-gray-700 mx-1" />
+    <button onClick={onDuplicate} className={buttonClass} title="Duplicate (Ctrl+D)">
+      <Copy size={16} />
+    </button>
+    <button onClick={onGroup} disabled={count < 2} className={buttonClass} title="Group (Ctrl+G)">
+      <Group size={16} />
+    </button>
+    <button onClick={onUngroup} disabled={!canUngroup} className={buttonClass} title="Ungroup (Ctrl+Shift+G)">
+      <Ungroup size={16} />
+    </button>
+    <button onClick={onDelete} className="p-1.5 rounded text-gray-400 hover:text-red-400 hover:bg-gray-800 transition-colors" title="Delete (Del)">
+      <Trash2 size={16} />
+    </button>
+  </div>
+);
@@ -1,18 +1,97 @@
 import React from 'react';
-import { Shape } from '../types';
-import { midiNoteToName } from '../utils/midiUtils';
+import { Shape, ShapeGroup, Envelope, ControllerValuesMap, LearnField, LearnTarget, MIDIInput, Scene, SceneShapeOverride, MediaAsset } from '../types';
+import { getInputKey, midiNoteToName } from '../utils/midiUtils';
+import { DISTRIBUTION_MODES, getSegmentCount } from '../utils/distribution';
+import { isSameLearnTarget } from '../utils/midiLearn';
+import { ModulationEditor } from './ModulationEditor';
+import { FillEditor } from './FillEditor';
+import { EffectEditor } from './EffectEditor';
+import { LearnButton } from './LearnButton';
+import { VertexEditor } from './VertexEditor';
+import { BLEND_MODES, MASK_MODES } from '../utils/layers';
 import { Trash2, X, Save } from 'lucide-react';
 
 interface ShapeEditorProps {
   shape: Shape;
-  onUpdate: (updatedShape: Shape) => void;
+  controllerValues: ControllerValuesMap;
+  midiInputs: MIDIInput[];
+  activeScene: Scene | undefined;
+  onUpdateScene: (scene: Scene) => void;
+  assets: MediaAsset[];
+  onAddAsset: (asset: MediaAsset) => void;
+  learnTarget: LearnTarget | null;
+  onLearn: (target: LearnTarget | null) => void;
+  onUpdate: (updatedShape: Shape, label?: string, mergeKey?: string) => void;
   onDelete: (id: string) => void;
   onClose: () => void;
+  selectedVertexIndex: number | null;
+  onVertexSelect: (index: number | null) => void;
+  group?: ShapeGroup;
 }
 
-export const ShapeEditor: React.FC<ShapeEditorProps> = ({ shape, onUpdate, onDelete, onClose }) => {
+// Undo history labels for each editable field
+const FIELD_LABELS: Partial<Record<keyof Shape, string>> = {
+  name: 'Rename Shape',
+  color: 'Change Color',
+  inputId: 'Change Input',
+  channel: 'Change Channel',
+  noteStart: 'Change Note Start',
+  noteEnd: 'Change Note End',
+  distribution: 'Change Distribution',
+  velocitySensitive: 'Toggle Velocity',
+  baseOpacity: 'Change Opacity',
+  fill: 'Change Fill',
+  effect: 'Change Effect',
+  envelope: 'Edit Envelope',
+  modulations: 'Edit Modulation',
+  blendMode: 'Change Blend Mode',
+  mask: 'Change Mask',
+};
+
+// Scene override fields: empty inherits from the shape, anything else is kept in MIDI range
+const parseOverride = (value: string, max: number): number | undefined => {
+  if (value.trim() === '') return undefined;
+  const parsed = parseInt(value);
+  return Number.isNaN(parsed) ? undefined : Math.max(0, Math.min(max, parsed));
+};
+
+export const ShapeEditor: React.FC<ShapeEditorProps> = ({ shape, controllerValues, midiInputs, activeScene, onUpdateScene, assets, onAddAsset, learnTarget, onLearn, onUpdate, onDelete, onClose, selectedVertexIndex, onVertexSelect, group }) => {
+  // Repeated edits of the same field (typing, slider scrubs) merge into one undo step
   const handleChange = (field: keyof Shape, value: any) => {
-    onUpdate({ ...shape, [field]: value });
+    onUpdate({ ...shape, [field]: value }, FIELD_LABELS[field] ?? 'Edit Shape', `${shape.id}-${field}`);
+  };
+
+  // A cleared field would store NaN, which no note ever matches; keep the last number instead
+  const handleNoteChange = (field: 'noteStart' | 'noteEnd', value: string) => {
+    const note = parseInt(value);
+    if (note >= 0 && note <= 127) handleChange(field, note);
+  };
+
+  const isLearning = (field: LearnField) => isSameLearnTarget(learnTarget, { kind: 'note', shapeId: shape.id, field });
+
+  const toggleLearn = (field: LearnField) => {
+    onLearn(isLearning(field) ? null : { kind: 'note', shapeId: shape.id, field });
+  };
+
+  const handleEnvelopeChange = (field: keyof Envelope, value: number) => {
+    handleChange('envelope', { ...shape.envelope, [field]: value });
+  };
+
+  const sceneOverride = activeScene?.members[shape.id];
+  const isMask = shape.mask !== 'none';
+
+  const setSceneMembership = (member: boolean) => {
+    if (!activeScene) return;
+    const { [shape.id]: _removed, ...others } = activeScene.members;
+    onUpdateScene({ ...activeScene, members: member ? { ...others, [shape.id]: {} } : others });
+  };
+
+  // Empty fields fall back to the shape's own value
+  const handleOverrideChange = (field: keyof SceneShapeOverride, value: string | number | undefined) => {
+    if (!activeScene || !sceneOverride) return;
+    const next: SceneShapeOverride = { ...sceneOverride, [field]: value };
+    if (value === undefined || (typeof value === 'number' && Number.isNaN(value))) delete next[field];
+    onUpdateScene({ ...activeScene, members: { ...activeScene.members, [shape.id]: next } });
   };
 
   return (
@@ -50,9 +129,34 @@ export const ShapeEditor: React.FC<ShapeEditorProps> = ({ shape, onUpdate, onDel
           </div>
         </div>
 
+        {group?.shareMidi && (
+          <p className="text-xs text-cyan-400/80">Input and channel are shared with the rest of {group.name}.</p>
+        )}
+
+        {/* MIDI Input */}
+        <div>
+          <label className="block text-xs font-semibold text-gray-400 mb-1 uppercase tracking-wider">MIDI Input</label>
+          <select
+            value={shape.inputId}
+            onChange={(e) => handleChange('inputId', e.target.value)}
+            className="w-full bg-gray-800 border border-gray-700 rounded px-3 py-2 text-sm focus:ring-2 focus:ring-cyan-500 outline-none"
+          >
+            <option value="">Any Input</option>
+            {midiInputs.map(input => (
+              <option key={input.id} value={getInputKey(input)}>{input.name}</option>
+            ))}
+            {shape.inputId !== '' && !midiInputs.some(input => getInputKey(input) === shape.inputId) && (
+              <option value={shape.inputId}>Disconnected device</option>
+            )}
+          </select>
+        </div>
+
         {/* MIDI Channel */}
         <div>
-          <label className="block text-xs font-semibold text-gray-400 mb-1 uppercase tracking-wider">MIDI Channel</label>
+          <div className="flex justify-between items-center mb-1">
+            <label className="block text-xs font-semibold text-gray-400 uppercase tracking-wider">MIDI Channel</label>
+            <LearnButton armed={isLearning('channel')} onToggle={() => toggleLearn('channel')} />
+          </div>
           <select
             value={shape.channel}
             onChange={(e) => handleChange('channel', parseInt(e.target.value))}
@@ -68,28 +172,34 @@ export const ShapeEditor: React.FC<ShapeEditorProps> = ({ shape, onUpdate, onDel
         {/* Note Range */}
         <div className="grid grid-cols-2 gap-4">
           <div>
-            <label className="block text-xs font-semibold text-gray-400 mb-1 uppercase tracking-wider">Note Start</label>
+            <div className="flex justify-between items-center mb-1">
+              <label className="block text-xs font-semibold text-gray-400 uppercase tracking-wider">Note Start</label>
+              <LearnButton armed={isLearning('noteStart')} onToggle={() => toggleLearn('noteStart')} />
+            </div>
             <div className="relative">
               <input
                 type="number"
                 min="0"
                 max="127"
                 value={shape.noteStart}
-                onChange={(e) => handleChange('noteStart', parseInt(e.target.value))}
+                onChange={(e) => handleNoteChange('noteStart', e.target.value)}
                 className="w-full bg-gray-800 border border-gray-700 rounded px-3 py-2 text-sm focus:ring-2 focus:ring-cyan-500 outline-none"
               />
               <span className="absolute right-2 top-2 text-xs text-gray-500">{midiNoteToName(shape.noteStart)}</span>
             </div>
           </div>
           <div>
-            <label className="block text-xs font-semibold text-gray-400 mb-1 uppercase tracking-wider">Note End</label>
+            <div className="flex justify-between items-center mb-1">
+              <label className="block text-xs font-semibold text-gray-400 uppercase tracking-wider">Note End</label>
+              <LearnButton armed={isLearning('noteEnd')} onToggle={() => toggleLearn('noteEnd')} />
+            </div>
             <div className="relative">
               <input
                 type="number"
                 min="0"
                 max="127"
                 value={shape.noteEnd}
-                onChange={(e) => handleChange('noteEnd', parseInt(e.target.value))}
+                onChange={(e) => handleNoteChange('noteEnd', e.target.value)}
                 className="w-full bg-gray-800 border border-gray-700 rounded px-3 py-2 text-sm focus:ring-2 focus:ring-cyan-500 outline-none"
               />
               <span className="absolute right-2 top-2 text-xs text-gray-500">{midiNoteToName(shape.noteEnd)}</span>
@@ -97,9 +207,32 @@ export const ShapeEditor: React.FC<ShapeEditorProps> = ({ shape, onUpdate, onDel
           </div>
         </div>
 
-        <div className="bg-gray-800/50 p-3 rounded text-xs text-gray-400">
-           Triggers on notes {shape.noteStart} ({midiNoteToName(shape.noteStart)}) through {shape.noteEnd} ({midiNoteToName(shape.noteEnd)})
+        {/* Distribution */}
+        <div>
+          <label className="block text-xs font-semibold text-gray-400 mb-1 uppercase tracking-wider">Note Distribution</label>
+          <select
+            value={shape.distribution}
+            onChange={(e) => handleChange('distribution', e.target.value)}
+            className="w-full bg-gray-800 border border-gray-700 rounded px-3 py-2 text-sm focus:ring-2 focus:ring-cyan-500 outline-none"
+          >
+            {DISTRIBUTION_MODES.map(mode => (
+              <option key={mode.value} value={mode.value}>{mode.label}</option>
+            ))}
+          </select>
+          {shape.distribution !== 'whole' && (
+            <p className="text-[11px] text-gray-500 mt-1">
+              {getSegmentCount(shape)} segments: {midiNoteToName(shape.noteStart)} is the first, {midiNoteToName(shape.noteEnd)} the last.
+            </p>
+          )}
+        </div>
+
+        <div className="bg-gray-800/50 p-3 rounded text-xs text-gray-400 flex items-start justify-between gap-2">
+           <span>Triggers on notes {shape.noteStart} ({midiNoteToName(shape.noteStart)}) through {shape.noteEnd} ({midiNoteToName(shape.noteEnd)})</span>
+           <LearnButton armed={isLearning('trigger')} onToggle={() => toggleLearn('trigger')} label="Learn" />
         </div>
+        {shape.noteStart > shape.noteEnd && (
+          <p className="text-xs text-red-400">Note Start is above Note End, so this shape never fires.</p>
+        )}
 
         {/* Dynamics */}
         <div className="flex items-center gap-3 py-2">
@@ -115,7 +248,7 @@ export const ShapeEditor: React.FC<ShapeEditorProps> = ({ shape, onUpdate, onDel
 
         <div>
           <label className="block text-xs font-semibold text-gray-400 mb-1 uppercase tracking-wider">
-            Base Opacity: {Math.round(shape.baseOpacity * 100)}%
+            {isMask ? 'Mask Strength' : 'Base Opacity'}: {Math.round(shape.baseOpacity * 100)}%
           </label>
           <input
             type="range"
@@ -128,6 +261,228 @@ export const ShapeEditor: React.FC<ShapeEditorProps> = ({ shape, onUpdate, onDel
           />
         </div>
 
+        {/* Layer */}
+        <div className="pt-4 border-t border-gray-700">
+          <h3 className="text-xs font-semibold text-gray-400 mb-3 uppercase tracking-wider">Layer</h3>
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <label className="block text-xs text-gray-400 mb-1">Mask</label>
+              <select
+                value={shape.mask}
+                onChange={(e) => handleChange('mask', e.target.value)}
+                className="w-full bg-gray-800 border border-gray-700 rounded px-2 py-2 text-sm focus:ring-2 focus:ring-cyan-500 outline-none"
+              >
+                {MASK_MODES.map(mode => (
+                  <option key={mode.value} value={mode.value}>{mode.label}</option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="block text-xs text-gray-400 mb-1">Blend</label>
+              <select
+                value={shape.blendMode}
+                onChange={(e) => handleChange('blendMode', e.target.value)}
+                disabled={isMask}
+                className="w-full bg-gray-800 border border-gray-700 rounded px-2 py-2 text-sm focus:ring-2 focus:ring-cyan-500 outline-none disabled:opacity-40"
+              >
+                {BLEND_MODES.map(mode => (
+                  <option key={mode.value} value={mode.value}>{mode.label}</option>
+                ))}
+              </select>
+            </div>
+          </div>
+          <p className="text-[11px] text-gray-500 mt-2">
+            {isMask
+              ? 'Masks are never lit; they darken shapes listed above them, and scenes and modulation still apply.'
+              : 'Shapes lower in the list are drawn on top. Reorder them there or with Ctrl+[ and Ctrl+].'}
+          </p>
+        </div>
+
+        {/* Vertices */}
+        <div className="pt-4 border-t border-gray-700">
+          <h3 className="text-xs font-semibold text-gray-400 mb-3 uppercase tracking-wider">Vertices</h3>
+          <VertexEditor
+            outline={shape}
+            selectedIndex={selectedVertexIndex}
+            onSelect={onVertexSelect}
+            onChange={(outline, label, mergeKey) => onUpdate({ ...shape, ...outline }, label, mergeKey)}
+            mergeKeyPrefix={shape.id}
+          />
+        </div>
+
+        {/* Fill */}
+        {!isMask && (
+          <div className="pt-4 border-t border-gray-700">
+            <h3 className="text-xs font-semibold text-gray-400 mb-3 uppercase tracking-wider">Fill</h3>
+            <FillEditor
+              fill={shape.fill}
+              assets={assets}
+              onChange={(fill) => handleChange('fill', fill)}
+              onAddAsset={onAddAsset}
+            />
+          </div>
+        )}
+
+        {/* Hit Effect */}
+        {!isMask && (
+          <div className="pt-4 border-t border-gray-700">
+            <h3 className="text-xs font-semibold text-gray-400 mb-3 uppercase tracking-wider">Hit Effect</h3>
+            <EffectEditor
+              effect={shape.effect}
+              segmentCount={getSegmentCount(shape)}
+              onChange={(effect) => handleChange('effect', effect)}
+            />
+          </div>
+        )}
+
+        {/* Live Scene Membership & Overrides */}
+        {activeScene && (
+          <div className="pt-4 border-t border-gray-700">
+            <h3 className="text-xs font-semibold text-gray-400 mb-3 uppercase tracking-wider">Scene: {activeScene.name}</h3>
+            <div className="flex items-center gap-3 mb-3">
+              <input
+                type="checkbox"
+                id="sceneMember"
+                checked={!!sceneOverride}
+                onChange={(e) => setSceneMembership(e.target.checked)}
+                className="w-4 h-4 text-cyan-500 rounded focus:ring-cyan-500 bg-gray-700 border-gray-600"
+              />
+              <label htmlFor="sceneMember" className="text-sm text-gray-300">Live in this scene</label>
+            </div>
+            {sceneOverride && (
+              <div className="grid grid-cols-2 gap-2">
+                <div>
+                  <label className="block text-xs text-gray-400 mb-1">Channel</label>
+                  <select
+                    value={sceneOverride.channel ?? ''}
+                    onChange={(e) => handleOverrideChange('channel', parseOverride(e.target.value, 16))}
+                    className="w-full bg-gray-800 border border-gray-700 rounded px-2 py-1 text-xs focus:ring-2 focus:ring-cyan-500 outline-none"
+                  >
+                    <option value="">Inherit</option>
+                    <option value={0}>Omni</option>
+                    {Array.from({ length: 16 }, (_, i) => i + 1).map(ch => (
+                      <option key={ch} value={ch}>Ch {ch}</option>
+                    ))}
+                  </select>
+                </div>
+                <div>
+                  <label className="block text-xs text-gray-400 mb-1">Color</label>
+                  <div className="flex gap-1 items-center">
+                    <input
+                      type="color"
+                      value={sceneOverride.color ?? shape.color}
+                      onChange={(e) => handleOverrideChange('color', e.target.value)}
+                      className="h-6 flex-1 bg-transparent cursor-pointer rounded overflow-hidden"
+                    />
+                    {sceneOverride.color && (
+                      <button onClick={() => handleOverrideChange('color', undefined)} className="text-gray-400 hover:text-white" title="Inherit color">
+                        <X size={12} />
+                      </button>
+                    )}
+                  </div>
+                </div>
+                <div>
+                  <label className="block text-xs text-gray-400 mb-1">Note Start</label>
+                  <input
+                    type="number"
+                    min="0"
+                    max="127"
+                    value={sceneOverride.noteStart ?? ''}
+                    placeholder={`${shape.noteStart}`}
+                    onChange={(e) => handleOverrideChange('noteStart', parseOverride(e.target.value, 127))}
+                    className="w-full bg-gray-800 border border-gray-700 rounded px-2 py-1 text-xs focus:ring-2 focus:ring-cyan-500 outline-none"
+                  />
+                </div>
+                <div>
+                  <label className="block text-xs text-gray-400 mb-1">Note End</label>
+                  <input
+                    type="number"
+                    min="0"
+                    max="127"
+                    value={sceneOverride.noteEnd ?? ''}
+                    placeholder={`${shape.noteEnd}`}
+                    onChange={(e) => handleOverrideChange('noteEnd', parseOverride(e.target.value, 127))}
+                    className="w-full bg-gray-800 border border-gray-700 rounded px-2 py-1 text-xs focus:ring-2 focus:ring-cyan-500 outline-none"
+                  />
+                </div>
+              </div>
+            )}
+          </div>
+        )}
+
+        {/* Envelope */}
+        {!isMask && (
+          <div className="pt-4 border-t border-gray-700">
+            <h3 className="text-xs font-semibold text-gray-400 mb-3 uppercase tracking-wider">Envelope</h3>
+            <div className="space-y-3">
+              <div>
+                <label className="block text-xs text-gray-400 mb-1">Attack: {shape.envelope.attack} ms</label>
+                <input
+                  type="range"
+                  min="0"
+                  max="2000"
+                  step="10"
+                  value={shape.envelope.attack}
+                  onChange={(e) => handleEnvelopeChange('attack', parseInt(e.target.value))}
+                  className="w-full accent-cyan-500 h-2 bg-gray-700 rounded-lg appearance-none cursor-pointer"
+                />
+              </div>
+              <div>
+                <label className="block text-xs text-gray-400 mb-1">Decay: {shape.envelope.decay} ms</label>
+                <input
+                  type="range"
+                  min="0"
+                  max="2000"
+                  step="10"
+                  value={shape.envelope.decay}
+                  onChange={(e) => handleEnvelopeChange('decay', parseInt(e.target.value))}
+                  className="w-full accent-cyan-500 h-2 bg-gray-700 rounded-lg appearance-none cursor-pointer"
+                />
+              </div>
+              <div>
+                <label className="block text-xs text-gray-400 mb-1">Sustain: {Math.round(shape.envelope.sustain * 100)}%</label>
+                <input
+                  type="range"
+                  min="0"
+                  max="1"
+                  step="0.05"
+                  value={shape.envelope.sustain}
+                  onChange={(e) => handleEnvelopeChange('sustain', parseFloat(e.target.value))}
+                  className="w-full accent-cyan-500 h-2 bg-gray-700 rounded-lg appearance-none cursor-pointer"
+                />
+              </div>
+              <div>
+                <label className="block text-xs text-gray-400 mb-1">Release: {shape.envelope.release} ms</label>
+                <input
+                  type="range"
+                  min="0"
+                  max="5000"
+                  step="10"
+                  value={shape.envelope.release}
+                  onChange={(e) => handleEnvelopeChange('release', parseInt(e.target.value))}
+                  className="w-full accent-cyan-500 h-2 bg-gray-700 rounded-lg appearance-none cursor-pointer"
+                />
+              </div>
+            </div>
+          </div>
+        )}
+
+        {/* Modulation */}
+        <div className="pt-4 border-t border-gray-700">
+          <h3 className="text-xs font-semibold text-gray-400 mb-3 uppercase tracking-wider">Modulation</h3>
+          <ModulationEditor
+            modulations={shape.modulations}
+            controllerValues={controllerValues}
+            inputId={shape.inputId}
+            learnTarget={learnTarget}
+            onLearn={(modulationId) => {
+              const target: LearnTarget = { kind: 'modulation', shapeId: shape.id, modulationId };
+              onLearn(isSameLearnTarget(learnTarget, target) ? null : target);
+            }}
+            onChange={(modulations) => handleChange('modulations', modulations)}
+          />
+        </div>
+
         {/* Actions */}
         <div className="pt-6 border-t border-gray-700 mt-2">
            <button
@@ -0,0 +1,133 @@
+import React, { useState, useEffect } from 'react';
+import { Take } from '../types';
+import { TakePlayer } from '../utils/takePlayer';
+import { formatTakeTime } from '../utils/takes';
+import { Circle, Pause, Play, Repeat, Square, Trash2, Upload, X } from 'lucide-react';
+
+interface TakesPanelProps {
+  takes: Take[];
+  selectedTakeId: string | null;
+  player: TakePlayer;
+  recordingSince: number | null; // Date.now() when recording started, or null
+  importError: string | null;
+  onSelect: (id: string | null) => void;
+  onRecord: () => void;
+  onStopRecording: () => void;
+  onImport: (file: File) => void;
+  onDelete: (id: string) => void;
+  onClose: () => void;
+}
+
+// The player runs outside React; the transport readout polls it
+const TRANSPORT_POLL_MS = 100;
+
+const iconButton = 'p-1.5 rounded text-gray-300 hover:text-cyan-400 hover:bg-gray-800 transition-colors disabled:opacity-30 disabled:hover:text-gray-300 disabled:hover:bg-transparent';
+
+export const TakesPanel: React.FC<TakesPanelProps> = ({
+  takes, selectedTakeId, player, recordingSince, importError, onSelect, onRecord, onStopRecording, onImport, onDelete, onClose,
+}) => {
+  const [, setTick] = useState(0);
+
+  useEffect(() => {
+    const interval = setInterval(() => setTick(t => t + 1), TRANSPORT_POLL_MS);
+    return () => clearInterval(interval);
+  }, []);
+
+  const status = player.getStatus();
+  const recording = recordingSince !== null;
+  const hasTake = status.takeId !== null && !recording;
+
+  const handleFile = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (file) onImport(file);
+  };
+
+  return (
+    <div className="absolute top-4 right-4 w-80 z-20 bg-gray-900/95 backdrop-blur-sm border border-gray-700 rounded-xl shadow-2xl">
+      <div className="px-4 py-3 border-b border-gray-800 flex justify-between items-center">
+        <h2 className="font-bold text-sm text-gray-200">Takes</h2>
+        <button onClick={onClose} className="text-gray-400 hover:text-white"><X size={16} /></button>
+      </div>
+
+      <div className="p-4 space-y-3">
+        <div className="flex items-center gap-2">
+          <select
+            value={selectedTakeId ?? ''}
+            onChange={(e) => onSelect(e.target.value || null)}
+            disabled={recording}
+            className="flex-1 min-w-0 bg-gray-800 border border-gray-700 rounded px-2 py-1 text-xs text-white outline-none focus:ring-1 focus:ring-cyan-500"
+          >
+            <option value="">{takes.length === 0 ? 'No takes yet' : 'Choose a take…'}</option>
+            {takes.map(take => (
+              <option key={take.id} value={take.id}>{take.name} ({formatTakeTime(take.duration)})</option>
+            ))}
+          </select>
+          <label className={`${iconButton} cursor-pointer`} title="Import a Standard MIDI File (.mid)">
+            <Upload size={14} />
+            <input type="file" accept=".mid,.midi,audio/midi" onChange={handleFile} className="hidden" />
+          </label>
+          <button
+            onClick={() => selectedTakeId && onDelete(selectedTakeId)}
+            disabled={!selectedTakeId || recording}
+            className={`${iconButton} hover:text-red-400`}
+            title="Delete Take"
+          >
+            <Trash2 size={14} />
+          </button>
+        </div>
+
+        {importError && <p className="text-xs text-red-400">{importError}</p>}
+
+        <div className="flex items-center gap-1">
+          <button
+            onClick={recording ? onStopRecording : onRecord}
+            className={`p-1.5 rounded transition-colors ${recording ? 'bg-red-500/20 text-red-400' : 'text-red-400 hover:bg-gray-800'}`}
+            title={recording ? 'Stop Recording' : 'Record a take from incoming MIDI'}
+          >
+            <Circle size={14} fill={recording ? 'currentColor' : 'none'} className={recording ? 'animate-pulse' : ''} />
+          </button>
+          <button
+            onClick={status.playing ? player.pause : player.play}
+            disabled={!hasTake}
+            className={iconButton}
+            title={status.playing ? 'Pause' : 'Play'}
+          >
+            {status.playing ? <Pause size={14} /> : <Play size={14} />}
+          </button>
+          <button onClick={player.stop} disabled={!hasTake} className={iconButton} title="Stop">
+            <Square size={14} />
+          </button>
+          <button
+            onClick={() => player.setLoop(!status.loop)}
+            disabled={!hasTake}
+            className={`${iconButton} ${status.loop ? 'text-cyan-400' : ''}`}
+            title="Loop"
+          >
+            <Repeat size={14} />
+          </button>
+          <span className="ml-auto font-mono text-xs text-gray-400">
+            {recording
+              ? <span className="text-red-400">REC {formatTakeTime(Date.now() - recordingSince)}</span>
+              : `${formatTakeTime(status.position)} / ${formatTakeTime(status.duration)}`}
+          </span>
+        </div>
+
+        <input
+          type="range"
+          min="0"
+          max={Math.max(1, status.duration)}
+          step="10"
+          value={status.position}
+          disabled={!hasTake}
+          onChange={(e) => player.seek(parseFloat(e.target.value))}
+          className="w-full accent-cyan-500 h-2 bg-gray-700 rounded-lg appearance-none cursor-pointer disabled:opacity-30"
+        />
+
+        <p className="text-[11px] text-gray-500">
+          Playback drives the shapes like live input, so it keeps running in Performance mode.
+        </p>
+      </div>
+    </div>
+  );
+};
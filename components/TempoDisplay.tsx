@@ -0,0 +1,77 @@
+import React, { useState, useEffect } from 'react';
+import { ClockState, MAX_TEMPO, MIN_TEMPO, getBarAndBeat, getBeatPosition } from '../utils/clock';
+import { preciseNow } from '../utils/liveState';
+
+interface TempoDisplayProps {
+  clock: ClockState;
+  tempo: number;
+  onTempoChange: (tempo: number) => void;
+  onTap: () => void;
+}
+
+// Fast enough for the beat light to land on the beat, far below one render per clock pulse
+const CLOCK_POLL_MS = 50;
+
+// Header tempo readout: follows an external MIDI clock when one is running, otherwise
+// shows the editable project tempo with tap tempo
+export const TempoDisplay: React.FC<TempoDisplayProps> = ({ clock, tempo, onTempoChange, onTap }) => {
+  const [, setTick] = useState(0);
+
+  // The clock is mutated by the MIDI handler outside React, so it is polled
+  useEffect(() => {
+    const interval = setInterval(() => setTick(t => t + 1), CLOCK_POLL_MS);
+    return () => clearInterval(interval);
+  }, []);
+
+  const external = clock.source === 'midi';
+  const beat = getBeatPosition(clock, preciseNow());
+  const position = getBarAndBeat(beat);
+  const onBeat = clock.running && beat - Math.floor(beat) < 0.25;
+
+  return (
+    <div className="flex items-center gap-2 text-sm text-gray-400">
+      <span
+        className={`w-2 h-2 rounded-full transition-colors ${onBeat ? (position.beat === 1 ? 'bg-cyan-300' : 'bg-cyan-600') : 'bg-gray-700'}`}
+        title="Beat"
+      />
+      {external ? (
+        <span className="w-16 font-mono text-white" title="Tempo from external MIDI clock">{clock.bpm.toFixed(1)}</span>
+      ) : (
+        // Committed on blur/Enter so partly typed values never reach the effects
+        <input
+          key={tempo}
+          type="number"
+          min={MIN_TEMPO}
+          max={MAX_TEMPO}
+          defaultValue={tempo}
+          onBlur={(e) => {
+            const typed = parseFloat(e.target.value);
+            const next = Number.isFinite(typed) ? Math.max(MIN_TEMPO, Math.min(MAX_TEMPO, typed)) : tempo;
+            e.target.value = String(next);
+            onTempoChange(next);
+          }}
+          onKeyDown={(e) => { if (e.key === 'Enter') e.currentTarget.blur(); }}
+          className="w-16 bg-gray-800 border border-gray-700 rounded px-2 py-1 text-white outline-none focus:ring-1 focus:ring-cyan-500"
+          title="Project tempo for synced effects, used while no MIDI clock is running"
+        />
+      )}
+      <span>BPM</span>
+      <span
+        className={`text-[10px] font-semibold px-1.5 py-0.5 rounded ${external ? 'bg-cyan-500/20 text-cyan-300' : 'bg-gray-800 text-gray-500'}`}
+        title={external ? (clock.running ? 'Following MIDI clock' : 'MIDI clock stopped') : 'Internal clock (no MIDI clock received)'}
+      >
+        {external ? (clock.running ? 'MIDI' : 'STOP') : 'INT'}
+      </span>
+      <span className="font-mono text-xs text-gray-300 w-10" title="Bar.Beat">{position.bar}.{position.beat}</span>
+      {!external && (
+        <button
+          onClick={onTap}
+          className="px-2 py-1 text-xs rounded bg-gray-800 border border-gray-700 hover:border-cyan-500 hover:text-cyan-400 transition-colors"
+          title="Tap tempo: tap on the beat to set the tempo and phase"
+        >
+          Tap
+        </button>
+      )}
+    </div>
+  );
+};
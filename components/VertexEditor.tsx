@@ -0,0 +1,85 @@
+import React from 'react';
+import { Point } from '../types';
+import { ShapeOutline, moveVertex, removeVertex, setEdgeCurved } from '../utils/geometry';
+import { Spline, Trash2 } from 'lucide-react';
+
+interface VertexEditorProps {
+  outline: ShapeOutline;
+  selectedIndex: number | null;
+  onSelect: (index: number | null) => void;
+  onChange: (outline: ShapeOutline, label: string, mergeKey?: string) => void;
+  // Namespaces merge keys so typing into one vertex's field is one undo step
+  mergeKeyPrefix: string;
+}
+
+const inputClass = 'w-full bg-gray-800 border border-gray-700 rounded px-1.5 py-0.5 text-xs text-white outline-none focus:ring-1 focus:ring-cyan-500';
+
+// Exact vertex positions; the curve toggle on each row bends the edge to the next vertex
+export const VertexEditor: React.FC<VertexEditorProps> = ({ outline, selectedIndex, onSelect, onChange, mergeKeyPrefix }) => {
+  const canRemove = outline.points.length > 3;
+
+  const setCoordinate = (index: number, axis: keyof Point, raw: string) => {
+    const value = parseFloat(raw);
+    if (Number.isNaN(value)) return;
+    const to = { ...outline.points[index], [axis]: Math.max(0, Math.min(100, value)) };
+    onChange(moveVertex(outline, index, to), 'Move Vertex', `${mergeKeyPrefix}-vertex-${index}`);
+  };
+
+  return (
+    <div className="space-y-1 max-h-48 overflow-y-auto pr-1">
+      {outline.points.map((point, i) => {
+        const curved = !!outline.curves[i];
+        return (
+          <div
+            key={i}
+            onClick={() => onSelect(i)}
+            className={`flex items-center gap-1.5 px-1.5 py-1 rounded border ${selectedIndex === i ? 'border-cyan-500/60 bg-cyan-500/10' : 'border-transparent'}`}
+          >
+            <span className="w-5 text-[10px] text-gray-500 font-mono">{i + 1}</span>
+            <span className="text-[10px] text-gray-500">X</span>
+            <input
+              type="number"
+              min="0"
+              max="100"
+              step="0.1"
+              value={Math.round(point.x * 10) / 10}
+              onFocus={() => onSelect(i)}
+              onChange={(e) => setCoordinate(i, 'x', e.target.value)}
+              className={inputClass}
+            />
+            <span className="text-[10px] text-gray-500">Y</span>
+            <input
+              type="number"
+              min="0"
+              max="100"
+              step="0.1"
+              value={Math.round(point.y * 10) / 10}
+              onFocus={() => onSelect(i)}
+              onChange={(e) => setCoordinate(i, 'y', e.target.value)}
+              className={inputClass}
+            />
+            <button
+              onClick={() => onChange(setEdgeCurved(outline, i, !curved), curved ? 'Straighten Edge' : 'Curve Edge')}
+              className={`p-1 rounded transition-colors ${curved ? 'text-pink-400' : 'text-gray-500 hover:text-white'}`}
+              title={curved ? 'Straighten the edge to the next vertex' : 'Curve the edge to the next vertex'}
+            >
+              <Spline size={12} />
+            </button>
+            <button
+              onClick={(e) => {
+                e.stopPropagation();
+                onChange(removeVertex(outline, i), 'Delete Vertex');
+                onSelect(null);
+              }}
+              disabled={!canRemove}
+              className="p-1 rounded text-gray-500 hover:text-red-400 disabled:opacity-30 disabled:hover:text-gray-500 transition-colors"
+              title={canRemove ? 'Delete Vertex' : 'A shape needs at least 3 vertices'}
+            >
+              <Trash2 size={12} />
+            </button>
+          </div>
+        );
+      })}
+    </div>
+  );
+};
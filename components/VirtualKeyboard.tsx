@@ -0,0 +1,257 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { MIDIInput, MidiMessage } from '../types';
+import { getInputKey, midiNoteToName } from '../utils/midiUtils';
+import {
+  VirtualInputSettings,
+  VIRTUAL_INPUT_ID,
+  COMPUTER_KEY_SEMITONES,
+  OCTAVE_DOWN_KEY,
+  OCTAVE_UP_KEY,
+  VELOCITY_DOWN_KEY,
+  VELOCITY_UP_KEY,
+  VELOCITY_STEP,
+  MIN_OCTAVE,
+  MAX_OCTAVE,
+  DRUM_PADS,
+  isBlackKey,
+  octaveToNote,
+} from '../utils/virtualInput';
+import { Keyboard, X } from 'lucide-react';
+
+interface VirtualKeyboardProps {
+  settings: VirtualInputSettings;
+  inputs: MIDIInput[];
+  onSettingsChange: (settings: VirtualInputSettings) => void;
+  onMessage: (inputId: string, message: MidiMessage) => void;
+  onClose: () => void;
+}
+
+// Two octaves plus the top C
+const PIANO_KEYS = 25;
+
+const selectClass = 'bg-gray-800 border border-gray-700 rounded px-2 py-1 text-xs text-white outline-none focus:ring-1 focus:ring-cyan-500';
+
+// Where a held note was sent, so its Note Off goes to the same place after settings change
+interface HeldNote {
+  inputId: string;
+  channel: number;
+}
+
+export const VirtualKeyboard: React.FC<VirtualKeyboardProps> = ({ settings, inputs, onSettingsChange, onMessage, onClose }) => {
+  const [tab, setTab] = useState<'keys' | 'pads'>('keys');
+  const [heldNotes, setHeldNotes] = useState<Set<number>>(new Set());
+  const heldRef = useRef<Map<number, HeldNote>>(new Map());
+  // Computer key -> note it started, so releasing after an octave shift stops the right note
+  const computerKeysRef = useRef<Map<string, number>>(new Map());
+
+  // Handlers below run from window listeners; refs keep them on the latest props
+  const settingsRef = useRef(settings);
+  settingsRef.current = settings;
+  const onMessageRef = useRef(onMessage);
+  onMessageRef.current = onMessage;
+  const onSettingsChangeRef = useRef(onSettingsChange);
+  onSettingsChangeRef.current = onSettingsChange;
+
+  const press = (note: number) => {
+    if (note < 0 || note > 127 || heldRef.current.has(note)) return;
+    const { inputId, channel, velocity } = settingsRef.current;
+    heldRef.current.set(note, { inputId, channel });
+    setHeldNotes(new Set(heldRef.current.keys()));
+    onMessageRef.current(inputId, { type: 'noteOn', channel, note, velocity });
+  };
+
+  const release = (note: number) => {
+    const held = heldRef.current.get(note);
+    if (!held) return;
+    heldRef.current.delete(note);
+    setHeldNotes(new Set(heldRef.current.keys()));
+    onMessageRef.current(held.inputId, { type: 'noteOff', channel: held.channel, note, velocity: 0 });
+  };
+
+  const releaseAll = () => {
+    for (const note of Array.from<number>(heldRef.current.keys())) release(note);
+    computerKeysRef.current.clear();
+  };
+
+  // Computer keyboard: piano on the home row, octave and velocity on Z/X and C/V
+  useEffect(() => {
+    const isTyping = (target: EventTarget | null) => {
+      const element = target as HTMLElement | null;
+      if (!element) return false;
+      return element.tagName === 'TEXTAREA' || element.tagName === 'SELECT' || element.isContentEditable
+        || (element.tagName === 'INPUT' && ['text', 'number', 'search'].includes((element as HTMLInputElement).type));
+    };
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.repeat || e.ctrlKey || e.metaKey || e.altKey || isTyping(e.target)) return;
+      const key = e.key.toLowerCase();
+      const current = settingsRef.current;
+
+      if (key === OCTAVE_DOWN_KEY || key === OCTAVE_UP_KEY) {
+        const octave = current.octave + (key === OCTAVE_UP_KEY ? 1 : -1);
+        onSettingsChangeRef.current({ ...current, octave: Math.max(MIN_OCTAVE, Math.min(MAX_OCTAVE, octave)) });
+        return;
+      }
+      if (key === VELOCITY_DOWN_KEY || key === VELOCITY_UP_KEY) {
+        const velocity = current.velocity + (key === VELOCITY_UP_KEY ? VELOCITY_STEP : -VELOCITY_STEP);
+        onSettingsChangeRef.current({ ...current, velocity: Math.max(1, Math.min(127, velocity)) });
+        return;
+      }
+
+      const semitone = COMPUTER_KEY_SEMITONES[key];
+      if (semitone === undefined || computerKeysRef.current.has(key)) return;
+      const note = octaveToNote(current.octave) + semitone;
+      computerKeysRef.current.set(key, note);
+      press(note);
+    };
+
+    const handleKeyUp = (e: KeyboardEvent) => {
+      const key = e.key.toLowerCase();
+      const note = computerKeysRef.current.get(key);
+      if (note === undefined) return;
+      computerKeysRef.current.delete(key);
+      release(note);
+    };
+
+    // Key-ups are lost while the window is in the background, so nothing may stay stuck
+    window.addEventListener('keydown', handleKeyDown);
+    window.addEventListener('keyup', handleKeyUp);
+    window.addEventListener('blur', releaseAll);
+    return () => {
+      window.removeEventListener('keydown', handleKeyDown);
+      window.removeEventListener('keyup', handleKeyUp);
+      window.removeEventListener('blur', releaseAll);
+      releaseAll();
+    };
+  }, []);
+
+  const pointerHandlers = (note: number) => ({
+    onPointerDown: (e: React.PointerEvent) => {
+      e.preventDefault();
+      press(note);
+    },
+    onPointerUp: () => release(note),
+    onPointerLeave: () => release(note),
+  });
+
+  const firstNote = octaveToNote(settings.octave);
+  const pianoNotes = Array.from({ length: PIANO_KEYS }, (_, i) => firstNote + i).filter(note => note <= 127);
+  const whiteNotes = pianoNotes.filter(note => !isBlackKey(note));
+  const whiteWidth = 100 / whiteNotes.length;
+  // Pads are listed bottom row first, like the hardware they imitate
+  const padRows = [0, 1, 2, 3].map(row => DRUM_PADS.slice(row * 4, row * 4 + 4)).reverse();
+
+  return (
+    <div className="absolute bottom-4 left-1/2 -translate-x-1/2 w-[560px] max-w-[calc(100%-2rem)] bg-gray-900/95 backdrop-blur-sm border border-gray-700 rounded-xl shadow-2xl z-30 select-none">
+      <div className="px-3 py-2 border-b border-gray-800 flex items-center gap-2">
+        <Keyboard size={14} className="text-gray-400" />
+        <div className="flex rounded overflow-hidden border border-gray-700 text-xs">
+          {(['keys', 'pads'] as const).map(value => (
+            <button
+              key={value}
+              onClick={() => setTab(value)}
+              className={`px-2 py-0.5 ${tab === value ? 'bg-cyan-500/20 text-cyan-300' : 'text-gray-400 hover:text-white'}`}
+            >
+              {value === 'keys' ? 'Piano' : 'Pads'}
+            </button>
+          ))}
+        </div>
+
+        <select
+          value={settings.inputId}
+          onChange={(e) => onSettingsChange({ ...settings, inputId: e.target.value })}
+          className={`${selectClass} max-w-[130px]`}
+          title="Send notes as this input, to preview shapes that listen to one device only"
+        >
+          <option value={VIRTUAL_INPUT_ID}>On-screen</option>
+          {inputs.map(input => (
+            <option key={input.id} value={getInputKey(input)}>As {input.name}</option>
+          ))}
+        </select>
+        <select
+          value={settings.channel}
+          onChange={(e) => onSettingsChange({ ...settings, channel: parseInt(e.target.value) })}
+          className={selectClass}
+          title="MIDI channel"
+        >
+          {Array.from({ length: 16 }, (_, i) => i + 1).map(channel => (
+            <option key={channel} value={channel}>CH {channel}</option>
+          ))}
+        </select>
+        <label className="flex items-center gap-1 text-xs text-gray-400" title={`Velocity (${VELOCITY_DOWN_KEY.toUpperCase()} / ${VELOCITY_UP_KEY.toUpperCase()})`}>
+          Vel
+          <input
+            type="range"
+            min="1"
+            max="127"
+            value={settings.velocity}
+            onChange={(e) => onSettingsChange({ ...settings, velocity: parseInt(e.target.value) })}
+            className="w-20 accent-cyan-500 h-1.5 bg-gray-700 rounded-lg appearance-none cursor-pointer"
+          />
+          <span className="w-6 text-right font-mono text-gray-300">{settings.velocity}</span>
+        </label>
+
+        <button onClick={onClose} className="ml-auto text-gray-400 hover:text-white"><X size={14} /></button>
+      </div>
+
+      <div className="p-3">
+        {tab === 'keys' ? (
+          <>
+            <div className="flex items-center justify-between mb-2 text-xs text-gray-400">
+              <button
+                onClick={() => onSettingsChange({ ...settings, octave: Math.max(MIN_OCTAVE, settings.octave - 1) })}
+                className="px-2 py-0.5 rounded border border-gray-700 hover:border-cyan-500 hover:text-cyan-400"
+                title={`Octave down (${OCTAVE_DOWN_KEY.toUpperCase()})`}
+              >
+                −
+              </button>
+              <span>{midiNoteToName(firstNote)} – {midiNoteToName(pianoNotes[pianoNotes.length - 1])} · keys A–; play, Z/X octave, C/V velocity</span>
+              <button
+                onClick={() => onSettingsChange({ ...settings, octave: Math.min(MAX_OCTAVE, settings.octave + 1) })}
+                className="px-2 py-0.5 rounded border border-gray-700 hover:border-cyan-500 hover:text-cyan-400"
+                title={`Octave up (${OCTAVE_UP_KEY.toUpperCase()})`}
+              >
+                +
+              </button>
+            </div>
+            <div className="relative h-24 flex">
+              {whiteNotes.map(note => (
+                <div
+                  key={note}
+                  {...pointerHandlers(note)}
+                  className={`flex-1 border border-gray-900 rounded-b flex items-end justify-center pb-1 text-[9px] cursor-pointer ${heldNotes.has(note) ? 'bg-cyan-300 text-gray-900' : 'bg-gray-100 text-gray-500 hover:bg-white'}`}
+                >
+                  {note % 12 === 0 ? midiNoteToName(note) : ''}
+                </div>
+              ))}
+              {pianoNotes.filter(isBlackKey).map(note => {
+                const whitesBefore = whiteNotes.filter(white => white < note).length;
+                return (
+                  <div
+                    key={note}
+                    {...pointerHandlers(note)}
+                    className={`absolute top-0 h-14 rounded-b cursor-pointer ${heldNotes.has(note) ? 'bg-cyan-500' : 'bg-gray-900 hover:bg-gray-700'}`}
+                    style={{ left: `${whitesBefore * whiteWidth - whiteWidth * 0.3}%`, width: `${whiteWidth * 0.6}%` }}
+                  />
+                );
+              })}
+            </div>
+          </>
+        ) : (
+          <div className="grid grid-cols-4 gap-2">
+            {padRows.flat().map(pad => (
+              <div
+                key={pad.note}
+                {...pointerHandlers(pad.note)}
+                className={`h-12 rounded border flex flex-col items-center justify-center cursor-pointer transition-colors ${heldNotes.has(pad.note) ? 'bg-cyan-500/40 border-cyan-400 text-white' : 'bg-gray-800 border-gray-700 text-gray-300 hover:border-cyan-500'}`}
+              >
+                <span className="text-xs font-medium">{pad.label}</span>
+                <span className="text-[10px] text-gray-500">{pad.note} · {midiNoteToName(pad.note)}</span>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
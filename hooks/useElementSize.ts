@@ -0,0 +1,20 @@
+import { useState, useEffect, RefObject } from 'react';
+
+// Pixel size of an element, kept current with a ResizeObserver
+export const useElementSize = (ref: RefObject<HTMLElement | null>) => {
+  const [size, setSize] = useState({ width: 0, height: 0 });
+
+  useEffect(() => {
+    const element = ref.current;
+    if (!element) return;
+
+    const observer = new ResizeObserver(entries => {
+      const { width, height } = entries[0].contentRect;
+      setSize(prev => (prev.width === width && prev.height === height ? prev : { width, height }));
+    });
+    observer.observe(element);
+    return () => observer.disconnect();
+  }, [ref]);
+
+  return size;
+};
@@ -0,0 +1,40 @@
+import { useReducer, useCallback } from 'react';
+import { HistoryAction, HistoryState, createHistory, historyReducer } from '../utils/history';
+
+/**
+ * Undoable state. `commit` records a labelled step; passing the same `mergeKey` for a continuous
+ * gesture folds its updates into a single step.
+ */
+export const useHistory = <T,>(initialValue: T, initialLabel: string) => {
+  const [state, dispatch] = useReducer(
+    historyReducer as (state: HistoryState<T>, action: HistoryAction<T>) => HistoryState<T>,
+    undefined,
+    () => createHistory(initialValue, initialLabel, Date.now())
+  );
+
+  const commit = useCallback((update: T | ((prev: T) => T), label: string, mergeKey?: string) => {
+    const updater = typeof update === 'function' ? update as (prev: T) => T : () => update;
+    dispatch({ type: 'commit', update: updater, label, mergeKey, timestamp: Date.now() });
+  }, []);
+
+  const reset = useCallback((value: T, label: string) => {
+    dispatch({ type: 'reset', value, label, timestamp: Date.now() });
+  }, []);
+
+  const undo = useCallback(() => dispatch({ type: 'undo' }), []);
+  const redo = useCallback(() => dispatch({ type: 'redo' }), []);
+  const jumpTo = useCallback((index: number) => dispatch({ type: 'jump', index }), []);
+
+  return {
+    value: state.entries[state.index].value,
+    entries: state.entries,
+    index: state.index,
+    canUndo: state.index > 0,
+    canRedo: state.index < state.entries.length - 1,
+    commit,
+    reset,
+    undo,
+    redo,
+    jumpTo,
+  };
+};
@@ -1,6 +1,8 @@
 import React from 'react';
 import ReactDOM from 'react-dom/client';
 import App from './App';
+import { OutputWindow } from './components/OutputWindow';
+import { isOutputWindow } from './utils/outputSync';
 
 const rootElement = document.getElementById('root');
 if (!rootElement) throw new Error('Failed to find the root element');
@@ -8,6 +10,6 @@ if (!rootElement) throw new Error('Failed to find the root element');
 const root = ReactDOM.createRoot(rootElement);
 root.render(
   <React.StrictMode>
-    <App />
+    {isOutputWindow() ? <OutputWindow /> : <App />}
   </React.StrictMode>
 );
@@ -3,12 +3,96 @@ export interface Point {
   y: number;
 }
 
+// ADSR envelope shaping how a shape fades in and out around its notes
+export interface Envelope {
+  attack: number; // ms to reach full level after Note On
+  decay: number; // ms to fall from full level to sustain
+  sustain: number; // 0-1 level held while the note is down
+  release: number; // ms to fade to zero after Note Off
+}
+
+// Continuous MIDI sources that can drive a shape parameter
+export type ModulationSource = 'cc' | 'pitchBend' | 'channelPressure' | 'polyPressure';
+
+export type ModulationTarget = 'opacity' | 'hue' | 'scale' | 'rotation' | 'offsetX' | 'offsetY';
+
+export type ModulationCurve = 'linear' | 'exponential' | 'logarithmic' | 'sCurve';
+
+export interface Modulation {
+  id: string;
+  source: ModulationSource;
+  channel: number; // 0 = Omni, 1-16
+  controller: number; // CC number, or note number for poly pressure; unused otherwise
+  target: ModulationTarget;
+  min: number; // Target value at controller minimum
+  max: number; // Target value at controller maximum
+  curve: ModulationCurve;
+}
+
+export type FillType = 'solid' | 'linearGradient' | 'radialGradient' | 'image' | 'video' | 'pattern';
+
+export type PatternKind = 'stripes' | 'noise' | 'scanBars';
+
+// How a shape's polygon is painted. The shape's `color` is always the primary color.
+export interface ShapeFill {
+  type: FillType;
+  secondaryColor: string;  // gradient end color, pattern background
+  angle: number;           // degrees; linear gradient and stripe direction
+  assetId: string | null;  // image or video from Project.assets
+  pattern: PatternKind;
+  speed: number;           // pattern cycles per second
+  velocitySpeed: boolean;  // scale pattern speed by the triggering velocity
+}
+
+export type EffectType = 'none' | 'flash' | 'strobe' | 'wipe' | 'pulse' | 'chase';
+
+export type WipeDirection = 'left' | 'right' | 'up' | 'down';
+
+// Animation started by each hit, layered on top of the envelope
+export interface ShapeEffect {
+  type: EffectType;
+  duration: number;           // ms; length of a flash, wipe or pulse
+  rate: number;               // strobe flashes / chase steps per beat of the clock
+  direction: WipeDirection;   // direction a wipe reveals the shape in
+  amount: number;             // pulse: extra scale at the peak (0.5 = +50%)
+  velocityIntensity: boolean; // scale the effect's intensity by velocity
+  steps: number;              // chase: length of the cycle in steps
+  step: number;               // chase: 0-based step this shape lights on
+}
+
+// How a note range is spread over the polygon: whole shape, one slice per note, or one hue per note
+export type DistributionMode = 'whole' | 'horizontal' | 'vertical' | 'radial' | 'hue';
+
+// How a shape's light combines with the shapes drawn before it
+export type BlendMode = 'normal' | 'add' | 'screen' | 'multiply';
+
+// Mask shapes are never lit themselves: 'cut' darkens everything beneath inside the outline,
+// 'clip' darkens everything beneath outside it
+export type MaskMode = 'none' | 'cut' | 'clip';
+
+// Image or video embedded in the project as a data URL, so saved files are self-contained
+export interface MediaAsset {
+  id: string;
+  name: string;
+  mimeType: string;
+  dataUrl: string;
+}
+
+// Cubic Bézier control points that bend one edge, in percent like the vertices
+export interface EdgeCurve {
+  c1: Point; // pulls the curve away from the edge's start vertex
+  c2: Point; // pulls it into the end vertex
+}
+
 export interface Shape {
   id: string;
   name: string;
   points: Point[]; // Coordinates in percentage (0-100)
+  curves: (EdgeCurve | null)[]; // curves[i] bends the edge from points[i] to the next point; null is straight
+  groupId: string | null; // ShapeGroup this shape belongs to
   
   // MIDI Config
+  inputId: string; // MIDI input device name (see getInputKey), '' = any enabled input
   channel: number; // 0 = Omni, 1-16
   noteStart: number; // 0-127
   noteEnd: number; // 0-127
@@ -17,24 +101,157 @@ export interface Shape {
   color: string;
   velocitySensitive: boolean; // If true, opacity scales with velocity
   baseOpacity: number; // 0-1
+  fill: ShapeFill;
+  effect: ShapeEffect;
+  distribution: DistributionMode;
+  envelope: Envelope;
+  modulations: Modulation[];
+
+  // Compositing; shapes later in the list are drawn on top
+  blendMode: BlendMode;
+  mask: MaskMode;
 }
 
-export interface MidiMessage {
-  command: number;
-  channel: number;
-  note: number;
-  velocity: number;
-  timestamp: number;
+// Named set of shapes that select and move together. With `shareMidi` every member keeps the
+// same input and channel, so changing one changes them all.
+export interface ShapeGroup {
+  id: string;
+  name: string;
+  shareMidi: boolean;
+}
+
+// Per-scene state of one shape. Unset fields fall back to the shape's own settings.
+export interface SceneShapeOverride {
+  color?: string;
+  channel?: number;
+  noteStart?: number;
+  noteEnd?: number;
+}
+
+// A named cue: which shapes are live and how their mappings differ from the base shapes
+export interface Scene {
+  id: string;
+  name: string;
+  members: Record<string, SceneShapeOverride>; // shapeId -> overrides; absent shapes are hidden
+  programNumber: number | null; // Program Change (0-127) that recalls this scene
+  triggerNote: number | null; // Note that recalls this scene
+  triggerChannel: number; // 0 = Omni, 1-16; applies to both triggers
+  crossfade: number; // ms to fade in when recalled
+}
+
+// Corner-pin keystone correction applied to the whole output
+export interface OutputWarp {
+  enabled: boolean;
+  corners: Point[]; // Top-left, top-right, bottom-right, bottom-left; percent of the output
+}
+
+// Where the edit-mode tracing background comes from
+export type ReferenceSource = 'none' | 'asset' | 'webcam';
+
+// A photo, clip or camera feed of the real surface behind the shapes while editing; never output
+export interface ReferenceLayer {
+  source: ReferenceSource;
+  assetId: string | null;  // image or video asset, for source 'asset'
+  deviceId: string | null; // camera to use for source 'webcam'; null is the browser's default
+  visible: boolean;
+  opacity: number; // 0-1
+  scale: number;   // 1 fits the canvas
+  offsetX: number; // percent of the canvas
+  offsetY: number;
+}
+
+// Global (non-shape) settings saved with a project
+export interface ProjectSettings {
+  outputWarp: OutputWarp;
+  tempo: number; // BPM for tempo-synced effects
+  reference: ReferenceLayer;
+}
+
+// A saved mapping setup in the browser project library
+export interface Project {
+  id: string;
+  name: string;
+  createdAt: number;
+  updatedAt: number;
+  shapes: Shape[];
+  groups: ShapeGroup[];
+  scenes: Scene[];
+  activeSceneId: string | null; // null = no scene, every shape is live
+  assets: MediaAsset[];
+  takes: Take[];
+  settings: ProjectSettings;
+}
+
+export interface ProjectSummary {
+  id: string;
+  name: string;
+  createdAt: number;
+  updatedAt: number;
+  shapeCount: number;
+}
+
+// One decoded MIDI message. Channels are 1-16; data values are the raw 0-127 bytes.
+export type MidiMessage =
+  | { type: 'noteOn'; channel: number; note: number; velocity: number }   // velocity 1-127
+  | { type: 'noteOff'; channel: number; note: number; velocity: number }  // includes Note On with velocity 0
+  | { type: 'polyAftertouch'; channel: number; note: number; pressure: number }
+  | { type: 'controlChange'; channel: number; controller: number; value: number }
+  | { type: 'programChange'; channel: number; program: number }
+  | { type: 'channelAftertouch'; channel: number; pressure: number }
+  | { type: 'pitchBend'; channel: number; value: number }                 // 14-bit, 0-16383, centre 8192
+  | { type: 'sysEx'; data: Uint8Array }                                   // complete, F0 through F7
+  | { type: 'timecode'; value: number }                                   // MTC quarter frame
+  | { type: 'songPosition'; position: number }                            // in sixteenth notes
+  | { type: 'songSelect'; song: number }
+  | { type: 'tuneRequest' }
+  | { type: 'clock' }
+  | { type: 'start' }
+  | { type: 'continue' }
+  | { type: 'stop' }
+  | { type: 'activeSensing' }
+  | { type: 'reset' };
+
+export type MidiMessageType = MidiMessage['type'];
+
+// Message types that carry a channel
+export type ChannelMidiMessage = Extract<MidiMessage, { channel: number }>;
+
+// One recorded message, timed from the start of its take
+export interface TakeEvent {
+  time: number;     // ms
+  inputId: string;  // input it arrived on, so device-filtered shapes still respond on playback
+  message: ChannelMidiMessage;
+}
+
+// A recorded or imported performance that can be replayed through the renderer
+export interface Take {
+  id: string;
+  name: string;
+  duration: number;    // ms
+  events: TakeEvent[]; // sorted by time
 }
 
 export interface ActiveNote {
+  inputId: string;
+  channel: number;
+  note: number;
   velocity: number;
   timestamp: number;
 }
 
-// Map key: "channel-note" -> ActiveNote
+// Map key: "inputId-channel-note" -> ActiveNote
 export type ActiveNotesMap = Map<string, ActiveNote>;
 
+// Map key: "inputId-channel-source-controller" -> latest value normalized to 0-1
+export type ControllerValuesMap = Map<string, number>;
+
+// What an armed MIDI Learn will write the next incoming message into
+export type LearnField = 'trigger' | 'channel' | 'noteStart' | 'noteEnd';
+
+export type LearnTarget =
+  | { kind: 'note'; shapeId: string; field: LearnField }
+  | { kind: 'modulation'; shapeId: string; modulationId: string };
+
 export enum AppMode {
   EDIT = 'EDIT',
   PERFORMANCE = 'PERFORMANCE'
@@ -43,11 +260,13 @@ export enum AppMode {
 // Web MIDI API Types
 export interface MIDIMessageEvent {
   data: Uint8Array;
+  timeStamp?: number; // performance.now() time the message arrived
 }
 
 export interface MIDIInput {
   id: string;
   name: string;
+  state?: 'connected' | 'disconnected';
   onmidimessage: ((event: MIDIMessageEvent) => void) | null;
 }
 
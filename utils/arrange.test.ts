@@ -0,0 +1,67 @@
+import { describe, expect, it } from 'vitest';
+import { createPolygonOutline, createRectangleOutline } from './geometry';
+import { alignOutlines, clampMove, distributeOutlines, getBounds, rotateOutlines, scaleOutlines } from './arrange';
+
+const box = (x: number, y: number, w: number, h: number) => createRectangleOutline({ x, y }, { x: x + w, y: y + h });
+
+describe('getBounds', () => {
+  it('covers every outline', () => {
+    expect(getBounds([box(10, 20, 5, 5), box(40, 5, 10, 10)])).toEqual({ minX: 10, minY: 5, maxX: 50, maxY: 25 });
+  });
+
+  it('is null for an empty selection', () => {
+    expect(getBounds([])).toBeNull();
+  });
+});
+
+describe('clampMove', () => {
+  it('stops at the canvas edges', () => {
+    expect(clampMove({ minX: 10, minY: 10, maxX: 90, maxY: 90 }, 20, -30)).toEqual({ dx: 10, dy: -10 });
+  });
+
+  it('never pushes bounds that are already off the canvas further out', () => {
+    expect(clampMove({ minX: -5, minY: 0, maxX: 20, maxY: 10 }, -3, 0)).toEqual({ dx: 0, dy: 0 });
+    expect(clampMove({ minX: -5, minY: 0, maxX: 20, maxY: 10 }, 3, 0)).toEqual({ dx: 3, dy: 0 });
+  });
+});
+
+describe('scaleOutlines', () => {
+  it('scales around the origin', () => {
+    const [scaled] = scaleOutlines([box(10, 10, 10, 10)], { x: 10, y: 10 }, 2, 0.5);
+    expect(getBounds([scaled])).toEqual({ minX: 10, minY: 10, maxX: 30, maxY: 15 });
+  });
+});
+
+describe('rotateOutlines', () => {
+  it('rotates a quarter turn in screen space on a wide canvas', () => {
+    const outline = createPolygonOutline([{ x: 60, y: 50 }, { x: 50, y: 50 }, { x: 50, y: 40 }]);
+    // 2:1 canvas: 10% across is twice as far on screen as 10% down
+    const [rotated] = rotateOutlines([outline], { x: 50, y: 50 }, Math.PI / 2, 2);
+    expect(rotated.points[0].x).toBeCloseTo(50);
+    expect(rotated.points[0].y).toBeCloseTo(70);
+  });
+});
+
+describe('alignOutlines', () => {
+  it('lines up left edges with the leftmost shape', () => {
+    const aligned = alignOutlines([box(10, 0, 5, 5), box(30, 20, 10, 5)], 'left');
+    expect(aligned.map(o => getBounds([o])!.minX)).toEqual([10, 10]);
+  });
+
+  it('centers on the middle of the selection', () => {
+    const aligned = alignOutlines([box(0, 0, 10, 10), box(0, 80, 10, 20)], 'centerY');
+    expect(aligned.map(o => { const b = getBounds([o])!; return (b.minY + b.maxY) / 2; })).toEqual([50, 50]);
+  });
+});
+
+describe('distributeOutlines', () => {
+  it('evens out the gaps and keeps the outer shapes in place', () => {
+    const result = distributeOutlines([box(0, 0, 10, 10), box(80, 0, 20, 10), box(15, 0, 10, 10)], 'x');
+    expect(result.map(o => getBounds([o])!.minX)).toEqual([0, 80, 40]);
+  });
+
+  it('leaves fewer than three shapes alone', () => {
+    const outlines = [box(0, 0, 10, 10), box(50, 0, 10, 10)];
+    expect(distributeOutlines(outlines, 'x')).toBe(outlines);
+  });
+});
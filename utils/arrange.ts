@@ -0,0 +1,109 @@
+import { Point } from '../types';
+import { ShapeOutline, flattenOutline, mapOutline, translateOutline } from './geometry';
+
+// Axis-aligned box in percent
+export interface Bounds {
+  minX: number;
+  minY: number;
+  maxX: number;
+  maxY: number;
+}
+
+export type AlignEdge = 'left' | 'centerX' | 'right' | 'top' | 'centerY' | 'bottom';
+
+export const ALIGN_EDGES: { value: AlignEdge; label: string }[] = [
+  { value: 'left', label: 'Align Left' },
+  { value: 'centerX', label: 'Align Centers Horizontally' },
+  { value: 'right', label: 'Align Right' },
+  { value: 'top', label: 'Align Top' },
+  { value: 'centerY', label: 'Align Centers Vertically' },
+  { value: 'bottom', label: 'Align Bottom' },
+];
+
+// Bounds of the visible outlines, curves included; null for an empty selection
+export const getBounds = (outlines: ShapeOutline[]): Bounds | null => {
+  const points = outlines.flatMap(flattenOutline);
+  if (points.length === 0) return null;
+  return {
+    minX: Math.min(...points.map(p => p.x)),
+    minY: Math.min(...points.map(p => p.y)),
+    maxX: Math.max(...points.map(p => p.x)),
+    maxY: Math.max(...points.map(p => p.y)),
+  };
+};
+
+export const getBoundsCenter = (bounds: Bounds): Point => ({
+  x: (bounds.minX + bounds.maxX) / 2,
+  y: (bounds.minY + bounds.maxY) / 2,
+});
+
+// Shortens a move so the bounds stay on the canvas (or at least get no further off it)
+export const clampMove = (bounds: Bounds, dx: number, dy: number): { dx: number; dy: number } => ({
+  dx: Math.max(Math.min(0, -bounds.minX), Math.min(Math.max(0, 100 - bounds.maxX), dx)),
+  dy: Math.max(Math.min(0, -bounds.minY), Math.min(Math.max(0, 100 - bounds.maxY), dy)),
+});
+
+export const moveOutlines = <T extends ShapeOutline>(outlines: T[], dx: number, dy: number): T[] =>
+  outlines.map(outline => ({ ...outline, ...translateOutline(outline, dx, dy) }));
+
+export const scaleOutlines = <T extends ShapeOutline>(outlines: T[], origin: Point, sx: number, sy: number): T[] =>
+  outlines.map(outline => ({
+    ...outline,
+    ...mapOutline(outline, p => ({ x: origin.x + (p.x - origin.x) * sx, y: origin.y + (p.y - origin.y) * sy })),
+  }));
+
+/**
+ * Rotates around `center` by `angle` radians as seen on screen. Percent coordinates are
+ * stretched by the canvas aspect ratio (width / height), so they are rotated in pixel space.
+ */
+export const rotateOutlines = <T extends ShapeOutline>(outlines: T[], center: Point, angle: number, aspect: number): T[] => {
+  const cos = Math.cos(angle);
+  const sin = Math.sin(angle);
+  const rotate = (p: Point): Point => {
+    const u = (p.x - center.x) * aspect;
+    const v = p.y - center.y;
+    return { x: center.x + (u * cos - v * sin) / aspect, y: center.y + u * sin + v * cos };
+  };
+  return outlines.map(outline => ({ ...outline, ...mapOutline(outline, rotate) }));
+};
+
+// Lines each outline's bounds up with the matching edge (or center) of the selection's bounds
+export const alignOutlines = <T extends ShapeOutline>(outlines: T[], edge: AlignEdge): T[] => {
+  const all = getBounds(outlines);
+  if (!all) return outlines;
+  return outlines.map(outline => {
+    const own = getBounds([outline])!;
+    let dx = 0;
+    let dy = 0;
+    if (edge === 'left') dx = all.minX - own.minX;
+    if (edge === 'right') dx = all.maxX - own.maxX;
+    if (edge === 'centerX') dx = getBoundsCenter(all).x - getBoundsCenter(own).x;
+    if (edge === 'top') dy = all.minY - own.minY;
+    if (edge === 'bottom') dy = all.maxY - own.maxY;
+    if (edge === 'centerY') dy = getBoundsCenter(all).y - getBoundsCenter(own).y;
+    return { ...outline, ...translateOutline(outline, dx, dy) };
+  });
+};
+
+/**
+ * Spaces outlines so the gaps between neighbours along an axis are equal. The first and last
+ * outline along that axis stay where they are; the result keeps the input order.
+ */
+export const distributeOutlines = <T extends ShapeOutline>(outlines: T[], axis: 'x' | 'y'): T[] => {
+  if (outlines.length < 3) return outlines;
+  const [min, max] = axis === 'x' ? ['minX', 'maxX'] as const : ['minY', 'maxY'] as const;
+  const items = outlines.map((outline, index) => ({ index, bounds: getBounds([outline])! }));
+  items.sort((a, b) => a.bounds[min] - b.bounds[min]);
+  const span = items[items.length - 1].bounds[max] - items[0].bounds[min];
+  const occupied = items.reduce((sum, item) => sum + item.bounds[max] - item.bounds[min], 0);
+  const gap = (span - occupied) / (items.length - 1);
+
+  const result = [...outlines];
+  let position = items[0].bounds[min];
+  for (const { index, bounds } of items) {
+    const delta = position - bounds[min];
+    result[index] = { ...outlines[index], ...translateOutline(outlines[index], axis === 'x' ? delta : 0, axis === 'y' ? delta : 0) };
+    position += bounds[max] - bounds[min] + gap;
+  }
+  return result;
+};
@@ -0,0 +1,47 @@
+import { MediaAsset } from '../types';
+
+// Assets are embedded in every save and export, so keep them reasonably small
+export const MAX_ASSET_BYTES = 25 * 1024 * 1024;
+
+export const isVideoAsset = (asset: MediaAsset): boolean => asset.mimeType.startsWith('video/');
+
+export const readFileAsAsset = (file: File): Promise<MediaAsset> =>
+  new Promise((resolve, reject) => {
+    if (!file.type.startsWith('image/') && !file.type.startsWith('video/')) {
+      reject(new Error(`${file.name} is not an image or video.`));
+      return;
+    }
+    if (file.size > MAX_ASSET_BYTES) {
+      reject(new Error(`${file.name} is larger than ${MAX_ASSET_BYTES / 1024 / 1024} MB.`));
+      return;
+    }
+    const reader = new FileReader();
+    reader.onload = () => resolve({
+      id: crypto.randomUUID(),
+      name: file.name,
+      mimeType: file.type,
+      dataUrl: reader.result as string,
+    });
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(file);
+  });
+
+// Decoded media for drawing; videos loop silently and start as soon as they can
+export const createMediaElement = (asset: MediaAsset): HTMLImageElement | HTMLVideoElement => {
+  if (isVideoAsset(asset)) {
+    const video = document.createElement('video');
+    video.src = asset.dataUrl;
+    video.loop = true;
+    video.muted = true;
+    video.playsInline = true;
+    video.play().catch(err => console.warn(`Could not play ${asset.name}`, err));
+    return video;
+  }
+  const image = new Image();
+  image.src = asset.dataUrl;
+  return image;
+};
+
+// Media that has no pixels yet is skipped rather than drawn blank
+export const isMediaReady = (media: HTMLImageElement | HTMLVideoElement): boolean =>
+  media instanceof HTMLVideoElement ? media.readyState >= 2 : media.complete && media.naturalWidth > 0;
@@ -0,0 +1,166 @@
+// MIDI clock follower with an internal (tap-tempo) fallback.
+// Beat position is anchored at a point in time and extrapolated at the current BPM,
+// so renderers in any window can read the phase for "now" without per-pulse updates.
+
+import { MidiMessage } from '../types';
+
+// MIDI clock runs at 24 pulses per quarter note
+const PULSES_PER_BEAT = 24;
+// Without pulses for this long the external clock is considered gone
+export const CLOCK_TIMEOUT_MS = 500;
+// Taps further apart than this start a new tap sequence
+const TAP_RESET_MS = 2000;
+const MAX_TAPS = 8;
+
+export const BEATS_PER_BAR = 4;
+
+// Range accepted for the project (internal clock) tempo
+export const MIN_TEMPO = 20;
+export const MAX_TEMPO = 400;
+
+export interface ClockState {
+  source: 'midi' | 'internal';
+  running: boolean;     // MIDI transport state; the internal clock always runs
+  bpm: number;
+  anchorBeat: number;   // beat position at anchorTime
+  anchorTime: number;   // precise epoch ms (preciseNow), like every time the clock is given
+  pulses: number;       // MIDI clock pulses since Start / song position
+  lastPulseAt: number;
+  pulseIntervals: number[];
+  taps: number[];
+  revision: number;     // bumped on every change other windows need to hear about
+}
+
+export const createClockState = (tempo: number, now: number): ClockState => ({
+  source: 'internal',
+  running: true,
+  bpm: tempo,
+  anchorBeat: 0,
+  anchorTime: now,
+  pulses: 0,
+  lastPulseAt: 0,
+  pulseIntervals: [],
+  taps: [],
+  revision: 0,
+});
+
+export const getBeatPosition = (clock: ClockState, now: number): number => {
+  if (!clock.running) return clock.anchorBeat;
+  return clock.anchorBeat + ((now - clock.anchorTime) * clock.bpm) / 60000;
+};
+
+// Bar and beat (both 1-based) for display
+export const getBarAndBeat = (beat: number): { bar: number; beat: number } => {
+  const whole = Math.floor(beat);
+  return { bar: Math.floor(whole / BEATS_PER_BAR) + 1, beat: (whole % BEATS_PER_BAR) + 1 };
+};
+
+const reanchor = (clock: ClockState, now: number) => {
+  clock.anchorBeat = getBeatPosition(clock, now);
+  clock.anchorTime = now;
+};
+
+/**
+ * Feeds a clock, transport or song position message to the clock.
+ * Returns false for messages the clock does not handle.
+ */
+export const handleClockMessage = (clock: ClockState, message: MidiMessage, now: number): boolean => {
+  switch (message.type) {
+    case 'clock': {
+      if (clock.source !== 'midi') {
+        clock.source = 'midi';
+        clock.pulseIntervals = [];
+        clock.revision++;
+      }
+      if (clock.lastPulseAt > 0) {
+        const interval = now - clock.lastPulseAt;
+        if (interval > 0 && interval < CLOCK_TIMEOUT_MS) {
+          clock.pulseIntervals.push(interval);
+          if (clock.pulseIntervals.length > PULSES_PER_BEAT) clock.pulseIntervals.shift();
+          // A beat's worth of pulses smooths out USB/driver jitter
+          const average = clock.pulseIntervals.reduce((sum, i) => sum + i, 0) / clock.pulseIntervals.length;
+          clock.bpm = 60000 / (average * PULSES_PER_BEAT);
+        }
+      }
+      clock.lastPulseAt = now;
+      if (clock.running) {
+        clock.pulses++;
+        clock.anchorBeat = clock.pulses / PULSES_PER_BEAT;
+        clock.anchorTime = now;
+        // One revision per beat keeps other windows close without flooding them
+        if (clock.pulses % PULSES_PER_BEAT === 0) clock.revision++;
+      }
+      return true;
+    }
+    case 'start':
+      clock.source = 'midi';
+      clock.running = true;
+      clock.pulses = 0;
+      clock.anchorBeat = 0;
+      clock.anchorTime = now;
+      clock.revision++;
+      return true;
+    case 'continue':
+      clock.source = 'midi';
+      clock.running = true;
+      clock.anchorTime = now;
+      clock.revision++;
+      return true;
+    case 'stop':
+      if (clock.source === 'midi') {
+        reanchor(clock, now);
+        clock.running = false;
+        clock.revision++;
+      }
+      return true;
+    case 'songPosition': {
+      // Position in sixteenth notes, 6 pulses each
+      clock.pulses = message.position * 6;
+      clock.anchorBeat = clock.pulses / PULSES_PER_BEAT;
+      clock.anchorTime = now;
+      clock.revision++;
+      return true;
+    }
+    default:
+      return false;
+  }
+};
+
+// Falls back to the internal clock once external pulses stop arriving
+export const checkClockTimeout = (clock: ClockState, tempo: number, now: number): boolean => {
+  if (clock.source !== 'midi' || now - clock.lastPulseAt < CLOCK_TIMEOUT_MS) return false;
+  reanchor(clock, now);
+  clock.source = 'internal';
+  clock.running = true;
+  clock.bpm = tempo;
+  clock.revision++;
+  return true;
+};
+
+// The project tempo drives the internal clock; MIDI clock, when present, overrides it
+export const setInternalTempo = (clock: ClockState, tempo: number, now: number) => {
+  if (clock.source !== 'internal' || clock.bpm === tempo) return;
+  reanchor(clock, now);
+  clock.bpm = tempo;
+  clock.revision++;
+};
+
+/**
+ * Registers a tap. Each tap lands on a beat, so tapping also sets the phase.
+ * Returns the tapped tempo once there are at least two taps in a row, otherwise null.
+ */
+export const registerTap = (clock: ClockState, now: number): number | null => {
+  const last = clock.taps[clock.taps.length - 1];
+  if (last !== undefined && now - last > TAP_RESET_MS) clock.taps = [];
+  clock.taps.push(now);
+  if (clock.taps.length > MAX_TAPS) clock.taps.shift();
+
+  if (clock.source === 'internal') {
+    clock.anchorBeat = Math.round(getBeatPosition(clock, now));
+    clock.anchorTime = now;
+    clock.revision++;
+  }
+  if (clock.taps.length < 2) return null;
+  const span = clock.taps[clock.taps.length - 1] - clock.taps[0];
+  return 60000 / (span / (clock.taps.length - 1));
+};
@@ -0,0 +1,36 @@
+// Convert "#rrggbb" to HSL (h: 0-360, s/l: 0-1)
+export const hexToHsl = (hex: string): { h: number; s: number; l: number } => {
+  const value = parseInt(hex.replace('#', ''), 16);
+  const r = ((value >> 16) & 0xff) / 255;
+  const g = ((value >> 8) & 0xff) / 255;
+  const b = (value & 0xff) / 255;
+
+  const max = Math.max(r, g, b);
+  const min = Math.min(r, g, b);
+  const l = (max + min) / 2;
+  if (max === min) return { h: 0, s: 0, l };
+
+  const d = max - min;
+  const s = l > 0.5 ? d / (2 - max - min) : d / (max + min);
+  let h: number;
+  if (max === r) h = (g - b) / d + (g < b ? 6 : 0);
+  else if (max === g) h = (b - r) / d + 2;
+  else h = (r - g) / d + 4;
+
+  return { h: h * 60, s, l };
+};
+
+export const hslToHex = (h: number, s: number, l: number): string => {
+  const k = (n: number) => (n + h / 30) % 12;
+  const a = s * Math.min(l, 1 - l);
+  const f = (n: number) => l - a * Math.max(-1, Math.min(k(n) - 3, Math.min(9 - k(n), 1)));
+  const toHex = (v: number) => Math.round(v * 255).toString(16).padStart(2, '0');
+  return `#${toHex(f(0))}${toHex(f(8))}${toHex(f(4))}`;
+};
+
+// Rotate the hue of a hex color by the given number of degrees
+export const shiftHue = (hex: string, degrees: number): string => {
+  if (degrees === 0) return hex;
+  const { h, s, l } = hexToHsl(hex);
+  return hslToHex((((h + degrees) % 360) + 360) % 360, s, l);
+};
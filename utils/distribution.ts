@@ -0,0 +1,66 @@
+import { DistributionMode, Shape } from '../types';
+import { FillBounds } from './fills';
+import { midiNoteToName } from './midiUtils';
+
+// `short` is the badge shown in the mapping list
+export const DISTRIBUTION_MODES: { value: DistributionMode; label: string; short: string }[] = [
+  { value: 'whole', label: 'Whole Shape', short: '' },
+  { value: 'horizontal', label: 'Slices: Left → Right', short: 'L→R' },
+  { value: 'vertical', label: 'Slices: Bottom → Top', short: 'B→T' },
+  { value: 'radial', label: 'Rings: Center → Edge', short: 'RINGS' },
+  { value: 'hue', label: 'Note Picks Hue', short: 'HUE' },
+];
+
+// A whole-shape mapping behaves as a single segment that every note in range lights
+export const getSegmentCount = (shape: Shape): number =>
+  shape.distribution === 'whole' ? 1 : Math.max(1, shape.noteEnd - shape.noteStart + 1);
+
+export const getNoteSegment = (shape: Shape, note: number): number =>
+  shape.distribution === 'whole' ? 0 : Math.max(0, Math.min(getSegmentCount(shape) - 1, note - shape.noteStart));
+
+// Hue rotation for a segment in 'hue' mode: the range spans the color wheel once
+export const getSegmentHue = (segment: number, count: number): number => (segment / count) * 360;
+
+/**
+ * Adds the region of one segment to the current path (pixel space), for clipping.
+ * Returns false when the mode has no geometric segments and the whole shape should be used.
+ */
+export const traceSegment = (
+  ctx: CanvasRenderingContext2D,
+  mode: DistributionMode,
+  bounds: FillBounds,
+  segment: number,
+  count: number
+): boolean => {
+  const { x, y, width, height, cx, cy, radius } = bounds;
+  switch (mode) {
+    case 'horizontal':
+      ctx.rect(x + (width * segment) / count, y, width / count, height);
+      return true;
+    case 'vertical':
+      ctx.rect(x, y + height - (height * (segment + 1)) / count, width, height / count);
+      return true;
+    case 'radial': {
+      // Outer circle clockwise, inner counter-clockwise, so the nonzero rule leaves a ring
+      const inner = (radius * segment) / count;
+      const outer = (radius * (segment + 1)) / count;
+      ctx.moveTo(cx + outer, cy);
+      ctx.arc(cx, cy, outer, 0, Math.PI * 2);
+      if (inner > 0) {
+        ctx.moveTo(cx + inner, cy);
+        ctx.arc(cx, cy, inner, 0, Math.PI * 2, true);
+      }
+      return true;
+    }
+    default:
+      return false;
+  }
+};
+
+// Short text for the mapping list's Trigger column
+export const describeDistribution = (shape: Shape): string | null => {
+  if (shape.distribution === 'whole') return null;
+  const count = getSegmentCount(shape);
+  const label = DISTRIBUTION_MODES.find(m => m.value === shape.distribution)?.label ?? shape.distribution;
+  return `${label} · ${count} note${count === 1 ? '' : 's'} (${midiNoteToName(shape.noteStart)}–${midiNoteToName(shape.noteEnd)})`;
+};
@@ -0,0 +1,57 @@
+import { Point } from '../types';
+import { ShapeOutline, createEllipseOutline, createRectangleOutline, createRegularPolygonOutline } from './geometry';
+
+// Polygon is click-by-click; the others are drawn with one drag
+export type DrawTool = 'polygon' | 'rectangle' | 'ellipse' | 'regularPolygon';
+
+export const DRAW_TOOLS: { value: DrawTool; label: string }[] = [
+  { value: 'polygon', label: 'Polygon (click to add points)' },
+  { value: 'rectangle', label: 'Rectangle (drag a corner to corner)' },
+  { value: 'ellipse', label: 'Ellipse (drag a corner to corner)' },
+  { value: 'regularPolygon', label: 'Regular Polygon (drag from the center)' },
+];
+
+export const MIN_POLYGON_SIDES = 3;
+export const MAX_POLYGON_SIDES = 32;
+export const DEFAULT_POLYGON_SIDES = 6;
+
+// Drags shorter than this (percent, both axes) are treated as stray clicks
+const MIN_DRAG_SIZE = 0.5;
+
+/**
+ * The outline a drag from `start` to `end` draws with a shape tool. Width and height are the
+ * canvas size in pixels, so squares, circles and regular polygons come out true on screen;
+ * `constrain` (Shift) makes rectangles square and ellipses round.
+ */
+export const getToolOutline = (
+  tool: DrawTool,
+  start: Point,
+  end: Point,
+  constrain: boolean,
+  sides: number,
+  width: number,
+  height: number
+): ShapeOutline | null => {
+  if (tool === 'polygon' || width <= 0 || height <= 0) return null;
+  let dx = end.x - start.x;
+  let dy = end.y - start.y;
+  if (Math.abs(dx) < MIN_DRAG_SIZE && Math.abs(dy) < MIN_DRAG_SIZE) return null;
+
+  if (tool === 'regularPolygon') {
+    const radius = Math.hypot((dx / 100) * width, (dy / 100) * height);
+    return createRegularPolygonOutline(start, (radius / width) * 100, (radius / height) * 100, sides);
+  }
+
+  if (constrain) {
+    const side = Math.max(Math.abs(dx / 100) * width, Math.abs(dy / 100) * height);
+    dx = Math.sign(dx || 1) * (side / width) * 100;
+    dy = Math.sign(dy || 1) * (side / height) * 100;
+  }
+  const corner = { x: start.x + dx, y: start.y + dy };
+  if (tool === 'rectangle') return createRectangleOutline(start, corner);
+  return createEllipseOutline(
+    { x: start.x + dx / 2, y: start.y + dy / 2 },
+    Math.abs(dx) / 2,
+    Math.abs(dy) / 2
+  );
+};
@@ -0,0 +1,111 @@
+import { EffectType, ShapeEffect, WipeDirection } from '../types';
+import { EnvelopeState } from './envelope';
+
+export const DEFAULT_EFFECT: ShapeEffect = {
+  type: 'none',
+  duration: 300,
+  rate: 4,
+  direction: 'right',
+  amount: 0.3,
+  velocityIntensity: false,
+  steps: 4,
+  step: 0,
+};
+
+export const MAX_CHASE_STEPS = 64;
+
+export const DEFAULT_TEMPO = 120;
+
+export const EFFECT_TYPES: { value: EffectType; label: string }[] = [
+  { value: 'none', label: 'None (Envelope Only)' },
+  { value: 'flash', label: 'Flash' },
+  { value: 'strobe', label: 'Strobe' },
+  { value: 'wipe', label: 'Wipe' },
+  { value: 'pulse', label: 'Scale Pulse' },
+  { value: 'chase', label: 'Beat Chase (no notes needed)' },
+];
+
+export const WIPE_DIRECTIONS: { value: WipeDirection; label: string }[] = [
+  { value: 'right', label: 'Left → Right' },
+  { value: 'left', label: 'Right → Left' },
+  { value: 'down', label: 'Top → Bottom' },
+  { value: 'up', label: 'Bottom → Top' },
+];
+
+// Strobe and chase rates as note divisions of one beat
+export const STROBE_RATES: { value: number; label: string }[] = [
+  { value: 0.5, label: '1/2' },
+  { value: 1, label: '1/4' },
+  { value: 2, label: '1/8' },
+  { value: 3, label: '1/8T' },
+  { value: 4, label: '1/16' },
+  { value: 8, label: '1/32' },
+];
+
+// What an effect does to a shape this frame
+export interface EffectOutput {
+  opacity: number;       // multiplier on the envelope opacity
+  scale: number;         // multiplier on the shape's scale, around the centroid
+  reveal: number | null; // wipe progress 0-1, or null when the whole shape shows
+  animating: boolean;
+}
+
+const NEUTRAL_EFFECT_OUTPUT: EffectOutput = { opacity: 1, scale: 1, reveal: null, animating: false };
+
+/**
+ * Evaluates a shape's effect from its envelope state: the latest hit's time and velocity.
+ * Flash, wipe and pulse play once per hit; the strobe runs for as long as the shape is lit,
+ * locked to the clock's beat grid so separate hits strobe together.
+ */
+export const evaluateEffect = (
+  effect: ShapeEffect,
+  state: EnvelopeState | undefined,
+  now: number,
+  beat: number
+): EffectOutput => {
+  if (effect.type === 'none' || effect.type === 'chase' || !state) return NEUTRAL_EFFECT_OUTPUT;
+
+  const elapsed = Math.max(0, now - state.triggeredAt);
+  const intensity = effect.velocityIntensity ? state.velocity / 127 : 1;
+  const progress = effect.duration > 0 ? Math.min(1, elapsed / effect.duration) : 1;
+  const running = progress < 1;
+
+  switch (effect.type) {
+    case 'flash':
+      return { opacity: intensity * (1 - progress), scale: 1, reveal: null, animating: running };
+    case 'strobe': {
+      const cycle = beat * Math.max(0.01, effect.rate);
+      const on = cycle - Math.floor(cycle) < 0.5;
+      return { opacity: on ? 1 : 1 - intensity, scale: 1, reveal: null, animating: true };
+    }
+    case 'wipe':
+      return { opacity: intensity, scale: 1, reveal: progress, animating: running };
+    case 'pulse':
+      return { opacity: 1, scale: 1 + effect.amount * intensity * (1 - progress), reveal: null, animating: running };
+    default:
+      return NEUTRAL_EFFECT_OUTPUT;
+  }
+};
+
+/**
+ * The gate a chase opens on its own, or null between its steps. The cycle advances one step
+ * per `rate` division of the beat; a distributed shape walks its segments instead of waiting
+ * for its own step, so one shape can run a chase by itself.
+ */
+export const getChaseGate = (
+  effect: ShapeEffect,
+  beat: number,
+  bpm: number,
+  now: number,
+  segmentCount: number
+): { segment: number; index: number; triggeredAt: number } | null => {
+  const position = beat * Math.max(0.01, effect.rate);
+  const index = Math.floor(position);
+  // When the current step began, so envelopes attack from the step rather than from now
+  const triggeredAt = now - ((position - index) / Math.max(0.01, effect.rate)) * (60000 / Math.max(1, bpm));
+  if (segmentCount > 1) {
+    return { segment: (((index + effect.step) % segmentCount) + segmentCount) % segmentCount, index, triggeredAt };
+  }
+  const steps = Math.max(1, effect.steps);
+  return ((index % steps) + steps) % steps === effect.step ? { segment: 0, index, triggeredAt } : null;
+};
@@ -0,0 +1,94 @@
+import { Envelope } from '../types';
+
+// Instant on / instant off: reproduces the original hard-switch behaviour
+export const DEFAULT_ENVELOPE: Envelope = {
+  attack: 0,
+  decay: 0,
+  sustain: 1,
+  release: 0,
+};
+
+// Per-shape envelope runtime state, advanced once per rendered frame
+export interface EnvelopeState {
+  gate: boolean;        // true while at least one triggering note is held
+  velocity: number;     // velocity of the most recent trigger, kept through release
+  triggeredAt: number;  // timestamp of the note that started the current attack
+  changedAt: number;    // when the current phase (attack or release) started
+  startLevel: number;   // level at changedAt, so retriggers/releases don't jump
+}
+
+const clamp01 = (v: number) => Math.max(0, Math.min(1, v));
+
+// Level (0-1) of an envelope at `now`, without velocity or opacity applied
+export const evaluateEnvelope = (env: Envelope, state: EnvelopeState | undefined, now: number): number => {
+  if (!state) return 0;
+  const elapsed = Math.max(0, now - state.changedAt);
+
+  if (!state.gate) {
+    if (env.release <= 0) return 0;
+    return clamp01(state.startLevel * (1 - elapsed / env.release));
+  }
+
+  // Attack: ramp from wherever we were up to full level
+  if (elapsed < env.attack) {
+    return clamp01(state.startLevel + (1 - state.startLevel) * (elapsed / env.attack));
+  }
+
+  // Decay: fall from full level to sustain
+  const decayElapsed = elapsed - env.attack;
+  if (decayElapsed < env.decay) {
+    return clamp01(1 - (1 - env.sustain) * (decayElapsed / env.decay));
+  }
+
+  return clamp01(env.sustain);
+};
+
+/**
+ * Produces the next envelope state from the current gate input.
+ * A new trigger (newer note timestamp) restarts the attack from the current level,
+ * and a gate closing starts the release from the current level.
+ */
+export const advanceEnvelope = (
+  env: Envelope,
+  prev: EnvelopeState | undefined,
+  gate: boolean,
+  velocity: number,
+  triggeredAt: number,
+  now: number
+): EnvelopeState | undefined => {
+  if (gate) {
+    if (!prev || !prev.gate || triggeredAt > prev.triggeredAt) {
+      return {
+        gate: true,
+        velocity,
+        triggeredAt,
+        changedAt: now,
+        startLevel: evaluateEnvelope(env, prev, now),
+      };
+    }
+    return prev.velocity === velocity ? prev : { ...prev, velocity };
+  }
+
+  if (!prev) return undefined;
+
+  if (prev.gate) {
+    return {
+      ...prev,
+      gate: false,
+      changedAt: now,
+      startLevel: evaluateEnvelope(env, prev, now),
+    };
+  }
+
+  // Fully released: drop the state so the shape becomes idle
+  if (now - prev.changedAt >= env.release) return undefined;
+  return prev;
+};
+
+// Whether the envelope is still moving and needs further frames
+export const isEnvelopeAnimating = (env: Envelope, state: EnvelopeState | undefined, now: number): boolean => {
+  if (!state) return false;
+  const elapsed = now - state.changedAt;
+  if (!state.gate) return elapsed < env.release;
+  return elapsed < env.attack + env.decay;
+};
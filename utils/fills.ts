@@ -0,0 +1,182 @@
+import { FillType, PatternKind, ShapeFill } from '../types';
+
+export const DEFAULT_FILL: ShapeFill = {
+  type: 'solid',
+  secondaryColor: '#000000',
+  angle: 0,
+  assetId: null,
+  pattern: 'stripes',
+  speed: 1,
+  velocitySpeed: false,
+};
+
+export const FILL_TYPES: { value: FillType; label: string }[] = [
+  { value: 'solid', label: 'Solid Color' },
+  { value: 'linearGradient', label: 'Linear Gradient' },
+  { value: 'radialGradient', label: 'Radial Gradient' },
+  { value: 'image', label: 'Image' },
+  { value: 'video', label: 'Video' },
+  { value: 'pattern', label: 'Pattern' },
+];
+
+export const PATTERN_KINDS: { value: PatternKind; label: string }[] = [
+  { value: 'stripes', label: 'Stripes' },
+  { value: 'noise', label: 'Noise' },
+  { value: 'scanBars', label: 'Scanning Bars' },
+];
+
+export const isMediaFill = (fill: ShapeFill): boolean => fill.type === 'image' || fill.type === 'video';
+
+// Fills that change on their own and need frames even while the shape's level is steady
+export const isAnimatedFill = (fill: ShapeFill): boolean =>
+  fill.type === 'video' || (fill.type === 'pattern' && fill.speed > 0);
+
+// Pixel-space box around the (transformed) polygon; fills cover it and the polygon clips them
+export interface FillBounds {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  cx: number;
+  cy: number;
+  radius: number; // farthest vertex from the center
+}
+
+// --- Noise ---
+// One random tile per color, tinted once; hue modulation can add colors, so the cache is bounded.
+
+const NOISE_TILE_SIZE = 64;
+const MAX_NOISE_TILES = 32;
+const noiseTiles = new Map<string, HTMLCanvasElement>();
+
+const getNoiseTile = (color: string): HTMLCanvasElement => {
+  const cached = noiseTiles.get(color);
+  if (cached) return cached;
+  if (noiseTiles.size >= MAX_NOISE_TILES) noiseTiles.clear();
+
+  const tile = document.createElement('canvas');
+  tile.width = NOISE_TILE_SIZE;
+  tile.height = NOISE_TILE_SIZE;
+  const tileCtx = tile.getContext('2d')!;
+  const image = tileCtx.createImageData(NOISE_TILE_SIZE, NOISE_TILE_SIZE);
+  const value = parseInt(color.replace('#', ''), 16);
+  for (let i = 0; i < image.data.length; i += 4) {
+    image.data[i] = (value >> 16) & 0xff;
+    image.data[i + 1] = (value >> 8) & 0xff;
+    image.data[i + 2] = value & 0xff;
+    image.data[i + 3] = Math.random() * 255;
+  }
+  tileCtx.putImageData(image, 0, 0);
+  noiseTiles.set(color, tile);
+  return tile;
+};
+
+// Half the length of the box's projection onto a direction, so gradients and bars span it fully
+const halfExtent = (bounds: FillBounds, angle: number) =>
+  Math.abs((bounds.width / 2) * Math.cos(angle)) + Math.abs((bounds.height / 2) * Math.sin(angle));
+
+const paintPattern = (
+  ctx: CanvasRenderingContext2D,
+  fill: ShapeFill,
+  primary: string,
+  secondary: string,
+  bounds: FillBounds,
+  phase: number
+) => {
+  ctx.fillStyle = secondary;
+  ctx.fillRect(bounds.x, bounds.y, bounds.width, bounds.height);
+
+  if (fill.pattern === 'noise') {
+    // Jump to a new offset a dozen times per cycle for a flickering grain
+    const step = Math.floor(phase * 12);
+    const pattern = ctx.createPattern(getNoiseTile(primary), 'repeat');
+    if (!pattern) return;
+    pattern.setTransform(new DOMMatrix().translate((step * 37) % NOISE_TILE_SIZE, (step * 53) % NOISE_TILE_SIZE).scale(2));
+    ctx.fillStyle = pattern;
+    ctx.fillRect(bounds.x, bounds.y, bounds.width, bounds.height);
+    return;
+  }
+
+  // Stripes and bars are drawn along the fill angle in a rotated frame around the center
+  const angle = (fill.angle * Math.PI) / 180;
+  const extent = Math.hypot(bounds.width, bounds.height) / 2;
+  ctx.save();
+  ctx.translate(bounds.cx, bounds.cy);
+  ctx.rotate(angle);
+  ctx.fillStyle = primary;
+
+  if (fill.pattern === 'stripes') {
+    const period = Math.max(8, extent / 4);
+    const offset = (phase % 1) * period;
+    for (let x = -extent - period + offset; x < extent; x += period) {
+      ctx.fillRect(x, -extent, period / 2, extent * 2);
+    }
+  } else {
+    const span = halfExtent(bounds, angle) * 2;
+    const barWidth = Math.max(4, span / 12);
+    for (let i = 0; i < 3; i++) {
+      const position = (((phase + i / 3) % 1) * (span + barWidth)) - span / 2 - barWidth;
+      ctx.fillRect(position, -extent, barWidth, extent * 2);
+    }
+  }
+  ctx.restore();
+};
+
+/**
+ * Paints a fill over its bounds. The caller has already clipped to the polygon and set
+ * globalAlpha; `phase` is the pattern position in cycles, advanced by the renderer.
+ */
+export const paintFill = (
+  ctx: CanvasRenderingContext2D,
+  fill: ShapeFill,
+  primary: string,
+  secondary: string,
+  bounds: FillBounds,
+  phase: number,
+  media: HTMLImageElement | HTMLVideoElement | null
+) => {
+  switch (fill.type) {
+    case 'linearGradient': {
+      const angle = (fill.angle * Math.PI) / 180;
+      const half = halfExtent(bounds, angle);
+      const dx = Math.cos(angle) * half;
+      const dy = Math.sin(angle) * half;
+      const gradient = ctx.createLinearGradient(bounds.cx - dx, bounds.cy - dy, bounds.cx + dx, bounds.cy + dy);
+      gradient.addColorStop(0, primary);
+      gradient.addColorStop(1, secondary);
+      ctx.fillStyle = gradient;
+      ctx.fillRect(bounds.x, bounds.y, bounds.width, bounds.height);
+      return;
+    }
+    case 'radialGradient': {
+      const gradient = ctx.createRadialGradient(bounds.cx, bounds.cy, 0, bounds.cx, bounds.cy, Math.max(1, bounds.radius));
+      gradient.addColorStop(0, primary);
+      gradient.addColorStop(1, secondary);
+      ctx.fillStyle = gradient;
+      ctx.fillRect(bounds.x, bounds.y, bounds.width, bounds.height);
+      return;
+    }
+    case 'image':
+    case 'video': {
+      if (!media) {
+        ctx.fillStyle = primary;
+        ctx.fillRect(bounds.x, bounds.y, bounds.width, bounds.height);
+        return;
+      }
+      // Cover the bounds like object-fit: cover
+      const mediaWidth = media instanceof HTMLVideoElement ? media.videoWidth : media.naturalWidth;
+      const mediaHeight = media instanceof HTMLVideoElement ? media.videoHeight : media.naturalHeight;
+      const scale = Math.max(bounds.width / mediaWidth, bounds.height / mediaHeight);
+      const drawWidth = mediaWidth * scale;
+      const drawHeight = mediaHeight * scale;
+      ctx.drawImage(media, bounds.cx - drawWidth / 2, bounds.cy - drawHeight / 2, drawWidth, drawHeight);
+      return;
+    }
+    case 'pattern':
+      paintPattern(ctx, fill, primary, secondary, bounds, phase);
+      return;
+    default:
+      ctx.fillStyle = primary;
+      ctx.fillRect(bounds.x, bounds.y, bounds.width, bounds.height);
+  }
+};
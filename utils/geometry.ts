@@ -0,0 +1,227 @@
+import { EdgeCurve, Point, Shape } from '../types';
+
+// The outline of a shape: its vertices and the curve (if any) of each edge after a vertex
+export type ShapeOutline = Pick<Shape, 'points' | 'curves'>;
+
+// Magic number for approximating a quarter ellipse with one cubic Bézier
+const ELLIPSE_KAPPA = 0.5522847498;
+
+// Line segments per curved edge when a curve has to be treated as a polyline
+const CURVE_FLATTEN_STEPS = 16;
+
+// Average of a polygon's vertices; used as the pivot for scale and rotation
+export const getCentroid = (points: Point[]): Point => {
+  if (points.length === 0) return { x: 50, y: 50 };
+  const sum = points.reduce((acc, p) => ({ x: acc.x + p.x, y: acc.y + p.y }), { x: 0, y: 0 });
+  return { x: sum.x / points.length, y: sum.y / points.length };
+};
+
+const lerp = (a: Point, b: Point, t: number): Point => ({ x: a.x + (b.x - a.x) * t, y: a.y + (b.y - a.y) * t });
+
+export const getCurve = (outline: ShapeOutline, edge: number): EdgeCurve | null => outline.curves[edge] ?? null;
+
+// Point at t (0-1) along an edge, following its curve
+export const getEdgePoint = (outline: ShapeOutline, edge: number, t: number): Point => {
+  const a = outline.points[edge];
+  const b = outline.points[(edge + 1) % outline.points.length];
+  const curve = getCurve(outline, edge);
+  if (!curve) return lerp(a, b, t);
+  const mt = 1 - t;
+  return {
+    x: mt * mt * mt * a.x + 3 * mt * mt * t * curve.c1.x + 3 * mt * t * t * curve.c2.x + t * t * t * b.x,
+    y: mt * mt * mt * a.y + 3 * mt * mt * t * curve.c1.y + 3 * mt * t * t * curve.c2.y + t * t * t * b.y,
+  };
+};
+
+// The outline as a closed polyline, with curved edges broken into short segments
+export const flattenOutline = (outline: ShapeOutline): Point[] => {
+  const result: Point[] = [];
+  outline.points.forEach((point, edge) => {
+    result.push(point);
+    if (!getCurve(outline, edge)) return;
+    for (let step = 1; step < CURVE_FLATTEN_STEPS; step++) {
+      result.push(getEdgePoint(outline, edge, step / CURVE_FLATTEN_STEPS));
+    }
+  });
+  return result;
+};
+
+// Vertices plus control points; the curves never leave their hull, so this bounds the outline
+export const getOutlineHull = (outline: ShapeOutline): Point[] => [
+  ...outline.points,
+  ...outline.curves.flatMap(curve => curve ? [curve.c1, curve.c2] : []),
+];
+
+/**
+ * Adds the outline to the current canvas path. `map` takes percent coordinates to pixels
+ * (and applies any modulation transform); affine maps keep Bézier curves exact.
+ */
+export const traceOutline = (ctx: CanvasRenderingContext2D, outline: ShapeOutline, map: (p: Point) => Point) => {
+  const { points } = outline;
+  points.forEach((p, i) => {
+    const curve = getCurve(outline, (i + points.length - 1) % points.length);
+    const { x, y } = map(p);
+    if (i === 0) ctx.moveTo(x, y);
+    else if (curve) {
+      const c1 = map(curve.c1);
+      const c2 = map(curve.c2);
+      ctx.bezierCurveTo(c1.x, c1.y, c2.x, c2.y, x, y);
+    } else ctx.lineTo(x, y);
+  });
+  // The closing edge may be curved too
+  const closing = getCurve(outline, points.length - 1);
+  if (closing && points.length > 0) {
+    const c1 = map(closing.c1);
+    const c2 = map(closing.c2);
+    const start = map(points[0]);
+    ctx.bezierCurveTo(c1.x, c1.y, c2.x, c2.y, start.x, start.y);
+  }
+  ctx.closePath();
+};
+
+// SVG path data for the outline; defaults to percent coordinates for a 0-100 viewBox
+export const getOutlinePathData = (outline: ShapeOutline, map: (p: Point) => Point = p => p): string => {
+  const { points } = outline;
+  if (points.length === 0) return '';
+  const format = (p: Point) => {
+    const { x, y } = map(p);
+    return `${Math.round(x * 100) / 100},${Math.round(y * 100) / 100}`;
+  };
+  const parts = [`M${format(points[0])}`];
+  points.forEach((_, edge) => {
+    const end = points[(edge + 1) % points.length];
+    const curve = getCurve(outline, edge);
+    parts.push(curve ? `C${format(curve.c1)} ${format(curve.c2)} ${format(end)}` : `L${format(end)}`);
+  });
+  return `${parts.join(' ')} Z`;
+};
+
+// Moves a vertex; the control points on either side travel with it so curves keep their shape
+export const moveVertex = (outline: ShapeOutline, index: number, to: Point): ShapeOutline => {
+  const from = outline.points[index];
+  const dx = to.x - from.x;
+  const dy = to.y - from.y;
+  const previous = (index + outline.points.length - 1) % outline.points.length;
+  return {
+    points: outline.points.map((p, i) => i === index ? to : p),
+    curves: outline.curves.map((curve, edge) => {
+      if (!curve) return curve;
+      const c1 = edge === index ? { x: curve.c1.x + dx, y: curve.c1.y + dy } : curve.c1;
+      const c2 = edge === previous ? { x: curve.c2.x + dx, y: curve.c2.y + dy } : curve.c2;
+      return c1 === curve.c1 && c2 === curve.c2 ? curve : { c1, c2 };
+    }),
+  };
+};
+
+// Applies a point mapping to vertices and control points alike; exact for affine maps
+export const mapOutline = (outline: ShapeOutline, map: (p: Point) => Point): ShapeOutline => ({
+  points: outline.points.map(map),
+  curves: outline.curves.map(curve => curve && { c1: map(curve.c1), c2: map(curve.c2) }),
+});
+
+export const translateOutline = (outline: ShapeOutline, dx: number, dy: number): ShapeOutline =>
+  mapOutline(outline, p => ({ x: p.x + dx, y: p.y + dy }));
+
+/**
+ * Splits an edge at t with a new vertex. Curved edges are split with de Casteljau's
+ * construction, so the outline looks exactly the same afterwards.
+ */
+export const insertVertex = (outline: ShapeOutline, edge: number, t = 0.5): ShapeOutline => {
+  const a = outline.points[edge];
+  const b = outline.points[(edge + 1) % outline.points.length];
+  const curve = getCurve(outline, edge);
+  let point: Point;
+  let before: EdgeCurve | null = null;
+  let after: EdgeCurve | null = null;
+  if (curve) {
+    const ab = lerp(a, curve.c1, t);
+    const bc = lerp(curve.c1, curve.c2, t);
+    const cd = lerp(curve.c2, b, t);
+    const abc = lerp(ab, bc, t);
+    const bcd = lerp(bc, cd, t);
+    point = lerp(abc, bcd, t);
+    before = { c1: ab, c2: abc };
+    after = { c1: bcd, c2: cd };
+  } else {
+    point = lerp(a, b, t);
+  }
+  return {
+    points: [...outline.points.slice(0, edge + 1), point, ...outline.points.slice(edge + 1)],
+    curves: [...outline.curves.slice(0, edge), before, after, ...outline.curves.slice(edge + 1)],
+  };
+};
+
+// Removes a vertex, joining its two edges; a triangle is as small as a shape gets
+export const removeVertex = (outline: ShapeOutline, index: number): ShapeOutline => {
+  const count = outline.points.length;
+  if (count <= 3) return outline;
+  const previous = (index + count - 1) % count;
+  const incoming = getCurve(outline, previous);
+  const outgoing = getCurve(outline, index);
+  const start = outline.points[previous];
+  const end = outline.points[(index + 1) % count];
+  // The joined edge stays curved if either side was, keeping the outer control points
+  const joined = incoming || outgoing
+    ? { c1: incoming?.c1 ?? lerp(start, end, 1 / 3), c2: outgoing?.c2 ?? lerp(start, end, 2 / 3) }
+    : null;
+  return {
+    points: outline.points.filter((_, i) => i !== index),
+    curves: outline.curves
+      .map((curve, edge) => edge === previous ? joined : curve)
+      .filter((_, edge) => edge !== index),
+  };
+};
+
+// A new curve bulges away from the shape's center by a quarter of the edge's length
+export const setEdgeCurved = (outline: ShapeOutline, edge: number, curved: boolean): ShapeOutline => {
+  if (!curved) return { ...outline, curves: outline.curves.map((c, i) => i === edge ? null : c) };
+  const a = outline.points[edge];
+  const b = outline.points[(edge + 1) % outline.points.length];
+  const centroid = getCentroid(outline.points);
+  const mid = lerp(a, b, 0.5);
+  let nx = -(b.y - a.y) * 0.25;
+  let ny = (b.x - a.x) * 0.25;
+  if (nx * (mid.x - centroid.x) + ny * (mid.y - centroid.y) < 0) {
+    nx = -nx;
+    ny = -ny;
+  }
+  const c1 = lerp(a, b, 1 / 3);
+  const c2 = lerp(a, b, 2 / 3);
+  const curve = { c1: { x: c1.x + nx, y: c1.y + ny }, c2: { x: c2.x + nx, y: c2.y + ny } };
+  return { ...outline, curves: outline.curves.map((c, i) => i === edge ? curve : c) };
+};
+
+// --- Shape tools ---
+// Sizes are in percent per axis, so callers correct for the canvas aspect ratio themselves.
+
+export const createPolygonOutline = (points: Point[]): ShapeOutline => ({ points, curves: points.map(() => null) });
+
+export const createRectangleOutline = (a: Point, b: Point): ShapeOutline => createPolygonOutline([
+  { x: Math.min(a.x, b.x), y: Math.min(a.y, b.y) },
+  { x: Math.max(a.x, b.x), y: Math.min(a.y, b.y) },
+  { x: Math.max(a.x, b.x), y: Math.max(a.y, b.y) },
+  { x: Math.min(a.x, b.x), y: Math.max(a.y, b.y) },
+]);
+
+// Four vertices at the axis ends joined by quarter-ellipse curves
+export const createEllipseOutline = (center: Point, rx: number, ry: number): ShapeOutline => {
+  const kx = rx * ELLIPSE_KAPPA;
+  const ky = ry * ELLIPSE_KAPPA;
+  const { x, y } = center;
+  return {
+    points: [{ x, y: y - ry }, { x: x + rx, y }, { x, y: y + ry }, { x: x - rx, y }],
+    curves: [
+      { c1: { x: x + kx, y: y - ry }, c2: { x: x + rx, y: y - ky } },
+      { c1: { x: x + rx, y: y + ky }, c2: { x: x + kx, y: y + ry } },
+      { c1: { x: x - kx, y: y + ry }, c2: { x: x - rx, y: y + ky } },
+      { c1: { x: x - rx, y: y - ky }, c2: { x: x - kx, y: y - ry } },
+    ],
+  };
+};
+
+// The first vertex points straight up
+export const createRegularPolygonOutline = (center: Point, rx: number, ry: number, sides: number): ShapeOutline =>
+  createPolygonOutline(Array.from({ length: sides }, (_, i) => {
+    const angle = -Math.PI / 2 + (i * 2 * Math.PI) / sides;
+    return { x: center.x + rx * Math.cos(angle), y: center.y + ry * Math.sin(angle) };
+  }));
@@ -0,0 +1,74 @@
+import { Shape, ShapeGroup } from '../types';
+import { translateOutline } from './geometry';
+
+// The MIDI routing members of a sharing group keep in step; note ranges stay per shape
+export const SHARED_MIDI_FIELDS = ['inputId', 'channel'] as const;
+
+export type SharedMidiSettings = Pick<Shape, typeof SHARED_MIDI_FIELDS[number]>;
+
+export const createGroup = (name: string): ShapeGroup => ({
+  id: crypto.randomUUID(),
+  name,
+  shareMidi: false,
+});
+
+export const getGroupMembers = (shapes: Shape[], groupId: string): Shape[] =>
+  shapes.filter(shape => shape.groupId === groupId);
+
+// Groups that still have members, in the order their first member appears
+export const getActiveGroups = (shapes: Shape[], groups: ShapeGroup[]): ShapeGroup[] => {
+  const order = Array.from(new Set(shapes.map(shape => shape.groupId).filter((id): id is string => id !== null)));
+  return order.map(id => groups.find(group => group.id === id)).filter((group): group is ShapeGroup => !!group);
+};
+
+// Picking one member of a group picks all of them
+export const expandToGroups = (shapes: Shape[], ids: string[]): string[] => {
+  const groupIds = new Set(shapes.filter(shape => ids.includes(shape.id) && shape.groupId).map(shape => shape.groupId));
+  return shapes.filter(shape => ids.includes(shape.id) || groupIds.has(shape.groupId)).map(shape => shape.id);
+};
+
+export const setGroupMidi = (shapes: Shape[], groupId: string, settings: Partial<SharedMidiSettings>): Shape[] =>
+  shapes.map(shape => shape.groupId === groupId ? { ...shape, ...settings } : shape);
+
+/**
+ * After `sourceId` was edited, copies its input and channel to the rest of its group when the
+ * group shares MIDI. Returns the same array when there is nothing to sync.
+ */
+export const syncGroupMidi = (shapes: Shape[], groups: ShapeGroup[], sourceId: string): Shape[] => {
+  const source = shapes.find(shape => shape.id === sourceId);
+  const group = source?.groupId ? groups.find(g => g.id === source.groupId) : undefined;
+  if (!source || !group?.shareMidi) return shapes;
+  const needsSync = shapes.some(shape =>
+    shape.groupId === group.id && SHARED_MIDI_FIELDS.some(field => shape[field] !== source[field])
+  );
+  return needsSync ? setGroupMidi(shapes, group.id, { inputId: source.inputId, channel: source.channel }) : shapes;
+};
+
+/**
+ * Copies shapes with new ids, moved by (dx, dy). Copies of grouped shapes go into new groups
+ * of their own, so a pasted group is independent of the original.
+ */
+export const cloneShapes = (
+  shapes: Shape[],
+  groups: ShapeGroup[],
+  dx: number,
+  dy: number
+): { shapes: Shape[]; groups: ShapeGroup[] } => {
+  const groupCopies = new Map<string, ShapeGroup>();
+  for (const shape of shapes) {
+    const group = shape.groupId ? groups.find(g => g.id === shape.groupId) : undefined;
+    if (group && !groupCopies.has(group.id)) {
+      groupCopies.set(group.id, { ...group, id: crypto.randomUUID(), name: `${group.name} Copy` });
+    }
+  }
+  return {
+    shapes: shapes.map(shape => ({
+      ...structuredClone(shape),
+      id: crypto.randomUUID(),
+      name: `${shape.name} Copy`,
+      groupId: shape.groupId ? groupCopies.get(shape.groupId)?.id ?? null : null,
+      ...translateOutline(shape, dx, dy),
+    })),
+    groups: Array.from(groupCopies.values()),
+  };
+};
@@ -0,0 +1,65 @@
+import { describe, expect, it } from 'vitest';
+import { HISTORY_MERGE_WINDOW_MS, HistoryState, MAX_HISTORY_ENTRIES, createHistory, historyReducer } from './history';
+
+const set = (value: number, timestamp: number, mergeKey?: string) =>
+  ({ type: 'commit' as const, update: () => value, label: `Set ${value}`, mergeKey, timestamp });
+
+const commitAll = (state: HistoryState<number>, ...actions: ReturnType<typeof set>[]) =>
+  actions.reduce(historyReducer, state);
+
+const labels = (state: HistoryState<number>) => state.entries.map(e => e.label);
+
+describe('historyReducer', () => {
+  it('merges commits with the same key inside the window into one step', () => {
+    const state = commitAll(createHistory(0, 'Open', 0), set(1, 100, 'drag'), set(2, 100 + HISTORY_MERGE_WINDOW_MS - 1, 'drag'));
+    expect(labels(state)).toEqual(['Open', 'Set 2']);
+    expect(state.entries[1].value).toBe(2);
+  });
+
+  it('measures the window from the newest merged commit', () => {
+    const step = HISTORY_MERGE_WINDOW_MS / 2;
+    const state = commitAll(createHistory(0, 'Open', 0), set(1, step, 'drag'), set(2, 2 * step, 'drag'), set(3, 3 * step, 'drag'));
+    expect(labels(state)).toEqual(['Open', 'Set 3']);
+  });
+
+  it('keeps separate steps outside the window or with another key', () => {
+    const state = commitAll(
+      createHistory(0, 'Open', 0),
+      set(1, 100, 'drag'),
+      set(2, 100 + HISTORY_MERGE_WINDOW_MS, 'drag'),
+      set(3, 100 + HISTORY_MERGE_WINDOW_MS, 'scrub'),
+      set(4, 100 + HISTORY_MERGE_WINDOW_MS),
+    );
+    expect(labels(state)).toEqual(['Open', 'Set 1', 'Set 2', 'Set 3', 'Set 4']);
+  });
+
+  it('never merges into the opening entry', () => {
+    const opened: HistoryState<number> = { entries: [{ label: 'Open', value: 0, mergeKey: 'drag', timestamp: 0 }], index: 0 };
+    expect(labels(commitAll(opened, set(1, 1, 'drag')))).toEqual(['Open', 'Set 1']);
+  });
+
+  it('skips commits that change nothing', () => {
+    const state = commitAll(createHistory(0, 'Open', 0), set(1, 100));
+    expect(historyReducer(state, set(1, 200))).toBe(state);
+  });
+
+  it('cuts off the redo steps when a new commit follows an undo', () => {
+    let state = commitAll(createHistory(0, 'Open', 0), set(1, 100), set(2, 200), set(3, 300));
+    state = historyReducer(historyReducer(state, { type: 'undo' }), { type: 'undo' });
+    expect(state.entries[state.index].value).toBe(1);
+
+    state = historyReducer(state, set(4, 400));
+    expect(labels(state)).toEqual(['Open', 'Set 1', 'Set 4']);
+    expect(state.index).toBe(2);
+    expect(historyReducer(state, { type: 'redo' })).toBe(state);
+  });
+
+  it(`keeps only the newest ${MAX_HISTORY_ENTRIES} entries`, () => {
+    const commits = Array.from({ length: MAX_HISTORY_ENTRIES + 10 }, (_, i) => set(i + 1, (i + 1) * 10));
+    const state = commitAll(createHistory(0, 'Open', 0), ...commits);
+    expect(state.entries).toHaveLength(MAX_HISTORY_ENTRIES);
+    expect(state.index).toBe(MAX_HISTORY_ENTRIES - 1);
+    expect(state.entries[0].value).toBe(11);
+    expect(state.entries[state.index].value).toBe(MAX_HISTORY_ENTRIES + 10);
+  });
+});
@@ -0,0 +1,61 @@
+// Snapshot-based undo/redo history. Snapshots are immutable values, so storing them is cheap.
+
+export interface HistoryEntry<T> {
+  label: string;
+  value: T;
+  mergeKey?: string;
+  timestamp: number;
+}
+
+export interface HistoryState<T> {
+  entries: HistoryEntry<T>[]; // Oldest first; entries after `index` are redo steps
+  index: number;
+}
+
+export type HistoryAction<T> =
+  | { type: 'commit'; update: (prev: T) => T; label: string; mergeKey?: string; timestamp: number }
+  | { type: 'undo' }
+  | { type: 'redo' }
+  | { type: 'jump'; index: number }
+  | { type: 'reset'; value: T; label: string; timestamp: number };
+
+export const MAX_HISTORY_ENTRIES = 200;
+
+// Consecutive commits with the same merge key inside this window collapse into one step
+export const HISTORY_MERGE_WINDOW_MS = 1000;
+
+export const createHistory = <T,>(value: T, label: string, timestamp: number): HistoryState<T> => ({
+  entries: [{ label, value, timestamp }],
+  index: 0,
+});
+
+export const historyReducer = <T,>(state: HistoryState<T>, action: HistoryAction<T>): HistoryState<T> => {
+  switch (action.type) {
+    case 'commit': {
+      const current = state.entries[state.index];
+      const value = action.update(current.value);
+      if (value === current.value) return state;
+
+      // A continuous gesture (drag, slider scrub, typing) keeps rewriting the same step
+      const canMerge = state.index > 0
+        && action.mergeKey !== undefined
+        && current.mergeKey === action.mergeKey
+        && action.timestamp - current.timestamp < HISTORY_MERGE_WINDOW_MS;
+
+      const entry: HistoryEntry<T> = { label: action.label, value, mergeKey: action.mergeKey, timestamp: action.timestamp };
+      const kept = state.entries.slice(0, canMerge ? state.index : state.index + 1);
+      const entries = [...kept, entry].slice(-MAX_HISTORY_ENTRIES);
+      return { entries, index: entries.length - 1 };
+    }
+    case 'undo':
+      return state.index > 0 ? { ...state, index: state.index - 1 } : state;
+    case 'redo':
+      return state.index < state.entries.length - 1 ? { ...state, index: state.index + 1 } : state;
+    case 'jump':
+      return action.index >= 0 && action.index < state.entries.length ? { ...state, index: action.index } : state;
+    case 'reset':
+      return createHistory(action.value, action.label, action.timestamp);
+    default:
+      return state;
+  }
+};
@@ -0,0 +1,100 @@
+import { Point, OutputWarp } from '../types';
+
+// 3x3 projective transform, row-major: [h0 h1 h2; h3 h4 h5; h6 h7 h8]
+export type Homography = number[];
+
+// Output corners in order: top-left, top-right, bottom-right, bottom-left (percent of the output)
+export const DEFAULT_OUTPUT_WARP: OutputWarp = {
+  enabled: false,
+  corners: [
+    { x: 0, y: 0 },
+    { x: 100, y: 0 },
+    { x: 100, y: 100 },
+    { x: 0, y: 100 },
+  ],
+};
+
+// Solve A·x = b in place with partial pivoting; returns null for a singular system
+const solveLinearSystem = (a: number[][], b: number[]): number[] | null => {
+  const n = b.length;
+  for (let col = 0; col < n; col++) {
+    let pivot = col;
+    for (let row = col + 1; row < n; row++) {
+      if (Math.abs(a[row][col]) > Math.abs(a[pivot][col])) pivot = row;
+    }
+    if (Math.abs(a[pivot][col]) < 1e-12) return null;
+    [a[col], a[pivot]] = [a[pivot], a[col]];
+    [b[col], b[pivot]] = [b[pivot], b[col]];
+
+    for (let row = col + 1; row < n; row++) {
+      const factor = a[row][col] / a[col][col];
+      for (let k = col; k < n; k++) a[row][k] -= factor * a[col][k];
+      b[row] -= factor * b[col];
+    }
+  }
+
+  const x = new Array(n).fill(0);
+  for (let row = n - 1; row >= 0; row--) {
+    let sum = b[row];
+    for (let k = row + 1; k < n; k++) sum -= a[row][k] * x[k];
+    x[row] = sum / a[row][row];
+  }
+  return x;
+};
+
+/**
+ * Homography mapping four source points onto four destination points.
+ * Returns null when the corners are degenerate (three in a line, or crossed into a point).
+ */
+export const computeHomography = (src: Point[], dst: Point[]): Homography | null => {
+  const a: number[][] = [];
+  const b: number[] = [];
+  for (let i = 0; i < 4; i++) {
+    const { x, y } = src[i];
+    const { x: u, y: v } = dst[i];
+    a.push([x, y, 1, 0, 0, 0, -u * x, -u * y]);
+    b.push(u);
+    a.push([0, 0, 0, x, y, 1, -v * x, -v * y]);
+    b.push(v);
+  }
+  const h = solveLinearSystem(a, b);
+  return h ? [...h, 1] : null;
+};
+
+export const applyHomography = (h: Homography, p: Point): Point => {
+  const w = h[6] * p.x + h[7] * p.y + h[8];
+  return {
+    x: (h[0] * p.x + h[1] * p.y + h[2]) / w,
+    y: (h[3] * p.x + h[4] * p.y + h[5]) / w,
+  };
+};
+
+export const invertHomography = (h: Homography): Homography | null => {
+  const [a, b, c, d, e, f, g, i, j] = h;
+  const det = a * (e * j - f * i) - b * (d * j - f * g) + c * (d * i - e * g);
+  if (Math.abs(det) < 1e-12) return null;
+  return [
+    (e * j - f * i) / det, (c * i - b * j) / det, (b * f - c * e) / det,
+    (f * g - d * j) / det, (a * j - c * g) / det, (c * d - a * f) / det,
+    (d * i - e * g) / det, (b * g - a * i) / det, (a * e - b * d) / det,
+  ];
+};
+
+// Homography taking an element of the given pixel size onto the warp's corners
+export const getWarpHomography = (warp: OutputWarp, width: number, height: number): Homography | null => {
+  if (!warp.enabled || width <= 0 || height <= 0) return null;
+  const src = [{ x: 0, y: 0 }, { x: width, y: 0 }, { x: width, y: height }, { x: 0, y: height }];
+  const dst = warp.corners.map(c => ({ x: (c.x / 100) * width, y: (c.y / 100) * height }));
+  return computeHomography(src, dst);
+};
+
+// CSS matrix3d() for a homography; use with transform-origin: 0 0
+export const homographyToCss = (h: Homography): string => {
+  const m = [
+    h[0], h[3], 0, h[6],
+    h[1], h[4], 0, h[7],
+    0, 0, 1, 0,
+    h[2], h[5], 0, h[8],
+  ];
+  return `matrix3d(${m.join(',')})`;
+};
@@ -0,0 +1,3 @@
+// Keys typed into editor fields (text, sliders, checkboxes, selects) are not app shortcuts
+export const isTypingTarget = (target: EventTarget | null): boolean =>
+  target instanceof HTMLElement && (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName));
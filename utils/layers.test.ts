@@ -0,0 +1,39 @@
+import { describe, expect, it } from 'vitest';
+import { Shape } from '../types';
+import { moveLayers, moveShapesTo } from './layers';
+
+// Only ids matter for ordering
+const stack = (ids: string) => ids.split('').map(id => ({ id }) as Shape);
+const order = (shapes: Shape[]) => shapes.map(s => s.id).join('');
+
+describe('moveLayers', () => {
+  it('brings shapes forward one step each', () => {
+    expect(order(moveLayers(stack('abcde'), ['a', 'c'], 'forward'))).toBe('badce');
+  });
+
+  it('moves a run of selected shapes together', () => {
+    expect(order(moveLayers(stack('abcde'), ['b', 'c'], 'forward'))).toBe('adbce');
+    expect(order(moveLayers(stack('abcde'), ['b', 'c'], 'backward'))).toBe('bcade');
+  });
+
+  it('leaves shapes already at the top or bottom alone', () => {
+    expect(order(moveLayers(stack('abc'), ['c'], 'forward'))).toBe('abc');
+    expect(order(moveLayers(stack('abc'), ['a'], 'backward'))).toBe('abc');
+  });
+
+  it('sends to the front and back in stacking order', () => {
+    expect(order(moveLayers(stack('abcde'), ['d', 'b'], 'front'))).toBe('acebd');
+    expect(order(moveLayers(stack('abcde'), ['d', 'b'], 'back'))).toBe('bdace');
+  });
+});
+
+describe('moveShapesTo', () => {
+  it('inserts before the shape at the index', () => {
+    expect(order(moveShapesTo(stack('abcde'), ['e'], 1))).toBe('aebcd');
+    expect(order(moveShapesTo(stack('abcde'), ['a'], 3))).toBe('bcade');
+  });
+
+  it('keeps moved shapes together and in order', () => {
+    expect(order(moveShapesTo(stack('abcde'), ['d', 'a'], 5))).toBe('bcead');
+  });
+});
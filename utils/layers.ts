@@ -0,0 +1,58 @@
+import { BlendMode, MaskMode, Shape } from '../types';
+
+// `operation` is the canvas composite operation, `css` the matching mix-blend-mode for SVG
+export const BLEND_MODES: { value: BlendMode; label: string; short: string; operation: GlobalCompositeOperation; css: string }[] = [
+  { value: 'normal', label: 'Normal', short: '', operation: 'source-over', css: 'normal' },
+  { value: 'add', label: 'Add (light sums)', short: 'ADD', operation: 'lighter', css: 'plus-lighter' },
+  { value: 'screen', label: 'Screen (brightens, never clips)', short: 'SCR', operation: 'screen', css: 'screen' },
+  { value: 'multiply', label: 'Multiply (tints what is beneath)', short: 'MUL', operation: 'multiply', css: 'multiply' },
+];
+
+export const MASK_MODES: { value: MaskMode; label: string; short: string }[] = [
+  { value: 'none', label: 'Not a Mask', short: '' },
+  { value: 'cut', label: 'Cut a Hole (dark inside)', short: 'CUT' },
+  { value: 'clip', label: 'Clip (dark outside)', short: 'CLIP' },
+];
+
+export const getCompositeOperation = (mode: BlendMode): GlobalCompositeOperation =>
+  BLEND_MODES.find(b => b.value === mode)?.operation ?? 'source-over';
+
+export type LayerMove = 'forward' | 'backward' | 'front' | 'back';
+
+export const LAYER_MOVE_LABELS: Record<LayerMove, string> = {
+  forward: 'Bring Forward',
+  backward: 'Send Backward',
+  front: 'Bring to Front',
+  back: 'Send to Back',
+};
+
+/**
+ * Restacks the shapes in `ids`; the array is the paint order, so the last shape is on top.
+ * Forward and backward step each selected shape past one unselected neighbour, keeping the
+ * selection's own order, so runs of selected shapes move together.
+ */
+export const moveLayers = (shapes: Shape[], ids: string[], move: LayerMove): Shape[] => {
+  const selected = (shape: Shape) => ids.includes(shape.id);
+  if (move === 'front') return [...shapes.filter(s => !selected(s)), ...shapes.filter(selected)];
+  if (move === 'back') return [...shapes.filter(selected), ...shapes.filter(s => !selected(s))];
+
+  const result = [...shapes];
+  if (move === 'forward') {
+    for (let i = result.length - 2; i >= 0; i--) {
+      if (selected(result[i]) && !selected(result[i + 1])) [result[i], result[i + 1]] = [result[i + 1], result[i]];
+    }
+  } else {
+    for (let i = 1; i < result.length; i++) {
+      if (selected(result[i]) && !selected(result[i - 1])) [result[i], result[i - 1]] = [result[i - 1], result[i]];
+    }
+  }
+  return result;
+};
+
+// Moves the shapes in `ids` so they sit together just before what was at `index` (drag-reorder)
+export const moveShapesTo = (shapes: Shape[], ids: string[], index: number): Shape[] => {
+  const moving = shapes.filter(s => ids.includes(s.id));
+  const rest = shapes.filter(s => !ids.includes(s.id));
+  const insertAt = shapes.slice(0, index).filter(s => !ids.includes(s.id)).length;
+  return [...rest.slice(0, insertAt), ...moving, ...rest.slice(insertAt)];
+};
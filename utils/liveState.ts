@@ -0,0 +1,99 @@
+import { ActiveNotesMap, ChannelMidiMessage, ControllerValuesMap, ModulationSource } from '../types';
+import { ClockState, createClockState } from './clock';
+import { DEFAULT_TEMPO } from './effects';
+import { getControllerKey, getNoteKey } from './midiUtils';
+
+/**
+ * Mutable live MIDI state shared by the MIDI handler and the renderers.
+ * It is written in place on every message and read once per frame, so note traffic
+ * never goes through React; the UI only sees throttled snapshots.
+ */
+export interface LiveState {
+  activeNotes: ActiveNotesMap;
+  controllerValues: ControllerValuesMap;
+  clock: ClockState;      // beat position for tempo-synced effects; has its own revision counter
+  version: number;        // bumped on every change so renderers know to redraw
+  lastMessageAt: number;  // precise epoch ms of the newest change, for latency readings
+}
+
+// How often the React UI (header indicator, editor readouts) catches up with the live state
+export const LIVE_UI_SYNC_INTERVAL_MS = 100;
+
+// Epoch milliseconds with sub-millisecond precision, comparable across windows.
+// The one time base for clock anchors, note timestamps, transitions and drawing: it moves
+// with performance.now(), so it never drifts from MIDI event timestamps the way Date.now() can.
+export const preciseNow = (): number => performance.timeOrigin + performance.now();
+
+export const createLiveState = (): LiveState => ({
+  activeNotes: new Map(),
+  controllerValues: new Map(),
+  clock: createClockState(DEFAULT_TEMPO, preciseNow()),
+  version: 0,
+  lastMessageAt: 0,
+});
+
+export const markLiveStateChanged = (live: LiveState, messageAt: number = preciseNow()) => {
+  live.version++;
+  live.lastMessageAt = messageAt;
+};
+
+// Stores a controller under its own input/channel and under the "any input" / "any channel" keys
+const setControllerValue = (
+  live: LiveState,
+  inputId: string,
+  channel: number,
+  source: ModulationSource,
+  controller: number,
+  value: number
+) => {
+  for (const keyInput of [inputId, '']) {
+    live.controllerValues.set(getControllerKey(keyInput, channel, source, controller), value);
+    live.controllerValues.set(getControllerKey(keyInput, 0, source, controller), value);
+  }
+};
+
+/**
+ * Writes a note or controller message into the live state. Program changes carry no live
+ * state and are ignored. Callers bump the version with markLiveStateChanged afterwards.
+ */
+export const applyChannelMessage = (live: LiveState, inputId: string, message: ChannelMidiMessage, timestamp: number) => {
+  const { channel } = message;
+  switch (message.type) {
+    // Continuous controllers
+    case 'controlChange':
+      setControllerValue(live, inputId, channel, 'cc', message.controller, message.value / 127);
+      break;
+    case 'pitchBend':
+      setControllerValue(live, inputId, channel, 'pitchBend', 0, message.value / 16383);
+      break;
+    case 'channelAftertouch':
+      setControllerValue(live, inputId, channel, 'channelPressure', 0, message.pressure / 127);
+      break;
+    case 'polyAftertouch':
+      setControllerValue(live, inputId, channel, 'polyPressure', message.note, message.pressure / 127);
+      break;
+    case 'noteOn':
+      live.activeNotes.set(getNoteKey(inputId, channel, message.note), {
+        inputId, channel, note: message.note, velocity: message.velocity, timestamp,
+      });
+      break;
+    // Removing the key only closes the gate; the renderer runs each shape's release from here
+    case 'noteOff':
+      live.activeNotes.delete(getNoteKey(inputId, channel, message.note));
+      break;
+  }
+};
+
+// Replaces the contents in place so renderers holding the object keep seeing updates
+export const replaceLiveState = (
+  live: LiveState,
+  activeNotes: ActiveNotesMap,
+  controllerValues: ControllerValuesMap,
+  clock: ClockState,
+  messageAt: number
+) => {
+  live.activeNotes = activeNotes;
+  live.controllerValues = controllerValues;
+  live.clock = clock;
+  markLiveStateChanged(live, messageAt);
+};
@@ -0,0 +1,63 @@
+import { describe, expect, it } from 'vitest';
+import { Point, Shape } from '../types';
+import { createPolygonOutline, createRectangleOutline } from './geometry';
+import { findMappingIssues, getNoteCoverage, isSelfIntersecting } from './mappingCheck';
+
+const square = createRectangleOutline({ x: 10, y: 10 }, { x: 20, y: 20 });
+
+const shape = (id: string, overrides: Partial<Shape> = {}) => ({
+  id, name: id, inputId: '', channel: 1, noteStart: 36, noteEnd: 36, mask: 'none', groupId: null, ...square, ...overrides,
+}) as Shape;
+
+const kinds = (shapes: Shape[]) => findMappingIssues(shapes).map(i => i.kind);
+
+describe('findMappingIssues', () => {
+  it('finds nothing wrong with a clean mapping', () => {
+    expect(findMappingIssues([shape('a'), shape('b', { noteStart: 38, noteEnd: 38 })])).toEqual([]);
+  });
+
+  it('flags empty fields and inverted ranges as errors', () => {
+    const issues = findMappingIssues([shape('a', { channel: NaN }), shape('b', { noteStart: 40, noteEnd: 38 })]);
+    expect(issues.map(i => [i.kind, i.severity])).toEqual([['range', 'error'], ['inverted', 'error']]);
+    expect(issues[0].message).toContain('empty');
+  });
+
+  it('reports overlapping triggers, with Omni overlapping every channel', () => {
+    const issues = findMappingIssues([shape('a', { channel: 0, noteEnd: 40 }), shape('b', { channel: 10, noteStart: 38, noteEnd: 45 })]);
+    expect(issues).toHaveLength(1);
+    expect(issues[0]).toMatchObject({ kind: 'overlap', shapeIds: ['a', 'b'] });
+    expect(issues[0].message).toContain('D2-E2, channel 10');
+  });
+
+  it('ignores overlaps within a group, on other inputs and with masks', () => {
+    expect(kinds([shape('a', { groupId: 'g' }), shape('b', { groupId: 'g' })])).toEqual([]);
+    expect(kinds([shape('a', { inputId: 'x' }), shape('b', { inputId: 'y' })])).toEqual([]);
+    expect(kinds([shape('a'), shape('b', { mask: 'cut' })])).toEqual([]);
+  });
+
+  it('flags outlines that cannot draw properly', () => {
+    const line = createPolygonOutline([{ x: 0, y: 0 }, { x: 10, y: 10 }, { x: 20, y: 20 }]);
+    const offCanvas = createRectangleOutline({ x: 110, y: 10 }, { x: 120, y: 20 });
+    expect(kinds([shape('a', line)])).toEqual(['degenerate']);
+    expect(kinds([shape('a', offCanvas)])).toEqual(['offCanvas']);
+    expect(kinds([shape('a', createPolygonOutline([{ x: 0, y: 0 }, { x: 10, y: 0 }]))])).toEqual(['degenerate']);
+  });
+});
+
+describe('isSelfIntersecting', () => {
+  it('spots a bow tie but not a square', () => {
+    const bowTie: Point[] = [{ x: 0, y: 0 }, { x: 10, y: 10 }, { x: 10, y: 0 }, { x: 0, y: 10 }];
+    expect(isSelfIntersecting(bowTie)).toBe(true);
+    expect(isSelfIntersecting(square.points)).toBe(false);
+  });
+});
+
+describe('getNoteCoverage', () => {
+  it('counts Omni shapes on every channel', () => {
+    const coverage = getNoteCoverage([shape('a', { channel: 0 }), shape('b', { channel: 3, noteEnd: 37 })]);
+    expect(coverage[0][36]).toBe(1);
+    expect(coverage[2][36]).toBe(2);
+    expect(coverage[2][37]).toBe(1);
+    expect(coverage[15][37]).toBe(0);
+  });
+});
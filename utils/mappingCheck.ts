@@ -0,0 +1,143 @@
+import { Point, Shape } from '../types';
+import { flattenOutline } from './geometry';
+import { midiNoteToName } from './midiUtils';
+
+export type MappingIssueKind = 'range' | 'inverted' | 'overlap' | 'degenerate' | 'selfIntersecting' | 'offCanvas';
+
+export interface MappingIssue {
+  kind: MappingIssueKind;
+  severity: 'error' | 'warning';
+  shapeIds: string[];
+  message: string;
+}
+
+// Smallest outline area (in percent squared) that still shows up as a shape
+const MIN_AREA = 0.01;
+
+const isValidNumber = (value: number, min: number, max: number) => Number.isInteger(value) && value >= min && value <= max;
+
+// NaN from a cleared number field shows as "empty" rather than "NaN"
+const describeValue = (value: number) => Number.isNaN(value) ? 'empty' : String(value);
+
+const describeRange = (start: number, end: number) =>
+  start === end ? midiNoteToName(start) : `${midiNoteToName(start)}-${midiNoteToName(end)}`;
+
+// Whether a shape's trigger fields can be compared at all
+const hasUsableTrigger = (shape: Shape) =>
+  isValidNumber(shape.channel, 0, 16)
+  && isValidNumber(shape.noteStart, 0, 127)
+  && isValidNumber(shape.noteEnd, 0, 127)
+  && shape.noteStart <= shape.noteEnd;
+
+const getArea = (points: Point[]) =>
+  Math.abs(points.reduce((sum, p, i) => {
+    const next = points[(i + 1) % points.length];
+    return sum + p.x * next.y - next.x * p.y;
+  }, 0)) / 2;
+
+const cross = (o: Point, a: Point, b: Point) => (a.x - o.x) * (b.y - o.y) - (a.y - o.y) * (b.x - o.x);
+
+// Proper crossings only; edges that merely touch at a shared vertex do not count
+const segmentsCross = (a: Point, b: Point, c: Point, d: Point) =>
+  cross(a, b, c) * cross(a, b, d) < 0 && cross(c, d, a) * cross(c, d, b) < 0;
+
+export const isSelfIntersecting = (points: Point[]): boolean => {
+  const n = points.length;
+  for (let i = 0; i < n; i++) {
+    for (let j = i + 2; j < n; j++) {
+      if (i === 0 && j === n - 1) continue; // neighbours through the closing edge
+      if (segmentsCross(points[i], points[(i + 1) % n], points[j], points[(j + 1) % n])) return true;
+    }
+  }
+  return false;
+};
+
+/**
+ * Per-shape checks: trigger values out of range (including NaN left by a cleared field),
+ * inverted note ranges that can never fire, and outlines that cannot draw properly.
+ */
+const checkShape = (shape: Shape): MappingIssue[] => {
+  const issues: MappingIssue[] = [];
+  const add = (kind: MappingIssueKind, severity: MappingIssue['severity'], message: string) =>
+    issues.push({ kind, severity, shapeIds: [shape.id], message: `${shape.name}: ${message}` });
+
+  if (!isValidNumber(shape.channel, 0, 16)) {
+    add('range', 'error', `channel is ${describeValue(shape.channel)}; it must be 1-16, or 0 for all channels`);
+  }
+  for (const [field, label] of [['noteStart', 'note start'], ['noteEnd', 'note end']] as const) {
+    if (!isValidNumber(shape[field], 0, 127)) add('range', 'error', `${label} is ${describeValue(shape[field])}; it must be 0-127`);
+  }
+  if (shape.noteStart > shape.noteEnd) {
+    add('inverted', 'error', `note start ${midiNoteToName(shape.noteStart)} is above note end ${midiNoteToName(shape.noteEnd)}, so it never fires`);
+  }
+
+  if (shape.points.length < 3) {
+    add('degenerate', 'error', `has ${shape.points.length} point${shape.points.length === 1 ? '' : 's'} and is never drawn`);
+    return issues;
+  }
+  const outline = flattenOutline(shape);
+  if (getArea(outline) < MIN_AREA) {
+    add('degenerate', 'warning', 'has no area; its points are on top of each other or in a line');
+  } else if (isSelfIntersecting(outline)) {
+    add('selfIntersecting', 'warning', 'outline crosses itself, so parts of it may not fill');
+  }
+  if (outline.every(p => p.x < 0) || outline.every(p => p.x > 100) || outline.every(p => p.y < 0) || outline.every(p => p.y > 100)) {
+    add('offCanvas', 'warning', 'lies entirely off the canvas');
+  }
+  return issues;
+};
+
+// The channel and note range two triggers have in common, or null when they never meet
+const getTriggerOverlap = (a: Shape, b: Shape): { channel: number; noteStart: number; noteEnd: number } | null => {
+  if (a.inputId !== '' && b.inputId !== '' && a.inputId !== b.inputId) return null;
+  if (a.channel !== 0 && b.channel !== 0 && a.channel !== b.channel) return null;
+  const noteStart = Math.max(a.noteStart, b.noteStart);
+  const noteEnd = Math.min(a.noteEnd, b.noteEnd);
+  return noteStart <= noteEnd ? { channel: a.channel || b.channel, noteStart, noteEnd } : null;
+};
+
+/**
+ * Everything worth a warning in the mapping, errors first. Overlapping triggers are pairs
+ * of shapes lit by the same input, channel and note; members of one group are meant to
+ * fire together and masks are never lit, so neither counts.
+ */
+export const findMappingIssues = (shapes: Shape[]): MappingIssue[] => {
+  const issues = shapes.flatMap(checkShape);
+
+  const triggers = shapes.filter(s => s.mask === 'none' && hasUsableTrigger(s));
+  triggers.forEach((a, i) => {
+    for (const b of triggers.slice(i + 1)) {
+      if (a.groupId && a.groupId === b.groupId) continue;
+      const overlap = getTriggerOverlap(a, b);
+      if (!overlap) continue;
+      issues.push({
+        kind: 'overlap',
+        severity: 'warning',
+        shapeIds: [a.id, b.id],
+        message: `${a.name} and ${b.name} both fire on ${describeRange(overlap.noteStart, overlap.noteEnd)}, ${overlap.channel === 0 ? 'any channel' : `channel ${overlap.channel}`}`,
+      });
+    }
+  });
+
+  return [...issues.filter(i => i.severity === 'error'), ...issues.filter(i => i.severity === 'warning')];
+};
+
+// --- Coverage ---
+
+export const getCoverageKey = (channel: number, note: number) => `${channel}-${note}`;
+
+/**
+ * How many shapes listen to each note on each channel, as coverage[channel - 1][note].
+ * Omni shapes count on all 16 channels; masks and unusable triggers are left out.
+ */
+export const getNoteCoverage = (shapes: Shape[]): number[][] => {
+  const coverage = Array.from({ length: 16 }, () => new Array<number>(128).fill(0));
+  for (const shape of shapes) {
+    if (shape.mask !== 'none' || !hasUsableTrigger(shape)) continue;
+    const channels = shape.channel === 0 ? coverage : [coverage[shape.channel - 1]];
+    for (const row of channels) {
+      for (let note = shape.noteStart; note <= shape.noteEnd; note++) row[note]++;
+    }
+  }
+  return coverage;
+};
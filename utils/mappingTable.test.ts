@@ -0,0 +1,69 @@
+import { describe, expect, it } from 'vitest';
+import { Shape } from '../types';
+import { COLOR_PALETTES, applyMappingCsv, assignAscendingNotes, filterMappings, mappingsToCsv, parseCsv, samplePalette, sortMappings } from './mappingTable';
+
+// Only the mapped fields matter here
+const shape = (id: string, name: string, channel: number, noteStart: number, noteEnd = noteStart) =>
+  ({ id, name, channel, noteStart, noteEnd, color: '#ffffff', velocitySensitive: false, groupId: null }) as Shape;
+
+const kit = [shape('a', 'Kick', 10, 36), shape('b', 'Snare 2', 10, 38), shape('c', 'Snare 10', 1, 40, 43)];
+
+describe('sortMappings', () => {
+  it('sorts names the way people count', () => {
+    expect(sortMappings(kit, { key: 'name', descending: false }).map(s => s.id)).toEqual(['a', 'b', 'c']);
+  });
+
+  it('keeps ties in paint order when descending', () => {
+    expect(sortMappings(kit, { key: 'channel', descending: true }).map(s => s.id)).toEqual(['a', 'b', 'c']);
+  });
+});
+
+describe('filterMappings', () => {
+  it('matches names and notes inside a trigger range', () => {
+    expect(filterMappings(kit, [], { text: 'snare', channel: null }).map(s => s.id)).toEqual(['b', 'c']);
+    expect(filterMappings(kit, [], { text: 'F#2', channel: null }).map(s => s.id)).toEqual(['c']);
+    expect(filterMappings(kit, [], { text: '', channel: 10 }).map(s => s.id)).toEqual(['a', 'b']);
+  });
+});
+
+describe('assignAscendingNotes', () => {
+  it('keeps each range width and pins the top of the keyboard', () => {
+    const result = assignAscendingNotes([kit[2], kit[0], kit[1]], 120);
+    expect(result.map(s => [s.noteStart, s.noteEnd])).toEqual([[120, 123], [124, 124], [125, 125]]);
+    expect(assignAscendingNotes([kit[2]], 126).map(s => [s.noteStart, s.noteEnd])).toEqual([[124, 127]]);
+  });
+});
+
+describe('samplePalette', () => {
+  it('runs from the first stop to the last', () => {
+    const mono = COLOR_PALETTES.find(p => p.id === 'mono')!;
+    expect(samplePalette(mono, 3)).toEqual(['#404040', '#a0a0a0', '#ffffff']);
+  });
+});
+
+describe('parseCsv', () => {
+  it('handles quotes, embedded commas and CRLF', () => {
+    expect(parseCsv('a,"b, ""c"""\r\n\r\n1,2\n')).toEqual([['a', 'b, "c"'], ['1', '2']]);
+  });
+});
+
+describe('applyMappingCsv', () => {
+  it('round-trips an exported table', () => {
+    const result = applyMappingCsv(kit, mappingsToCsv(kit));
+    expect(result.issues).toEqual([]);
+    expect(result.updatedIds).toEqual([]);
+  });
+
+  it('matches rows by name and accepts note names', () => {
+    const result = applyMappingCsv(kit, 'name,noteStart,noteEnd,channel\nKick,C3,C3,all\n');
+    expect(result.issues).toEqual([]);
+    expect(result.updatedIds).toEqual(['a']);
+    expect(result.shapes[0]).toMatchObject({ noteStart: 48, noteEnd: 48, channel: 0 });
+  });
+
+  it('rejects the whole table when any row is wrong', () => {
+    const result = applyMappingCsv(kit, 'id,channel,color\na,3,#000000\nb,17,red\nz,1,#000000\n');
+    expect(result.shapes).toBe(kit);
+    expect(result.issues.map(i => i.path)).toEqual(['row 3.channel', 'row 3.color', 'row 4']);
+  });
+});
@@ -0,0 +1,261 @@
+import { Shape, ShapeGroup } from '../types';
+import { ValidationIssue } from './projectFormat';
+import { hslToHex } from './colorUtils';
+import { midiNoteToName, noteNameToMidi } from './midiUtils';
+
+// --- Sorting & Filtering ---
+
+export type MappingSortKey = 'name' | 'color' | 'channel' | 'note' | 'velocity';
+
+// No sort key keeps the paint order, which is the only order rows can be dragged in
+export interface MappingSort {
+  key: MappingSortKey;
+  descending: boolean;
+}
+
+export interface MappingFilter {
+  text: string; // matches shape or group names, or a note name inside the trigger range
+  channel: number | null; // null for any; 0 only matches Omni shapes
+}
+
+export const EMPTY_MAPPING_FILTER: MappingFilter = { text: '', channel: null };
+
+export const isMappingFilterActive = (filter: MappingFilter) => filter.text.trim() !== '' || filter.channel !== null;
+
+const compareBy: Record<MappingSortKey, (a: Shape, b: Shape) => number> = {
+  name: (a, b) => a.name.localeCompare(b.name, undefined, { numeric: true, sensitivity: 'base' }),
+  color: (a, b) => a.color.localeCompare(b.color),
+  channel: (a, b) => a.channel - b.channel,
+  note: (a, b) => a.noteStart - b.noteStart || a.noteEnd - b.noteEnd,
+  velocity: (a, b) => Number(a.velocitySensitive) - Number(b.velocitySensitive),
+};
+
+// Stable, so shapes that tie stay in paint order
+export const sortMappings = (shapes: Shape[], sort: MappingSort | null): Shape[] => {
+  if (!sort) return shapes;
+  const compare = compareBy[sort.key];
+  return [...shapes].sort((a, b) => (sort.descending ? -1 : 1) * compare(a, b));
+};
+
+export const filterMappings = (shapes: Shape[], groups: ShapeGroup[], filter: MappingFilter): Shape[] => {
+  const text = filter.text.trim().toLowerCase();
+  const note = noteNameToMidi(text);
+  return shapes.filter(shape => {
+    if (filter.channel !== null && shape.channel !== filter.channel) return false;
+    if (!text) return true;
+    const groupName = groups.find(g => g.id === shape.groupId)?.name ?? '';
+    return shape.name.toLowerCase().includes(text)
+      || groupName.toLowerCase().includes(text)
+      || (note !== null && note >= shape.noteStart && note <= shape.noteEnd);
+  });
+};
+
+// --- Bulk Actions ---
+
+/**
+ * Gives shapes consecutive trigger ranges in the order given, starting at `start`. Each shape
+ * keeps the width of its range, so a four-note segmented shape still gets four notes.
+ * Ranges that would run past 127 are pinned to the top of the keyboard.
+ */
+export const assignAscendingNotes = (shapes: Shape[], start: number): Shape[] => {
+  let next = start;
+  return shapes.map(shape => {
+    const width = Math.max(0, shape.noteEnd - shape.noteStart);
+    const noteStart = Math.min(next, 127 - width);
+    next = noteStart + width + 1;
+    return { ...shape, noteStart, noteEnd: noteStart + width };
+  });
+};
+
+export interface ColorPalette {
+  id: string;
+  label: string;
+  stops: string[];
+}
+
+export const COLOR_PALETTES: ColorPalette[] = [
+  { id: 'rainbow', label: 'Rainbow', stops: [0, 60, 120, 180, 240, 300].map(h => hslToHex(h, 1, 0.5)) },
+  { id: 'fire', label: 'Fire', stops: ['#7f1d1d', '#ef4444', '#f97316', '#facc15'] },
+  { id: 'ocean', label: 'Ocean', stops: ['#1e3a8a', '#2563eb', '#06b6d4', '#a5f3fc'] },
+  { id: 'neon', label: 'Neon', stops: ['#ff00cc', '#7c3aed', '#00e5ff', '#39ff14'] },
+  { id: 'mono', label: 'Mono', stops: ['#404040', '#ffffff'] },
+];
+
+const mixHex = (from: string, to: string, t: number): string => {
+  const channel = (hex: string, shift: number) => (parseInt(hex.slice(1), 16) >> shift) & 0xff;
+  return '#' + [16, 8, 0]
+    .map(shift => Math.round(channel(from, shift) + (channel(to, shift) - channel(from, shift)) * t).toString(16).padStart(2, '0'))
+    .join('');
+};
+
+// Colors evenly spaced along the palette, first stop to last
+export const samplePalette = (palette: ColorPalette, count: number): string[] => {
+  const { stops } = palette;
+  return Array.from({ length: count }, (_, i) => {
+    const position = (count > 1 ? i / (count - 1) : 0) * (stops.length - 1);
+    const index = Math.min(Math.floor(position), stops.length - 2);
+    return stops.length === 1 ? stops[0] : mixHex(stops[index], stops[index + 1], position - index);
+  });
+};
+
+export const spreadColors = (shapes: Shape[], palette: ColorPalette): Shape[] => {
+  const colors = samplePalette(palette, shapes.length);
+  return shapes.map((shape, i) => ({ ...shape, color: colors[i] }));
+};
+
+// --- CSV ---
+
+// The shape fields a mapping table edits; rows are keyed by an extra "id" column
+const MAPPING_FIELDS = ['name', 'channel', 'noteStart', 'noteEnd', 'color', 'velocitySensitive'] as const;
+
+export const MAPPING_CSV_COLUMNS = ['id', ...MAPPING_FIELDS];
+
+const quoteCsv = (value: string) => /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+
+export const mappingsToCsv = (shapes: Shape[]): string => {
+  const rows = shapes.map(shape => [shape.id, ...MAPPING_FIELDS.map(field => String(shape[field]))]);
+  return [MAPPING_CSV_COLUMNS, ...rows].map(row => row.map(quoteCsv).join(',')).join('\r\n') + '\r\n';
+};
+
+// RFC 4180: quoted fields may hold commas, doubled quotes and line breaks. Blank lines are dropped.
+export const parseCsv = (text: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+  const endRow = () => {
+    row.push(field);
+    if (row.length > 1 || row[0].trim() !== '') rows.push(row);
+    row = [];
+    field = '';
+  };
+  for (let i = 0; i < text.length; i++) {
+    const c = text[i];
+    if (quoted) {
+      if (c === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (c === '"') {
+        quoted = false;
+      } else {
+        field += c;
+      }
+    } else if (c === '"') {
+      quoted = true;
+    } else if (c === ',') {
+      row.push(field);
+      field = '';
+    } else if (c === '\n' || c === '\r') {
+      if (c === '\r' && text[i + 1] === '\n') i++;
+      endRow();
+    } else {
+      field += c;
+    }
+  }
+  if (field !== '' || row.length > 0) endRow();
+  return rows;
+};
+
+export interface MappingCsvResult {
+  shapes: Shape[];
+  updatedIds: string[];
+  issues: ValidationIssue[];
+}
+
+const parseNote = (value: string): number | null => {
+  if (/^\d+$/.test(value.trim())) {
+    const note = parseInt(value);
+    return note <= 127 ? note : null;
+  }
+  return noteNameToMidi(value);
+};
+
+const parseBoolean = (value: string): boolean | null => {
+  const normalized = value.trim().toLowerCase();
+  if (['true', 'yes', '1', 'on'].includes(normalized)) return true;
+  if (['false', 'no', '0', 'off', ''].includes(normalized)) return false;
+  return null;
+};
+
+/**
+ * Applies a mapping table to existing shapes. Rows match a shape by id, or by name when the id
+ * column is missing or empty; columns can come in any order and absent ones are left alone.
+ * Notes may be numbers or names like "C#3". Any problem rejects the whole table, so a
+ * half-applied import never happens.
+ */
+export const applyMappingCsv = (shapes: Shape[], text: string): MappingCsvResult => {
+  const issues: ValidationIssue[] = [];
+  const fail = (path: string, message: string) => issues.push({ path, message });
+  const [header, ...rows] = parseCsv(text.replace(/^\uFEFF/, ''));
+  if (!header) return { shapes, updatedIds: [], issues: [{ path: '', message: 'The file is empty.' }] };
+
+  const columns = header.map(name => name.trim());
+  const columnIndex = (name: string) => columns.findIndex(c => c.toLowerCase() === name.toLowerCase());
+  if (columnIndex('id') < 0 && columnIndex('name') < 0) {
+    return { shapes, updatedIds: [], issues: [{ path: 'header', message: 'needs an "id" or "name" column to match rows to shapes' }] };
+  }
+
+  const updates = new Map<string, Shape>();
+  rows.forEach((row, r) => {
+    const path = `row ${r + 2}`;
+    const cell = (name: string) => {
+      const index = columnIndex(name);
+      return index < 0 || index >= row.length ? undefined : row[index].trim();
+    };
+
+    const id = cell('id');
+    const name = cell('name');
+    let shape: Shape | undefined;
+    if (id) {
+      shape = shapes.find(s => s.id === id);
+      if (!shape) return fail(path, `no shape has the id "${id}"`);
+    } else {
+      const named = shapes.filter(s => s.name === name);
+      if (named.length !== 1) {
+        return fail(path, named.length === 0 ? `no shape is called "${name ?? ''}"` : `several shapes are called "${name}"; add their ids`);
+      }
+      shape = named[0];
+    }
+    if (updates.has(shape.id)) return fail(path, `"${shape.name}" already appears on an earlier row`);
+
+    const next = { ...shape };
+    if (id && name !== undefined) {
+      if (name === '') fail(`${path}.name`, 'must not be empty');
+      else next.name = name;
+    }
+    const channel = cell('channel');
+    if (channel !== undefined) {
+      const value = /^(all|omni)$/i.test(channel) ? 0 : /^\d+$/.test(channel) ? parseInt(channel) : NaN;
+      if (!(value >= 0 && value <= 16)) fail(`${path}.channel`, 'must be 1-16, or 0 / "All" for every channel');
+      else next.channel = value;
+    }
+    for (const field of ['noteStart', 'noteEnd'] as const) {
+      const value = cell(field);
+      if (value === undefined) continue;
+      const note = parseNote(value);
+      if (note === null) fail(`${path}.${field}`, 'must be a note from 0 to 127 or a name like C3');
+      else next[field] = note;
+    }
+    if (next.noteStart > next.noteEnd) fail(`${path}.noteEnd`, `must not be below noteStart (${midiNoteToName(next.noteStart)})`);
+    const color = cell('color');
+    if (color !== undefined) {
+      if (!/^#[0-9a-f]{6}$/i.test(color)) fail(`${path}.color`, 'must be a hex color like #00ffcc');
+      else next.color = color;
+    }
+    const velocity = cell('velocitySensitive');
+    if (velocity !== undefined) {
+      const value = parseBoolean(velocity);
+      if (value === null) fail(`${path}.velocitySensitive`, 'must be true or false');
+      else next.velocitySensitive = value;
+    }
+    updates.set(shape.id, next);
+  });
+
+  if (issues.length > 0) return { shapes, updatedIds: [], issues };
+  const updatedIds = Array.from(updates.keys()).filter(id => {
+    const before = shapes.find(s => s.id === id)!;
+    const after = updates.get(id)!;
+    return MAPPING_FIELDS.some(field => before[field] !== after[field]);
+  });
+  return { shapes: shapes.map(s => updatedIds.includes(s.id) ? updates.get(s.id)! : s), updatedIds, issues };
+};
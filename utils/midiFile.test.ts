@@ -0,0 +1,131 @@
+import { describe, it, expect } from 'vitest';
+import { parseMidiFile } from './midiFile';
+import { FILE_INPUT_ID } from './takes';
+
+const ascii = (text: string) => Array.from(text, c => c.charCodeAt(0));
+const uint32 = (value: number) => [(value >>> 24) & 0xff, (value >>> 16) & 0xff, (value >>> 8) & 0xff, value & 0xff];
+const uint16 = (value: number) => [(value >> 8) & 0xff, value & 0xff];
+
+const vlq = (value: number) => {
+  const bytes = [value & 0x7f];
+  while ((value >>= 7) > 0) bytes.unshift((value & 0x7f) | 0x80);
+  return bytes;
+};
+
+const track = (...events: number[][]) => {
+  const body = events.flat();
+  return [...ascii('MTrk'), ...uint32(body.length), ...body];
+};
+
+const END_OF_TRACK = [0xff, 0x2f, 0x00];
+
+const midiFile = (format: number, division: number, ...tracks: number[][]) =>
+  Uint8Array.from([...ascii('MThd'), ...uint32(6), ...uint16(format), ...uint16(tracks.length), ...uint16(division), ...tracks.flat()]).buffer;
+
+describe('parseMidiFile', () => {
+  it('reads a format 0 file at the default 120 BPM', () => {
+    const file = midiFile(0, 480, track(
+      [0, 0x90, 60, 100],
+      [...vlq(480), 0x80, 60, 0],
+      [0, ...END_OF_TRACK],
+    ));
+    expect(parseMidiFile(file)).toEqual({
+      name: null,
+      duration: 500,
+      events: [
+        { time: 0, inputId: FILE_INPUT_ID, message: { type: 'noteOn', channel: 1, note: 60, velocity: 100 } },
+        { time: 500, inputId: FILE_INPUT_ID, message: { type: 'noteOff', channel: 1, note: 60, velocity: 0 } },
+      ],
+    });
+  });
+
+  it('follows running status within a track', () => {
+    const file = midiFile(0, 96, track(
+      [0, 0x91, 60, 100],
+      [0, 64, 100],
+      [96, 60, 0],
+      [0, ...END_OF_TRACK],
+    ));
+    const { events } = parseMidiFile(file);
+    expect(events.map(e => e.message)).toEqual([
+      { type: 'noteOn', channel: 2, note: 60, velocity: 100 },
+      { type: 'noteOn', channel: 2, note: 64, velocity: 100 },
+      { type: 'noteOff', channel: 2, note: 60, velocity: 0 },
+    ]);
+  });
+
+  it('applies tempo changes from a conductor track to every track', () => {
+    // 60 BPM = 1,000,000 microseconds per quarter
+    const conductor = track([0, 0xff, 0x51, 0x03, 0x0f, 0x42, 0x40], [0, ...END_OF_TRACK]);
+    const notes = track(
+      [0, 0x90, 60, 100],
+      [...vlq(480), 0x90, 62, 100],
+      [0, ...END_OF_TRACK],
+    );
+    const { events, duration } = parseMidiFile(midiFile(1, 480, conductor, notes));
+    expect(events.map(e => e.time)).toEqual([0, 1000]);
+    expect(duration).toBe(1000);
+  });
+
+  it('changes tempo mid-song', () => {
+    const file = midiFile(0, 100, track(
+      [0, 0x90, 60, 100],
+      // At tick 100 (500 ms at 120 BPM), switch to 240 BPM
+      [100, 0xff, 0x51, 0x03, ...[0x03, 0xd0, 0x90]],
+      [100, 0x90, 62, 100],
+      [0, ...END_OF_TRACK],
+    ));
+    expect(parseMidiFile(file).events.map(e => e.time)).toEqual([0, 750]);
+  });
+
+  it('supports SMPTE time division', () => {
+    // 25 fps, 40 ticks per frame = 1 ms per tick
+    const division = ((256 - 25) << 8) | 40;
+    const file = midiFile(0, division, track([0, 0xb0, 7, 100], [...vlq(250), 0xb0, 7, 50], [0, ...END_OF_TRACK]));
+    expect(parseMidiFile(file).events.map(e => e.time)).toEqual([0, 250]);
+  });
+
+  it('keeps every channel message type and the track name', () => {
+    const file = midiFile(0, 480, track(
+      [0, 0xff, 0x03, 0x04, ...ascii('Lead')],
+      [0, 0xc0, 5],
+      [0, 0xd0, 40],
+      [0, 0xe0, 0x00, 0x40],
+      [0, 0xa0, 60, 20],
+      [0, ...END_OF_TRACK],
+    ));
+    const { name, events } = parseMidiFile(file);
+    expect(name).toBe('Lead');
+    expect(events.map(e => e.message.type)).toEqual(['programChange', 'channelAftertouch', 'pitchBend', 'polyAftertouch']);
+  });
+
+  it('skips SysEx events and unknown chunks', () => {
+    const unknownChunk = [...ascii('XFIH'), ...uint32(2), 1, 2];
+    const data = Uint8Array.from([
+      ...ascii('MThd'), ...uint32(6), ...uint16(0), ...uint16(1), ...uint16(480),
+      ...unknownChunk,
+      ...track([0, 0xf0, 0x03, 0x7e, 0x01, 0xf7], [0, 0x90, 60, 100], [0, ...END_OF_TRACK]),
+    ]);
+    expect(parseMidiFile(data.buffer).events).toHaveLength(1);
+  });
+
+  it('rejects files that are not MIDI', () => {
+    expect(() => parseMidiFile(Uint8Array.from(ascii('RIFF0000WAVEfmt ')).buffer)).toThrow(/Not a Standard MIDI File/);
+  });
+
+  it('rejects format 2 files', () => {
+    expect(() => parseMidiFile(midiFile(2, 480, track([0, ...END_OF_TRACK])))).toThrow(/Format 2/);
+  });
+
+  it('rejects truncated tracks instead of reading past the end', () => {
+    const data = Uint8Array.from([
+      ...ascii('MThd'), ...uint32(6), ...uint16(0), ...uint16(1), ...uint16(480),
+      ...ascii('MTrk'), ...uint32(3), 0, 0x90, 60,
+    ]);
+    expect(() => parseMidiFile(data.buffer)).toThrow(/ends unexpectedly/);
+  });
+
+  it('rejects a data byte with no running status', () => {
+    expect(() => parseMidiFile(midiFile(0, 480, track([0, 60, 100], [0, ...END_OF_TRACK])))).toThrow(/without a status/);
+  });
+});
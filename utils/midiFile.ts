@@ -0,0 +1,220 @@
+import { TakeEvent } from '../types';
+import { parseMidiPacket } from './midiParser';
+import { FILE_INPUT_ID } from './takes';
+
+// Standard MIDI File (.mid) reader. Only channel messages are kept; meta events supply
+// the tempo map and track name, and SysEx is skipped.
+
+export interface MidiFileContents {
+  name: string | null;  // first track name found, if any
+  duration: number;     // ms, up to the last End of Track
+  events: TakeEvent[];  // sorted by time
+}
+
+// 120 BPM, the SMF default until the first Set Tempo event
+const DEFAULT_MICROSECONDS_PER_QUARTER = 500000;
+
+const META_EVENT = 0xff;
+const META_TRACK_NAME = 0x03;
+const META_END_OF_TRACK = 0x2f;
+const META_SET_TEMPO = 0x51;
+
+// Data bytes that follow each channel status (by high nibble)
+const CHANNEL_DATA_LENGTHS: Record<number, number> = {
+  0x8: 2, 0x9: 2, 0xa: 2, 0xb: 2, 0xc: 1, 0xd: 1, 0xe: 2,
+};
+
+interface RawEvent {
+  tick: number;
+  order: number; // file order, so events on the same tick keep their sequence
+  kind: 'channel' | 'tempo' | 'end';
+  bytes?: Uint8Array;
+  microsecondsPerQuarter?: number;
+}
+
+// Bounds-checked reader; every overrun becomes one clear error instead of undefined bytes
+const createReader = (data: Uint8Array, start = 0, end = data.length) => {
+  let position = start;
+  const need = (count: number) => {
+    if (position + count > end) throw new Error('The MIDI file ends unexpectedly (it may be truncated).');
+  };
+  return {
+    get position() { return position; },
+    get done() { return position >= end; },
+    byte: () => {
+      need(1);
+      return data[position++];
+    },
+    peek: () => {
+      need(1);
+      return data[position];
+    },
+    bytes: (count: number) => {
+      need(count);
+      const slice = data.subarray(position, position + count);
+      position += count;
+      return slice;
+    },
+    uint16: () => {
+      need(2);
+      const value = (data[position] << 8) | data[position + 1];
+      position += 2;
+      return value;
+    },
+    uint32: () => {
+      need(4);
+      const value = ((data[position] << 24) >>> 0) + ((data[position + 1] << 16) | (data[position + 2] << 8) | data[position + 3]);
+      position += 4;
+      return value;
+    },
+    // Variable-length quantity: 7 bits per byte, high bit set on all but the last, at most 4 bytes
+    vlq: () => {
+      let value = 0;
+      for (let i = 0; i < 4; i++) {
+        need(1);
+        const byte = data[position++];
+        value = value * 128 + (byte & 0x7f);
+        if ((byte & 0x80) === 0) return value;
+      }
+      throw new Error('The MIDI file has a malformed variable-length number.');
+    },
+    text: (count: number) => {
+      need(count);
+      const text = String.fromCharCode(...data.subarray(position, position + count));
+      position += count;
+      return text;
+    },
+  };
+};
+
+const readTrack = (data: Uint8Array, start: number, end: number, track: RawEvent[], names: string[], orderStart: number) => {
+  const reader = createReader(data, start, end);
+  let tick = 0;
+  let runningStatus: number | null = null;
+  let order = orderStart;
+
+  while (!reader.done) {
+    tick += reader.vlq();
+    let status = reader.peek();
+    if (status & 0x80) {
+      reader.byte();
+    } else if (runningStatus === null) {
+      throw new Error(`The MIDI file has a data byte without a status at byte ${reader.position}.`);
+    } else {
+      status = runningStatus;
+    }
+
+    if (status === META_EVENT) {
+      runningStatus = null;
+      const type = reader.byte();
+      const length = reader.vlq();
+      if (type === META_SET_TEMPO && length === 3) {
+        const [a, b, c] = reader.bytes(3);
+        track.push({ tick, order: order++, kind: 'tempo', microsecondsPerQuarter: (a << 16) | (b << 8) | c });
+      } else if (type === META_TRACK_NAME) {
+        names.push(reader.text(length));
+      } else if (type === META_END_OF_TRACK) {
+        reader.bytes(length);
+        track.push({ tick, order: order++, kind: 'end' });
+        return order;
+      } else {
+        reader.bytes(length);
+      }
+    } else if (status === 0xf0 || status === 0xf7) {
+      // SysEx (or an escaped "any bytes" packet): length-prefixed, not replayed
+      runningStatus = null;
+      reader.bytes(reader.vlq());
+    } else if (status >= 0xf0) {
+      throw new Error(`The MIDI file has an invalid event status 0x${status.toString(16).toUpperCase()} at byte ${reader.position - 1}.`);
+    } else {
+      runningStatus = status;
+      const length = CHANNEL_DATA_LENGTHS[status >> 4];
+      const bytes = new Uint8Array(length + 1);
+      bytes[0] = status;
+      bytes.set(reader.bytes(length), 1);
+      track.push({ tick, order: order++, kind: 'channel', bytes });
+    }
+  }
+  // Tolerate a missing End of Track: the track simply ends at its last event
+  track.push({ tick, order: order++, kind: 'end' });
+  return order;
+};
+
+/**
+ * Reads a format 0 or 1 Standard MIDI File into timed channel messages.
+ * Throws an Error with a user-facing message for anything it cannot read.
+ */
+export const parseMidiFile = (buffer: ArrayBuffer): MidiFileContents => {
+  const data = new Uint8Array(buffer);
+  const reader = createReader(data);
+
+  if (data.length < 14 || reader.text(4) !== 'MThd') {
+    throw new Error('Not a Standard MIDI File (missing MThd header).');
+  }
+  const headerLength = reader.uint32();
+  if (headerLength < 6) throw new Error('The MIDI file header is too short.');
+  const format = reader.uint16();
+  const trackCount = reader.uint16();
+  const division = reader.uint16();
+  reader.bytes(headerLength - 6);
+
+  if (format === 2) throw new Error('Format 2 MIDI files (independent patterns) are not supported.');
+  if (format > 2) throw new Error(`Unknown MIDI file format ${format}.`);
+
+  // Ticks are either fractions of a quarter note (tempo-dependent) or SMPTE frames (fixed)
+  let ticksPerSecondFixed: number | null = null;
+  let ticksPerQuarter = 0;
+  if (division & 0x8000) {
+    const framesPerSecond = 256 - (division >> 8);
+    const ticksPerFrame = division & 0xff;
+    if (framesPerSecond <= 0 || ticksPerFrame === 0) throw new Error('The MIDI file has an invalid time division.');
+    ticksPerSecondFixed = framesPerSecond * ticksPerFrame;
+  } else {
+    ticksPerQuarter = division;
+    if (ticksPerQuarter === 0) throw new Error('The MIDI file has an invalid time division.');
+  }
+
+  const raw: RawEvent[] = [];
+  const names: string[] = [];
+  let order = 0;
+  let tracksRead = 0;
+  while (!reader.done && tracksRead < trackCount) {
+    const chunkType = reader.text(4);
+    const length = reader.uint32();
+    const start = reader.position;
+    reader.bytes(length);
+    // Unknown chunk types must be skipped, per the spec
+    if (chunkType !== 'MTrk') continue;
+    order = readTrack(data, start, start + length, raw, names, order);
+    tracksRead++;
+  }
+  if (tracksRead === 0) throw new Error('The MIDI file has no tracks.');
+
+  raw.sort((a, b) => a.tick - b.tick || a.order - b.order);
+
+  // Walk the merged events, converting ticks to ms through the tempo map. Times are measured
+  // from the last tempo change rather than accumulated per event, so rounding does not drift.
+  const events: TakeEvent[] = [];
+  let microsecondsPerQuarter = DEFAULT_MICROSECONDS_PER_QUARTER;
+  let tempoTick = 0;
+  let tempoTime = 0;
+  let time = 0;
+  for (const event of raw) {
+    const ticks = event.tick - tempoTick;
+    time = tempoTime + (ticksPerSecondFixed !== null
+      ? ticks * 1000 / ticksPerSecondFixed
+      : ticks * microsecondsPerQuarter / (1000 * ticksPerQuarter));
+
+    if (event.kind === 'tempo' && event.microsecondsPerQuarter) {
+      microsecondsPerQuarter = event.microsecondsPerQuarter;
+      tempoTick = event.tick;
+      tempoTime = time;
+    } else if (event.kind === 'channel' && event.bytes) {
+      for (const message of parseMidiPacket(event.bytes).messages) {
+        if ('channel' in message) events.push({ time, inputId: FILE_INPUT_ID, message });
+      }
+    }
+  }
+
+  return { name: names.find(name => name.trim() !== '')?.trim() ?? null, duration: time, events };
+};
@@ -0,0 +1,66 @@
+import { LearnTarget, LearnField, Modulation, ModulationSource, Shape } from '../types';
+
+// Armed learns cancel themselves if nothing arrives in time
+export const LEARN_TIMEOUT_MS = 10000;
+
+export const isSameLearnTarget = (a: LearnTarget | null, b: LearnTarget): boolean => {
+  if (!a || a.kind !== b.kind || a.shapeId !== b.shapeId) return false;
+  if (a.kind === 'note' && b.kind === 'note') return a.field === b.field;
+  if (a.kind === 'modulation' && b.kind === 'modulation') return a.modulationId === b.modulationId;
+  return false;
+};
+
+// Only the whole-trigger learn waits for a possible second key to form a range
+export const learnFieldAcceptsRange = (field: LearnField) => field === 'trigger';
+
+/**
+ * Writes learned notes into a shape. `notes` holds every key pressed while armed;
+ * for a full trigger learn two or more keys become a range and the shape is bound to the played input.
+ */
+export const applyNoteLearn = (shape: Shape, field: LearnField, inputId: string, channel: number, notes: number[]): Shape => {
+  const low = Math.min(...notes);
+  const high = Math.max(...notes);
+
+  switch (field) {
+    case 'channel':
+      return { ...shape, channel };
+    case 'noteStart':
+      return { ...shape, noteStart: low };
+    case 'noteEnd':
+      return { ...shape, noteEnd: high };
+    default:
+      return { ...shape, inputId, channel, noteStart: low, noteEnd: high };
+  }
+};
+
+export const applyControllerLearn = (
+  shape: Shape,
+  modulationId: string,
+  source: ModulationSource,
+  channel: number,
+  controller: number
+): Shape => ({
+  ...shape,
+  modulations: shape.modulations.map((m): Modulation =>
+    m.id === modulationId ? { ...m, source, channel, controller } : m
+  ),
+});
+
+const FIELD_LABELS: Record<LearnField, string> = {
+  trigger: 'Trigger',
+  channel: 'Channel',
+  noteStart: 'Note Start',
+  noteEnd: 'Note End',
+};
+
+// Human readable description for the armed-state banner
+export const describeLearnTarget = (target: LearnTarget, shapes: Shape[]): string => {
+  const shape = shapes.find(s => s.id === target.shapeId);
+  const shapeName = shape?.name ?? 'Shape';
+  if (target.kind === 'modulation') {
+    return `${shapeName} › Modulation — move a knob, fader, bend or press`;
+  }
+  return learnFieldAcceptsRange(target.field)
+    ? `${shapeName} › ${FIELD_LABELS[target.field]} — play a key (hold a second key for a range)`
+    : `${shapeName} › ${FIELD_LABELS[target.field]} — play a key`;
+};
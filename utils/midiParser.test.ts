@@ -0,0 +1,331 @@
+import { describe, it, expect } from 'vitest';
+import { createMidiParser, parseMidiPacket } from './midiParser';
+
+const bytes = (...values: number[]) => Uint8Array.from(values);
+
+describe('parseMidiPacket', () => {
+  describe('channel voice messages', () => {
+    it('decodes Note On with 1-based channels', () => {
+      expect(parseMidiPacket(bytes(0x90, 60, 100))).toEqual({
+        messages: [{ type: 'noteOn', channel: 1, note: 60, velocity: 100 }],
+        errors: [],
+      });
+      expect(parseMidiPacket(bytes(0x9f, 0, 1)).messages).toEqual([
+        { type: 'noteOn', channel: 16, note: 0, velocity: 1 },
+      ]);
+    });
+
+    it('decodes Note Off, keeping its release velocity', () => {
+      expect(parseMidiPacket(bytes(0x83, 64, 40)).messages).toEqual([
+        { type: 'noteOff', channel: 4, note: 64, velocity: 40 },
+      ]);
+    });
+
+    it('reports Note On with velocity 0 as Note Off', () => {
+      expect(parseMidiPacket(bytes(0x92, 48, 0)).messages).toEqual([
+        { type: 'noteOff', channel: 3, note: 48, velocity: 0 },
+      ]);
+    });
+
+    it('decodes polyphonic aftertouch', () => {
+      expect(parseMidiPacket(bytes(0xa0, 60, 90)).messages).toEqual([
+        { type: 'polyAftertouch', channel: 1, note: 60, pressure: 90 },
+      ]);
+    });
+
+    it('decodes control change', () => {
+      expect(parseMidiPacket(bytes(0xb5, 7, 127)).messages).toEqual([
+        { type: 'controlChange', channel: 6, controller: 7, value: 127 },
+      ]);
+    });
+
+    it('decodes program change with its single data byte', () => {
+      expect(parseMidiPacket(bytes(0xc1, 12))).toEqual({
+        messages: [{ type: 'programChange', channel: 2, program: 12 }],
+        errors: [],
+      });
+    });
+
+    it('decodes channel aftertouch with its single data byte', () => {
+      expect(parseMidiPacket(bytes(0xd9, 33)).messages).toEqual([
+        { type: 'channelAftertouch', channel: 10, pressure: 33 },
+      ]);
+    });
+
+    it('decodes 14-bit pitch bend, LSB first', () => {
+      expect(parseMidiPacket(bytes(0xe0, 0x00, 0x40)).messages).toEqual([
+        { type: 'pitchBend', channel: 1, value: 8192 },
+      ]);
+      expect(parseMidiPacket(bytes(0xe0, 0x7f, 0x7f)).messages[0]).toMatchObject({ value: 16383 });
+      expect(parseMidiPacket(bytes(0xe0, 0x00, 0x00)).messages[0]).toMatchObject({ value: 0 });
+      expect(parseMidiPacket(bytes(0xe0, 0x01, 0x00)).messages[0]).toMatchObject({ value: 1 });
+    });
+  });
+
+  describe('multiple messages and running status', () => {
+    it('splits a packet holding several complete messages', () => {
+      expect(parseMidiPacket(bytes(0x90, 60, 100, 0xb0, 1, 64, 0xc0, 5)).messages).toEqual([
+        { type: 'noteOn', channel: 1, note: 60, velocity: 100 },
+        { type: 'controlChange', channel: 1, controller: 1, value: 64 },
+        { type: 'programChange', channel: 1, program: 5 },
+      ]);
+    });
+
+    it('reuses the previous status for data bytes without one', () => {
+      expect(parseMidiPacket(bytes(0x90, 60, 100, 64, 100, 60, 0))).toEqual({
+        messages: [
+          { type: 'noteOn', channel: 1, note: 60, velocity: 100 },
+          { type: 'noteOn', channel: 1, note: 64, velocity: 100 },
+          { type: 'noteOff', channel: 1, note: 60, velocity: 0 },
+        ],
+        errors: [],
+      });
+    });
+
+    it('applies running status to single-byte messages', () => {
+      expect(parseMidiPacket(bytes(0xd0, 10, 20, 30)).messages).toEqual([
+        { type: 'channelAftertouch', channel: 1, pressure: 10 },
+        { type: 'channelAftertouch', channel: 1, pressure: 20 },
+        { type: 'channelAftertouch', channel: 1, pressure: 30 },
+      ]);
+    });
+
+    it('switches running status when a new channel status arrives', () => {
+      expect(parseMidiPacket(bytes(0x90, 60, 100, 0x81, 60, 0, 62, 0)).messages).toEqual([
+        { type: 'noteOn', channel: 1, note: 60, velocity: 100 },
+        { type: 'noteOff', channel: 2, note: 60, velocity: 0 },
+        { type: 'noteOff', channel: 2, note: 62, velocity: 0 },
+      ]);
+    });
+
+    it('keeps running status across real-time bytes', () => {
+      expect(parseMidiPacket(bytes(0x90, 60, 100, 0xf8, 62, 100)).messages).toEqual([
+        { type: 'noteOn', channel: 1, note: 60, velocity: 100 },
+        { type: 'clock' },
+        { type: 'noteOn', channel: 1, note: 62, velocity: 100 },
+      ]);
+    });
+
+    it('cancels running status after a system common message', () => {
+      const result = parseMidiPacket(bytes(0x90, 60, 100, 0xf3, 2, 62, 100));
+      expect(result.messages).toEqual([
+        { type: 'noteOn', channel: 1, note: 60, velocity: 100 },
+        { type: 'songSelect', song: 2 },
+      ]);
+      expect(result.errors.map(e => e.offset)).toEqual([5, 6]);
+    });
+
+    it('cancels running status after SysEx', () => {
+      const result = parseMidiPacket(bytes(0x90, 60, 100, 0xf0, 0x7e, 0xf7, 62, 100));
+      expect(result.messages).toHaveLength(2);
+      expect(result.errors).toHaveLength(2);
+    });
+  });
+
+  describe('system real-time', () => {
+    it.each([
+      [0xf8, 'clock'],
+      [0xfa, 'start'],
+      [0xfb, 'continue'],
+      [0xfc, 'stop'],
+      [0xfe, 'activeSensing'],
+      [0xff, 'reset'],
+    ])('decodes %i as %s', (status, type) => {
+      expect(parseMidiPacket(bytes(status))).toEqual({ messages: [{ type }], errors: [] });
+    });
+
+    it('never misreads real-time bytes as notes', () => {
+      const { messages } = parseMidiPacket(bytes(0xf8, 0xf8, 0xfa, 0xf8, 0xfc));
+      expect(messages.map(m => m.type)).toEqual(['clock', 'clock', 'start', 'clock', 'stop']);
+    });
+
+    it('emits real-time bytes found inside a channel message without breaking it', () => {
+      expect(parseMidiPacket(bytes(0x90, 60, 0xf8, 100)).messages).toEqual([
+        { type: 'clock' },
+        { type: 'noteOn', channel: 1, note: 60, velocity: 100 },
+      ]);
+    });
+
+    it('returns a fresh object for every real-time message', () => {
+      const { messages } = parseMidiPacket(bytes(0xf8, 0xf8));
+      expect(messages[0]).not.toBe(messages[1]);
+    });
+  });
+
+  describe('system common', () => {
+    it('decodes song position in sixteenth notes, LSB first', () => {
+      expect(parseMidiPacket(bytes(0xf2, 0x10, 0x02)).messages).toEqual([
+        { type: 'songPosition', position: (2 << 7) | 0x10 },
+      ]);
+    });
+
+    it('decodes MTC quarter frames', () => {
+      expect(parseMidiPacket(bytes(0xf1, 0x35)).messages).toEqual([{ type: 'timecode', value: 0x35 }]);
+    });
+
+    it('decodes tune request, which has no data bytes', () => {
+      expect(parseMidiPacket(bytes(0xf6, 0x90, 60, 1)).messages).toEqual([
+        { type: 'tuneRequest' },
+        { type: 'noteOn', channel: 1, note: 60, velocity: 1 },
+      ]);
+    });
+  });
+
+  describe('SysEx', () => {
+    it('returns the whole dump including F0 and F7', () => {
+      const result = parseMidiPacket(bytes(0xf0, 0x7e, 0x7f, 0x06, 0x01, 0xf7));
+      expect(result.errors).toEqual([]);
+      expect(result.messages).toHaveLength(1);
+      const [message] = result.messages;
+      expect(message.type).toBe('sysEx');
+      if (message.type === 'sysEx') {
+        expect(Array.from(message.data)).toEqual([0xf0, 0x7e, 0x7f, 0x06, 0x01, 0xf7]);
+      }
+    });
+
+    it('parses messages before and after a dump', () => {
+      const { messages, errors } = parseMidiPacket(bytes(0xb0, 1, 2, 0xf0, 0x41, 0xf7, 0xc0, 3));
+      expect(errors).toEqual([]);
+      expect(messages.map(m => m.type)).toEqual(['controlChange', 'sysEx', 'programChange']);
+    });
+
+    it('passes real-time bytes through from inside a dump', () => {
+      const { messages } = parseMidiPacket(bytes(0xf0, 0x41, 0xf8, 0x42, 0xf7));
+      expect(messages.map(m => m.type)).toEqual(['clock', 'sysEx']);
+      const sysEx = messages[1];
+      if (sysEx.type === 'sysEx') expect(Array.from(sysEx.data)).toEqual([0xf0, 0x41, 0x42, 0xf7]);
+    });
+
+    it('handles an empty dump', () => {
+      const { messages } = parseMidiPacket(bytes(0xf0, 0xf7));
+      expect(messages).toHaveLength(1);
+    });
+
+    it('reports a dump interrupted by another status and still parses that status', () => {
+      const result = parseMidiPacket(bytes(0xf0, 0x41, 0x10, 0x90, 60, 100));
+      expect(result.messages).toEqual([{ type: 'noteOn', channel: 1, note: 60, velocity: 100 }]);
+      expect(result.errors).toHaveLength(1);
+      expect(result.errors[0].offset).toBe(0);
+      expect(result.errors[0].message).toMatch(/interrupted/);
+    });
+
+    it('reports an unterminated dump', () => {
+      const result = parseMidiPacket(bytes(0xf0, 0x41, 0x10));
+      expect(result.messages).toEqual([]);
+      expect(result.errors).toEqual([{ offset: 0, message: expect.stringMatching(/not terminated/) }]);
+    });
+
+    it('reports F7 without a dump', () => {
+      const result = parseMidiPacket(bytes(0xf7, 0xf8));
+      expect(result.messages).toEqual([{ type: 'clock' }]);
+      expect(result.errors).toEqual([{ offset: 0, message: expect.stringMatching(/without a SysEx/) }]);
+    });
+  });
+
+  describe('malformed data', () => {
+    it('returns nothing for an empty packet', () => {
+      expect(parseMidiPacket(bytes())).toEqual({ messages: [], errors: [] });
+    });
+
+    it('rejects data bytes with no status instead of guessing', () => {
+      const result = parseMidiPacket(bytes(60, 100));
+      expect(result.messages).toEqual([]);
+      expect(result.errors.map(e => e.offset)).toEqual([0, 1]);
+    });
+
+    it('rejects a message cut short at the end of the packet', () => {
+      const result = parseMidiPacket(bytes(0x90, 60));
+      expect(result.messages).toEqual([]);
+      expect(result.errors).toEqual([{ offset: 0, message: expect.stringMatching(/cut short after 1 data byte/) }]);
+    });
+
+    it('rejects a lone status byte', () => {
+      const result = parseMidiPacket(bytes(0xb0));
+      expect(result.messages).toEqual([]);
+      expect(result.errors).toHaveLength(1);
+    });
+
+    it('rejects a message interrupted by another status, keeping the next one', () => {
+      const result = parseMidiPacket(bytes(0x90, 60, 0x80, 60, 0));
+      expect(result.messages).toEqual([{ type: 'noteOff', channel: 1, note: 60, velocity: 0 }]);
+      expect(result.errors).toEqual([{ offset: 0, message: expect.stringMatching(/interrupted by 0x80/) }]);
+    });
+
+    it('reports where a running-status message that was cut short began', () => {
+      const result = parseMidiPacket(bytes(0x90, 60, 100, 62));
+      expect(result.messages).toHaveLength(1);
+      expect(result.errors).toEqual([{ offset: 3, message: expect.any(String) }]);
+    });
+
+    it.each([0xf4, 0xf5, 0xf9, 0xfd])('rejects undefined status %i', (status) => {
+      const result = parseMidiPacket(bytes(status));
+      expect(result.messages).toEqual([]);
+      expect(result.errors).toEqual([{ offset: 0, message: expect.stringMatching(/Undefined status/) }]);
+    });
+
+    it('drops the data bytes that follow an undefined system common status', () => {
+      const result = parseMidiPacket(bytes(0x90, 60, 100, 0xf4, 62, 100));
+      expect(result.messages).toHaveLength(1);
+      expect(result.errors).toHaveLength(3);
+    });
+
+    it('keeps running status across undefined real-time bytes', () => {
+      const result = parseMidiPacket(bytes(0x90, 60, 100, 0xfd, 62, 100));
+      expect(result.messages).toHaveLength(2);
+      expect(result.errors).toHaveLength(1);
+    });
+
+    it('never produces undefined fields', () => {
+      const packets = [
+        bytes(0x90), bytes(0x90, 60), bytes(0xe0, 1), bytes(0xf2, 1), bytes(0xc0),
+        bytes(0x90, 60, 100, 62), bytes(0xf0, 1, 2), bytes(1, 2, 3),
+      ];
+      for (const packet of packets) {
+        for (const message of parseMidiPacket(packet).messages) {
+          for (const value of Object.values(message)) expect(value).not.toBeUndefined();
+        }
+      }
+    });
+  });
+});
+
+describe('createMidiParser', () => {
+  it('keeps running status between packets from the same source', () => {
+    const parser = createMidiParser();
+    parser.parse(bytes(0x90, 60, 100));
+    expect(parser.parse(bytes(62, 100)).messages).toEqual([
+      { type: 'noteOn', channel: 1, note: 62, velocity: 100 },
+    ]);
+  });
+
+  it('does not carry a cut-short message into the next packet', () => {
+    const parser = createMidiParser();
+    expect(parser.parse(bytes(0x90, 60)).errors).toHaveLength(1);
+    // Running status still applies, so these two bytes are a complete message of their own
+    expect(parser.parse(bytes(62, 100)).messages).toEqual([
+      { type: 'noteOn', channel: 1, note: 62, velocity: 100 },
+    ]);
+  });
+
+  it('forgets running status on reset', () => {
+    const parser = createMidiParser();
+    parser.parse(bytes(0x90, 60, 100));
+    parser.reset();
+    const result = parser.parse(bytes(62, 100));
+    expect(result.messages).toEqual([]);
+    expect(result.errors).toHaveLength(2);
+  });
+
+  it('keeps parsers independent', () => {
+    const a = createMidiParser();
+    const b = createMidiParser();
+    a.parse(bytes(0x90, 60, 100));
+    expect(b.parse(bytes(62, 100)).messages).toEqual([]);
+  });
+
+  it('does not let real-time bytes set running status', () => {
+    const parser = createMidiParser();
+    parser.parse(bytes(0xf8));
+    expect(parser.parse(bytes(60, 100)).messages).toEqual([]);
+  });
+});
@@ -0,0 +1,186 @@
+import { MidiMessage } from '../types';
+
+// A byte (or run of bytes) the parser skipped, with its position in the packet
+export interface MidiParseError {
+  offset: number;
+  message: string;
+}
+
+export interface MidiParseResult {
+  messages: MidiMessage[];
+  errors: MidiParseError[];
+}
+
+export interface MidiParser {
+  parse: (data: Uint8Array) => MidiParseResult;
+  reset: () => void;
+}
+
+const SYSEX_START = 0xf0;
+const SYSEX_END = 0xf7;
+
+// Data bytes that follow each channel voice status (by high nibble)
+const CHANNEL_DATA_LENGTHS: Record<number, number> = {
+  0x8: 2, 0x9: 2, 0xa: 2, 0xb: 2, 0xc: 1, 0xd: 1, 0xe: 2,
+};
+
+// Data bytes that follow each system common status; F4/F5 are undefined
+const SYSTEM_COMMON_DATA_LENGTHS: Record<number, number> = {
+  0xf1: 1, 0xf2: 2, 0xf3: 1, 0xf6: 0,
+};
+
+// System real-time messages are single bytes; F9/FD are undefined
+const REALTIME_MESSAGES: Record<number, MidiMessage> = {
+  0xf8: { type: 'clock' },
+  0xfa: { type: 'start' },
+  0xfb: { type: 'continue' },
+  0xfc: { type: 'stop' },
+  0xfe: { type: 'activeSensing' },
+  0xff: { type: 'reset' },
+};
+
+const hex = (byte: number) => `0x${byte.toString(16).toUpperCase().padStart(2, '0')}`;
+
+const getDataLength = (status: number): number | undefined =>
+  status < SYSEX_START ? CHANNEL_DATA_LENGTHS[status >> 4] : SYSTEM_COMMON_DATA_LENGTHS[status];
+
+const decode = (status: number, data: number[]): MidiMessage => {
+  if (status >= SYSEX_START) {
+    switch (status) {
+      case 0xf1: return { type: 'timecode', value: data[0] };
+      case 0xf2: return { type: 'songPosition', position: (data[1] << 7) | data[0] };
+      case 0xf3: return { type: 'songSelect', song: data[0] };
+      default: return { type: 'tuneRequest' };
+    }
+  }
+
+  const channel = (status & 0xf) + 1;
+  switch (status >> 4) {
+    case 0x8: return { type: 'noteOff', channel, note: data[0], velocity: data[1] };
+    // Note On with velocity 0 is how running status sends Note Off
+    case 0x9: return data[1] === 0
+      ? { type: 'noteOff', channel, note: data[0], velocity: 0 }
+      : { type: 'noteOn', channel, note: data[0], velocity: data[1] };
+    case 0xa: return { type: 'polyAftertouch', channel, note: data[0], pressure: data[1] };
+    case 0xb: return { type: 'controlChange', channel, controller: data[0], value: data[1] };
+    case 0xc: return { type: 'programChange', channel, program: data[0] };
+    case 0xd: return { type: 'channelAftertouch', channel, pressure: data[0] };
+    // 14-bit value: LSB in the first data byte, MSB in the second
+    default: return { type: 'pitchBend', channel, value: (data[1] << 7) | data[0] };
+  }
+};
+
+/**
+ * Byte-stream MIDI parser. A packet may hold several messages, channel messages may use
+ * running status (data bytes that reuse the previous status), and real-time bytes may
+ * appear anywhere, even inside another message or a SysEx dump.
+ *
+ * Malformed input never yields a half-read message: stray data bytes, undefined statuses,
+ * interrupted SysEx and messages cut short are skipped and reported in `errors`.
+ * Running status carries over between packets from the same source, so keep one parser per input.
+ */
+export const createMidiParser = (): MidiParser => {
+  let runningStatus: number | null = null;
+
+  const parse = (data: Uint8Array): MidiParseResult => {
+    const messages: MidiMessage[] = [];
+    const errors: MidiParseError[] = [];
+    // The message being assembled: its status, where it began and the data bytes so far
+    let pending: { status: number; offset: number; data: number[] } | null = null;
+    let sysEx: { offset: number; data: number[] } | null = null;
+
+    const dropPending = (reason: string) => {
+      if (!pending) return;
+      errors.push({ offset: pending.offset, message: `${hex(pending.status)} message ${reason} after ${pending.data.length} data byte(s)` });
+      pending = null;
+    };
+
+    for (let offset = 0; offset < data.length; offset++) {
+      const byte = data[offset];
+
+      // Real-time bytes interleave with everything and leave other state untouched
+      if (byte >= 0xf8) {
+        const realtime = REALTIME_MESSAGES[byte];
+        if (realtime) messages.push({ ...realtime });
+        else errors.push({ offset, message: `Undefined status byte ${hex(byte)}` });
+        continue;
+      }
+
+      if (sysEx) {
+        if (byte < 0x80) {
+          sysEx.data.push(byte);
+          continue;
+        }
+        if (byte === SYSEX_END) {
+          sysEx.data.push(byte);
+          messages.push({ type: 'sysEx', data: Uint8Array.from(sysEx.data) });
+          sysEx = null;
+          continue;
+        }
+        // Any other status ends the dump without its terminator; the status itself still counts
+        errors.push({ offset: sysEx.offset, message: `SysEx interrupted by ${hex(byte)} before ${hex(SYSEX_END)}` });
+        sysEx = null;
+      }
+
+      if (byte >= 0x80) {
+        dropPending(`interrupted by ${hex(byte)}`);
+
+        if (byte === SYSEX_START) {
+          runningStatus = null;
+          sysEx = { offset, data: [byte] };
+          continue;
+        }
+        if (byte === SYSEX_END) {
+          errors.push({ offset, message: `${hex(SYSEX_END)} without a SysEx to end` });
+          continue;
+        }
+
+        const length = getDataLength(byte);
+        // System common messages cancel running status, as do undefined ones
+        if (byte >= SYSEX_START) runningStatus = null;
+        else runningStatus = byte;
+
+        if (length === undefined) {
+          errors.push({ offset, message: `Undefined status byte ${hex(byte)}` });
+        } else if (length === 0) {
+          messages.push(decode(byte, []));
+        } else {
+          pending = { status: byte, offset, data: [] };
+        }
+        continue;
+      }
+
+      // Data byte: belongs to the pending message, or starts a new one under running status
+      if (!pending) {
+        if (runningStatus === null) {
+          errors.push({ offset, message: `Data byte ${hex(byte)} without a status byte` });
+          continue;
+        }
+        pending = { status: runningStatus, offset, data: [] };
+      }
+      pending.data.push(byte);
+      if (pending.data.length === getDataLength(pending.status)) {
+        messages.push(decode(pending.status, pending.data));
+        pending = null;
+      }
+    }
+
+    // Messages never span packets, so anything still open was cut short
+    dropPending('cut short');
+    if (sysEx) {
+      errors.push({ offset: sysEx.offset, message: `SysEx not terminated by ${hex(SYSEX_END)}` });
+    }
+
+    return { messages, errors };
+  };
+
+  return {
+    parse,
+    reset: () => {
+      runningStatus = null;
+    },
+  };
+};
+
+// Parses a single self-contained packet, with no running status from earlier packets
+export const parseMidiPacket = (data: Uint8Array): MidiParseResult => createMidiParser().parse(data);
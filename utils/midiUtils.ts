@@ -1,3 +1,5 @@
+import { MIDIInput, ModulationSource, Shape } from '../types';
+
 export const NOTE_NAMES = ['C', 'C#', 'D', 'D#', 'E', 'F', 'F#', 'G', 'G#', 'A', 'A#', 'B'];
 
 export const midiNoteToName = (note: number): string => {
@@ -6,14 +8,31 @@ export const midiNoteToName = (note: number): string => {
   return `${name}${octave}`;
 };
 
-export const parseMidiMessage = (data: Uint8Array) => {
-  const command = data[0] >> 4;
-  const channel = (data[0] & 0xf) + 1;
-  const note = data[1];
-  const velocity = data.length > 2 ? data[2] : 0;
-
-  return { command, channel, note, velocity };
+// Inverse of midiNoteToName, also accepting flats ("Bb2"); null when not a note name in MIDI range
+export const noteNameToMidi = (name: string): number | null => {
+  const match = /^([a-g])([#b]?)(-?\d+)$/i.exec(name.trim());
+  if (!match) return null;
+  const [, letter, accidental, octave] = match;
+  const note = NOTE_NAMES.indexOf(letter.toUpperCase()) + (accidental === '#' ? 1 : accidental === 'b' ? -1 : 0)
+    + (parseInt(octave) + 1) * 12;
+  return note >= 0 && note <= 127 ? note : null;
 };
 
+// Shapes, takes and live state refer to inputs by device name: port ids change when a device
+// is replugged or the browser starts a new session, names do not. Nameless ports keep their id.
+export const getInputKey = (input: MIDIInput): string => input.name || input.id;
+
 // Generate a unique key for the active notes map
-export const getNoteKey = (channel: number, note: number) => `${channel}-${note}`;
+export const getNoteKey = (inputId: string, channel: number, note: number) => `${inputId}-${channel}-${note}`;
+
+// Generate a unique key for the controller values map.
+// Input '' and channel 0 hold the latest value from any input / any channel.
+export const getControllerKey = (inputId: string, channel: number, source: ModulationSource, controller: number = 0) =>
+  `${inputId}-${channel}-${source}-${controller}`;
+
+// Whether a note from the given input/channel falls inside a shape's trigger filter
+export const shapeListensTo = (shape: Shape, inputId: string, channel: number, note: number): boolean =>
+  (shape.inputId === '' || shape.inputId === inputId)
+  && (shape.channel === 0 || shape.channel === channel)
+  && note >= shape.noteStart
+  && note <= shape.noteEnd;
@@ -0,0 +1,109 @@
+import { Modulation, ModulationCurve, ModulationSource, ModulationTarget, ControllerValuesMap, Shape } from '../types';
+import { getControllerKey } from './midiUtils';
+
+export const MODULATION_SOURCES: { value: ModulationSource; label: string }[] = [
+  { value: 'cc', label: 'Control Change' },
+  { value: 'pitchBend', label: 'Pitch Bend' },
+  { value: 'channelPressure', label: 'Channel Aftertouch' },
+  { value: 'polyPressure', label: 'Poly Aftertouch' },
+];
+
+// Default output range and unit for each target
+export const MODULATION_TARGETS: { value: ModulationTarget; label: string; unit: string; min: number; max: number }[] = [
+  { value: 'opacity', label: 'Opacity', unit: '×', min: 0, max: 1 },
+  { value: 'hue', label: 'Hue Shift', unit: '°', min: 0, max: 360 },
+  { value: 'scale', label: 'Scale', unit: '×', min: 0.5, max: 1.5 },
+  { value: 'rotation', label: 'Rotation', unit: '°', min: -180, max: 180 },
+  { value: 'offsetX', label: 'Offset X', unit: '%', min: -10, max: 10 },
+  { value: 'offsetY', label: 'Offset Y', unit: '%', min: -10, max: 10 },
+];
+
+export const MODULATION_CURVES: { value: ModulationCurve; label: string }[] = [
+  { value: 'linear', label: 'Linear' },
+  { value: 'exponential', label: 'Exponential' },
+  { value: 'logarithmic', label: 'Logarithmic' },
+  { value: 'sCurve', label: 'S-Curve' },
+];
+
+// Sources that are addressed by a controller/note number
+export const sourceUsesController = (source: ModulationSource) => source === 'cc' || source === 'polyPressure';
+
+export const createModulation = (target: ModulationTarget = 'opacity'): Modulation => {
+  const targetInfo = MODULATION_TARGETS.find(t => t.value === target)!;
+  return {
+    id: crypto.randomUUID(),
+    source: 'cc',
+    channel: 0,
+    controller: 1, // Mod wheel
+    target,
+    min: targetInfo.min,
+    max: targetInfo.max,
+    curve: 'linear',
+  };
+};
+
+// Shape a normalized (0-1) controller value
+export const applyCurve = (value: number, curve: ModulationCurve): number => {
+  const v = Math.max(0, Math.min(1, value));
+  switch (curve) {
+    case 'exponential':
+      return v * v;
+    case 'logarithmic':
+      return Math.sqrt(v);
+    case 'sCurve':
+      return v * v * (3 - 2 * v);
+    default:
+      return v;
+  }
+};
+
+// Resolved modulation output for a shape, in target units
+export interface ShapeModulationState {
+  opacity: number; // multiplier
+  hue: number; // degrees added
+  scale: number; // multiplier around the centroid
+  rotation: number; // degrees around the centroid
+  offsetX: number; // percent
+  offsetY: number; // percent
+}
+
+export const NEUTRAL_MODULATION: ShapeModulationState = {
+  opacity: 1,
+  hue: 0,
+  scale: 1,
+  rotation: 0,
+  offsetX: 0,
+  offsetY: 0,
+};
+
+// Latest normalized value for a mapping, read from the shape's input filter ('' = any input)
+export const getModulationValue = (
+  modulation: Modulation,
+  controllerValues: ControllerValuesMap,
+  inputId: string
+): number | undefined => {
+  const controller = sourceUsesController(modulation.source) ? modulation.controller : 0;
+  return controllerValues.get(getControllerKey(inputId, modulation.channel, modulation.source, controller));
+};
+
+/**
+ * Combines all of a shape's modulations. Mappings that have not received a value yet are ignored.
+ * Multiplicative targets (opacity, scale) multiply together, the rest add up.
+ */
+export const resolveModulations = (shape: Shape, controllerValues: ControllerValuesMap): ShapeModulationState => {
+  const result = { ...NEUTRAL_MODULATION };
+
+  for (const modulation of shape.modulations) {
+    const raw = getModulationValue(modulation, controllerValues, shape.inputId);
+    if (raw === undefined) continue;
+
+    const value = modulation.min + (modulation.max - modulation.min) * applyCurve(raw, modulation.curve);
+    if (modulation.target === 'opacity' || modulation.target === 'scale') {
+      result[modulation.target] *= value;
+    } else {
+      result[modulation.target] += value;
+    }
+  }
+
+  return result;
+};
@@ -0,0 +1,38 @@
+import { Shape } from '../types';
+
+/**
+ * Precomputed note → shape lookup, so a note only visits the shapes that listen to it.
+ * Bucket (channel, note) holds shapes on that channel; channel 0 holds omni shapes.
+ * Input filtering is left to the lookup since shapes rarely differ only by input.
+ */
+export type NoteIndex = Map<number, Shape[]>;
+
+const bucketKey = (channel: number, note: number) => channel * 128 + note;
+
+export const buildNoteIndex = (shapes: Shape[]): NoteIndex => {
+  const index: NoteIndex = new Map();
+  for (const shape of shapes) {
+    const start = Math.max(0, shape.noteStart);
+    const end = Math.min(127, shape.noteEnd);
+    for (let note = start; note <= end; note++) {
+      const key = bucketKey(shape.channel, note);
+      const bucket = index.get(key);
+      if (bucket) bucket.push(shape);
+      else index.set(key, [shape]);
+    }
+  }
+  return index;
+};
+
+// Shapes triggered by a note; same result as filtering every shape with shapeListensTo
+export const getShapesForNote = (index: NoteIndex, inputId: string, channel: number, note: number): Shape[] => {
+  const matches: Shape[] = [];
+  for (const key of [bucketKey(channel, note), bucketKey(0, note)]) {
+    const bucket = index.get(key);
+    if (!bucket) continue;
+    for (const shape of bucket) {
+      if (shape.inputId === '' || shape.inputId === inputId) matches.push(shape);
+    }
+  }
+  return matches;
+};
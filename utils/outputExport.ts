@@ -0,0 +1,295 @@
+import { AppMode, MediaAsset, Shape, Take } from '../types';
+import { OutputProjectState } from './outputSync';
+import { LiveState, applyChannelMessage, createLiveState, markLiveStateChanged, preciseNow } from './liveState';
+import { RenderScene, ShapeRenderer, createShapeRenderer } from './shapeRenderer';
+import { createClockState } from './clock';
+import { SceneTransition, findSceneForNote, findSceneForProgram } from './scenes';
+import { getOutlinePathData } from './geometry';
+import { BLEND_MODES } from './layers';
+
+// Exports show the stage the way the projector does: black background, no editing overlays,
+// and in unwarped shape space, since a preview clip is watched on a screen, not the surface
+
+export interface ExportSize {
+  width: number;
+  height: number;
+}
+
+export interface VideoExportSettings extends ExportSize {
+  fps: number;
+}
+
+export const EXPORT_SIZES: (ExportSize & { label: string })[] = [
+  { label: '1280 × 720', width: 1280, height: 720 },
+  { label: '1920 × 1080', width: 1920, height: 1080 },
+  { label: '1080 × 1080', width: 1080, height: 1080 },
+  { label: '1080 × 1920', width: 1080, height: 1920 },
+];
+
+export const EXPORT_FRAME_RATES = [24, 30, 60];
+
+export const DEFAULT_VIDEO_EXPORT: VideoExportSettings = { width: 1920, height: 1080, fps: 30 };
+
+const EXPORT_BACKGROUND = '#000000';
+
+const VIDEO_BITS_PER_SECOND = 8_000_000;
+
+// Preferred first; browsers differ in which WebM codecs MediaRecorder can write
+const WEBM_MIME_TYPES = ['video/webm;codecs=vp9', 'video/webm;codecs=vp8', 'video/webm'];
+
+// Take renders run on past the last event so releases fade out in the clip, within reason
+const MAX_RENDER_TAIL_MS = 5000;
+
+export const getWebmMimeType = (): string | null =>
+  typeof MediaRecorder === 'undefined' ? null : WEBM_MIME_TYPES.find(type => MediaRecorder.isTypeSupported(type)) ?? null;
+
+export const downloadBlob = (blob: Blob, fileName: string) => {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = fileName;
+  a.click();
+  URL.revokeObjectURL(url);
+};
+
+// "My Show" -> "my-show-2024-05-01-21-30-00.webm"
+export const getExportFileName = (projectName: string, extension: string): string => {
+  const slug = projectName.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '') || 'lumamap';
+  const stamp = new Date().toISOString().slice(0, 19).replace(/[:T]/g, '-');
+  return `${slug}-${stamp}.${extension}`;
+};
+
+const toRenderScene = (project: OutputProjectState): RenderScene => ({
+  shapes: project.shapes,
+  scenes: project.scenes,
+  activeSceneId: project.activeSceneId,
+  sceneTransition: project.sceneTransition,
+  mode: AppMode.PERFORMANCE,
+  selectedShapeIds: [],
+});
+
+// A renderer of its own on a detached canvas, so exports never depend on the editor's view
+const createExportRenderer = (
+  project: OutputProjectState,
+  assets: MediaAsset[],
+  live: LiveState,
+  size: ExportSize,
+  manual: boolean
+): { canvas: HTMLCanvasElement; renderer: ShapeRenderer } => {
+  const canvas = document.createElement('canvas');
+  const renderer = createShapeRenderer(canvas, live, { manual, background: EXPORT_BACKGROUND });
+  renderer.setSize(size.width, size.height, 1);
+  renderer.setAssets(assets);
+  renderer.setScene(toRenderScene(project));
+  return { canvas, renderer };
+};
+
+const createRecorder = (canvas: HTMLCanvasElement, frameRate: number) => {
+  const mimeType = getWebmMimeType();
+  if (!mimeType) throw new Error('This browser cannot record WebM video.');
+  const stream = canvas.captureStream(frameRate);
+  const recorder = new MediaRecorder(stream, { mimeType, videoBitsPerSecond: VIDEO_BITS_PER_SECOND });
+  const chunks: Blob[] = [];
+  recorder.ondataavailable = (event) => {
+    if (event.data.size > 0) chunks.push(event.data);
+  };
+  const finish = () => new Promise<Blob>(resolve => {
+    const done = () => {
+      stream.getTracks().forEach(track => track.stop());
+      resolve(new Blob(chunks, { type: 'video/webm' }));
+    };
+    if (recorder.state === 'inactive') return done();
+    recorder.onstop = done;
+    recorder.stop();
+  });
+  return { stream, recorder, finish };
+};
+
+const canvasToBlob = (canvas: HTMLCanvasElement, type: string) =>
+  new Promise<Blob>((resolve, reject) => {
+    canvas.toBlob(blob => blob ? resolve(blob) : reject(new Error('The frame could not be encoded.')), type);
+  });
+
+const wait = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+/** The current frame of the live output as a PNG. */
+export const snapshotPng = async (
+  project: OutputProjectState,
+  assets: MediaAsset[],
+  live: LiveState,
+  size: ExportSize
+): Promise<Blob> => {
+  const { canvas, renderer } = createExportRenderer(project, assets, live, size, true);
+  try {
+    await renderer.whenMediaReady();
+    renderer.renderFrame(preciseNow());
+    return await canvasToBlob(canvas, 'image/png');
+  } finally {
+    renderer.destroy();
+  }
+};
+
+export interface LiveVideoRecording {
+  // Edits and scene changes made while recording show up in the clip
+  setProject: (project: OutputProjectState, assets: MediaAsset[]) => void;
+  stop: () => Promise<Blob>;
+}
+
+/**
+ * Records the live output to WebM in real time while the performance runs. The recording
+ * renders from the shared live state on its own canvas, so it keeps going in either mode.
+ */
+export const startLiveVideoRecording = (
+  project: OutputProjectState,
+  assets: MediaAsset[],
+  live: LiveState,
+  settings: VideoExportSettings
+): LiveVideoRecording => {
+  const { canvas, renderer } = createExportRenderer(project, assets, live, settings, false);
+  let recorder: ReturnType<typeof createRecorder>;
+  try {
+    recorder = createRecorder(canvas, settings.fps);
+  } catch (err) {
+    renderer.destroy();
+    throw err;
+  }
+  recorder.recorder.start(1000);
+
+  return {
+    setProject: (next, nextAssets) => {
+      renderer.setAssets(nextAssets);
+      renderer.setScene(toRenderScene(next));
+    },
+    stop: async () => {
+      const blob = await recorder.finish();
+      renderer.destroy();
+      return blob;
+    },
+  };
+};
+
+/**
+ * Renders a take to WebM at a fixed frame rate. Every frame is drawn at its exact point in the
+ * take, independent of how long drawing takes, and scene recalls in the take are followed.
+ * MediaRecorder stamps frames with the wall clock, so frames are handed over in real time:
+ * a render takes as long as the take. Video fills play in real time alongside.
+ */
+export const renderTakeVideo = async (
+  project: OutputProjectState,
+  assets: MediaAsset[],
+  take: Take,
+  tempo: number,
+  settings: VideoExportSettings,
+  onProgress: (fraction: number) => void,
+  signal: AbortSignal
+): Promise<Blob> => {
+  // The take starts from a clean stage at the project's tempo, in the currently active scene
+  const start = preciseNow();
+  const live = createLiveState();
+  live.clock = createClockState(tempo, start);
+  let activeSceneId = project.activeSceneId;
+  let sceneTransition: SceneTransition | null = null;
+
+  const { canvas, renderer } = createExportRenderer({ ...project, sceneTransition }, assets, live, settings, true);
+  let recorder: ReturnType<typeof createRecorder>;
+  try {
+    recorder = createRecorder(canvas, 0);
+  } catch (err) {
+    renderer.destroy();
+    throw err;
+  }
+  const track = recorder.stream.getVideoTracks()[0] as CanvasCaptureMediaStreamTrack;
+
+  try {
+    await renderer.whenMediaReady();
+    recorder.recorder.start(1000);
+
+    const frameMs = 1000 / settings.fps;
+    const tail = Math.min(MAX_RENDER_TAIL_MS, Math.max(0, ...project.shapes.map(shape => shape.envelope.release)));
+    const frameCount = Math.ceil((take.duration + tail) / frameMs) + 1;
+    const { events } = take;
+    let nextEvent = 0;
+    let reportedPercent = -1;
+    const handOverStart = performance.now();
+
+    for (let frame = 0; frame < frameCount; frame++) {
+      if (signal.aborted) throw new DOMException('The export was cancelled.', 'AbortError');
+      const time = frame * frameMs;
+      const now = start + time;
+
+      let changed = false;
+      for (; nextEvent < events.length && events[nextEvent].time <= time; nextEvent++) {
+        const { inputId, message } = events[nextEvent];
+        const eventAt = start + events[nextEvent].time;
+        const scene = message.type === 'programChange'
+          ? findSceneForProgram(project.scenes, message.channel, message.program)
+          : message.type === 'noteOn' ? findSceneForNote(project.scenes, message.channel, message.note) : undefined;
+        if (scene && scene.id !== activeSceneId) {
+          sceneTransition = { fromSceneId: activeSceneId, toSceneId: scene.id, startedAt: eventAt, duration: scene.crossfade };
+          activeSceneId = scene.id;
+          renderer.setScene(toRenderScene({ ...project, activeSceneId, sceneTransition }));
+        }
+        applyChannelMessage(live, inputId, message, eventAt);
+        changed = true;
+      }
+      if (changed) markLiveStateChanged(live, now);
+
+      renderer.renderFrame(now);
+      track.requestFrame();
+      // Progress is reported per whole percent, not per frame, to spare the UI
+      const percent = Math.floor(((frame + 1) / frameCount) * 100);
+      if (percent !== reportedPercent) onProgress((reportedPercent = percent) / 100);
+
+      // Waiting out the rest of the frame also keeps the page responsive
+      await wait(Math.max(0, handOverStart + (frame + 1) * frameMs - performance.now()));
+    }
+    return await recorder.finish();
+  } catch (err) {
+    await recorder.finish();
+    throw err;
+  } finally {
+    renderer.destroy();
+  }
+};
+
+const escapeXml = (text: string) =>
+  text.replace(/[&<>"']/g, c => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&apos;' })[c]!);
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+/**
+ * The static shape layout as an SVG document: one path per shape in its base color,
+ * at the given size, with shape names as labels. Useful as a template in other tools.
+ * Blend modes carry over as mix-blend-mode; masks are drawn as dashed outlines.
+ */
+export const shapesToSvg = (shapes: Shape[], size: ExportSize): string => {
+  const { width, height } = size;
+  const fontSize = round(Math.max(9, height * 0.02));
+  const lines = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}">`,
+    `  <rect width="${width}" height="${height}" fill="${EXPORT_BACKGROUND}"/>`,
+  ];
+  for (const shape of shapes) {
+    if (shape.points.length < 3) continue;
+    const path = getOutlinePathData(shape, p => ({ x: (p.x / 100) * width, y: (p.y / 100) * height }));
+    const label = shape.points[0];
+    const name = escapeXml(shape.name);
+    const blend = BLEND_MODES.find(b => b.value === shape.blendMode);
+    // Masks are marked by a dashed outline rather than filled, as they carry no light themselves
+    const paint = shape.mask !== 'none'
+      ? `fill="none" stroke="#f472b6" stroke-width="1" stroke-dasharray="6 3"`
+      : `fill="${escapeXml(shape.color)}" fill-opacity="${round(shape.baseOpacity)}" stroke="#ffffff" stroke-opacity="0.5" stroke-width="1"`;
+    lines.push(
+      blend && blend.value !== 'normal'
+        ? `  <g id="shape-${escapeXml(shape.id)}" style="mix-blend-mode: ${blend.css}">`
+        : `  <g id="shape-${escapeXml(shape.id)}">`,
+      `    <title>${name}</title>`,
+      `    <path d="${path}" ${paint}/>`,
+      `    <text x="${round((label.x / 100) * width)}" y="${round((label.y / 100) * height - height * 0.01)}" font-family="sans-serif" font-size="${fontSize}" fill="#ffffff">${name}</text>`,
+      '  </g>'
+    );
+  }
+  lines.push('</svg>', '');
+  return lines.join('\n');
+};
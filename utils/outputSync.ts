@@ -0,0 +1,50 @@
+import { Shape, Scene, OutputWarp, MediaAsset, ActiveNotesMap, ControllerValuesMap } from '../types';
+import { SceneTransition } from './scenes';
+import { ClockState } from './clock';
+
+// Editor and projector output windows talk over this channel (same origin only)
+export const OUTPUT_CHANNEL_NAME = 'lumamap-output';
+
+// Query parameter that turns a window into a bare projector output
+export const OUTPUT_WINDOW_PARAM = 'output';
+
+// Everything the output needs that changes with edits, not with every MIDI message
+export interface OutputProjectState {
+  shapes: Shape[];
+  scenes: Scene[];
+  activeSceneId: string | null;
+  sceneTransition: SceneTransition | null;
+  outputWarp: OutputWarp;
+}
+
+// Live performance state, sent whenever MIDI or the clock changes it; Maps survive structured clone as-is
+export interface OutputLiveState {
+  activeNotes: ActiveNotesMap;
+  controllerValues: ControllerValuesMap;
+  clock: ClockState;
+  messageAt: number; // precise epoch ms of the newest MIDI message, for latency readings
+}
+
+export type OutputMessage =
+  | { type: 'project'; state: OutputProjectState }
+  | { type: 'live'; state: OutputLiveState }
+  | { type: 'assets'; assets: MediaAsset[] }
+  | { type: 'hello'; outputId: string }   // output opened and wants a full snapshot
+  | { type: 'goodbye'; outputId: string }; // output closed; the id tells several open outputs apart
+
+export const isOutputWindow = (): boolean =>
+  new URLSearchParams(window.location.search).has(OUTPUT_WINDOW_PARAM);
+
+export const getOutputWindowUrl = (): string => {
+  const url = new URL(window.location.href);
+  url.search = `?${OUTPUT_WINDOW_PARAM}`;
+  url.hash = '';
+  return url.toString();
+};
+
+export const openOutputChannel = (): BroadcastChannel | null =>
+  typeof BroadcastChannel === 'undefined' ? null : new BroadcastChannel(OUTPUT_CHANNEL_NAME);
+
+export const postOutputMessage = (channel: BroadcastChannel, message: OutputMessage) => {
+  channel.postMessage(message);
+};
@@ -0,0 +1,145 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_ENVELOPE } from './envelope';
+import { DEFAULT_FILL } from './fills';
+import { DEFAULT_EFFECT, DEFAULT_TEMPO } from './effects';
+import { DEFAULT_OUTPUT_WARP } from './homography';
+import { DEFAULT_REFERENCE_LAYER } from './reference';
+import { PROJECT_FILE_FORMAT, PROJECT_FORMAT_VERSION, ProjectFile, parseProjectData, parseProjectText, repairProjectData } from './projectFormat';
+
+// The fields a shape has had since the first release
+const legacyShape = {
+  id: 'a', name: 'Kick', points: [{ x: 0, y: 0 }, { x: 10, y: 0 }, { x: 10, y: 10 }],
+  channel: 10, noteStart: 36, noteEnd: 36, color: '#ff0000', velocitySensitive: true, baseOpacity: 0,
+};
+
+// A current file whose later fields all hold the values the migrations fill in
+const currentFile = (): ProjectFile => ({
+  format: PROJECT_FILE_FORMAT,
+  version: PROJECT_FORMAT_VERSION,
+  metadata: { name: 'Set', createdAt: 1, updatedAt: 2 },
+  shapes: [{
+    ...legacyShape,
+    inputId: '', envelope: { ...DEFAULT_ENVELOPE }, modulations: [], fill: { ...DEFAULT_FILL }, effect: { ...DEFAULT_EFFECT },
+    distribution: 'whole', curves: [null, null, null], groupId: null, blendMode: 'normal', mask: 'none',
+  }],
+  groups: [],
+  scenes: [],
+  activeSceneId: null,
+  assets: [],
+  takes: [],
+  settings: { outputWarp: DEFAULT_OUTPUT_WARP, tempo: DEFAULT_TEMPO, reference: { ...DEFAULT_REFERENCE_LAYER } },
+});
+
+// The same file as an older build wrote it, before later versions added their fields
+const atVersion = (version: number) => {
+  const file = structuredClone(currentFile());
+  const shape = file.shapes[0];
+  file.version = version;
+  if (version < 12) { delete shape.blendMode; delete shape.mask; }
+  if (version < 11) { delete shape.groupId; delete file.groups; }
+  if (version < 10) delete shape.curves;
+  if (version < 9) delete file.settings.reference;
+  if (version < 8) delete file.takes;
+  if (version < 7) { delete shape.effect.steps; delete shape.effect.step; }
+  if (version < 6) delete shape.distribution;
+  if (version < 5) { delete shape.effect; delete file.settings.tempo; }
+  if (version < 4) { delete shape.fill; delete file.assets; }
+  if (version < 3) delete file.settings.outputWarp;
+  if (version < 2) { delete file.scenes; delete file.activeSceneId; }
+  return file;
+};
+
+// One bad value of each kind the validator checks
+const brokenFile = () => {
+  const file = structuredClone(currentFile());
+  Object.assign(file.shapes[0].points[1], { x: 'left' });
+  file.shapes[0].channel = 17;
+  file.shapes[0].color = 'red';
+  file.activeSceneId = 'gone';
+  file.settings.tempo = NaN;
+  return file;
+};
+
+const BROKEN_PATHS = ['shapes[0].points[1].x', 'shapes[0].channel', 'shapes[0].color', 'activeSceneId', 'settings.tempo'];
+
+describe('parseProjectData', () => {
+  it('upgrades a bare v0 shape array', () => {
+    const result = parseProjectData([legacyShape]);
+    expect(result.issues).toEqual([]);
+    expect(result.file).toMatchObject({ version: PROJECT_FORMAT_VERSION, metadata: { name: '' } });
+    expect(result.file!.shapes).toEqual(currentFile().shapes);
+    expect(result.file!.settings).toEqual(currentFile().settings);
+  });
+
+  it.each(Array.from({ length: PROJECT_FORMAT_VERSION - 1 }, (_, i) => i + 1))('upgrades a v%i file one step at a time', version => {
+    expect(parseProjectData(atVersion(version))).toEqual({ file: currentFile(), issues: [] });
+  });
+
+  it('reads a current file as is', () => {
+    expect(parseProjectData(currentFile())).toEqual({ file: currentFile(), issues: [] });
+  });
+
+  it('rejects files from a newer version', () => {
+    const result = parseProjectData({ ...currentFile(), version: PROJECT_FORMAT_VERSION + 1 });
+    expect(result.file).toBeNull();
+    expect(result.issues).toHaveLength(1);
+    expect(result.issues[0].path).toBe('version');
+    expect(result.issues[0].message).toContain('newer');
+  });
+
+  it('rejects anything that is not a project', () => {
+    expect(parseProjectData({ shapes: [] }).issues).toEqual([{ path: '', message: 'Not a LumaMap project file.' }]);
+    expect(parseProjectData({ format: PROJECT_FILE_FORMAT, version: 0 }).issues[0].path).toBe('');
+    expect(parseProjectText('{').issues[0].message).toContain('Not valid JSON');
+  });
+
+  it('reports every bad field by path', () => {
+    const result = parseProjectData(brokenFile());
+    expect(result.file).toBeNull();
+    expect(result.issues.map(i => i.path)).toEqual(BROKEN_PATHS);
+    expect(result.issues[1].message).toBe('must be between 0 and 16 (got 17)');
+  });
+});
+
+describe('repairProjectData', () => {
+  it('clamps and resets bad fields and lists each one', () => {
+    const result = repairProjectData(brokenFile());
+    expect(result.issues.map(i => i.path)).toEqual(BROKEN_PATHS);
+    expect(result.file!.shapes[0]).toMatchObject({ channel: 16, color: '#ffffff', points: [{ x: 0 }, { x: 0 }, { x: 10 }] });
+    expect(result.file!.activeSceneId).toBeNull();
+    expect(result.file!.settings.tempo).toBe(DEFAULT_TEMPO);
+  });
+
+  it('rebuilds broken objects and checks them again', () => {
+    const file = structuredClone(currentFile());
+    file.shapes.push(Object.assign({ ...file.shapes[0] }, { effect: 'flash' }));
+    const result = repairProjectData(file);
+    expect(result.issues.map(i => i.path)).toEqual(['shapes[1].effect', 'shapes[1].id']);
+    expect(result.file!.shapes[1].effect).toEqual(DEFAULT_EFFECT);
+    expect(result.file!.shapes[1].id).not.toBe('a');
+  });
+
+  it('leaves a current file alone', () => {
+    expect(repairProjectData(currentFile())).toEqual({ file: currentFile(), issues: [] });
+  });
+
+  it('leaves out shapes that can never be drawn', () => {
+    const file = structuredClone(currentFile());
+    file.shapes.push({ ...structuredClone(file.shapes[0]), id: 'b' });
+    file.shapes[0].points.pop();
+    expect(parseProjectData(file).file).toBeNull();
+
+    const result = repairProjectData(file);
+    expect(result.file!.shapes.map(s => s.id)).toEqual(['b']);
+    expect(result.issues).toContainEqual({ path: 'shapes[0].points', message: 'needs at least 3 points (got 2), so shapes[0] was removed' });
+  });
+
+  it('gives up on what it cannot rebuild', () => {
+    const file = structuredClone(currentFile());
+    Object.assign(file.shapes[0], { points: 'none', channel: 17 });
+    expect(repairProjectData(file)).toEqual({
+      file: null,
+      issues: [{ path: 'shapes[0].points', message: 'must be a list' }],
+    });
+  });
+});
@@ -0,0 +1,582 @@
+import { Project, ProjectSettings, Scene, Shape, ShapeGroup, MediaAsset, Take, ModulationSource, ModulationTarget, ModulationCurve, FillType, PatternKind, EffectType, WipeDirection, DistributionMode, BlendMode, MaskMode } from '../types';
+import { DEFAULT_ENVELOPE } from './envelope';
+import { MODULATION_SOURCES, MODULATION_TARGETS, MODULATION_CURVES } from './modulation';
+import { DEFAULT_OUTPUT_WARP } from './homography';
+import { DEFAULT_FILL, FILL_TYPES, PATTERN_KINDS } from './fills';
+import { MAX_TEMPO, MIN_TEMPO } from './clock';
+import { DEFAULT_EFFECT, DEFAULT_TEMPO, EFFECT_TYPES, MAX_CHASE_STEPS, WIPE_DIRECTIONS } from './effects';
+import { DISTRIBUTION_MODES } from './distribution';
+import { CHANNEL_MESSAGE_FIELDS } from './takes';
+import { BLEND_MODES, MASK_MODES } from './layers';
+import { DEFAULT_REFERENCE_LAYER, MAX_REFERENCE_OFFSET, MAX_REFERENCE_SCALE, MIN_REFERENCE_SCALE, REFERENCE_SOURCES } from './reference';
+
+// Versioned project file format: envelope, validation and migrations from older builds
+
+export const PROJECT_FILE_FORMAT = 'lumamap-project';
+export const PROJECT_FORMAT_VERSION = 12;
+
+export const DEFAULT_PROJECT_SETTINGS: ProjectSettings = {
+  outputWarp: DEFAULT_OUTPUT_WARP,
+  tempo: DEFAULT_TEMPO,
+  reference: DEFAULT_REFERENCE_LAYER,
+};
+
+export interface ProjectFile {
+  format: typeof PROJECT_FILE_FORMAT;
+  version: number;
+  metadata: {
+    name: string;
+    createdAt: number;
+    updatedAt: number;
+  };
+  shapes: Shape[];
+  groups: ShapeGroup[];
+  scenes: Scene[];
+  activeSceneId: string | null;
+  assets: MediaAsset[];
+  takes: Take[];
+  settings: ProjectSettings;
+}
+
+export interface ValidationIssue {
+  path: string; // e.g. "shapes[2].points[0].x"
+  message: string;
+}
+
+// `file` is set only when there are no issues; after repairProjectData, when every issue could be fixed
+export interface ProjectParseResult {
+  file: ProjectFile | null;
+  issues: ValidationIssue[];
+}
+
+export const projectToFile = (project: Project): ProjectFile => ({
+  format: PROJECT_FILE_FORMAT,
+  version: PROJECT_FORMAT_VERSION,
+  metadata: {
+    name: project.name,
+    createdAt: project.createdAt,
+    updatedAt: project.updatedAt,
+  },
+  shapes: project.shapes,
+  groups: project.groups,
+  scenes: project.scenes,
+  activeSceneId: project.activeSceneId,
+  assets: project.assets,
+  takes: project.takes,
+  settings: project.settings,
+});
+
+// --- Migrations ---
+// MIGRATIONS[n] upgrades a version n document to version n + 1. They run before validation,
+// so each one only touches the parts that already have the expected shape.
+
+type ProjectDocument = Record<string, unknown>;
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const mapShapes = (data: ProjectDocument, update: (shape: Record<string, unknown>) => Record<string, unknown>) =>
+  Array.isArray(data.shapes) ? data.shapes.map((s: unknown) => isObject(s) ? update(s) : s) : data.shapes;
+
+const withSettings = (data: ProjectDocument, added: Record<string, unknown>) =>
+  ({ ...(isObject(data.settings) ? data.settings : {}), ...added });
+
+// v0: a bare Shape[] array, possibly from before envelopes, modulation and input routing existed
+const upgradeV0 = (shapes: unknown[]): ProjectDocument => {
+  const now = Date.now();
+  return {
+    format: PROJECT_FILE_FORMAT,
+    version: 1,
+    // v0 files carry no name; callers fall back to the file name
+    metadata: { name: '', createdAt: now, updatedAt: now },
+    shapes: shapes.map(s => isObject(s)
+      ? {
+          ...s,
+          inputId: s.inputId ?? '',
+          envelope: { ...DEFAULT_ENVELOPE, ...(isObject(s.envelope) ? s.envelope : {}) },
+          modulations: s.modulations ?? [],
+        }
+      : s),
+    settings: {},
+  };
+};
+
+const MIGRATIONS: Record<number, (data: ProjectDocument) => ProjectDocument> = {
+  // v1 -> v2: scenes
+  1: data => ({ ...data, version: 2, scenes: [], activeSceneId: null }),
+  // v2 -> v3: output warp (corner pin), off by default
+  2: data => ({ ...data, version: 3, settings: withSettings(data, { outputWarp: DEFAULT_OUTPUT_WARP }) }),
+  // v3 -> v4: fill styles and embedded media; existing shapes keep their flat color
+  3: data => ({ ...data, version: 4, shapes: mapShapes(data, s => ({ ...s, fill: { ...DEFAULT_FILL } })), assets: [] }),
+  // v4 -> v5: per-hit effects and the project tempo they sync to
+  4: data => ({
+    ...data,
+    version: 5,
+    shapes: mapShapes(data, s => ({ ...s, effect: { ...DEFAULT_EFFECT } })),
+    settings: withSettings(data, { tempo: DEFAULT_TEMPO }),
+  }),
+  // v5 -> v6: note-range distribution; existing shapes light as a whole
+  5: data => ({ ...data, version: 6, shapes: mapShapes(data, s => ({ ...s, distribution: 'whole' })) }),
+  // v6 -> v7: clock-driven chase steps on effects
+  6: data => ({
+    ...data,
+    version: 7,
+    shapes: mapShapes(data, s => isObject(s.effect)
+      ? { ...s, effect: { ...s.effect, steps: DEFAULT_EFFECT.steps, step: DEFAULT_EFFECT.step } }
+      : s),
+  }),
+  // v7 -> v8: recorded and imported MIDI takes
+  7: data => ({ ...data, version: 8, takes: [] }),
+  // v8 -> v9: edit-mode reference background, off by default
+  8: data => ({ ...data, version: 9, settings: withSettings(data, { reference: { ...DEFAULT_REFERENCE_LAYER } }) }),
+  // v9 -> v10: curved edges; existing shapes keep straight ones
+  9: data => ({
+    ...data,
+    version: 10,
+    shapes: mapShapes(data, s => Array.isArray(s.points) ? { ...s, curves: s.points.map(() => null) } : s),
+  }),
+  // v10 -> v11: shape groups; existing shapes are ungrouped
+  10: data => ({ ...data, version: 11, shapes: mapShapes(data, s => ({ ...s, groupId: null })), groups: [] }),
+  // v11 -> v12: blend modes and mask shapes; existing shapes draw normally
+  11: data => ({ ...data, version: 12, shapes: mapShapes(data, s => ({ ...s, blendMode: 'normal', mask: 'none' })) }),
+};
+
+export const migrateProjectData = (data: unknown): { data: unknown; issues: ValidationIssue[] } => {
+  // Bare arrays are v0; anything else must declare its version, v1 or later
+  const document = Array.isArray(data) ? upgradeV0(data) : data;
+  const version = isObject(document) && document.format === PROJECT_FILE_FORMAT ? document.version : null;
+  if (!isObject(document) || typeof version !== 'number' || !Number.isInteger(version) || version < 1) {
+    return { data, issues: [{ path: '', message: 'Not a LumaMap project file.' }] };
+  }
+  if (version > PROJECT_FORMAT_VERSION) {
+    return {
+      data,
+      issues: [{ path: 'version', message: `Saved by a newer LumaMap (format v${version}); this build reads up to v${PROJECT_FORMAT_VERSION}.` }],
+    };
+  }
+
+  let current = document;
+  for (let v = version; v < PROJECT_FORMAT_VERSION; v++) {
+    current = MIGRATIONS[v](current);
+  }
+  return { data: current, issues: [] };
+};
+
+// --- Validation ---
+
+type Validator = ReturnType<typeof createValidator>;
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+
+// A repair for one issue: a safe value for the field, or the path of a list entry to leave out
+type Fix = { value: unknown } | { drop: string };
+
+// Collects every problem instead of stopping at the first one. Where a repair exists it is
+// recorded next to the issue (fixes[i] belongs to issues[i]) so repairProjectData can apply it.
+const createValidator = () => {
+  const issues: ValidationIssue[] = [];
+  const fixes: (Fix | undefined)[] = [];
+  const fail = (path: string, message: string, fix?: Fix) => {
+    issues.push({ path, message });
+    fixes.push(fix);
+  };
+
+  return {
+    issues,
+    fixes,
+    fail,
+    string: (value: unknown, path: string, fallback: string | null = ''): value is string => {
+      if (typeof value !== 'string') {
+        fail(path, 'must be text', { value: fallback });
+        return false;
+      }
+      return true;
+    },
+    boolean: (value: unknown, path: string) => {
+      if (typeof value !== 'boolean') fail(path, 'must be true or false', { value: false });
+    },
+    number: (value: unknown, path: string, min = -Infinity, max = Infinity, fallback = clamp(0, min, max)) => {
+      if (typeof value !== 'number' || !Number.isFinite(value)) {
+        fail(path, 'must be a number', { value: fallback });
+      } else if (value < min || value > max) {
+        fail(path, `must be between ${min} and ${max} (got ${value})`, { value: clamp(value, min, max) });
+      }
+    },
+    integer: (value: unknown, path: string, min: number, max: number) => {
+      if (typeof value !== 'number' || !Number.isInteger(value)) {
+        const rounded = typeof value === 'number' && Number.isFinite(value) ? Math.round(value) : 0;
+        fail(path, 'must be a whole number', { value: clamp(rounded, min, max) });
+      } else if (value < min || value > max) {
+        fail(path, `must be between ${min} and ${max} (got ${value})`, { value: clamp(value, min, max) });
+      }
+    },
+    nullableInteger: (value: unknown, path: string, min: number, max: number) => {
+      if (value === null) return;
+      if (typeof value !== 'number' || !Number.isInteger(value)) {
+        fail(path, 'must be a whole number or empty', { value: null });
+      } else if (value < min || value > max) {
+        fail(path, `must be between ${min} and ${max} (got ${value})`, { value: clamp(value, min, max) });
+      }
+    },
+    oneOf: <T,>(value: unknown, path: string, allowed: readonly T[]) => {
+      if (!allowed.includes(value as T)) fail(path, `must be one of ${allowed.join(', ')}`, { value: allowed[0] });
+    },
+    // Without a fallback a broken object or list cannot be repaired
+    object: (value: unknown, path: string, fallback?: unknown): value is Record<string, unknown> => {
+      if (!isObject(value)) {
+        fail(path, 'must be an object', fallback === undefined ? undefined : { value: fallback });
+        return false;
+      }
+      return true;
+    },
+    array: (value: unknown, path: string, fallback?: unknown[]): value is unknown[] => {
+      if (!Array.isArray(value)) {
+        fail(path, 'must be a list', fallback && { value: fallback });
+        return false;
+      }
+      return true;
+    },
+  };
+};
+
+const MODULATION_SOURCE_VALUES: ModulationSource[] = MODULATION_SOURCES.map(s => s.value);
+const MODULATION_TARGET_VALUES: ModulationTarget[] = MODULATION_TARGETS.map(t => t.value);
+const MODULATION_CURVE_VALUES: ModulationCurve[] = MODULATION_CURVES.map(c => c.value);
+const FILL_TYPE_VALUES: FillType[] = FILL_TYPES.map(f => f.value);
+const PATTERN_KIND_VALUES: PatternKind[] = PATTERN_KINDS.map(p => p.value);
+const EFFECT_TYPE_VALUES: EffectType[] = EFFECT_TYPES.map(e => e.value);
+const WIPE_DIRECTION_VALUES: WipeDirection[] = WIPE_DIRECTIONS.map(d => d.value);
+const DISTRIBUTION_MODE_VALUES: DistributionMode[] = DISTRIBUTION_MODES.map(m => m.value);
+const BLEND_MODE_VALUES: BlendMode[] = BLEND_MODES.map(b => b.value);
+const MASK_MODE_VALUES: MaskMode[] = MASK_MODES.map(m => m.value);
+
+const isHexColor = (value: unknown) => typeof value === 'string' && /^#[0-9a-f]{6}$/i.test(value);
+
+const validateShape = (v: Validator, shape: unknown, path: string, assetIds: Set<string>, groupIds: Set<string>) => {
+  if (!v.object(shape, path)) return;
+
+  v.string(shape.id, `${path}.id`, crypto.randomUUID());
+  v.string(shape.name, `${path}.name`);
+  if (shape.groupId !== null) {
+    if (v.string(shape.groupId, `${path}.groupId`, null) && !groupIds.has(shape.groupId)) v.fail(`${path}.groupId`, 'refers to a group that is not in the file', { value: null });
+  }
+
+  if (v.array(shape.points, `${path}.points`)) {
+    // Such a shape is never drawn, so a repair leaves it out rather than inventing points
+    if (shape.points.length < 3) v.fail(`${path}.points`, `needs at least 3 points (got ${shape.points.length})`, { drop: path });
+    shape.points.forEach((p: unknown, i: number) => {
+      if (!v.object(p, `${path}.points[${i}]`, { x: 0, y: 0 })) return;
+      v.number(p.x, `${path}.points[${i}].x`);
+      v.number(p.y, `${path}.points[${i}].y`);
+    });
+  }
+
+  // Broken curves fall back to straight edges
+  const straightEdges = Array.isArray(shape.points) ? shape.points.map(() => null) : undefined;
+  if (v.array(shape.curves, `${path}.curves`, straightEdges)) {
+    if (straightEdges && shape.curves.length !== straightEdges.length) {
+      v.fail(`${path}.curves`, `needs one entry per point (got ${shape.curves.length} for ${straightEdges.length} points)`, { value: straightEdges });
+    }
+    shape.curves.forEach((curve: unknown, i: number) => {
+      if (curve === null || !v.object(curve, `${path}.curves[${i}]`, null)) return;
+      for (const handle of ['c1', 'c2']) {
+        const c = curve[handle];
+        if (!v.object(c, `${path}.curves[${i}].${handle}`)) continue;
+        v.number(c.x, `${path}.curves[${i}].${handle}.x`);
+        v.number(c.y, `${path}.curves[${i}].${handle}.y`);
+      }
+    });
+  }
+
+  v.string(shape.inputId, `${path}.inputId`);
+  v.integer(shape.channel, `${path}.channel`, 0, 16);
+  v.integer(shape.noteStart, `${path}.noteStart`, 0, 127);
+  v.integer(shape.noteEnd, `${path}.noteEnd`, 0, 127);
+  v.oneOf(shape.distribution, `${path}.distribution`, DISTRIBUTION_MODE_VALUES);
+
+  if (!isHexColor(shape.color)) v.fail(`${path}.color`, 'must be a hex color like #00ffcc', { value: '#ffffff' });
+  v.boolean(shape.velocitySensitive, `${path}.velocitySensitive`);
+  v.number(shape.baseOpacity, `${path}.baseOpacity`, 0, 1);
+  v.oneOf(shape.blendMode, `${path}.blendMode`, BLEND_MODE_VALUES);
+  v.oneOf(shape.mask, `${path}.mask`, MASK_MODE_VALUES);
+
+  if (v.object(shape.fill, `${path}.fill`, { ...DEFAULT_FILL })) {
+    const fill = shape.fill;
+    v.oneOf(fill.type, `${path}.fill.type`, FILL_TYPE_VALUES);
+    if (!isHexColor(fill.secondaryColor)) {
+      v.fail(`${path}.fill.secondaryColor`, 'must be a hex color like #00ffcc', { value: DEFAULT_FILL.secondaryColor });
+    }
+    v.number(fill.angle, `${path}.fill.angle`);
+    if (fill.assetId !== null) {
+      if (v.string(fill.assetId, `${path}.fill.assetId`, null) && !assetIds.has(fill.assetId)) v.fail(`${path}.fill.assetId`, 'refers to a media asset that is not in the file', { value: null });
+    }
+    v.oneOf(fill.pattern, `${path}.fill.pattern`, PATTERN_KIND_VALUES);
+    v.number(fill.speed, `${path}.fill.speed`, 0);
+    v.boolean(fill.velocitySpeed, `${path}.fill.velocitySpeed`);
+  }
+
+  if (v.object(shape.effect, `${path}.effect`, { ...DEFAULT_EFFECT })) {
+    const effect = shape.effect;
+    v.oneOf(effect.type, `${path}.effect.type`, EFFECT_TYPE_VALUES);
+    v.number(effect.duration, `${path}.effect.duration`, 0);
+    v.number(effect.rate, `${path}.effect.rate`, 0.01);
+    v.oneOf(effect.direction, `${path}.effect.direction`, WIPE_DIRECTION_VALUES);
+    v.number(effect.amount, `${path}.effect.amount`);
+    v.boolean(effect.velocityIntensity, `${path}.effect.velocityIntensity`);
+    v.integer(effect.steps, `${path}.effect.steps`, 1, MAX_CHASE_STEPS);
+    v.integer(effect.step, `${path}.effect.step`, 0, typeof effect.steps === 'number' && Number.isInteger(effect.steps) ? effect.steps - 1 : MAX_CHASE_STEPS - 1);
+  }
+
+  if (v.object(shape.envelope, `${path}.envelope`, { ...DEFAULT_ENVELOPE })) {
+    v.number(shape.envelope.attack, `${path}.envelope.attack`, 0);
+    v.number(shape.envelope.decay, `${path}.envelope.decay`, 0);
+    v.number(shape.envelope.sustain, `${path}.envelope.sustain`, 0, 1);
+    v.number(shape.envelope.release, `${path}.envelope.release`, 0);
+  }
+
+  if (v.array(shape.modulations, `${path}.modulations`, [])) {
+    shape.modulations.forEach((m: unknown, i: number) => {
+      const mPath = `${path}.modulations[${i}]`;
+      if (!v.object(m, mPath)) return;
+      v.string(m.id, `${mPath}.id`, crypto.randomUUID());
+      v.oneOf(m.source, `${mPath}.source`, MODULATION_SOURCE_VALUES);
+      v.integer(m.channel, `${mPath}.channel`, 0, 16);
+      v.integer(m.controller, `${mPath}.controller`, 0, 127);
+      v.oneOf(m.target, `${mPath}.target`, MODULATION_TARGET_VALUES);
+      v.number(m.min, `${mPath}.min`);
+      v.number(m.max, `${mPath}.max`);
+      v.oneOf(m.curve, `${mPath}.curve`, MODULATION_CURVE_VALUES);
+    });
+  }
+};
+
+// Members may name shapes that were deleted later; those entries are inert, so they are not an error
+const validateScene = (v: Validator, scene: unknown, path: string) => {
+  if (!v.object(scene, path)) return;
+
+  v.string(scene.id, `${path}.id`, crypto.randomUUID());
+  v.string(scene.name, `${path}.name`);
+  v.nullableInteger(scene.programNumber, `${path}.programNumber`, 0, 127);
+  v.nullableInteger(scene.triggerNote, `${path}.triggerNote`, 0, 127);
+  v.integer(scene.triggerChannel, `${path}.triggerChannel`, 0, 16);
+  v.number(scene.crossfade, `${path}.crossfade`, 0);
+
+  if (v.object(scene.members, `${path}.members`, {})) {
+    for (const [shapeId, override] of Object.entries(scene.members)) {
+      const mPath = `${path}.members.${shapeId}`;
+      if (!v.object(override, mPath)) continue;
+      if (override.color !== undefined && !isHexColor(override.color)) {
+        v.fail(`${mPath}.color`, 'must be a hex color like #00ffcc', { value: undefined });
+      }
+      if (override.channel !== undefined) v.integer(override.channel, `${mPath}.channel`, 0, 16);
+      if (override.noteStart !== undefined) v.integer(override.noteStart, `${mPath}.noteStart`, 0, 127);
+      if (override.noteEnd !== undefined) v.integer(override.noteEnd, `${mPath}.noteEnd`, 0, 127);
+    }
+  }
+};
+
+const CHANNEL_MESSAGE_TYPES = Object.keys(CHANNEL_MESSAGE_FIELDS);
+
+const validateTake = (v: Validator, take: unknown, path: string) => {
+  if (!v.object(take, path)) return;
+  v.string(take.id, `${path}.id`, crypto.randomUUID());
+  v.string(take.name, `${path}.name`);
+  v.number(take.duration, `${path}.duration`, 0);
+  if (!v.array(take.events, `${path}.events`, [])) return;
+
+  let previousTime = 0;
+  take.events.forEach((event: unknown, i: number) => {
+    const ePath = `${path}.events[${i}]`;
+    if (!v.object(event, ePath)) return;
+    v.number(event.time, `${ePath}.time`, previousTime);
+    if (typeof event.time === 'number') previousTime = event.time;
+    v.string(event.inputId, `${ePath}.inputId`);
+    const message = event.message;
+    if (!v.object(message, `${ePath}.message`)) return;
+    v.oneOf(message.type, `${ePath}.message.type`, CHANNEL_MESSAGE_TYPES);
+    v.integer(message.channel, `${ePath}.message.channel`, 1, 16);
+    const fields = CHANNEL_MESSAGE_FIELDS[message.type as keyof typeof CHANNEL_MESSAGE_FIELDS];
+    if (!fields) return;
+    for (const [field, max] of Object.entries(fields)) {
+      v.integer(message[field], `${ePath}.message.${field}`, 0, max);
+    }
+  });
+};
+
+const validateProjectFile = (v: Validator, data: unknown) => {
+  if (!v.object(data, '')) return;
+
+  if (v.object(data.metadata, 'metadata', { name: '', createdAt: 0, updatedAt: 0 })) {
+    v.string(data.metadata.name, 'metadata.name');
+    v.number(data.metadata.createdAt, 'metadata.createdAt', 0);
+    v.number(data.metadata.updatedAt, 'metadata.updatedAt', 0);
+  }
+
+  // Assets first, so shape fills can be checked against them
+  const assetIds = new Set<string>();
+  if (v.array(data.assets, 'assets', [])) {
+    data.assets.forEach((asset: unknown, i: number) => {
+      const aPath = `assets[${i}]`;
+      if (!v.object(asset, aPath)) return;
+      v.string(asset.id, `${aPath}.id`, crypto.randomUUID());
+      v.string(asset.name, `${aPath}.name`);
+      if (typeof asset.mimeType !== 'string' || !/^(image|video)\//.test(asset.mimeType)) {
+        v.fail(`${aPath}.mimeType`, 'must be an image or video type');
+      }
+      if (typeof asset.dataUrl !== 'string' || !asset.dataUrl.startsWith('data:')) {
+        v.fail(`${aPath}.dataUrl`, 'must be an embedded data URL');
+      }
+      if (typeof asset.id === 'string') assetIds.add(asset.id);
+    });
+  }
+
+  // Groups before shapes, so memberships can be checked against them
+  const groupIds = new Set<string>();
+  if (v.array(data.groups, 'groups', [])) {
+    data.groups.forEach((group: unknown, i: number) => {
+      const gPath = `groups[${i}]`;
+      if (!v.object(group, gPath)) return;
+      v.string(group.id, `${gPath}.id`, crypto.randomUUID());
+      v.string(group.name, `${gPath}.name`);
+      v.boolean(group.shareMidi, `${gPath}.shareMidi`);
+      if (typeof group.id === 'string') groupIds.add(group.id);
+    });
+  }
+
+  if (v.array(data.shapes, 'shapes', [])) {
+    const seenIds = new Set<string>();
+    data.shapes.forEach((shape: unknown, i: number) => {
+      validateShape(v, shape, `shapes[${i}]`, assetIds, groupIds);
+      if (isObject(shape) && typeof shape.id === 'string') {
+        if (seenIds.has(shape.id)) v.fail(`shapes[${i}].id`, `duplicates another shape's id "${shape.id}"`, { value: crypto.randomUUID() });
+        seenIds.add(shape.id);
+      }
+    });
+  }
+
+  if (v.array(data.scenes, 'scenes', [])) {
+    data.scenes.forEach((scene: unknown, i: number) => validateScene(v, scene, `scenes[${i}]`));
+    const sceneIds = data.scenes.map(scene => isObject(scene) ? scene.id : undefined);
+    if (data.activeSceneId !== null && !sceneIds.includes(data.activeSceneId)) {
+      v.fail('activeSceneId', 'refers to a scene that does not exist', { value: null });
+    }
+  }
+
+  if (v.array(data.takes, 'takes', [])) {
+    data.takes.forEach((take: unknown, i: number) => validateTake(v, take, `takes[${i}]`));
+  }
+
+  if (v.object(data.settings, 'settings', { ...DEFAULT_PROJECT_SETTINGS })) {
+    v.number(data.settings.tempo, 'settings.tempo', MIN_TEMPO, MAX_TEMPO, DEFAULT_TEMPO);
+    const warp = data.settings.outputWarp;
+    if (v.object(warp, 'settings.outputWarp', DEFAULT_OUTPUT_WARP)) {
+      v.boolean(warp.enabled, 'settings.outputWarp.enabled');
+      if (v.array(warp.corners, 'settings.outputWarp.corners', DEFAULT_OUTPUT_WARP.corners)) {
+        if (warp.corners.length !== 4) {
+          v.fail('settings.outputWarp.corners', `needs exactly 4 corners (got ${warp.corners.length})`, { value: DEFAULT_OUTPUT_WARP.corners });
+        }
+        warp.corners.forEach((c: unknown, i: number) => {
+          if (!v.object(c, `settings.outputWarp.corners[${i}]`, DEFAULT_OUTPUT_WARP.corners[i] ?? { x: 0, y: 0 })) return;
+          v.number(c.x, `settings.outputWarp.corners[${i}].x`);
+          v.number(c.y, `settings.outputWarp.corners[${i}].y`);
+        });
+      }
+    }
+    const reference = data.settings.reference;
+    if (v.object(reference, 'settings.reference', { ...DEFAULT_REFERENCE_LAYER })) {
+      v.oneOf(reference.source, 'settings.reference.source', REFERENCE_SOURCES.map(s => s.value));
+      if (reference.assetId !== null) {
+        if (v.string(reference.assetId, 'settings.reference.assetId', null) && !assetIds.has(reference.assetId)) v.fail('settings.reference.assetId', 'refers to a media asset that is not in the file', { value: null });
+      }
+      if (reference.deviceId !== null) v.string(reference.deviceId, 'settings.reference.deviceId', null);
+      v.boolean(reference.visible, 'settings.reference.visible');
+      v.number(reference.opacity, 'settings.reference.opacity', 0, 1);
+      v.number(reference.scale, 'settings.reference.scale', MIN_REFERENCE_SCALE, MAX_REFERENCE_SCALE, DEFAULT_REFERENCE_LAYER.scale);
+      v.number(reference.offsetX, 'settings.reference.offsetX', -MAX_REFERENCE_OFFSET, MAX_REFERENCE_OFFSET);
+      v.number(reference.offsetY, 'settings.reference.offsetY', -MAX_REFERENCE_OFFSET, MAX_REFERENCE_OFFSET);
+    }
+  }
+};
+
+/**
+ * Upgrades any supported file version to the current format and validates every field.
+ * Returns either a ready-to-use file or the full list of problems found.
+ */
+export const parseProjectData = (data: unknown): ProjectParseResult => {
+  const migrated = migrateProjectData(data);
+  if (migrated.issues.length > 0) return { file: null, issues: migrated.issues };
+
+  const v = createValidator();
+  validateProjectFile(v, migrated.data);
+  if (v.issues.length > 0) return { file: null, issues: v.issues };
+
+  return { file: migrated.data as ProjectFile, issues: [] };
+};
+
+// Fixing a field can expose problems inside it (a defaulted effect, a changed message type),
+// so repaired data is checked again
+const MAX_REPAIR_ROUNDS = 3;
+
+// Paths come from the validator walking the same data, so every step exists
+const setAtPath = (root: unknown, path: string, value: unknown) => {
+  const keys = path.match(/[^.[\]]+/g) ?? [];
+  let target = root as Record<string, unknown>;
+  for (const key of keys.slice(0, -1)) target = target[key] as Record<string, unknown>;
+  target[keys[keys.length - 1]] = value;
+};
+
+const removeAtPath = (root: unknown, path: string) => {
+  const keys = path.match(/[^.[\]]+/g) ?? [];
+  let target = root as Record<string, unknown>;
+  for (const key of keys.slice(0, -1)) target = target[key] as Record<string, unknown>;
+  (target as unknown as unknown[]).splice(Number(keys[keys.length - 1]), 1);
+};
+
+const getLastIndex = (path: string) => Number(path.match(/\[(\d+)\]$/)?.[1] ?? -1);
+
+/**
+ * Like parseProjectData, but resets or clamps invalid fields wherever a safe value exists and
+ * leaves out shapes that can never be drawn, for stored projects that must still open. `issues` lists what was changed; `file` is null
+ * (and `issues` lists what is still wrong) only when something could not be repaired.
+ */
+export const repairProjectData = (data: unknown): ProjectParseResult => {
+  const migrated = migrateProjectData(data);
+  if (migrated.issues.length > 0) return { file: null, issues: migrated.issues };
+
+  const current = structuredClone(migrated.data);
+  const repaired: ValidationIssue[] = [];
+  for (let round = 1; ; round++) {
+    const v = createValidator();
+    validateProjectFile(v, current);
+    if (v.issues.length === 0) return { file: current as ProjectFile, issues: repaired };
+
+    const unfixable = v.issues.filter((_, i) => !v.fixes[i]);
+    if (unfixable.length > 0) return { file: null, issues: unfixable };
+    if (round > MAX_REPAIR_ROUNDS) return { file: null, issues: v.issues };
+    const drops = new Set<string>();
+    // Every issue has a fix by now
+    (v.fixes as Fix[]).forEach((fix, i) => {
+      const issue = v.issues[i];
+      if ('drop' in fix) {
+        drops.add(fix.drop);
+        repaired.push({ path: issue.path, message: `${issue.message}, so ${fix.drop} was removed` });
+      } else {
+        // Fallbacks may be shared defaults, so each field gets its own copy
+        setAtPath(current, issue.path, structuredClone(fix.value));
+        repaired.push(issue);
+      }
+    });
+    // Later entries first, so the indexes of earlier ones still hold
+    [...drops].sort((a, b) => getLastIndex(b) - getLastIndex(a)).forEach(path => removeAtPath(current, path));
+  }
+};
+
+export const parseProjectText = (text: string): ProjectParseResult => {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch (err) {
+    return { file: null, issues: [{ path: '', message: `Not valid JSON: ${(err as Error).message}` }] };
+  }
+  return parseProjectData(data);
+};
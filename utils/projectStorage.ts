@@ -0,0 +1,187 @@
+import { Project, ProjectSummary } from '../types';
+import { PROJECT_FILE_FORMAT, PROJECT_FORMAT_VERSION, DEFAULT_PROJECT_SETTINGS, ValidationIssue, repairProjectData } from './projectFormat';
+
+// IndexedDB-backed project library and app settings
+
+const DB_NAME = 'lumamap';
+const DB_VERSION = 1;
+const PROJECTS_STORE = 'projects';
+const SETTINGS_STORE = 'settings';
+
+export const SETTING_LAST_PROJECT_ID = 'lastProjectId';
+export const SETTING_ENABLED_INPUT_NAMES = 'enabledInputNames';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = (): Promise<IDBDatabase> => {
+  if (dbPromise) return dbPromise;
+
+  dbPromise = new Promise((resolve, reject) => {
+    if (typeof indexedDB === 'undefined') {
+      reject(new Error('IndexedDB is not available in this browser.'));
+      return;
+    }
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(PROJECTS_STORE)) {
+        db.createObjectStore(PROJECTS_STORE, { keyPath: 'id' });
+      }
+      if (!db.objectStoreNames.contains(SETTINGS_STORE)) {
+        db.createObjectStore(SETTINGS_STORE);
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+  // Allow a later retry if opening failed
+  dbPromise.catch(() => { dbPromise = null; });
+  return dbPromise;
+};
+
+// Run a single request against one object store and resolve with its result
+const withStore = async <T>(
+  storeName: string,
+  mode: IDBTransactionMode,
+  action: (store: IDBObjectStore) => IDBRequest
+): Promise<T> => {
+  const db = await openDb();
+  return new Promise<T>((resolve, reject) => {
+    const transaction = db.transaction(storeName, mode);
+    const request = action(transaction.objectStore(storeName));
+    transaction.oncomplete = () => resolve(request.result as T);
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+};
+
+// Stored records carry the format version they were written with
+type StoredProject = Project & { version?: number };
+
+// `issues` lists the fields repaired to open the project, or, when `project` is null, what could not be repaired
+export interface LoadedProject {
+  name: string;
+  project: Project | null;
+  issues: ValidationIssue[];
+}
+
+export const createProject = (
+  name: string,
+  shapes: Project['shapes'] = [],
+  settings: Project['settings'] = DEFAULT_PROJECT_SETTINGS,
+  scenes: Project['scenes'] = [],
+  activeSceneId: Project['activeSceneId'] = null,
+  assets: Project['assets'] = [],
+  takes: Project['takes'] = [],
+  groups: Project['groups'] = []
+): Project => {
+  const now = Date.now();
+  return {
+    id: crypto.randomUUID(),
+    name,
+    createdAt: now,
+    updatedAt: now,
+    shapes,
+    groups,
+    scenes,
+    activeSceneId,
+    assets,
+    takes,
+    settings: { ...settings },
+  };
+};
+
+// Upgrade a stored record through the same migrations as project files.
+// Records written before versioning hold a bare v0 shape array. Invalid fields are
+// repaired rather than rejected, so one bad value never locks the user out of their work.
+const readStoredProject = (record: StoredProject): LoadedProject => {
+  const data = record.version === undefined
+    ? record.shapes
+    : {
+        format: PROJECT_FILE_FORMAT,
+        version: record.version,
+        metadata: { name: record.name, createdAt: record.createdAt, updatedAt: record.updatedAt },
+        shapes: record.shapes,
+        groups: record.groups,
+        scenes: record.scenes,
+        activeSceneId: record.activeSceneId,
+        assets: record.assets,
+        takes: record.takes,
+        settings: record.settings,
+      };
+
+  const result = repairProjectData(data);
+  if (!result.file) return { name: record.name, project: null, issues: result.issues };
+
+  return {
+    name: record.name,
+    project: {
+      id: record.id,
+      name: record.name,
+      createdAt: record.createdAt,
+      updatedAt: record.updatedAt,
+      shapes: result.file.shapes,
+      groups: result.file.groups,
+      scenes: result.file.scenes,
+      activeSceneId: result.file.activeSceneId,
+      assets: result.file.assets,
+      takes: result.file.takes,
+      settings: result.file.settings,
+    },
+    issues: result.issues,
+  };
+};
+
+// Summaries only, newest first; shapes are left out so the library list stays light
+export const listProjects = async (): Promise<ProjectSummary[]> => {
+  const projects = await withStore<Project[]>(PROJECTS_STORE, 'readonly', store => store.getAll());
+  return projects
+    .map(({ id, name, createdAt, updatedAt, shapes }) => ({ id, name, createdAt, updatedAt, shapeCount: shapes.length }))
+    .sort((a, b) => b.updatedAt - a.updatedAt);
+};
+
+export const loadStoredProject = async (id: string): Promise<LoadedProject | undefined> => {
+  const record = await withStore<StoredProject | undefined>(PROJECTS_STORE, 'readonly', store => store.get(id));
+  return record && readStoredProject(record);
+};
+
+// For library actions that only need the data; a project that cannot be repaired is an error here
+export const getProject = async (id: string): Promise<Project | undefined> => {
+  const loaded = await loadStoredProject(id);
+  if (loaded && !loaded.project) {
+    const first = loaded.issues[0];
+    throw new Error(`Stored project "${loaded.name}" is invalid: ${first.path} ${first.message}`);
+  }
+  return loaded?.project ?? undefined;
+};
+
+export const putProject = async (project: Project): Promise<void> => {
+  const record: StoredProject = { ...project, version: PROJECT_FORMAT_VERSION };
+  await withStore(PROJECTS_STORE, 'readwrite', store => store.put(record));
+};
+
+export const deleteProject = async (id: string): Promise<void> => {
+  await withStore(PROJECTS_STORE, 'readwrite', store => store.delete(id));
+};
+
+export const renameProject = async (id: string, name: string): Promise<void> => {
+  const project = await getProject(id);
+  if (!project) return;
+  await putProject({ ...project, name, updatedAt: Date.now() });
+};
+
+export const duplicateProject = async (id: string): Promise<Project | undefined> => {
+  const project = await getProject(id);
+  if (!project) return undefined;
+  const copy = createProject(`${project.name} (Copy)`, project.shapes, project.settings, project.scenes, project.activeSceneId, project.assets, project.takes, project.groups);
+  await putProject(copy);
+  return copy;
+};
+
+export const loadSetting = <T>(key: string): Promise<T | undefined> =>
+  withStore<T | undefined>(SETTINGS_STORE, 'readonly', store => store.get(key));
+
+export const storeSetting = async <T>(key: string, value: T): Promise<void> => {
+  await withStore(SETTINGS_STORE, 'readwrite', store => store.put(value, key));
+};
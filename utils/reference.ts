@@ -0,0 +1,47 @@
+import { ReferenceLayer, ReferenceSource } from '../types';
+
+export const DEFAULT_REFERENCE_LAYER: ReferenceLayer = {
+  source: 'none',
+  assetId: null,
+  deviceId: null,
+  visible: true,
+  opacity: 0.5,
+  scale: 1,
+  offsetX: 0,
+  offsetY: 0,
+};
+
+export const REFERENCE_SOURCES: { value: ReferenceSource; label: string }[] = [
+  { value: 'none', label: 'None' },
+  { value: 'asset', label: 'Photo or Video' },
+  { value: 'webcam', label: 'Webcam' },
+];
+
+export const MIN_REFERENCE_SCALE = 0.1;
+export const MAX_REFERENCE_SCALE = 4;
+// Offsets can push the reference fully off either edge, no further
+export const MAX_REFERENCE_OFFSET = 100;
+
+// Centered in the canvas, scaled around its center, then shifted by the offset
+export const getReferenceTransform = (reference: ReferenceLayer): string =>
+  `translate(${reference.offsetX}%, ${reference.offsetY}%) scale(${reference.scale})`;
+
+// Opens the chosen camera, falling back to any camera when that one is gone
+export const openReferenceCamera = async (deviceId: string | null): Promise<MediaStream> => {
+  if (!navigator.mediaDevices?.getUserMedia) throw new Error('This browser cannot use a camera.');
+  if (deviceId) {
+    try {
+      return await navigator.mediaDevices.getUserMedia({ video: { deviceId: { exact: deviceId } }, audio: false });
+    } catch (err) {
+      if ((err as Error).name !== 'OverconstrainedError' && (err as Error).name !== 'NotFoundError') throw err;
+    }
+  }
+  return navigator.mediaDevices.getUserMedia({ video: true, audio: false });
+};
+
+// Camera names are only filled in once the page has camera permission
+export const listCameras = async (): Promise<MediaDeviceInfo[]> => {
+  if (!navigator.mediaDevices?.enumerateDevices) return [];
+  const devices = await navigator.mediaDevices.enumerateDevices();
+  return devices.filter(device => device.kind === 'videoinput');
+};
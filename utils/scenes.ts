@@ -0,0 +1,69 @@
+import { Scene, SceneShapeOverride, Shape } from '../types';
+
+// An in-progress scene change, used to crossfade between the old and new scene
+export interface SceneTransition {
+  fromSceneId: string | null;
+  toSceneId: string | null;
+  startedAt: number;
+  duration: number; // ms
+}
+
+// New scenes start with every existing shape as a member
+export const createScene = (name: string, shapes: Shape[]): Scene => ({
+  id: crypto.randomUUID(),
+  name,
+  members: Object.fromEntries(shapes.map(s => [s.id, {}])),
+  programNumber: null,
+  triggerNote: null,
+  triggerChannel: 0,
+  crossfade: 0,
+});
+
+// No scene means every shape is live
+export const isShapeInScene = (scene: Scene | undefined, shapeId: string): boolean =>
+  !scene || shapeId in scene.members;
+
+// The shape as it behaves inside a scene: overrides replace the base mapping and color
+export const applySceneOverride = (shape: Shape, scene: Scene | undefined): Shape => {
+  const override: SceneShapeOverride | undefined = scene?.members[shape.id];
+  if (!override) return shape;
+  return {
+    ...shape,
+    color: override.color ?? shape.color,
+    channel: override.channel ?? shape.channel,
+    noteStart: override.noteStart ?? shape.noteStart,
+    noteEnd: override.noteEnd ?? shape.noteEnd,
+  };
+};
+
+export const getTransitionProgress = (transition: SceneTransition | null, now: number): number => {
+  if (!transition || transition.duration <= 0) return 1;
+  return Math.max(0, Math.min(1, (now - transition.startedAt) / transition.duration));
+};
+
+/**
+ * Opacity multiplier (0-1) for a shape during and after a scene change.
+ * Shapes in both scenes stay at full weight; others fade in or out across the crossfade.
+ */
+export const getSceneWeight = (
+  shapeId: string,
+  scenes: Scene[],
+  transition: SceneTransition | null,
+  activeSceneId: string | null,
+  now: number
+): number => {
+  const findScene = (id: string | null) => (id ? scenes.find(s => s.id === id) : undefined);
+  const to = isShapeInScene(findScene(activeSceneId), shapeId) ? 1 : 0;
+  if (!transition) return to;
+
+  const from = isShapeInScene(findScene(transition.fromSceneId), shapeId) ? 1 : 0;
+  const progress = getTransitionProgress(transition, now);
+  return from + (to - from) * progress;
+};
+
+// Finds the scene recalled by a Program Change or a trigger note on the given channel
+export const findSceneForProgram = (scenes: Scene[], channel: number, program: number): Scene | undefined =>
+  scenes.find(s => s.programNumber === program && (s.triggerChannel === 0 || s.triggerChannel === channel));
+
+export const findSceneForNote = (scenes: Scene[], channel: number, note: number): Scene | undefined =>
+  scenes.find(s => s.triggerNote === note && (s.triggerChannel === 0 || s.triggerChannel === channel));
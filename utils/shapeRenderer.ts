@@ -0,0 +1,422 @@
+import { Shape, Point, Scene, MediaAsset, WipeDirection, AppMode } from '../types';
+import { LiveState, preciseNow } from './liveState';
+import { NoteIndex, buildNoteIndex, getShapesForNote } from './noteIndex';
+import { ShapeModulationState, resolveModulations } from './modulation';
+import { shiftHue } from './colorUtils';
+import { getCentroid, getOutlineHull, traceOutline } from './geometry';
+import { FillBounds, paintFill, isAnimatedFill, isMediaFill } from './fills';
+import { createMediaElement, isMediaReady } from './assets';
+import { evaluateEffect, getChaseGate } from './effects';
+import { getBeatPosition } from './clock';
+import { getNoteSegment, getSegmentCount, getSegmentHue, traceSegment } from './distribution';
+import { SceneTransition, applySceneOverride, getSceneWeight, getTransitionProgress } from './scenes';
+import { EnvelopeState, advanceEnvelope, evaluateEnvelope, isEnvelopeAnimating } from './envelope';
+import { getCompositeOperation } from './layers';
+
+// Everything the renderer draws that comes from React props rather than live MIDI
+export interface RenderScene {
+  shapes: Shape[];
+  scenes: Scene[];
+  activeSceneId: string | null;
+  sceneTransition: SceneTransition | null;
+  mode: AppMode;
+  selectedShapeIds: string[];
+}
+
+export interface RenderStats {
+  fps: number;
+  frameMs: number;    // average time spent drawing a frame over the last second
+  latencyMs: number;  // newest MIDI message to the frame that first showed it
+  shapeCount: number;
+}
+
+export interface ShapeRendererOptions {
+  // Draw only when renderFrame is called, at the time it is given (offline export)
+  manual?: boolean;
+  // Painted under the shapes; without it the canvas stays transparent for the page behind it
+  background?: string;
+}
+
+export interface ShapeRenderer {
+  setScene: (scene: RenderScene) => void;
+  // pixelRatio defaults to the screen's; exports pass 1 to get exactly width x height pixels
+  setSize: (width: number, height: number, pixelRatio?: number) => void;
+  setAssets: (assets: MediaAsset[]) => void;
+  renderFrame: (now: number) => void;
+  whenMediaReady: () => Promise<void>;
+  getStats: () => RenderStats;
+  destroy: () => void;
+}
+
+// Media that never loads (a broken asset) must not hold an export up for long
+const MEDIA_READY_TIMEOUT_MS = 5000;
+
+// The part of the bounds a wipe has revealed so far
+const getRevealRect = (bounds: FillBounds, direction: WipeDirection, reveal: number) => {
+  const { x, y, width, height } = bounds;
+  switch (direction) {
+    case 'left': return { x: x + width * (1 - reveal), y, width: width * reveal, height };
+    case 'down': return { x, y, width, height: height * reveal };
+    case 'up': return { x, y: y + height * (1 - reveal), width, height: height * reveal };
+    default: return { x, y, width: width * reveal, height };
+  }
+};
+
+// Scale and rotate around the centroid, then offset (all in percent space)
+const transformPoint = (p: Point, centroid: Point, modulation: ShapeModulationState): Point => {
+  const sx = (p.x - centroid.x) * modulation.scale;
+  const sy = (p.y - centroid.y) * modulation.scale;
+  const angle = (modulation.rotation * Math.PI) / 180;
+  const cos = Math.cos(angle);
+  const sin = Math.sin(angle);
+  return {
+    x: centroid.x + sx * cos - sy * sin + modulation.offsetX,
+    y: centroid.y + sx * sin + sy * cos + modulation.offsetY,
+  };
+};
+
+/**
+ * 2D canvas renderer driven by requestAnimationFrame, outside React.
+ * It reads the shared LiveState every frame and only redraws when notes, props or a running
+ * envelope/crossfade changed. Envelope state lives here, so releases run after Note Off.
+ * In manual mode there is no animation loop; each renderFrame call draws one frame at the
+ * given time, so exports can step through a take faster or slower than real time.
+ */
+export const createShapeRenderer = (canvas: HTMLCanvasElement, live: LiveState, options: ShapeRendererOptions = {}): ShapeRenderer => {
+  const ctx = canvas.getContext('2d')!;
+  let scene: RenderScene | null = null;
+  let liveShapes: Shape[] = [];
+  let noteIndex: NoteIndex = new Map();
+  let width = 0;
+  let height = 0;
+  let pixelRatio = 1;
+  let dirty = true;
+  let animating = false;
+  let drawnVersion = -1;
+  let frame = 0;
+
+  // Envelope per shape and segment; whole-shape mappings only use segment 0
+  const envelopeStates = new Map<string, Map<number, EnvelopeState>>();
+  // Pattern position per shape in cycles; accumulated so speed changes never jump
+  const patternPhases = new Map<string, number>();
+  // Current chase step per shape; its start time is held so clock jitter never retriggers it
+  const chaseSteps = new Map<string, { index: number; triggeredAt: number }>();
+  const media = new Map<string, HTMLImageElement | HTMLVideoElement>();
+  let lastDrawAt: number | null = null;
+  const stats: RenderStats = { fps: 0, frameMs: 0, latencyMs: 0, shapeCount: 0 };
+  let statsWindowStart = performance.now();
+  let framesInWindow = 0;
+  let drawTimeInWindow = 0;
+  let drawsInWindow = 0;
+
+  const draw = (now: number) => {
+    if (!scene) return;
+    // Capped so a pause in drawing doesn't fling patterns forward
+    const deltaSeconds = lastDrawAt === null ? 0 : Math.max(0, Math.min(now - lastDrawAt, 100)) / 1000;
+    lastDrawAt = now;
+    const { mode, selectedShapeIds, scenes, activeSceneId, sceneTransition } = scene;
+    const isEdit = mode === AppMode.EDIT;
+    const { clock } = live;
+    const beat = getBeatPosition(clock, now);
+
+    // Gate per shape segment from the few held notes, via the index instead of every shape's range
+    const gates = new Map<string, Map<number, { velocity: number; triggeredAt: number }>>();
+    for (const note of live.activeNotes.values()) {
+      for (const shape of getShapesForNote(noteIndex, note.inputId, note.channel, note.note)) {
+        const segment = getNoteSegment(shape, note.note);
+        let shapeGates = gates.get(shape.id);
+        if (!shapeGates) gates.set(shape.id, shapeGates = new Map());
+        const gate = shapeGates.get(segment);
+        shapeGates.set(segment, {
+          velocity: Math.max(gate?.velocity ?? 0, note.velocity),
+          triggeredAt: Math.max(gate?.triggeredAt ?? 0, note.timestamp),
+        });
+      }
+    }
+    // Chases open their own gates from the clock, and keep frames coming while it runs
+    let chasing = false;
+    if (clock.running) {
+      for (const shape of liveShapes) {
+        if (shape.effect.type !== 'chase') continue;
+        chasing = true;
+        const chase = getChaseGate(shape.effect, beat, clock.bpm, now, getSegmentCount(shape));
+        if (!chase) continue;
+        const held = chaseSteps.get(shape.id);
+        if (held?.index === chase.index) chase.triggeredAt = held.triggeredAt;
+        else chaseSteps.set(shape.id, { index: chase.index, triggeredAt: chase.triggeredAt });
+        let shapeGates = gates.get(shape.id);
+        if (!shapeGates) gates.set(shape.id, shapeGates = new Map());
+        const gate = shapeGates.get(chase.segment);
+        shapeGates.set(chase.segment, {
+          velocity: 127,
+          triggeredAt: Math.max(gate?.triggeredAt ?? 0, chase.triggeredAt),
+        });
+      }
+    }
+
+    ctx.setTransform(pixelRatio, 0, 0, pixelRatio, 0, 0);
+    ctx.clearRect(0, 0, width, height);
+    const toPx = (p: Point) => ({ x: (p.x / 100) * width, y: (p.y / 100) * height });
+
+    animating = chasing || getTransitionProgress(sceneTransition, now) < 1;
+    const outlines: { shape: Shape; centroid: Point; resolved: ShapeModulationState; sceneWeight: number }[] = [];
+
+    for (const shape of liveShapes) {
+      if (shape.points.length < 3) continue;
+
+      const resolved = resolveModulations(shape, live.controllerValues);
+      const sceneWeight = getSceneWeight(shape.id, scenes, sceneTransition, activeSceneId, now);
+      const centroid = getCentroid(shape.points);
+      if (isEdit) outlines.push({ shape, centroid, resolved, sceneWeight });
+
+      // Masks are never lit; they erase what is already drawn, inside (cut) or outside (clip) the
+      // outline. Modulation still moves them, so a CC can follow a performer around.
+      if (shape.mask !== 'none') {
+        envelopeStates.delete(shape.id);
+        const strength = Math.max(0, Math.min(1, shape.baseOpacity * resolved.opacity * sceneWeight));
+        if (strength <= 0) continue;
+        ctx.save();
+        ctx.globalCompositeOperation = 'destination-out';
+        ctx.globalAlpha = strength;
+        ctx.beginPath();
+        if (shape.mask === 'clip') ctx.rect(0, 0, width, height);
+        traceOutline(ctx, shape, p => toPx(transformPoint(p, centroid, resolved)));
+        ctx.fill(shape.mask === 'clip' ? 'evenodd' : 'nonzero');
+        ctx.restore();
+        continue;
+      }
+
+      // Advance every segment that is held or still releasing
+      const shapeGates = gates.get(shape.id);
+      const previous = envelopeStates.get(shape.id);
+      const states = new Map<number, EnvelopeState>();
+      const segments = new Set([...(shapeGates?.keys() ?? []), ...(previous?.keys() ?? [])]);
+      for (const segment of segments) {
+        const gate = shapeGates?.get(segment);
+        const state = advanceEnvelope(
+          shape.envelope, previous?.get(segment), !!gate, gate?.velocity ?? 0, gate?.triggeredAt ?? 0, now
+        );
+        if (!state) continue;
+        states.set(segment, state);
+        animating = animating || isEnvelopeAnimating(shape.envelope, state, now);
+      }
+      if (states.size > 0) envelopeStates.set(shape.id, states);
+      else envelopeStates.delete(shape.id);
+
+      const segmentCount = getSegmentCount(shape);
+      const { fill } = shape;
+
+      let phase = patternPhases.get(shape.id) ?? 0;
+      if (fill.type === 'pattern') {
+        const velocity = Math.max(0, ...Array.from(states.values(), state => state.velocity));
+        phase += deltaSeconds * fill.speed * (fill.velocitySpeed ? velocity / 127 : 1);
+        patternPhases.set(shape.id, phase);
+      }
+
+      // One layer per lit segment; null segment is the whole shape (edit-mode base)
+      const drawLayer = (segment: number | null, state: EnvelopeState | undefined, opacity: number) => {
+        const effect = evaluateEffect(shape.effect, state, now, beat);
+        animating = animating || effect.animating;
+        opacity = Math.max(0, Math.min(1, opacity * effect.opacity));
+        if (opacity <= 0) return;
+        if (isAnimatedFill(fill)) animating = true;
+
+        const modulation = effect.scale === 1 ? resolved : { ...resolved, scale: resolved.scale * effect.scale };
+        const hue = modulation.hue + (segment !== null && shape.distribution === 'hue' ? getSegmentHue(segment, segmentCount) : 0);
+        const toCanvas = (p: Point) => toPx(transformPoint(p, centroid, modulation));
+        ctx.beginPath();
+        traceOutline(ctx, shape, toCanvas);
+
+        const isSliced = segment !== null && segmentCount > 1 && shape.distribution !== 'hue';
+        if (fill.type === 'solid' && effect.reveal === null && !isSliced) {
+          ctx.globalAlpha = opacity;
+          ctx.fillStyle = shiftHue(shape.color, hue);
+          ctx.fill();
+          ctx.globalAlpha = 1;
+          return;
+        }
+
+        // Control points bound curved edges from outside, so they count towards the fill area
+        const pixels = getOutlineHull(shape).map(toCanvas);
+        const xs = pixels.map(p => p.x);
+        const ys = pixels.map(p => p.y);
+        const center = toPx(transformPoint(centroid, centroid, modulation));
+        const bounds: FillBounds = {
+          x: Math.min(...xs),
+          y: Math.min(...ys),
+          width: Math.max(...xs) - Math.min(...xs),
+          height: Math.max(...ys) - Math.min(...ys),
+          cx: center.x,
+          cy: center.y,
+          radius: Math.max(...pixels.map(p => Math.hypot(p.x - center.x, p.y - center.y))),
+        };
+        const element = isMediaFill(fill) && fill.assetId ? media.get(fill.assetId) : undefined;
+        ctx.save();
+        ctx.clip();
+        if (isSliced) {
+          ctx.beginPath();
+          if (traceSegment(ctx, shape.distribution, bounds, segment, segmentCount)) ctx.clip();
+        }
+        if (effect.reveal !== null) {
+          const rect = getRevealRect(bounds, shape.effect.direction, effect.reveal);
+          ctx.beginPath();
+          ctx.rect(rect.x, rect.y, rect.width, rect.height);
+          ctx.clip();
+        }
+        ctx.globalAlpha = opacity;
+        // Media keeps its own colors, so hue modulation rotates it with a filter instead
+        if (element && hue !== 0) ctx.filter = `hue-rotate(${hue}deg)`;
+        paintFill(
+          ctx,
+          fill,
+          shiftHue(shape.color, hue),
+          shiftHue(fill.secondaryColor, hue),
+          bounds,
+          phase,
+          element && isMediaReady(element) ? element : null
+        );
+        ctx.restore();
+      };
+
+      ctx.globalCompositeOperation = getCompositeOperation(shape.blendMode);
+      if (isEdit) {
+        // Shapes outside the live scene stay faintly visible so they can still be edited
+        drawLayer(null, undefined, sceneWeight > 0 ? 0.2 : 0.05);
+      }
+      for (const [segment, state] of states) {
+        const level = evaluateEnvelope(shape.envelope, state, now);
+        const velocityScale = shape.velocitySensitive ? state.velocity / 127 : 1;
+        drawLayer(segment, state, level * velocityScale * shape.baseOpacity * resolved.opacity * sceneWeight);
+      }
+      ctx.globalCompositeOperation = 'source-over';
+    }
+
+    // Outlines and labels go over every fill, so masks never hide the shapes being edited
+    for (const { shape, centroid, resolved, sceneWeight } of outlines) {
+      const isSelected = selectedShapeIds.includes(shape.id);
+      const isMask = shape.mask !== 'none';
+      ctx.beginPath();
+      traceOutline(ctx, shape, p => toPx(transformPoint(p, centroid, resolved)));
+      ctx.strokeStyle = isSelected ? '#22d3ee' : isMask ? 'rgba(244,114,182,0.7)' : 'rgba(255,255,255,0.3)';
+      ctx.lineWidth = isSelected ? 1.5 : isMask ? 1 : 0.5;
+      ctx.setLineDash(sceneWeight === 0 ? [2, 2] : isMask ? [6, 3] : []);
+      ctx.stroke();
+      ctx.setLineDash([]);
+
+      const label = toPx(shape.points[0]);
+      ctx.font = `${Math.max(9, height * 0.02)}px sans-serif`;
+      ctx.fillStyle = isMask ? '#f9a8d4' : 'white';
+      ctx.shadowColor = 'black';
+      ctx.shadowBlur = 2;
+      ctx.shadowOffsetY = 1;
+      ctx.fillText(isMask ? `${shape.name} (mask)` : shape.name, label.x, label.y - height * 0.01);
+      ctx.shadowColor = 'transparent';
+    }
+
+    // Painted last but behind everything, so masks and blends work on the shapes alone
+    if (options.background) {
+      ctx.globalCompositeOperation = 'destination-over';
+      ctx.fillStyle = options.background;
+      ctx.fillRect(0, 0, width, height);
+      ctx.globalCompositeOperation = 'source-over';
+    }
+
+    for (const id of Array.from(envelopeStates.keys())) {
+      if (!liveShapes.some(s => s.id === id)) envelopeStates.delete(id);
+    }
+    for (const id of Array.from(patternPhases.keys())) {
+      if (!liveShapes.some(s => s.id === id)) patternPhases.delete(id);
+    }
+    for (const id of Array.from(chaseSteps.keys())) {
+      if (!liveShapes.some(s => s.id === id && s.effect.type === 'chase')) chaseSteps.delete(id);
+    }
+  };
+
+  const tick = () => {
+    frame = requestAnimationFrame(tick);
+    const frameStart = performance.now();
+    framesInWindow++;
+
+    const versionChanged = live.version !== drawnVersion;
+    if (dirty || versionChanged || animating) {
+      draw(preciseNow());
+      dirty = false;
+      drawnVersion = live.version;
+      drawTimeInWindow += performance.now() - frameStart;
+      drawsInWindow++;
+      if (versionChanged && live.lastMessageAt > 0) {
+        stats.latencyMs = preciseNow() - live.lastMessageAt;
+      }
+    }
+
+    const elapsed = frameStart - statsWindowStart;
+    if (elapsed >= 1000) {
+      stats.fps = (framesInWindow * 1000) / elapsed;
+      stats.frameMs = drawsInWindow > 0 ? drawTimeInWindow / drawsInWindow : 0;
+      statsWindowStart = frameStart;
+      framesInWindow = 0;
+      drawTimeInWindow = 0;
+      drawsInWindow = 0;
+    }
+  };
+  if (!options.manual) frame = requestAnimationFrame(tick);
+
+  return {
+    setScene: (next) => {
+      // Scene overrides change note ranges, so the index follows the live shapes
+      if (!scene || next.shapes !== scene.shapes || next.scenes !== scene.scenes || next.activeSceneId !== scene.activeSceneId) {
+        const activeScene = next.scenes.find(s => s.id === next.activeSceneId);
+        liveShapes = next.shapes.map(shape => applySceneOverride(shape, activeScene));
+        noteIndex = buildNoteIndex(liveShapes);
+        stats.shapeCount = liveShapes.length;
+      }
+      scene = next;
+      dirty = true;
+    },
+    setSize: (nextWidth, nextHeight, nextPixelRatio = window.devicePixelRatio || 1) => {
+      width = nextWidth;
+      height = nextHeight;
+      pixelRatio = nextPixelRatio;
+      canvas.width = Math.round(nextWidth * pixelRatio);
+      canvas.height = Math.round(nextHeight * pixelRatio);
+      dirty = true;
+    },
+    setAssets: (assets) => {
+      for (const [id, element] of Array.from(media.entries())) {
+        if (assets.some(a => a.id === id)) continue;
+        if (element instanceof HTMLVideoElement) element.pause();
+        media.delete(id);
+      }
+      for (const asset of assets) {
+        if (media.has(asset.id)) continue;
+        const element = createMediaElement(asset);
+        // Images draw once they decode; videos redraw every frame anyway
+        element.addEventListener('load', () => { dirty = true; });
+        media.set(asset.id, element);
+      }
+      dirty = true;
+    },
+    renderFrame: (now) => {
+      draw(now);
+      dirty = false;
+      drawnVersion = live.version;
+    },
+    whenMediaReady: () => Promise.all(Array.from(media.values(), element => new Promise<void>(resolve => {
+      if (isMediaReady(element)) return resolve();
+      const done = () => {
+        clearTimeout(timeout);
+        resolve();
+      };
+      const timeout = setTimeout(done, MEDIA_READY_TIMEOUT_MS);
+      element.addEventListener(element instanceof HTMLVideoElement ? 'loadeddata' : 'load', done, { once: true });
+      element.addEventListener('error', done, { once: true });
+    }))).then(() => undefined),
+    getStats: () => stats,
+    destroy: () => {
+      cancelAnimationFrame(frame);
+      for (const element of media.values()) {
+        if (element instanceof HTMLVideoElement) element.pause();
+      }
+    },
+  };
+};
@@ -0,0 +1,109 @@
+import { Point, Shape } from '../types';
+import { flattenOutline } from './geometry';
+
+export interface SnapSettings {
+  grid: boolean;
+  vertices: boolean;
+  edges: boolean;
+}
+
+export const DEFAULT_SNAP_SETTINGS: SnapSettings = { grid: true, vertices: true, edges: true };
+
+// Percent; matches the grid drawn behind the shapes while editing
+export const GRID_STEP = 5;
+
+// How close (in screen pixels) the pointer has to come before it snaps
+export const SNAP_DISTANCE_PX = 8;
+
+export type SnapKind = 'vertex' | 'edge' | 'grid';
+
+export interface SnapResult {
+  point: Point;
+  kind: SnapKind | null; // null when nothing was in reach
+}
+
+// Snap reach per axis, in percent; the canvas is rarely square, so x and y differ
+export interface SnapTolerance {
+  x: number;
+  y: number;
+}
+
+export const getSnapTolerance = (width: number, height: number): SnapTolerance => ({
+  x: width > 0 ? (SNAP_DISTANCE_PX / width) * 100 : 0,
+  y: height > 0 ? (SNAP_DISTANCE_PX / height) * 100 : 0,
+});
+
+// Distance in units of the tolerance, so 1 is the edge of snapping reach in either direction
+const reach = (a: Point, b: Point, tolerance: SnapTolerance) =>
+  Math.hypot((a.x - b.x) / (tolerance.x || 1), (a.y - b.y) / (tolerance.y || 1));
+
+// Closest point on segment ab, measured in tolerance units
+const closestOnSegment = (p: Point, a: Point, b: Point, tolerance: SnapTolerance): Point => {
+  const tx = tolerance.x || 1;
+  const ty = tolerance.y || 1;
+  const abx = (b.x - a.x) / tx;
+  const aby = (b.y - a.y) / ty;
+  const length = abx * abx + aby * aby;
+  if (length === 0) return a;
+  const t = Math.max(0, Math.min(1, (((p.x - a.x) / tx) * abx + ((p.y - a.y) / ty) * aby) / length));
+  return { x: a.x + (b.x - a.x) * t, y: a.y + (b.y - a.y) * t };
+};
+
+/**
+ * Pulls a point onto the nearest vertex of another shape, else onto the nearest edge, else onto
+ * grid lines (each axis on its own). Shapes with `excludeId` are ignored, so a shape being
+ * edited never snaps to itself.
+ */
+export const snapPoint = (
+  point: Point,
+  shapes: Shape[],
+  settings: SnapSettings,
+  tolerance: SnapTolerance,
+  excludeId: string | null = null
+): SnapResult => {
+  const others = shapes.filter(shape => shape.id !== excludeId);
+
+  if (settings.vertices) {
+    let best: Point | null = null;
+    let bestReach = 1;
+    for (const shape of others) {
+      for (const vertex of shape.points) {
+        const distance = reach(point, vertex, tolerance);
+        if (distance <= bestReach) {
+          best = vertex;
+          bestReach = distance;
+        }
+      }
+    }
+    if (best) return { point: { ...best }, kind: 'vertex' };
+  }
+
+  if (settings.edges) {
+    let best: Point | null = null;
+    let bestReach = 1;
+    for (const shape of others) {
+      const outline = flattenOutline(shape);
+      outline.forEach((a, i) => {
+        const closest = closestOnSegment(point, a, outline[(i + 1) % outline.length], tolerance);
+        const distance = reach(point, closest, tolerance);
+        if (distance <= bestReach) {
+          best = closest;
+          bestReach = distance;
+        }
+      });
+    }
+    if (best) return { point: best, kind: 'edge' };
+  }
+
+  if (settings.grid) {
+    const gridX = Math.round(point.x / GRID_STEP) * GRID_STEP;
+    const gridY = Math.round(point.y / GRID_STEP) * GRID_STEP;
+    const snapX = Math.abs(point.x - gridX) <= tolerance.x;
+    const snapY = Math.abs(point.y - gridY) <= tolerance.y;
+    if (snapX || snapY) {
+      return { point: { x: snapX ? gridX : point.x, y: snapY ? gridY : point.y }, kind: 'grid' };
+    }
+  }
+
+  return { point, kind: null };
+};
@@ -0,0 +1,172 @@
+import { ChannelMidiMessage, Take, TakeEvent } from '../types';
+import { getControllerKey, getNoteKey } from './midiUtils';
+
+export interface TakePlayerStatus {
+  takeId: string | null;
+  playing: boolean;
+  position: number; // ms
+  duration: number; // ms
+  loop: boolean;
+}
+
+export interface TakePlayer {
+  load: (take: Take | null) => void;
+  play: () => void;
+  pause: () => void;
+  stop: () => void;
+  seek: (position: number) => void;
+  setLoop: (loop: boolean) => void;
+  getStatus: () => TakePlayerStatus;
+  destroy: () => void;
+}
+
+// Timer resolution for dispatching events; well under a frame, so notes land on the right frame
+const PLAYBACK_TICK_MS = 4;
+
+// Latest value per controller, for restoring controller state after a seek
+const getControllerStateKey = (event: TakeEvent): string | null => {
+  const { inputId, message } = event;
+  switch (message.type) {
+    case 'controlChange': return getControllerKey(inputId, message.channel, 'cc', message.controller);
+    case 'polyAftertouch': return getControllerKey(inputId, message.channel, 'polyPressure', message.note);
+    case 'channelAftertouch': return getControllerKey(inputId, message.channel, 'channelPressure');
+    case 'pitchBend': return getControllerKey(inputId, message.channel, 'pitchBend');
+    default: return null;
+  }
+};
+
+/**
+ * Replays a take by handing its messages to `send` on time, the same way live input arrives.
+ * The player remembers which notes it is holding and releases them on pause, seek, loop and
+ * load, so a take never leaves notes stuck on. Starting from the middle of a take restores the
+ * notes and controller values that would be active at that point.
+ */
+export const createTakePlayer = (send: (inputId: string, message: ChannelMidiMessage) => void): TakePlayer => {
+  let take: Take | null = null;
+  let playing = false;
+  let loop = false;
+  let position = 0;    // while paused
+  let startedAt = 0;   // Date.now() at position 0, while playing
+  let nextIndex = 0;
+  let timer: ReturnType<typeof setInterval> | null = null;
+  const held = new Map<string, { inputId: string; channel: number; note: number }>();
+
+  const currentPosition = () => playing ? Date.now() - startedAt : position;
+
+  const dispatch = (event: TakeEvent) => {
+    const { inputId, message } = event;
+    if (message.type === 'noteOn') {
+      held.set(getNoteKey(inputId, message.channel, message.note), { inputId, channel: message.channel, note: message.note });
+    } else if (message.type === 'noteOff') {
+      held.delete(getNoteKey(inputId, message.channel, message.note));
+    }
+    send(inputId, message);
+  };
+
+  const releaseHeld = () => {
+    for (const { inputId, channel, note } of held.values()) {
+      send(inputId, { type: 'noteOff', channel, note, velocity: 0 });
+    }
+    held.clear();
+  };
+
+  // Re-establish what is active at `position` and continue from the next event after it
+  const chaseTo = (current: Take) => {
+    const notes = new Map<string, TakeEvent>();
+    const controllers = new Map<string, TakeEvent>();
+    let index = 0;
+    for (; index < current.events.length && current.events[index].time < position; index++) {
+      const event = current.events[index];
+      const { message } = event;
+      if (message.type === 'noteOn') notes.set(getNoteKey(event.inputId, message.channel, message.note), event);
+      else if (message.type === 'noteOff') notes.delete(getNoteKey(event.inputId, message.channel, message.note));
+      else {
+        const key = getControllerStateKey(event);
+        if (key) controllers.set(key, event);
+      }
+    }
+    nextIndex = index;
+    for (const event of controllers.values()) dispatch(event);
+    for (const event of notes.values()) dispatch(event);
+  };
+
+  const tick = () => {
+    if (!take || !playing) return;
+    let now = currentPosition();
+    while (nextIndex < take.events.length && take.events[nextIndex].time <= now) {
+      dispatch(take.events[nextIndex++]);
+    }
+    if (now < take.duration) return;
+
+    if (loop && take.duration > 0) {
+      // Wrap around; notes still held at the loop point are let go first
+      releaseHeld();
+      startedAt += take.duration;
+      nextIndex = 0;
+      now = currentPosition();
+      while (nextIndex < take.events.length && take.events[nextIndex].time <= now) {
+        dispatch(take.events[nextIndex++]);
+      }
+    } else {
+      pause();
+      position = take.duration;
+    }
+  };
+
+  const play = () => {
+    if (!take || playing) return;
+    // Playing from the end starts over
+    if (position >= take.duration) position = 0;
+    releaseHeld();
+    chaseTo(take);
+    playing = true;
+    startedAt = Date.now() - position;
+    timer = setInterval(tick, PLAYBACK_TICK_MS);
+    tick();
+  };
+
+  const pause = () => {
+    if (!playing) return;
+    position = currentPosition();
+    playing = false;
+    if (timer !== null) clearInterval(timer);
+    timer = null;
+    releaseHeld();
+  };
+
+  return {
+    load: (next) => {
+      pause();
+      releaseHeld();
+      take = next;
+      position = 0;
+      nextIndex = 0;
+    },
+    play,
+    pause,
+    stop: () => {
+      pause();
+      position = 0;
+    },
+    seek: (target) => {
+      const wasPlaying = playing;
+      pause();
+      position = Math.max(0, Math.min(take?.duration ?? 0, target));
+      if (wasPlaying) play();
+    },
+    setLoop: (value) => {
+      loop = value;
+    },
+    getStatus: () => ({
+      takeId: take?.id ?? null,
+      playing,
+      position: Math.min(currentPosition(), take?.duration ?? 0),
+      duration: take?.duration ?? 0,
+      loop,
+    }),
+    destroy: () => {
+      pause();
+      releaseHeld();
+    },
+  };
+};
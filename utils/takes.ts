@@ -0,0 +1,39 @@
+import { ChannelMidiMessage, Take, TakeEvent } from '../types';
+
+// Input id for imported MIDI files, which have no device of their own
+export const FILE_INPUT_ID = 'file';
+
+// Data fields of each channel message and their largest value, for validating stored takes
+export const CHANNEL_MESSAGE_FIELDS: Record<ChannelMidiMessage['type'], Record<string, number>> = {
+  noteOn: { note: 127, velocity: 127 },
+  noteOff: { note: 127, velocity: 127 },
+  polyAftertouch: { note: 127, pressure: 127 },
+  controlChange: { controller: 127, value: 127 },
+  programChange: { program: 127 },
+  channelAftertouch: { pressure: 127 },
+  pitchBend: { value: 16383 },
+};
+
+export const createTake = (name: string, events: TakeEvent[], duration?: number): Take => {
+  const sorted = [...events].sort((a, b) => a.time - b.time);
+  return {
+    id: crypto.randomUUID(),
+    name,
+    duration: duration ?? (sorted.length > 0 ? sorted[sorted.length - 1].time : 0),
+    events: sorted,
+  };
+};
+
+// Recorded takes start at their first message rather than at the Record press
+export const trimLeadingSilence = (events: TakeEvent[]): TakeEvent[] => {
+  if (events.length === 0) return events;
+  const start = events[0].time;
+  return events.map(event => ({ ...event, time: event.time - start }));
+};
+
+export const formatTakeTime = (ms: number): string => {
+  const totalSeconds = Math.max(0, Math.floor(ms / 1000));
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = totalSeconds % 60;
+  return `${minutes}:${seconds.toString().padStart(2, '0')}`;
+};
@@ -0,0 +1,75 @@
+import { Shape } from '../types';
+
+// Input key for notes played on screen or on the computer keyboard. Shapes set to
+// "Any Input" hear it; the keyboard panel can also send as a real input's id.
+export const VIRTUAL_INPUT_ID = 'virtual';
+
+export interface VirtualInputSettings {
+  inputId: string;   // VIRTUAL_INPUT_ID or the key of a MIDI input to impersonate
+  channel: number;   // 1-16
+  velocity: number;  // 1-127
+  octave: number;    // octave of the lowest piano key, in MIDI octave numbering (C4 = 60)
+}
+
+export const DEFAULT_VIRTUAL_INPUT: VirtualInputSettings = {
+  inputId: VIRTUAL_INPUT_ID,
+  channel: 1,
+  velocity: 100,
+  octave: 4,
+};
+
+export const MIN_OCTAVE = -1;
+export const MAX_OCTAVE = 8;
+
+// Lowest note of an octave in MIDI octave numbering
+export const octaveToNote = (octave: number) => (octave + 1) * 12;
+
+// Computer keys laid out like a piano: the home row plays white keys, the row above plays black keys
+export const COMPUTER_KEY_SEMITONES: Record<string, number> = {
+  a: 0, w: 1, s: 2, e: 3, d: 4, f: 5, t: 6, g: 7, y: 8, h: 9, u: 10, j: 11,
+  k: 12, o: 13, l: 14, p: 15, ';': 16,
+};
+
+// Keys that shift the keyboard, matching common DAW "typing keyboard" layouts
+export const OCTAVE_DOWN_KEY = 'z';
+export const OCTAVE_UP_KEY = 'x';
+export const VELOCITY_DOWN_KEY = 'c';
+export const VELOCITY_UP_KEY = 'v';
+export const VELOCITY_STEP = 10;
+
+// General MIDI drum notes, laid out bottom-left to top-right like a 4x4 pad controller
+export const DRUM_PADS: { note: number; label: string }[] = [
+  { note: 36, label: 'Kick' },
+  { note: 38, label: 'Snare' },
+  { note: 42, label: 'Closed HH' },
+  { note: 46, label: 'Open HH' },
+  { note: 41, label: 'Low Tom' },
+  { note: 45, label: 'Mid Tom' },
+  { note: 48, label: 'High Tom' },
+  { note: 39, label: 'Clap' },
+  { note: 49, label: 'Crash' },
+  { note: 51, label: 'Ride' },
+  { note: 37, label: 'Rim' },
+  { note: 56, label: 'Cowbell' },
+  { note: 40, label: 'Snare 2' },
+  { note: 44, label: 'Pedal HH' },
+  { note: 54, label: 'Tamb' },
+  { note: 70, label: 'Maracas' },
+];
+
+export const isBlackKey = (note: number) => [1, 3, 6, 8, 10].includes(note % 12);
+
+/**
+ * Where to send a shape's notes so it actually lights: its own input and channel when it
+ * filters on them, otherwise the virtual keyboard's. Every note of the range is played,
+ * so distributed shapes light all of their segments.
+ */
+export const getAuditionTarget = (shape: Shape, settings: VirtualInputSettings) => {
+  const notes: number[] = [];
+  for (let note = shape.noteStart; note <= shape.noteEnd; note++) notes.push(note);
+  return {
+    inputId: shape.inputId || settings.inputId,
+    channel: shape.channel || settings.channel,
+    notes,
+  };
+};